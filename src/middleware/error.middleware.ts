@@ -15,12 +15,14 @@ export class AppError extends Error {
   public statusCode: number;
   public code: string;
   public isOperational: boolean;
+  public details?: any;
 
-  constructor(message: string, statusCode: number = 500, code: string = 'INTERNAL_ERROR') {
+  constructor(message: string, statusCode: number = 500, code: string = 'INTERNAL_ERROR', details?: any) {
     super(message);
     this.statusCode = statusCode;
     this.code = code;
     this.isOperational = true;
+    this.details = details;
 
     Error.captureStackTrace(this, this.constructor);
   }
@@ -41,12 +43,14 @@ export const errorHandler = (
   let statusCode = 500;
   let code: string = ErrorCode.INTERNAL_ERROR;
   let message = 'Internal server error';
+  let details: any;
 
   // Handle AppError
   if (err instanceof AppError) {
     statusCode = err.statusCode;
     code = err.code;
     message = err.message;
+    details = err.details;
   }
 
   // Handle specific error types
@@ -75,6 +79,7 @@ export const errorHandler = (
     error: {
       code,
       message,
+      ...(details !== undefined && { details }),
       ...(process.env.NODE_ENV === 'development' && { stack: err.stack }),
     },
   });
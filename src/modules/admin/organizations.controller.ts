@@ -369,4 +369,123 @@ export class OrganizationsController {
       });
     }
   };
+
+  /**
+   * GET /api/admin/organizations/:id/scoring-policy
+   * Get the scoring policy in effect (inherits the platform default)
+   */
+  getScoringPolicy = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      const policy = await this.service.getScoringPolicy(id);
+
+      res.json({
+        success: true,
+        data: policy,
+      });
+    } catch (error: any) {
+      log.error('Error in getScoringPolicy:', error);
+
+      if (error.message === 'Organization not found') {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Organization not found',
+          },
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to fetch scoring policy',
+        },
+      });
+    }
+  };
+
+  /**
+   * GET /api/admin/organizations/:id/scoring-policy/versions
+   * Get stored scoring policy versions
+   */
+  getScoringPolicyVersions = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      const policy = await this.service.getScoringPolicyVersions(id);
+
+      res.json({
+        success: true,
+        data: policy,
+      });
+    } catch (error: any) {
+      log.error('Error in getScoringPolicyVersions:', error);
+
+      if (error.message === 'Organization not found') {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Organization not found',
+          },
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to fetch scoring policy versions',
+        },
+      });
+    }
+  };
+
+  /**
+   * PUT /api/admin/organizations/:id/scoring-policy
+   * Update the scoring policy (stores a new version)
+   */
+  updateScoringPolicy = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      const policy = await this.service.updateScoringPolicy(
+        id,
+        req.body,
+        req.user!.id,
+        req.ip
+      );
+
+      res.json({
+        success: true,
+        data: policy,
+      });
+    } catch (error: any) {
+      log.error('Error in updateScoringPolicy:', error);
+
+      if (error.message === 'Organization not found') {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Organization not found',
+          },
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to update scoring policy',
+        },
+      });
+    }
+  };
 }
@@ -13,6 +13,7 @@ import {
   validateUpdateOrganization,
   validateUpdateSubscription,
   validateUpdateFeatureFlags,
+  validateUpdateScoringPolicy,
   validateUuidParam,
   validatePagination,
 } from './organizations.validation';
@@ -84,4 +85,27 @@ router.patch(
   controller.updateFeatureFlags
 );
 
+/**
+ * GET /api/admin/organizations/:id/scoring-policy
+ * Get the scoring policy in effect for the organization
+ */
+router.get('/:id/scoring-policy', validateUuidParam('id'), controller.getScoringPolicy);
+
+/**
+ * GET /api/admin/organizations/:id/scoring-policy/versions
+ * Get stored scoring policy versions
+ */
+router.get('/:id/scoring-policy/versions', validateUuidParam('id'), controller.getScoringPolicyVersions);
+
+/**
+ * PUT /api/admin/organizations/:id/scoring-policy
+ * Update the organization scoring policy (stores a new version)
+ */
+router.put(
+  '/:id/scoring-policy',
+  validateUuidParam('id'),
+  validateUpdateScoringPolicy,
+  controller.updateScoringPolicy
+);
+
 export default router;
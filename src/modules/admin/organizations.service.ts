@@ -7,15 +7,19 @@
 import { Pool } from 'pg';
 import { OrganizationsRepository, CreateOrganizationData, UpdateOrganizationData } from './organizations.repository';
 import { AuditService } from './audit.service';
+import { ScoringPolicyService } from '../educational/scoring-policy.service';
+import { UpdateScoringPolicyDto } from '../educational/educational.types';
 import { log } from '../../shared/utils/logger';
 
 export class OrganizationsService {
   private repository: OrganizationsRepository;
   private auditService: AuditService;
+  private scoringPolicyService: ScoringPolicyService;
 
   constructor(private pool: Pool) {
     this.repository = new OrganizationsRepository(pool);
     this.auditService = new AuditService(pool);
+    this.scoringPolicyService = new ScoringPolicyService(pool);
   }
 
   /**
@@ -258,6 +262,65 @@ export class OrganizationsService {
     }
   }
 
+  /**
+   * Get the scoring policy in effect for an organization
+   *
+   * Falls back to the platform default (organizationId null) when the
+   * organization has no policy of its own.
+   */
+  async getScoringPolicy(id: string) {
+    try {
+      await this.assertExists(id);
+      return await this.scoringPolicyService.getEffectivePolicy(id);
+    } catch (error) {
+      log.error('Error in getScoringPolicy:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the stored scoring policy versions of an organization
+   */
+  async getScoringPolicyVersions(id: string) {
+    try {
+      await this.assertExists(id);
+      return await this.scoringPolicyService.getPolicyVersions(id);
+    } catch (error) {
+      log.error('Error in getScoringPolicyVersions:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update the scoring policy of an organization (stores a new version)
+   */
+  async updateScoringPolicy(
+    id: string,
+    dto: UpdateScoringPolicyDto,
+    actorId: string,
+    actorIp?: string
+  ) {
+    try {
+      await this.assertExists(id);
+
+      const { previous, current } = await this.scoringPolicyService.updatePolicy(id, dto, actorId);
+
+      // Audit log
+      await this.auditService.logSystemConfigChanged(
+        `scoring_policy:${id}`,
+        previous.policy,
+        current.policy,
+        actorId,
+        actorIp
+      );
+
+      return current;
+    } catch (error) {
+      log.error('Error in updateScoringPolicy:', error);
+      throw error;
+    }
+  }
+
   /**
    * Get organization statistics
    */
@@ -282,6 +345,16 @@ export class OrganizationsService {
     }
   }
 
+  /**
+   * Throw if the organization does not exist
+   */
+  private async assertExists(id: string): Promise<void> {
+    const organization = await this.repository.getById(id);
+    if (!organization) {
+      throw new Error('Organization not found');
+    }
+  }
+
   /**
    * Validate subscription tier limits
    */
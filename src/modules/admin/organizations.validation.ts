@@ -211,6 +211,82 @@ export const validateUpdateFeatureFlags = (
   next();
 };
 
+/**
+ * Validate Update Scoring Policy Request
+ *
+ * Every section is optional; omitted settings keep their current value.
+ */
+export const validateUpdateScoringPolicy = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  const errors: string[] = [];
+  const body = req.body || {};
+
+  const sections: Record<string, string[] | null> = {
+    passingScore: null,
+    difficultyMultipliers: ['beginner', 'intermediate', 'advanced'],
+    rankMultipliers: ['nacom', 'batab', 'holcatte', 'guerrero', 'mercenario'],
+    streak: ['percentPerDay', 'maxPercent'],
+    bonuses: ['perfect', 'noHints', 'speed', 'speedTimeRatio', 'firstAttempt', 'firstAttemptMinScore'],
+    penalties: ['perPowerup'],
+  };
+
+  const isNumber = (value: any) => typeof value === 'number' && Number.isFinite(value);
+
+  Object.keys(body).forEach((key) => {
+    if (!(key in sections)) {
+      errors.push(`Unknown scoring policy setting: ${key}`);
+    }
+  });
+
+  if (Object.keys(body).length === 0) {
+    errors.push('At least one scoring policy setting must be provided');
+  }
+
+  if (body.passingScore !== undefined && (!isNumber(body.passingScore) || body.passingScore < 0 || body.passingScore > 100)) {
+    errors.push('passingScore must be a number between 0 and 100');
+  }
+
+  Object.entries(sections).forEach(([section, keys]) => {
+    if (!keys || body[section] === undefined) return;
+
+    if (!body[section] || typeof body[section] !== 'object' || Array.isArray(body[section])) {
+      errors.push(`${section} must be an object`);
+      return;
+    }
+
+    Object.entries(body[section]).forEach(([key, value]: [string, any]) => {
+      if (!keys.includes(key)) {
+        errors.push(`Invalid ${section} key: ${key}`);
+      } else if (!isNumber(value) || value < 0) {
+        errors.push(`${section}.${key} must be a non-negative number`);
+      } else if (section.endsWith('Multipliers') && (value <= 0 || value > 5)) {
+        errors.push(`${section}.${key} must be greater than 0 and at most 5`);
+      } else if (['percentPerDay', 'maxPercent', 'speedTimeRatio'].includes(key) && value > 1) {
+        errors.push(`${section}.${key} must be between 0 and 1`);
+      } else if (section !== 'streak' && key !== 'speedTimeRatio' && value > 100) {
+        errors.push(`${section}.${key} must be at most 100`);
+      }
+    });
+  });
+
+  if (errors.length > 0) {
+    res.status(400).json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: 'Invalid request data',
+        details: errors,
+      },
+    });
+    return;
+  }
+
+  next();
+};
+
 /**
  * Validate UUID Parameter
  */
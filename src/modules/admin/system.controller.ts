@@ -328,4 +328,76 @@ export class SystemController {
       });
     }
   };
+
+  /**
+   * GET /api/admin/system/scoring-policy
+   * Get the platform default scoring policy
+   */
+  getScoringPolicy = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const policy = await this.service.getScoringPolicy();
+
+      res.json({
+        success: true,
+        data: policy,
+      });
+    } catch (error) {
+      log.error('Error in getScoringPolicy:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to fetch scoring policy',
+        },
+      });
+    }
+  };
+
+  /**
+   * GET /api/admin/system/scoring-policy/versions
+   * Get stored versions of the platform default scoring policy
+   */
+  getScoringPolicyVersions = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const policy = await this.service.getScoringPolicyVersions();
+
+      res.json({
+        success: true,
+        data: policy,
+      });
+    } catch (error) {
+      log.error('Error in getScoringPolicyVersions:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to fetch scoring policy versions',
+        },
+      });
+    }
+  };
+
+  /**
+   * PUT /api/admin/system/scoring-policy
+   * Update the platform default scoring policy (stores a new version)
+   */
+  updateScoringPolicy = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const policy = await this.service.updateScoringPolicy(req.body, req.user!.id, req.ip);
+
+      res.json({
+        success: true,
+        data: policy,
+      });
+    } catch (error) {
+      log.error('Error in updateScoringPolicy:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to update scoring policy',
+        },
+      });
+    }
+  };
 }
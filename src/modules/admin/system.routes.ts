@@ -8,7 +8,7 @@ import { Router } from 'express';
 import { SystemController } from './system.controller';
 import { authenticateJWT } from '../../middleware/auth.middleware';
 import { requireSuperAdmin, adminRateLimit, auditAdminAction } from './admin.middleware';
-import { validateUuidParam, validatePagination } from './organizations.validation';
+import { validateUuidParam, validatePagination, validateUpdateScoringPolicy } from './organizations.validation';
 
 const router = Router();
 const controller = new SystemController();
@@ -61,4 +61,22 @@ router.post('/maintenance', controller.toggleMaintenance);
  */
 router.get('/statistics', controller.getStatistics);
 
+/**
+ * GET /api/admin/system/scoring-policy
+ * Get the platform default scoring policy
+ */
+router.get('/scoring-policy', controller.getScoringPolicy);
+
+/**
+ * GET /api/admin/system/scoring-policy/versions
+ * Get stored versions of the platform default scoring policy
+ */
+router.get('/scoring-policy/versions', controller.getScoringPolicyVersions);
+
+/**
+ * PUT /api/admin/system/scoring-policy
+ * Update the platform default scoring policy (stores a new version)
+ */
+router.put('/scoring-policy', validateUpdateScoringPolicy, controller.updateScoringPolicy);
+
 export default router;
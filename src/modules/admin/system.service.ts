@@ -8,17 +8,21 @@ import { Pool } from 'pg';
 import { SystemRepository } from './system.repository';
 import { HealthService } from './health.service';
 import { AuditService } from './audit.service';
+import { ScoringPolicyService } from '../educational/scoring-policy.service';
+import { UpdateScoringPolicyDto } from '../educational/educational.types';
 import { log } from '../../shared/utils/logger';
 
 export class SystemService {
   private repository: SystemRepository;
   private healthService: HealthService;
   private auditService: AuditService;
+  private scoringPolicyService: ScoringPolicyService;
 
   constructor(private pool: Pool) {
     this.repository = new SystemRepository(pool);
     this.healthService = new HealthService(pool);
     this.auditService = new AuditService(pool);
+    this.scoringPolicyService = new ScoringPolicyService(pool);
   }
 
   /**
@@ -177,6 +181,53 @@ export class SystemService {
     }
   }
 
+  /**
+   * Get the platform default scoring policy
+   */
+  async getScoringPolicy() {
+    try {
+      return await this.scoringPolicyService.getEffectivePolicy(null);
+    } catch (error) {
+      log.error('Error in getScoringPolicy:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the stored versions of the platform default scoring policy
+   */
+  async getScoringPolicyVersions() {
+    try {
+      return await this.scoringPolicyService.getPolicyVersions(null);
+    } catch (error) {
+      log.error('Error in getScoringPolicyVersions:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update the platform default scoring policy (stores a new version)
+   */
+  async updateScoringPolicy(dto: UpdateScoringPolicyDto, actorId: string, actorIp?: string) {
+    try {
+      const { previous, current } = await this.scoringPolicyService.updatePolicy(null, dto, actorId);
+
+      // Audit log
+      await this.auditService.logSystemConfigChanged(
+        'scoring_policy',
+        previous.policy,
+        current.policy,
+        actorId,
+        actorIp
+      );
+
+      return current;
+    } catch (error) {
+      log.error('Error in updateScoringPolicy:', error);
+      throw error;
+    }
+  }
+
   /**
    * Get system statistics
    */
@@ -0,0 +1,137 @@
+/**
+ * Analytics Repository
+ *
+ * Data access layer for learner analytics and their cache.
+ */
+
+import { Pool, PoolClient } from 'pg';
+import { AnalyticsAttempt, AnalyticsTimeframe, LearningAnalytics } from './educational.types';
+import { log } from '../../shared/utils/logger';
+
+/**
+ * Cached analytics of a student for one timeframe
+ */
+export interface CachedAnalytics {
+  timeframe: AnalyticsTimeframe;
+  data: LearningAnalytics;
+  computedAt: Date;
+}
+
+export class AnalyticsRepository {
+  constructor(private pool: Pool) {}
+
+  /**
+   * Create analytics cache table if not exists
+   */
+  async ensureAnalyticsTables(client?: PoolClient): Promise<void> {
+    const db = client || this.pool;
+
+    try {
+      await db.query(`
+        CREATE TABLE IF NOT EXISTS progress_tracking.learner_analytics_cache (
+          user_id UUID NOT NULL,
+          timeframe TEXT NOT NULL,
+          data JSONB NOT NULL,
+          computed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+          PRIMARY KEY (user_id, timeframe)
+        );
+      `);
+    } catch (error) {
+      // Table might already exist, log and continue
+      log.debug('Analytics cache tables setup:', error);
+    }
+  }
+
+  /**
+   * Get the profile id of an auth user
+   */
+  async getProfileId(userId: string): Promise<string | null> {
+    const result = await this.pool.query(
+      `SELECT p.id FROM auth_management.profiles p WHERE p.user_id = $1`,
+      [userId]
+    );
+
+    return result.rows[0]?.id || null;
+  }
+
+  /**
+   * Whether a student (auth user id) is in one of a teacher's classrooms
+   */
+  async isStudentOfTeacher(studentId: string, teacherId: string): Promise<boolean> {
+    const result = await this.pool.query(
+      `SELECT 1 FROM classroom_students cs
+       JOIN classrooms c ON c.id = cs.classroom_id
+       WHERE c.teacher_id = $1 AND cs.student_id = $2
+       LIMIT 1`,
+      [teacherId, studentId]
+    );
+
+    return result.rows.length > 0;
+  }
+
+  /**
+   * A student's attempts since a time (null = all), oldest first
+   */
+  async getAttempts(profileId: string, since: Date | null): Promise<AnalyticsAttempt[]> {
+    const result = await this.pool.query(
+      `SELECT
+         ea.exercise_id as "exerciseId",
+         e.module_id as "moduleId",
+         m.title as "moduleName",
+         e.exercise_type as "exerciseType",
+         COALESCE(ea.score, 0)::float as score,
+         COALESCE(ea.is_correct, false) as "isCorrect",
+         COALESCE(ea.time_spent_seconds, 0) as "timeSpent",
+         ea.submitted_at as "submittedAt",
+         ea.grading_status IS NOT DISTINCT FROM 'pending_review' as "pendingReview"
+       FROM progress_tracking.exercise_attempts ea
+       JOIN educational_content.exercises e ON e.id = ea.exercise_id
+       LEFT JOIN educational_content.modules m ON m.id = e.module_id
+       WHERE ea.user_id = $1 AND ($2::timestamptz IS NULL OR ea.submitted_at >= $2)
+       ORDER BY ea.submitted_at ASC`,
+      [profileId, since]
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Get cached analytics of a student
+   */
+  async getCached(userId: string, timeframe: AnalyticsTimeframe): Promise<CachedAnalytics | null> {
+    const result = await this.pool.query(
+      `SELECT timeframe, data, computed_at as "computedAt"
+       FROM progress_tracking.learner_analytics_cache
+       WHERE user_id = $1 AND timeframe = $2`,
+      [userId, timeframe]
+    );
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Timeframes cached for a student
+   */
+  async getCachedTimeframes(userId: string): Promise<AnalyticsTimeframe[]> {
+    const result = await this.pool.query(
+      `SELECT timeframe FROM progress_tracking.learner_analytics_cache WHERE user_id = $1`,
+      [userId]
+    );
+
+    return result.rows.map(row => row.timeframe);
+  }
+
+  /**
+   * Cache a student's analytics for a timeframe
+   */
+  async saveCached(userId: string, analytics: LearningAnalytics): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO progress_tracking.learner_analytics_cache (user_id, timeframe, data, computed_at)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (user_id, timeframe) DO UPDATE SET
+         data = EXCLUDED.data,
+         computed_at = EXCLUDED.computed_at`,
+      [userId, analytics.timeframe, JSON.stringify(analytics), analytics.generatedAt]
+    );
+  }
+}
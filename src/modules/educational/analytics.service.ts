@@ -1,48 +1,128 @@
 /**
  * Analytics Service
  * Learning analytics and insights generation.
+ *
+ * A student's analytics are computed from their exercise attempts and
+ * cached per timeframe. New attempts and grades refresh the cached
+ * timeframes through the submission outbox; a cache computed before today
+ * (UTC) is recomputed on read, since the windows move every day.
  */
 
 import { Pool } from 'pg';
-import { LearningAnalytics, ClassroomAnalytics } from './educational.types';
+import { AnalyticsRepository } from './analytics.repository';
+import { ItemAnalysisService } from './item-analysis.service';
+import { AnalyticsTimeframe, LearningAnalytics, ClassroomAnalytics } from './educational.types';
+import { buildLearnerAnalytics, startOfDay, timeframeStart } from './utils/learner-analytics';
+import { AppError } from '../../middleware/error.middleware';
+import { ErrorCode } from '../../shared/types';
+import { log } from '../../shared/utils/logger';
+
+/**
+ * User requesting analytics
+ */
+export interface AnalyticsViewer {
+  userId: string;
+  role: string;
+}
 
 export class AnalyticsService {
-  constructor(private pool: Pool) {}
+  private repository: AnalyticsRepository;
+  private itemAnalysisService: ItemAnalysisService;
+
+  constructor(private pool: Pool) {
+    this.repository = new AnalyticsRepository(pool);
+    this.itemAnalysisService = new ItemAnalysisService(pool);
+  }
+
+  /**
+   * Initialize analytics (ensure cache table exists)
+   */
+  async initialize(): Promise<void> {
+    await this.repository.ensureAnalyticsTables();
+  }
 
   /**
    * Get learning analytics for user
+   *
+   * Visible to the student, admins and teachers of one of the student's
+   * classrooms.
+   *
+   * @param userId - auth user id
    */
-  async getUserAnalytics(userId: string, timeframe: string = 'month'): Promise<LearningAnalytics> {
-    // Would implement complex analytics queries
-    // This is a simplified version
-    return {
-      timeframe,
-      summary: {
-        totalTimeStudied: 0,
-        exercisesCompleted: 0,
-        averageScore: 0,
-        perfectScores: 0,
-        improvementRate: 0
-      },
-      performanceByModule: [],
-      performanceByType: [],
-      studyPattern: {
-        averageSessionDuration: 0,
-        preferredStudyTime: 'afternoon',
-        mostActiveDay: 'Monday',
-        studyConsistency: 0
-      },
-      trends: {
-        scoreOverTime: [],
-        activityOverTime: []
-      }
-    };
+  async getUserAnalytics(
+    userId: string,
+    viewer: AnalyticsViewer,
+    timeframe: AnalyticsTimeframe = 'month'
+  ): Promise<LearningAnalytics> {
+    await this.assertCanViewStudent(userId, viewer);
+
+    const cached = await this.repository.getCached(userId, timeframe);
+    if (cached && new Date(cached.computedAt) >= startOfDay(new Date())) {
+      return cached.data;
+    }
+
+    return this.computeUserAnalytics(userId, timeframe);
+  }
+
+  /**
+   * Recompute the cached timeframes of a student (after a new attempt)
+   *
+   * @param userId - auth user id
+   */
+  async refreshUserAnalytics(userId: string): Promise<void> {
+    const timeframes = await this.repository.getCachedTimeframes(userId);
+
+    for (const timeframe of timeframes) {
+      await this.computeUserAnalytics(userId, timeframe);
+    }
+  }
+
+  /**
+   * Throw unless the viewer is the student, an admin or a teacher of one of
+   * the student's classrooms
+   */
+  private async assertCanViewStudent(userId: string, viewer: AnalyticsViewer): Promise<void> {
+    if (viewer.userId === userId || viewer.role === 'super_admin') return;
+
+    if (viewer.role === 'admin_teacher' && await this.repository.isStudentOfTeacher(userId, viewer.userId)) {
+      return;
+    }
+
+    throw new AppError('You do not have access to this student\'s analytics', 403, ErrorCode.FORBIDDEN);
+  }
+
+  /**
+   * Compute a student's analytics and cache them
+   */
+  private async computeUserAnalytics(userId: string, timeframe: AnalyticsTimeframe): Promise<LearningAnalytics> {
+    const profileId = await this.repository.getProfileId(userId);
+    if (!profileId) {
+      throw new AppError('Profile not found', 404, ErrorCode.NOT_FOUND);
+    }
+
+    const now = new Date();
+    const attempts = await this.repository.getAttempts(profileId, timeframeStart(timeframe, now));
+    const analytics = buildLearnerAnalytics(attempts, timeframe, now);
+
+    await this.repository.saveCached(userId, analytics);
+    log.debug(`Learner analytics (${timeframe}) computed for user ${userId} from ${attempts.length} attempt(s)`);
+
+    return analytics;
   }
 
   /**
    * Get classroom analytics
+   *
+   * Common mistakes come from the item analysis of the students' first
+   * attempts. Only the classroom's teacher and admins can see them.
    */
-  async getClassroomAnalytics(classroomId: string, timeframe: string = 'month'): Promise<ClassroomAnalytics> {
+  async getClassroomAnalytics(
+    classroomId: string,
+    viewer: AnalyticsViewer,
+    timeframe: string = 'month'
+  ): Promise<ClassroomAnalytics> {
+    const commonMistakes = await this.itemAnalysisService.getClassroomMistakes(classroomId, viewer);
+
     // Would implement classroom-wide analytics
     return {
       classroomId,
@@ -57,7 +137,7 @@ export class AnalyticsService {
       topPerformers: [],
       strugglingStudents: [],
       modulePerformance: [],
-      commonMistakes: []
+      commonMistakes
     };
   }
 }
@@ -0,0 +1,85 @@
+/**
+ * Attempt Grading Controller
+ * HTTP request handlers for teachers' rubric grading of manually scored
+ * attempts.
+ */
+
+import { Response, NextFunction } from 'express';
+import { AuthRequest } from '../../shared/types';
+import { AttemptGradingService } from './attempt-grading.service';
+import { GradeAttemptDto } from './educational.types';
+
+export class AttemptGradingController {
+  constructor(private gradingService: AttemptGradingService) {}
+
+  /**
+   * GET /api/educational/attempts/pending-grading
+   *
+   * Query: exerciseId, page, limit
+   */
+  getPendingAttempts = async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      const result = await this.gradingService.getPendingAttempts(
+        { userId: req.user?.id!, role: req.user?.role! },
+        {
+          exerciseId: req.query.exerciseId as string | undefined,
+          page: parseInt(req.query.page as string) || 1,
+          limit: Math.min(parseInt(req.query.limit as string) || 20, 100)
+        }
+      );
+
+      res.json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * GET /api/educational/attempts/:attemptId/grading
+   *
+   * The attempt's answers, the rubric to grade it with and its current grade.
+   */
+  getAttemptForGrading = async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      const { attemptId } = req.params;
+
+      const attempt = await this.gradingService.getAttemptForGrading(
+        attemptId,
+        { userId: req.user?.id!, role: req.user?.role! }
+      );
+
+      res.json({
+        success: true,
+        data: attempt
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/educational/attempts/:attemptId/grade
+   */
+  gradeAttempt = async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      const { attemptId } = req.params;
+      const dto: GradeAttemptDto = req.body;
+
+      const grade = await this.gradingService.gradeAttempt(
+        attemptId,
+        dto,
+        { userId: req.user?.id!, role: req.user?.role! }
+      );
+
+      res.json({
+        success: true,
+        data: grade
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
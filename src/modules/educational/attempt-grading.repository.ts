@@ -0,0 +1,317 @@
+/**
+ * Attempt Grading Repository
+ *
+ * Data access layer for teachers' rubric grades of manually scored
+ * attempts.
+ */
+
+import { Pool, PoolClient } from 'pg';
+import {
+  AttemptGrade,
+  AttemptGradingStatus,
+  ComodinType,
+  ExerciseContent,
+  ExerciseRubric,
+  ExerciseType,
+  GradingContext,
+  PendingGradingAttempt,
+  RubricScore
+} from './educational.types';
+import { log } from '../../shared/utils/logger';
+
+/**
+ * Attempt with what is needed to grade it against its exercise's rubric
+ * and settle its rewards
+ */
+export interface GradableAttempt {
+  attemptId: string;
+  userId: string; // profile id
+  authUserId: string;
+  studentName: string | null;
+  exerciseId: string;
+  exerciseTitle: string;
+  exerciseType: ExerciseType;
+  content: ExerciseContent;
+  rubric: ExerciseRubric | null;
+  passingScore: number | null;
+  answers: any;
+  score: number;
+  isCorrect: boolean;
+  timeSpent: number;
+  powerupsUsed: ComodinType[];
+  xpEarned: number;
+  mlCoinsEarned: number;
+  submittedAt: Date;
+  scoringPolicyId: string | null; // Null for the built-in policy
+  gradingStatus: AttemptGradingStatus | null;
+  gradingContext: GradingContext | null; // Null for attempts submitted before grading was deferred
+  currentRank: string;
+  streakDays: number;
+  earlierAttempts: number;
+  otherBestScore: number; // Best score of the student's other attempts at the exercise
+  passedBefore: boolean; // Another attempt at the exercise passed
+}
+
+const GRADE_COLUMNS = `
+  g.id,
+  g.attempt_id as "attemptId",
+  g.graded_by as "gradedBy",
+  g.criteria,
+  g.comments,
+  g.earned_points as "earnedPoints",
+  g.max_points as "maxPoints",
+  g.score,
+  g.passed,
+  g.rubric,
+  g.graded_at as "gradedAt",
+  g.updated_at as "updatedAt"
+`;
+
+/**
+ * Grading scope for teachers: students in one of their classrooms
+ */
+function teacherScope(teacherParam: string): string {
+  return `
+    EXISTS (
+      SELECT 1 FROM classroom_students cs
+      JOIN classrooms c ON c.id = cs.classroom_id
+      WHERE c.teacher_id = ${teacherParam} AND cs.student_id = p.user_id
+    )
+  `;
+}
+
+export class AttemptGradingRepository {
+  constructor(private pool: Pool) {}
+
+  /**
+   * Create attempt grades table if not exists
+   */
+  async ensureGradingTables(client?: PoolClient): Promise<void> {
+    const db = client || this.pool;
+
+    try {
+      await db.query(`
+        CREATE TABLE IF NOT EXISTS progress_tracking.attempt_grades (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          attempt_id UUID NOT NULL UNIQUE REFERENCES progress_tracking.exercise_attempts(id) ON DELETE CASCADE,
+          graded_by UUID NOT NULL,
+          criteria JSONB NOT NULL,
+          comments TEXT,
+          earned_points DOUBLE PRECISION NOT NULL,
+          max_points DOUBLE PRECISION NOT NULL,
+          score INTEGER NOT NULL,
+          passed BOOLEAN NOT NULL,
+          rubric JSONB NOT NULL,
+          graded_at TIMESTAMPTZ DEFAULT NOW(),
+          updated_at TIMESTAMPTZ DEFAULT NOW()
+        );
+
+        ALTER TABLE progress_tracking.exercise_attempts
+          ADD COLUMN IF NOT EXISTS grading_status TEXT,
+          ADD COLUMN IF NOT EXISTS grading_context JSONB;
+
+        CREATE INDEX IF NOT EXISTS idx_exercise_attempts_pending_review
+          ON progress_tracking.exercise_attempts(submitted_at) WHERE grading_status = 'pending_review';
+      `);
+    } catch (error) {
+      // Table might already exist, log and continue
+      log.debug('Attempt grading tables setup:', error);
+    }
+  }
+
+  /**
+   * Get an attempt for grading, within a teacher's scope (null = any)
+   *
+   * With a client the attempt row is locked until the transaction ends.
+   */
+  async getAttempt(attemptId: string, teacherId: string | null, dbClient?: PoolClient): Promise<GradableAttempt | null> {
+    const client = dbClient || this.pool;
+
+    const result = await client.query(
+      `SELECT
+         ea.id as "attemptId",
+         ea.user_id as "userId",
+         p.user_id as "authUserId",
+         COALESCE(p.display_name, p.full_name) as "studentName",
+         ea.exercise_id as "exerciseId",
+         e.title as "exerciseTitle",
+         e.exercise_type as "exerciseType",
+         e.content,
+         e.rubric,
+         e.passing_score as "passingScore",
+         ea.submitted_answers as answers,
+         ea.score,
+         ea.is_correct as "isCorrect",
+         COALESCE(ea.time_spent_seconds, 0) as "timeSpent",
+         COALESCE(ea.comodines_used, '{}') as "powerupsUsed",
+         COALESCE(ea.xp_earned, 0) as "xpEarned",
+         COALESCE(ea.ml_coins_earned, 0) as "mlCoinsEarned",
+         ea.submitted_at as "submittedAt",
+         ea.scoring_policy_id as "scoringPolicyId",
+         ea.grading_status as "gradingStatus",
+         ea.grading_context as "gradingContext",
+         COALESCE(ur.current_rank::text, 'nacom') as "currentRank",
+         COALESCE(us.current_streak, 0) as "streakDays",
+         (SELECT COUNT(*)::int FROM progress_tracking.exercise_attempts o
+          WHERE o.user_id = ea.user_id AND o.exercise_id = ea.exercise_id
+            AND o.submitted_at < ea.submitted_at) as "earlierAttempts",
+         (SELECT COALESCE(MAX(o.score), 0) FROM progress_tracking.exercise_attempts o
+          WHERE o.user_id = ea.user_id AND o.exercise_id = ea.exercise_id AND o.id <> ea.id) as "otherBestScore",
+         EXISTS (SELECT 1 FROM progress_tracking.exercise_attempts o
+          WHERE o.user_id = ea.user_id AND o.exercise_id = ea.exercise_id
+            AND o.id <> ea.id AND o.is_correct) as "passedBefore"
+       FROM progress_tracking.exercise_attempts ea
+       JOIN auth_management.profiles p ON p.id = ea.user_id
+       JOIN educational_content.exercises e ON e.id = ea.exercise_id
+       LEFT JOIN gamification_system.user_stats us ON us.user_id = ea.user_id
+       LEFT JOIN gamification_system.user_ranks ur ON ur.user_id = ea.user_id AND ur.is_current = true
+       WHERE ea.id = $1 AND ($2::uuid IS NULL OR ${teacherScope('$2')})
+       ${dbClient ? 'FOR UPDATE OF ea' : ''}`,
+      [attemptId, teacherId]
+    );
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Attempts waiting for a grade, oldest first, within a teacher's scope
+   * (null = any)
+   */
+  async getPendingAttempts(filters: {
+    teacherId: string | null;
+    exerciseId?: string;
+    limit: number;
+    offset: number;
+  }): Promise<{ attempts: PendingGradingAttempt[]; total: number }> {
+    const where = `
+      WHERE ea.grading_status = 'pending_review'
+        AND ($1::uuid IS NULL OR ${teacherScope('$1')})
+        AND ($2::uuid IS NULL OR ea.exercise_id = $2)
+    `;
+
+    const [attemptsResult, countResult] = await Promise.all([
+      this.pool.query(
+        `SELECT
+           ea.id as "attemptId",
+           ea.user_id as "userId",
+           COALESCE(p.display_name, p.full_name) as "studentName",
+           ea.exercise_id as "exerciseId",
+           e.title as "exerciseTitle",
+           e.exercise_type as "exerciseType",
+           ea.submitted_at as "submittedAt"
+         FROM progress_tracking.exercise_attempts ea
+         JOIN auth_management.profiles p ON p.id = ea.user_id
+         JOIN educational_content.exercises e ON e.id = ea.exercise_id
+         ${where}
+         ORDER BY ea.submitted_at ASC
+         LIMIT $3 OFFSET $4`,
+        [filters.teacherId, filters.exerciseId || null, filters.limit, filters.offset]
+      ),
+      this.pool.query(
+        `SELECT COUNT(*)::int as total
+         FROM progress_tracking.exercise_attempts ea
+         JOIN auth_management.profiles p ON p.id = ea.user_id
+         ${where}`,
+        [filters.teacherId, filters.exerciseId || null]
+      )
+    ]);
+
+    return { attempts: attemptsResult.rows, total: countResult.rows[0].total };
+  }
+
+  /**
+   * Get the rubric grade of an attempt
+   */
+  async getGrade(attemptId: string, dbClient?: PoolClient): Promise<AttemptGrade | null> {
+    const client = dbClient || this.pool;
+
+    const result = await client.query(
+      `SELECT ${GRADE_COLUMNS}
+       FROM progress_tracking.attempt_grades g
+       WHERE g.attempt_id = $1`,
+      [attemptId]
+    );
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Save the rubric grade of an attempt (a regrade replaces it)
+   */
+  async saveGrade(
+    client: PoolClient,
+    attemptId: string,
+    gradedBy: string,
+    scored: RubricScore,
+    passed: boolean,
+    rubric: ExerciseRubric,
+    comments: string | null
+  ): Promise<AttemptGrade> {
+    const result = await client.query(
+      `INSERT INTO progress_tracking.attempt_grades AS g (
+         attempt_id, graded_by, criteria, comments,
+         earned_points, max_points, score, passed, rubric
+       ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+       ON CONFLICT (attempt_id) DO UPDATE SET
+         graded_by = EXCLUDED.graded_by,
+         criteria = EXCLUDED.criteria,
+         comments = EXCLUDED.comments,
+         earned_points = EXCLUDED.earned_points,
+         max_points = EXCLUDED.max_points,
+         score = EXCLUDED.score,
+         passed = EXCLUDED.passed,
+         rubric = EXCLUDED.rubric,
+         updated_at = NOW()
+       RETURNING ${GRADE_COLUMNS}`,
+      [
+        attemptId,
+        gradedBy,
+        JSON.stringify(scored.criteria),
+        comments,
+        scored.earnedPoints,
+        scored.maxPoints,
+        scored.score,
+        passed,
+        JSON.stringify(rubric)
+      ]
+    );
+
+    return result.rows[0];
+  }
+
+  /**
+   * Record the graded score and settled rewards on the attempt
+   */
+  async settleAttempt(
+    client: PoolClient,
+    attemptId: string,
+    score: number,
+    passed: boolean,
+    xpEarned: number,
+    mlCoinsEarned: number
+  ): Promise<void> {
+    await client.query(
+      `UPDATE progress_tracking.exercise_attempts
+       SET score = $2,
+           is_correct = $3,
+           xp_earned = $4,
+           ml_coins_earned = $5,
+           grading_status = 'graded'
+       WHERE id = $1`,
+      [attemptId, score, passed, xpEarned, mlCoinsEarned]
+    );
+  }
+
+  /**
+   * Adjust a student's total XP (never below zero)
+   */
+  async adjustUserXp(client: PoolClient, userId: string, delta: number): Promise<void> {
+    await client.query(
+      `UPDATE gamification_system.user_stats
+       SET total_xp = GREATEST(total_xp + $1, 0),
+           updated_at = NOW()
+       WHERE user_id = $2`,
+      [delta, userId]
+    );
+  }
+}
@@ -0,0 +1,375 @@
+/**
+ * Attempt Grading Service
+ *
+ * Rubric grading of the exercise types a teacher scores by hand. Their
+ * attempts are saved pending review with a score of 0 and no rewards; a
+ * teacher then picks a performance level per rubric criterion, and the
+ * share of the rubric's points earned becomes the attempt's base score.
+ *
+ * Grading settles the attempt like a live submission: multipliers and
+ * bonuses (as they were at submission), XP and ML Coins, then rank
+ * promotion, achievements, module progress, missions, learner analytics
+ * and a notification through the submission outbox. Grading again
+ * replaces the previous grade and credits only the difference in rewards.
+ */
+
+import { Pool } from 'pg';
+import { AttemptGradingRepository, GradableAttempt } from './attempt-grading.repository';
+import { ExercisesRepository } from './exercises.repository';
+import { SubmissionOutboxRepository } from './submission-outbox.repository';
+import { ScoringService } from './scoring.service';
+import { ScoringPolicyService } from './scoring-policy.service';
+import { scorerRegistry } from './scorers';
+import { resolveRubric, scoreRubric } from './utils/rubric';
+import {
+  AttemptForGrading,
+  AttemptGradeResult,
+  ExerciseResponse,
+  GradeAttemptDto,
+  GradingContext,
+  PendingGradingAttempt,
+  ScoreResult,
+  ScoringPolicyVersion,
+  SubmissionEventInput
+} from './educational.types';
+import { CoinsRepository } from '../gamification/coins.repository';
+import { RanksService } from '../gamification/ranks.service';
+import { RanksRepository } from '../gamification/ranks.repository';
+import { AppError } from '../../middleware/error.middleware';
+import { ErrorCode } from '../../shared/types';
+import { log } from '../../shared/utils/logger';
+
+/**
+ * Teacher grading an attempt
+ */
+export interface AttemptGrader {
+  userId: string;
+  role: string;
+}
+
+export class AttemptGradingService {
+  private repository: AttemptGradingRepository;
+  private exercisesRepository: ExercisesRepository;
+  private outboxRepository: SubmissionOutboxRepository;
+  private coinsRepository: CoinsRepository;
+  private scoringService: ScoringService;
+  private scoringPolicyService: ScoringPolicyService;
+
+  constructor(private pool: Pool) {
+    this.repository = new AttemptGradingRepository(pool);
+    this.exercisesRepository = new ExercisesRepository(pool);
+    this.outboxRepository = new SubmissionOutboxRepository(pool);
+    this.coinsRepository = new CoinsRepository(pool);
+    this.scoringService = new ScoringService(pool, new RanksService(new RanksRepository(pool)));
+    this.scoringPolicyService = new ScoringPolicyService(pool);
+  }
+
+  /**
+   * Initialize attempt grading (ensure table and columns exist)
+   */
+  async initialize(): Promise<void> {
+    await this.repository.ensureGradingTables();
+  }
+
+  /**
+   * Attempts waiting for a grade, oldest first (teachers see their
+   * classrooms)
+   */
+  async getPendingAttempts(
+    grader: AttemptGrader,
+    filters: { exerciseId?: string; page?: number; limit?: number }
+  ): Promise<{ attempts: PendingGradingAttempt[]; total: number; page: number; limit: number }> {
+    const page = filters.page || 1;
+    const limit = filters.limit || 20;
+
+    const { attempts, total } = await this.repository.getPendingAttempts({
+      teacherId: this.scopeFor(grader),
+      exerciseId: filters.exerciseId,
+      limit,
+      offset: (page - 1) * limit
+    });
+
+    return { attempts, total, page, limit };
+  }
+
+  /**
+   * An attempt with the rubric to grade it and its current grade
+   */
+  async getAttemptForGrading(attemptId: string, grader: AttemptGrader): Promise<AttemptForGrading> {
+    const attempt = await this.repository.getAttempt(attemptId, this.scopeFor(grader));
+    if (!attempt) {
+      throw new AppError('Attempt not found', 404, ErrorCode.NOT_FOUND);
+    }
+
+    const resolved = this.resolveGradingRubric(attempt);
+
+    return {
+      attemptId: attempt.attemptId,
+      userId: attempt.userId,
+      studentName: attempt.studentName,
+      exerciseId: attempt.exerciseId,
+      exerciseTitle: attempt.exerciseTitle,
+      exerciseType: attempt.exerciseType,
+      answers: attempt.answers,
+      score: attempt.score,
+      submittedAt: attempt.submittedAt,
+      gradingStatus: attempt.gradingStatus,
+      rubric: resolved.rubric,
+      rubricSource: resolved.source,
+      grade: await this.repository.getGrade(attempt.attemptId)
+    };
+  }
+
+  /**
+   * Grade an attempt criterion by criterion and settle its rewards
+   *
+   * The grade, the attempt's score and rewards, the ML Coins ledger entry
+   * and the outbox events are written in one transaction. Attempts rejected
+   * at submission cannot be graded.
+   */
+  async gradeAttempt(attemptId: string, dto: GradeAttemptDto, grader: AttemptGrader): Promise<AttemptGradeResult> {
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const attempt = await this.repository.getAttempt(attemptId, this.scopeFor(grader), client);
+      if (!attempt) {
+        throw new AppError('Attempt not found', 404, ErrorCode.NOT_FOUND);
+      }
+      if (attempt.gradingStatus === 'rejected') {
+        throw new AppError('Attempts rejected at submission cannot be graded', 409, 'ATTEMPT_NOT_GRADABLE');
+      }
+
+      const { rubric } = this.resolveGradingRubric(attempt);
+      const scored = scoreRubric(rubric, dto.criteria);
+
+      const exercise = await this.exercisesRepository.getExerciseById(attempt.exerciseId);
+      if (!exercise) {
+        throw new AppError('Exercise not found', 404, ErrorCode.NOT_FOUND);
+      }
+
+      const settled = this.settle(attempt, exercise, scored.score, await this.policyFor(attempt));
+      const xpDelta = settled.xp - attempt.xpEarned;
+      const mlCoinsDelta = settled.mlCoins - attempt.mlCoinsEarned;
+
+      const grade = await this.repository.saveGrade(
+        client,
+        attempt.attemptId,
+        grader.userId,
+        scored,
+        settled.passed,
+        rubric,
+        dto.comments?.trim() || null
+      );
+      await this.repository.settleAttempt(
+        client,
+        attempt.attemptId,
+        settled.finalScore,
+        settled.passed,
+        settled.xp,
+        settled.mlCoins
+      );
+
+      if (xpDelta !== 0) {
+        await this.repository.adjustUserXp(client, attempt.userId, xpDelta);
+      }
+
+      if (mlCoinsDelta !== 0) {
+        await this.coinsRepository.adjustCoins(
+          {
+            userId: attempt.userId,
+            amount: mlCoinsDelta,
+            reason: `Graded ${attempt.exerciseTitle}`,
+            transactionType: mlCoinsDelta > 0 ? 'earned_exercise' : 'admin_adjustment',
+            referenceId: attempt.attemptId,
+            referenceType: 'exercise_attempt',
+            metadata: { gradedBy: grader.userId }
+          },
+          client
+        );
+      }
+
+      const events = this.buildGradingEvents(attempt, exercise, settled, { xp: xpDelta, mlCoins: mlCoinsDelta });
+      await this.outboxRepository.enqueueEvents(client, attempt.attemptId, attempt.authUserId, events);
+
+      await client.query('COMMIT');
+
+      log.info(`Attempt ${attempt.attemptId} graded ${settled.finalScore} by ${grader.userId}`);
+
+      return {
+        ...grade,
+        settlement: {
+          finalScore: settled.finalScore,
+          passed: settled.passed,
+          multipliers: settled.multipliers,
+          bonuses: settled.bonuses,
+          penalties: settled.penalties,
+          rewards: { xp: xpDelta, mlCoins: mlCoinsDelta },
+          pendingEvents: events.map(event => event.eventType)
+        }
+      };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Rubric of a manually scored attempt's exercise
+   */
+  private resolveGradingRubric(attempt: GradableAttempt): NonNullable<ReturnType<typeof resolveRubric>> {
+    if (!scorerRegistry.isManual(attempt)) {
+      throw new AppError(
+        `${attempt.exerciseType} exercises are scored automatically`,
+        400,
+        'ATTEMPT_NOT_MANUALLY_GRADED'
+      );
+    }
+
+    const resolved = resolveRubric(attempt.rubric, attempt.content);
+    if (!resolved) {
+      throw new AppError('The exercise has no rubric to grade with', 400, 'RUBRIC_REQUIRED', {
+        exerciseId: attempt.exerciseId
+      });
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Run the rubric score through the live scoring pipeline
+   *
+   * Multipliers and bonuses use the student's standing at submission;
+   * attempts submitted before grading was deferred use the current rank
+   * and streak. Rewards count the improvement over the student's other
+   * attempts at the exercise.
+   */
+  private settle(
+    attempt: GradableAttempt,
+    exercise: ExerciseResponse,
+    baseScore: number,
+    policy: ScoringPolicyVersion
+  ): ScoreResult {
+    const context: GradingContext = attempt.gradingContext || {
+      currentRank: attempt.currentRank,
+      streakDays: attempt.streakDays,
+      firstAttempt: attempt.earlierAttempts === 0,
+      timeOveragePenalty: 0
+    };
+
+    return this.scoringService.scoreGradedAttempt(
+      baseScore,
+      {
+        userId: attempt.authUserId,
+        exerciseId: attempt.exerciseId,
+        answers: attempt.answers,
+        timeSpent: attempt.timeSpent,
+        powerupsUsed: attempt.powerupsUsed,
+        timeOveragePenalty: context.timeOveragePenalty
+      },
+      {
+        ...exercise,
+        passingScore: attempt.passingScore,
+        userProgress: {
+          attempts: context.firstAttempt ? 0 : 1,
+          bestScore: attempt.otherBestScore,
+          completed: attempt.passedBefore
+        }
+      },
+      { currentRank: context.currentRank, streakDays: context.streakDays },
+      policy.policy
+    );
+  }
+
+  /**
+   * Side effects of a grade, as outbox events (handled by auth user id)
+   *
+   * Completion events fire when the attempt passes for the first time;
+   * module progress only if no other attempt at the exercise passed.
+   */
+  private buildGradingEvents(
+    attempt: GradableAttempt,
+    exercise: ExerciseResponse,
+    settled: ScoreResult,
+    rewards: { xp: number; mlCoins: number }
+  ): SubmissionEventInput[] {
+    const events: SubmissionEventInput[] = [
+      {
+        eventType: 'achievements.check',
+        payload: {
+          exerciseId: attempt.exerciseId,
+          score: settled.finalScore,
+          hintsUsed: attempt.powerupsUsed.length,
+          timeSpent: attempt.timeSpent
+        }
+      },
+      { eventType: 'rank.check', payload: {} }
+    ];
+
+    const newlyPassed = settled.passed && !attempt.isCorrect;
+
+    if (newlyPassed && !attempt.passedBefore) {
+      events.push({ eventType: 'module_progress.completed', payload: { moduleId: exercise.moduleId } });
+    }
+
+    if (newlyPassed) {
+      events.push({
+        eventType: 'missions.exercise_completed',
+        payload: {
+          exerciseId: attempt.exerciseId,
+          exerciseType: attempt.exerciseType,
+          score: settled.finalScore,
+          difficulty: exercise.difficulty,
+          moduleId: exercise.moduleId
+        }
+      });
+
+      if (rewards.mlCoins > 0) {
+        events.push({
+          eventType: 'missions.ml_coins_earned',
+          payload: { exerciseId: attempt.exerciseId, amount: rewards.mlCoins }
+        });
+      }
+
+      if (rewards.xp > 0) {
+        events.push({
+          eventType: 'missions.xp_earned',
+          payload: { exerciseId: attempt.exerciseId, amount: rewards.xp }
+        });
+      }
+    }
+
+    events.push({
+      eventType: 'grade.notify',
+      payload: {
+        exerciseId: attempt.exerciseId,
+        exerciseTitle: attempt.exerciseTitle,
+        score: settled.finalScore,
+        passed: settled.passed,
+        regraded: attempt.gradingStatus === 'graded'
+      }
+    });
+    events.push({ eventType: 'analytics.refresh', payload: {} });
+
+    return events;
+  }
+
+  /**
+   * Scoring policy the attempt was scored under (the student's effective
+   * policy when it was not recorded)
+   */
+  private async policyFor(attempt: GradableAttempt): Promise<ScoringPolicyVersion> {
+    const recorded = attempt.scoringPolicyId
+      ? (await this.scoringPolicyService.getPoliciesByIds([attempt.scoringPolicyId])).get(attempt.scoringPolicyId)
+      : undefined;
+
+    return recorded || this.scoringPolicyService.getPolicyForUser(attempt.authUserId);
+  }
+
+  private scopeFor(grader: AttemptGrader): string | null {
+    return grader.role === 'super_admin' ? null : grader.userId;
+  }
+}
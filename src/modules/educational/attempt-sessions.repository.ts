@@ -0,0 +1,335 @@
+/**
+ * Attempt Sessions Repository
+ *
+ * Data access layer for server-issued exercise attempt sessions.
+ */
+
+import { Pool, PoolClient } from 'pg';
+import {
+  AttemptSession,
+  ComodinEffect,
+  ComodinType,
+  ExerciseVariant,
+  RejectedAttemptContext,
+  StudentExerciseVariant
+} from './educational.types';
+import { log } from '../../shared/utils/logger';
+
+const SESSION_COLUMNS = `
+  id,
+  user_id as "userId",
+  exercise_id as "exerciseId",
+  status,
+  started_at as "startedAt",
+  expires_at as "expiresAt",
+  time_limit_seconds as "timeLimitSeconds",
+  submitted_at as "submittedAt",
+  variant
+`;
+
+export class AttemptSessionsRepository {
+  constructor(private pool: Pool) {}
+
+  /**
+   * Create attempt sessions and attempt powerups tables if not exists, and
+   * the variant columns of sessions and attempts
+   */
+  async ensureAttemptSessionsTable(client?: PoolClient): Promise<void> {
+    const db = client || this.pool;
+
+    try {
+      await db.query(`
+        CREATE TABLE IF NOT EXISTS progress_tracking.attempt_sessions (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          user_id UUID NOT NULL,
+          exercise_id UUID NOT NULL REFERENCES educational_content.exercises(id) ON DELETE CASCADE,
+          status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'submitted', 'expired')),
+          started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+          expires_at TIMESTAMPTZ NOT NULL,
+          time_limit_seconds INTEGER,
+          submitted_at TIMESTAMPTZ
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_attempt_sessions_user_exercise
+          ON progress_tracking.attempt_sessions(user_id, exercise_id);
+        CREATE INDEX IF NOT EXISTS idx_attempt_sessions_status ON progress_tracking.attempt_sessions(status);
+
+        CREATE TABLE IF NOT EXISTS progress_tracking.attempt_powerups (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          session_id UUID NOT NULL REFERENCES progress_tracking.attempt_sessions(id) ON DELETE CASCADE,
+          powerup_type TEXT NOT NULL CHECK (powerup_type IN ('pistas', 'vision_lectora', 'segunda_oportunidad')),
+          effect JSONB NOT NULL DEFAULT '{}',
+          used_at TIMESTAMPTZ DEFAULT NOW()
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_attempt_powerups_session ON progress_tracking.attempt_powerups(session_id);
+
+        ALTER TABLE progress_tracking.attempt_sessions
+          ADD COLUMN IF NOT EXISTS variant JSONB;
+
+        ALTER TABLE progress_tracking.exercise_attempts
+          ADD COLUMN IF NOT EXISTS variant JSONB;
+      `);
+    } catch (error) {
+      // Table might already exist, log and continue
+      log.debug('Attempt sessions tables setup:', error);
+    }
+  }
+
+  /**
+   * Open a session; the start time is taken from the database clock
+   */
+  async createSession(
+    userId: string,
+    exerciseId: string,
+    ttlSeconds: number,
+    timeLimitSeconds: number | null,
+    variant: ExerciseVariant | null,
+    dbClient?: PoolClient
+  ): Promise<AttemptSession> {
+    const client = dbClient || this.pool;
+    const result = await client.query(
+      `INSERT INTO progress_tracking.attempt_sessions (user_id, exercise_id, expires_at, time_limit_seconds, variant)
+       VALUES ($1, $2, NOW() + make_interval(secs => $3), $4, $5)
+       RETURNING ${SESSION_COLUMNS}`,
+      [userId, exerciseId, ttlSeconds, timeLimitSeconds, variant ? JSON.stringify(variant) : null]
+    );
+
+    return result.rows[0];
+  }
+
+  /**
+   * Close an active session and return it with the elapsed seconds
+   *
+   * Only one caller can close a session, so a token cannot be redeemed twice.
+   */
+  async closeSession(
+    sessionId: string,
+    userId: string,
+    exerciseId: string
+  ): Promise<(AttemptSession & { elapsedSeconds: number }) | null> {
+    const result = await this.pool.query(
+      `UPDATE progress_tracking.attempt_sessions
+       SET status = CASE WHEN expires_at < NOW() THEN 'expired' ELSE 'submitted' END,
+           submitted_at = NOW()
+       WHERE id = $1 AND user_id = $2 AND exercise_id = $3 AND status = 'active'
+       RETURNING ${SESSION_COLUMNS},
+         EXTRACT(EPOCH FROM (NOW() - started_at))::float as "elapsedSeconds"`,
+      [sessionId, userId, exerciseId]
+    );
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Reopen a session closed by a submission that was never saved
+   */
+  async reopenSession(sessionId: string, userId: string, exerciseId: string): Promise<boolean> {
+    const result = await this.pool.query(
+      `UPDATE progress_tracking.attempt_sessions
+       SET status = 'active',
+           submitted_at = NULL
+       WHERE id = $1 AND user_id = $2 AND exercise_id = $3 AND status = 'submitted'`,
+      [sessionId, userId, exerciseId]
+    );
+
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Get a session by id with the elapsed seconds (database clock)
+   */
+  async getSession(sessionId: string): Promise<(AttemptSession & { elapsedSeconds: number }) | null> {
+    const result = await this.pool.query(
+      `SELECT ${SESSION_COLUMNS},
+         EXTRACT(EPOCH FROM (NOW() - started_at))::float as "elapsedSeconds"
+       FROM progress_tracking.attempt_sessions
+       WHERE id = $1`,
+      [sessionId]
+    );
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Lock a session row for the rest of the transaction and return its status
+   */
+  async lockSession(client: PoolClient, sessionId: string): Promise<AttemptSession['status'] | null> {
+    const result = await client.query(
+      `SELECT status FROM progress_tracking.attempt_sessions WHERE id = $1 FOR UPDATE`,
+      [sessionId]
+    );
+
+    return result.rows[0]?.status ?? null;
+  }
+
+  /**
+   * Serialize starts and submissions of one student's attempts at an
+   * exercise until the transaction ends (userId is the auth user id)
+   */
+  async lockAttempts(client: PoolClient, userId: string, exerciseId: string): Promise<void> {
+    await client.query(`SELECT pg_advisory_xact_lock(hashtext($1), hashtext($2))`, [userId, exerciseId]);
+  }
+
+  /**
+   * Count a student's saved attempts at an exercise
+   */
+  async countAttempts(client: PoolClient, userId: string, exerciseId: string): Promise<number> {
+    const result = await client.query(
+      `SELECT COUNT(*)::int as count
+       FROM progress_tracking.exercise_attempts
+       WHERE exercise_id = $2
+         AND user_id = (SELECT id FROM auth_management.profiles WHERE user_id = $1)`,
+      [userId, exerciseId]
+    );
+
+    return result.rows[0].count;
+  }
+
+  /**
+   * Record an attempt rejected at submission as a zero score with no
+   * rewards, so it counts toward the attempt limit
+   *
+   * The row is marked `grading_status = 'rejected'`; re-grading and item
+   * analysis leave it out.
+   */
+  async recordRejectedAttempt(
+    client: PoolClient,
+    userId: string,
+    session: AttemptSession,
+    timeSpent: number,
+    powerupsUsed: ComodinType[],
+    context: RejectedAttemptContext
+  ): Promise<string> {
+    const result = await client.query(
+      `INSERT INTO progress_tracking.exercise_attempts (
+         user_id, exercise_id, submitted_answers, score,
+         is_correct, time_spent_seconds, comodines_used,
+         xp_earned, ml_coins_earned, variant,
+         grading_status, grading_context
+       )
+       SELECT p.id, $2, '{}'::jsonb, 0, false, $3, $4, 0, 0, $5, 'rejected', $6
+       FROM auth_management.profiles p
+       WHERE p.user_id = $1
+       RETURNING id`,
+      [
+        userId,
+        session.exerciseId,
+        timeSpent,
+        powerupsUsed,
+        session.variant ? JSON.stringify(session.variant) : null,
+        JSON.stringify(context)
+      ]
+    );
+
+    if (!result.rows[0]) {
+      throw new Error(`Profile not found for user ${userId}`);
+    }
+
+    return result.rows[0].id;
+  }
+
+  /**
+   * Expire a student's open sessions at an exercise, all but the newest
+   * `keep` of them
+   */
+  async expireOpenSessions(client: PoolClient, userId: string, exerciseId: string, keep: number): Promise<number> {
+    const result = await client.query(
+      `UPDATE progress_tracking.attempt_sessions
+       SET status = 'expired'
+       WHERE id IN (
+         SELECT id FROM progress_tracking.attempt_sessions
+         WHERE user_id = $1 AND exercise_id = $2 AND status = 'active' AND expires_at > NOW()
+         ORDER BY started_at DESC
+         OFFSET $3
+       )`,
+      [userId, exerciseId, keep]
+    );
+
+    return result.rowCount ?? 0;
+  }
+
+  /**
+   * Record a comodín consumed during an attempt
+   */
+  async recordPowerup(
+    sessionId: string,
+    powerupType: ComodinType,
+    effect: ComodinEffect,
+    dbClient?: PoolClient
+  ): Promise<void> {
+    const client = dbClient || this.pool;
+
+    await client.query(
+      `INSERT INTO progress_tracking.attempt_powerups (session_id, powerup_type, effect)
+       VALUES ($1, $2, $3)`,
+      [sessionId, powerupType, effect]
+    );
+  }
+
+  /**
+   * Comodines consumed during an attempt, in order of use
+   */
+  async getSessionPowerups(sessionId: string, dbClient?: PoolClient): Promise<ComodinType[]> {
+    const client = dbClient || this.pool;
+
+    const result = await client.query(
+      `SELECT powerup_type FROM progress_tracking.attempt_powerups
+       WHERE session_id = $1
+       ORDER BY used_at`,
+      [sessionId]
+    );
+
+    return result.rows.map(row => row.powerup_type);
+  }
+
+  /**
+   * Submitted attempts at an exercise that had their own variant, newest
+   * first (optionally for one student, by profile id)
+   *
+   * `teacherId` limits the list to students of the teacher's classrooms
+   * (null for admins).
+   */
+  async getAttemptVariants(
+    exerciseId: string,
+    teacherId: string | null,
+    studentId?: string
+  ): Promise<Array<Omit<StudentExerciseVariant, 'content'>>> {
+    const result = await this.pool.query(
+      `SELECT
+        ea.id as "attemptId",
+        ea.user_id as "userId",
+        COALESCE(p.display_name, p.full_name) as "studentName",
+        ea.score,
+        ea.submitted_at as "submittedAt",
+        ea.submitted_answers as answers,
+        ea.variant
+      FROM progress_tracking.exercise_attempts ea
+      LEFT JOIN auth_management.profiles p ON p.id = ea.user_id
+      WHERE ea.exercise_id = $1
+        AND ea.variant IS NOT NULL
+        AND ($2::uuid IS NULL OR ea.user_id = $2)
+        AND ($3::uuid IS NULL OR EXISTS (
+          SELECT 1 FROM classroom_students cs
+          JOIN classrooms c ON c.id = cs.classroom_id
+          WHERE c.teacher_id = $3 AND cs.student_id = p.user_id
+        ))
+      ORDER BY ea.submitted_at DESC`,
+      [exerciseId, studentId || null, teacherId]
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Resolve the profile id of an auth user (inventory is keyed by profile)
+   */
+  async getProfileId(userId: string): Promise<string | null> {
+    const result = await this.pool.query(
+      'SELECT id FROM auth_management.profiles WHERE user_id = $1',
+      [userId]
+    );
+
+    return result.rows[0]?.id || null;
+  }
+}
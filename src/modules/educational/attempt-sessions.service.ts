@@ -0,0 +1,462 @@
+/**
+ * Attempt Sessions Service
+ *
+ * Issues signed attempt tokens with a server-side start time and redeems
+ * them on submission. Duration and time-limit checks use the database
+ * clock, never a client-supplied timestamp. Comodines are used against an
+ * active attempt and recorded by the server. Randomized exercises get a
+ * variant per attempt, built from a seed stored with the session.
+ */
+
+import { Pool } from 'pg';
+import jwt from 'jsonwebtoken';
+import { AttemptSessionsRepository } from './attempt-sessions.repository';
+import { ExercisesRepository } from './exercises.repository';
+import { assertCanAttempt } from './utils/attempt-policy';
+import { applyVisionLectora, checkForSecondChance, revealNextHint } from './utils/comodin-effects';
+import {
+  buildVariant,
+  createVariantSeed,
+  isRandomized,
+  renderVariant,
+  resolveVariantExercise,
+  toOriginalAnswers
+} from './utils/exercise-variants';
+import {
+  AttemptSession,
+  AttemptStatus,
+  ComodinEffect,
+  ComodinType,
+  RedeemedAttempt,
+  RejectedAttemptContext,
+  StartAttemptResponse,
+  StudentExerciseVariant,
+  TimeLimitPolicy,
+  UseComodinDto,
+  UseComodinResponse
+} from './educational.types';
+import { PowerupsRepository } from '../gamification/powerups.repository';
+import { jwtConfig } from '../../config/jwt';
+import { AppError } from '../../middleware/error.middleware';
+import { ErrorCode } from '../../shared/types';
+import { log } from '../../shared/utils/logger';
+
+/**
+ * Attempt token payload
+ */
+interface AttemptTokenPayload {
+  sub: string; // user_id
+  sid: string; // attempt session id
+  exerciseId: string;
+}
+
+const ATTEMPT_TOKEN_AUDIENCE = 'glit-attempts';
+const SESSION_TTL_SECONDS = 24 * 60 * 60; // Stale sessions expire after 24 hours
+const MIN_ATTEMPT_SECONDS = 1; // Prevent instant submissions
+
+export const DEFAULT_TIME_LIMIT_POLICY: TimeLimitPolicy = {
+  mode: 'reject',
+  graceSeconds: 30,
+  penaltyPerMinute: 10,
+  maxPenalty: 50
+};
+
+export class AttemptSessionsService {
+  private repository: AttemptSessionsRepository;
+  private exercisesRepository: ExercisesRepository;
+  private powerupsRepository: PowerupsRepository;
+
+  constructor(private pool: Pool) {
+    this.repository = new AttemptSessionsRepository(pool);
+    this.exercisesRepository = new ExercisesRepository(pool);
+    this.powerupsRepository = new PowerupsRepository(pool);
+  }
+
+  /**
+   * Initialize attempt sessions (ensure table exists)
+   */
+  async initialize(): Promise<void> {
+    await this.repository.ensureAttemptSessionsTable();
+  }
+
+  /**
+   * Start an attempt and issue its token
+   *
+   * Refused when the student has no attempts left or is in a cooldown.
+   * Randomized exercises return the attempt's variant to display.
+   *
+   * The attempt count is read and the session opened under the student's
+   * attempt lock for the exercise. With an attempt limit, open sessions
+   * beyond the attempts left are expired, oldest first, so parallel starts
+   * cannot hand out more submittable attempts than the limit allows.
+   */
+  async startAttempt(userId: string, exerciseId: string): Promise<StartAttemptResponse> {
+    const exercise = await this.exercisesRepository.getExerciseById(exerciseId, userId);
+    if (!exercise) {
+      throw new AppError('Exercise not found', 404, ErrorCode.NOT_FOUND);
+    }
+
+    const timeLimitSeconds = exercise.timeLimitMinutes ? exercise.timeLimitMinutes * 60 : null;
+    const variant = isRandomized(exercise) ? buildVariant(exercise, createVariantSeed()) : null;
+
+    const client = await this.pool.connect();
+    let attemptStatus: AttemptStatus;
+    let session: AttemptSession;
+
+    try {
+      await client.query('BEGIN');
+      await this.repository.lockAttempts(client, userId, exerciseId);
+
+      // Counted under the lock, so every submission saved before it is included
+      const attempts = await this.repository.countAttempts(client, userId, exerciseId);
+      attemptStatus = assertCanAttempt({ ...exercise, userProgress: { ...exercise.userProgress, attempts } });
+
+      if (attemptStatus.remainingAttempts !== null) {
+        await this.repository.expireOpenSessions(client, userId, exerciseId, attemptStatus.remainingAttempts - 1);
+      }
+
+      session = await this.repository.createSession(
+        userId,
+        exerciseId,
+        SESSION_TTL_SECONDS,
+        timeLimitSeconds,
+        variant,
+        client
+      );
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    const payload: AttemptTokenPayload = { sub: userId, sid: session.id, exerciseId };
+    const attemptToken = jwt.sign(payload, jwtConfig.secret, {
+      expiresIn: SESSION_TTL_SECONDS,
+      issuer: jwtConfig.issuer,
+      audience: ATTEMPT_TOKEN_AUDIENCE
+    });
+
+    const startedAt = new Date(session.startedAt);
+
+    return {
+      sessionId: session.id,
+      attemptToken,
+      startedAt,
+      expiresAt: session.expiresAt,
+      deadline: timeLimitSeconds ? new Date(startedAt.getTime() + timeLimitSeconds * 1000) : null,
+      timeLimitSeconds,
+      timeLimitPolicy: timeLimitSeconds ? this.resolveTimeLimitPolicy(exercise.content) : null,
+      attemptStatus,
+      variant: variant ? { seed: variant.seed, content: renderVariant(exercise.content, variant) } : null
+    };
+  }
+
+  /**
+   * Redeem an attempt token on submission
+   *
+   * Closes the session (a token is good for one submission) and returns the
+   * server-measured duration. Overruns past the grace period are rejected or
+   * turned into a score penalty, depending on the exercise policy. A
+   * rejected overrun is saved as a zero-score attempt, so it still counts
+   * toward the attempt limit.
+   */
+  async redeemAttempt(userId: string, exerciseId: string, attemptToken: string): Promise<RedeemedAttempt> {
+    const current = await this.getActiveSession(userId, exerciseId, attemptToken);
+
+    if (current.elapsedSeconds < MIN_ATTEMPT_SECONDS) {
+      throw new AppError(
+        'Submission too fast. Please take time to complete the exercise.',
+        400,
+        'SUBMISSION_TOO_FAST'
+      );
+    }
+
+    const session = await this.repository.closeSession(current.id, userId, exerciseId);
+    if (!session) {
+      // Closed by a concurrent submission of the same token
+      throw new AppError('This attempt was already submitted', 409, 'ATTEMPT_ALREADY_SUBMITTED');
+    }
+    if (session.status === 'expired') {
+      throw new AppError('Session expired. Please start the exercise again.', 400, 'SESSION_EXPIRED');
+    }
+
+    const timeSpent = Math.floor(session.elapsedSeconds);
+    let overageSeconds = 0;
+    let timeOveragePenalty = 0;
+
+    if (session.timeLimitSeconds) {
+      const exercise = await this.exercisesRepository.getExerciseById(exerciseId);
+      const policy = this.resolveTimeLimitPolicy(exercise?.content);
+      overageSeconds = Math.max(0, timeSpent - session.timeLimitSeconds);
+
+      if (overageSeconds > policy.graceSeconds) {
+        if (policy.mode === 'reject') {
+          await this.recordRejectedAttempt(userId, session, timeSpent, {
+            rejectionReason: 'TIME_LIMIT_EXCEEDED',
+            timeLimitSeconds: session.timeLimitSeconds,
+            overageSeconds
+          });
+          log.info(`Attempt ${session.id} rejected: ${overageSeconds}s over the time limit`);
+          throw new AppError('Time limit exceeded for this attempt', 400, 'TIME_LIMIT_EXCEEDED');
+        }
+
+        timeOveragePenalty = Math.min(
+          policy.maxPenalty,
+          Math.ceil(overageSeconds / 60) * policy.penaltyPerMinute
+        );
+      }
+    }
+
+    return {
+      sessionId: session.id,
+      startedAt: new Date(session.startedAt),
+      timeSpent,
+      overageSeconds,
+      timeOveragePenalty,
+      powerupsUsed: await this.repository.getSessionPowerups(session.id),
+      variant: session.variant || null
+    };
+  }
+
+  /**
+   * Undo a redemption whose submission failed before it was saved, so the
+   * same token can be submitted again
+   */
+  async reopenAttempt(userId: string, exerciseId: string, sessionId: string): Promise<void> {
+    const reopened = await this.repository.reopenSession(sessionId, userId, exerciseId);
+    if (!reopened) {
+      log.warn(`Attempt session ${sessionId} could not be reopened`);
+    }
+  }
+
+  /**
+   * Session id carried by an attempt token (signature and owner are checked,
+   * session state is not)
+   */
+  getSessionId(userId: string, exerciseId: string, attemptToken: string): string {
+    return this.verifyOwnedToken(userId, exerciseId, attemptToken).sid;
+  }
+
+  /**
+   * Use a comodín during an active attempt
+   *
+   * The effect is computed before anything is charged, so a comodín that
+   * would do nothing is refused without consuming inventory. The
+   * per-attempt limit check, the inventory charge and the record of the use
+   * run in one transaction with the session row locked, so concurrent uses
+   * cannot exceed the limit and a failed record never costs the comodín.
+   */
+  async usePowerup(
+    userId: string,
+    exerciseId: string,
+    powerupType: ComodinType,
+    dto: UseComodinDto
+  ): Promise<UseComodinResponse> {
+    const session = await this.getActiveSession(userId, exerciseId, dto.attemptToken);
+
+    const storedExercise = await this.exercisesRepository.getExerciseById(exerciseId);
+    if (!storedExercise) {
+      throw new AppError('Exercise not found', 404, ErrorCode.NOT_FOUND);
+    }
+
+    // Effects apply to the items of this attempt's variant
+    const exercise = session.variant ? resolveVariantExercise(storedExercise, session.variant) : storedExercise;
+    const answers = session.variant && dto.answers !== undefined && dto.answers !== null
+      ? toOriginalAnswers(dto.answers, session.variant, storedExercise)
+      : dto.answers;
+
+    if (!(exercise.availablePowerups || []).includes(powerupType)) {
+      throw new AppError(`${powerupType} is not allowed in this exercise`, 400, 'POWERUP_NOT_ALLOWED');
+    }
+
+    // Inventory is keyed by profile id
+    const profileId = await this.repository.getProfileId(userId);
+    if (!profileId) {
+      throw new AppError('Profile not found', 404, ErrorCode.NOT_FOUND);
+    }
+
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      // Concurrent uses of the same attempt wait here
+      const status = await this.repository.lockSession(client, session.id);
+      if (status !== 'active') {
+        throw new AppError('This attempt was already submitted', 409, 'ATTEMPT_ALREADY_SUBMITTED');
+      }
+
+      const used = await this.repository.getSessionPowerups(session.id, client);
+      const usesOfType = used.filter(type => type === powerupType).length;
+      const limit = this.getUsesPerAttempt(powerupType);
+
+      if (usesOfType >= limit) {
+        throw new AppError(`${powerupType} can be used ${limit} time(s) per attempt`, 400, 'POWERUP_LIMIT_REACHED');
+      }
+
+      let effect: ComodinEffect;
+      switch (powerupType) {
+        case ComodinType.PISTAS:
+          effect = revealNextHint(exercise, usesOfType);
+          break;
+        case ComodinType.VISION_LECTORA:
+          effect = applyVisionLectora(exercise, session.id);
+          break;
+        case ComodinType.SEGUNDA_OPORTUNIDAD:
+          effect = checkForSecondChance(exercise, answers);
+          break;
+        default:
+          throw new AppError('Invalid powerup type', 400, 'INVALID_POWERUP_TYPE');
+      }
+
+      try {
+        await this.powerupsRepository.usePowerup(profileId, powerupType, exerciseId, client);
+      } catch (error) {
+        if (error instanceof Error && error.message === 'Powerup not available') {
+          throw new AppError('Powerup not available', 400, 'POWERUP_NOT_AVAILABLE');
+        }
+        throw error;
+      }
+
+      await this.repository.recordPowerup(session.id, powerupType, effect, client);
+
+      await client.query('COMMIT');
+
+      return {
+        sessionId: session.id,
+        effect,
+        usesLeftThisAttempt: limit - usesOfType - 1
+      };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Each student's variant of an exercise, as they saw it and with the
+   * answer key; teachers see students of their classrooms only
+   */
+  async getStudentVariants(
+    exerciseId: string,
+    viewer: { userId: string; role: string },
+    studentId?: string
+  ): Promise<StudentExerciseVariant[]> {
+    const exercise = await this.exercisesRepository.getExerciseById(exerciseId);
+    if (!exercise) {
+      throw new AppError('Exercise not found', 404, ErrorCode.NOT_FOUND);
+    }
+
+    const attempts = await this.repository.getAttemptVariants(
+      exerciseId,
+      viewer.role === 'super_admin' ? null : viewer.userId,
+      studentId
+    );
+
+    return attempts.map(attempt => ({
+      ...attempt,
+      content: renderVariant(exercise.content, attempt.variant, true)
+    }));
+  }
+
+  // ============================================================================
+  // PRIVATE HELPERS
+  // ============================================================================
+
+  /**
+   * Save a rejected attempt with a zero score, under the student's attempt
+   * lock so attempt starts count it
+   */
+  private async recordRejectedAttempt(
+    userId: string,
+    session: AttemptSession,
+    timeSpent: number,
+    context: RejectedAttemptContext
+  ): Promise<void> {
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+      await this.repository.lockAttempts(client, userId, session.exerciseId);
+      const powerupsUsed = await this.repository.getSessionPowerups(session.id, client);
+      await this.repository.recordRejectedAttempt(client, userId, session, timeSpent, powerupsUsed, context);
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Verify an attempt token and load its session, which must still be active
+   */
+  private async getActiveSession(
+    userId: string,
+    exerciseId: string,
+    attemptToken: string
+  ): Promise<AttemptSession & { elapsedSeconds: number }> {
+    const payload = this.verifyOwnedToken(userId, exerciseId, attemptToken);
+
+    const session = await this.repository.getSession(payload.sid);
+    if (!session) {
+      throw new AppError('Attempt session not found', 400, 'INVALID_ATTEMPT_TOKEN');
+    }
+    if (session.status !== 'active') {
+      throw new AppError('This attempt was already submitted', 409, 'ATTEMPT_ALREADY_SUBMITTED');
+    }
+
+    return session;
+  }
+
+  /**
+   * Per-attempt use limit of a comodín, from the powerup catalogue
+   */
+  private getUsesPerAttempt(powerupType: ComodinType): number {
+    const powerup = this.powerupsRepository.getAvailablePowerups().find(item => item.type === powerupType);
+    return powerup?.limit ?? 1;
+  }
+
+  private verifyOwnedToken(userId: string, exerciseId: string, attemptToken: string): AttemptTokenPayload {
+    const payload = this.verifyToken(attemptToken);
+
+    if (payload.sub !== userId || payload.exerciseId !== exerciseId) {
+      throw new AppError('Attempt token does not belong to this exercise', 400, 'INVALID_ATTEMPT_TOKEN');
+    }
+
+    return payload;
+  }
+
+  private verifyToken(attemptToken: string): AttemptTokenPayload {
+    try {
+      return jwt.verify(attemptToken, jwtConfig.secret, {
+        issuer: jwtConfig.issuer,
+        audience: ATTEMPT_TOKEN_AUDIENCE
+      }) as unknown as AttemptTokenPayload;
+    } catch (error) {
+      if (error instanceof jwt.TokenExpiredError) {
+        throw new AppError('Session expired. Please start the exercise again.', 400, 'SESSION_EXPIRED');
+      }
+      throw new AppError('Invalid attempt token', 400, 'INVALID_ATTEMPT_TOKEN');
+    }
+  }
+
+  /**
+   * Merge `content.timeLimitPolicy` onto the platform default
+   */
+  private resolveTimeLimitPolicy(content: any): TimeLimitPolicy {
+    const override = content?.timeLimitPolicy;
+    if (!override || typeof override !== 'object') return DEFAULT_TIME_LIMIT_POLICY;
+
+    return {
+      ...DEFAULT_TIME_LIMIT_POLICY,
+      ...Object.fromEntries(Object.entries(override).filter(([, value]) => value !== undefined))
+    };
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * Content Bundle Controller
+ * HTTP request handlers for module/exercise export and import.
+ */
+
+import { Response, NextFunction } from 'express';
+import { AuthRequest } from '../../shared/types';
+import { ContentBundleService } from './content-bundle.service';
+import { ImportContentBundleDto } from './educational.types';
+
+export class ContentBundleController {
+  constructor(private bundleService: ContentBundleService) {}
+
+  /**
+   * GET /api/educational/modules/:moduleId/export
+   */
+  exportModule = async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      const { moduleId } = req.params;
+
+      const bundle = await this.bundleService.exportModule(moduleId);
+
+      res.json({
+        success: true,
+        data: bundle
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * GET /api/educational/exercises/:exerciseId/export
+   */
+  exportExercise = async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      const { exerciseId } = req.params;
+
+      const bundle = await this.bundleService.exportExercise(exerciseId);
+
+      res.json({
+        success: true,
+        data: bundle
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/educational/modules/import
+   * POST /api/educational/modules/:moduleId/import
+   *
+   * Creates a module from the bundle, or appends its exercises to an
+   * existing module. `dryRun` returns the report without writing.
+   */
+  importBundle = async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      const dto: ImportContentBundleDto = req.body;
+      const moduleId = req.params.moduleId || null;
+
+      const report = await this.bundleService.importBundle(dto, moduleId, req.user?.id!);
+
+      res.status(report.imported ? 201 : 200).json({
+        success: true,
+        data: report
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -0,0 +1,167 @@
+/**
+ * Content Bundle Repository
+ *
+ * Data access layer for module/exercise export and the conflict checks
+ * run before an import.
+ */
+
+import { Pool, PoolClient } from 'pg';
+import { ContentBundleExercise, ContentBundleModule } from './educational.types';
+
+const BUNDLE_EXERCISE_COLUMNS = `
+  e.title,
+  e.description,
+  e.instructions,
+  e.exercise_type as "exerciseType",
+  e.difficulty_level as difficulty,
+  e.content,
+  e.config,
+  e.solution,
+  e.rubric,
+  e.auto_gradable as "autoGradable",
+  e.hints,
+  e.max_points as "maxPoints",
+  e.passing_score as "passingScore",
+  e.estimated_time_minutes as "estimatedTimeMinutes",
+  e.time_limit_minutes as "timeLimitMinutes",
+  e.max_attempts as "maxAttempts",
+  e.comodines_allowed as "comodinesAllowed",
+  e.xp_reward as "xpReward",
+  e.ml_coins_reward as "mlCoinsReward"
+`;
+
+export class ContentBundleRepository {
+  constructor(private pool: Pool) {}
+
+  /**
+   * Module metadata as stored, or null if the module does not exist
+   */
+  async getModuleForExport(moduleId: string): Promise<ContentBundleModule | null> {
+    const result = await this.pool.query(
+      `SELECT
+        title,
+        subtitle,
+        description,
+        summary,
+        order_index as "orderIndex",
+        difficulty_level as difficulty,
+        estimated_duration_minutes as "estimatedDurationMinutes",
+        learning_objectives as "learningObjectives",
+        rango_maya_required as "rangoMayaRequired",
+        rango_maya_granted as "rangoMayaGranted",
+        xp_reward as "xpReward",
+        ml_coins_reward as "mlCoinsReward",
+        thumbnail_url as "thumbnailUrl",
+        tags
+      FROM educational_content.modules
+      WHERE id = $1`,
+      [moduleId]
+    );
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Active exercises of a module, in order
+   */
+  async getModuleExercisesForExport(moduleId: string): Promise<ContentBundleExercise[]> {
+    const result = await this.pool.query(
+      `SELECT ${BUNDLE_EXERCISE_COLUMNS}
+       FROM educational_content.exercises e
+       WHERE e.module_id = $1 AND e.is_active = true
+       ORDER BY e.order_index`,
+      [moduleId]
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * One exercise, or null if it does not exist
+   */
+  async getExerciseForExport(exerciseId: string): Promise<ContentBundleExercise | null> {
+    const result = await this.pool.query(
+      `SELECT ${BUNDLE_EXERCISE_COLUMNS}
+       FROM educational_content.exercises e
+       WHERE e.id = $1`,
+      [exerciseId]
+    );
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Modules with the given title (case-insensitive)
+   */
+  async findModulesByTitle(title: string): Promise<Array<{ id: string; title: string }>> {
+    const result = await this.pool.query(
+      `SELECT id, title
+       FROM educational_content.modules
+       WHERE LOWER(title) = LOWER($1)`,
+      [title]
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Whether a module exists
+   */
+  async moduleExists(moduleId: string): Promise<boolean> {
+    const result = await this.pool.query(
+      `SELECT 1 FROM educational_content.modules WHERE id = $1`,
+      [moduleId]
+    );
+
+    return result.rows.length > 0;
+  }
+
+  /**
+   * Active exercise titles of a module, keyed by lower-case title
+   */
+  async getModuleExerciseTitles(moduleId: string): Promise<Map<string, string>> {
+    const result = await this.pool.query(
+      `SELECT id, title
+       FROM educational_content.exercises
+       WHERE module_id = $1 AND is_active = true`,
+      [moduleId]
+    );
+
+    return new Map(result.rows.map(row => [row.title.toLowerCase(), row.id]));
+  }
+
+  /**
+   * Highest exercise order in a module (0 when empty)
+   */
+  async getLastExerciseOrder(moduleId: string, dbClient?: PoolClient): Promise<number> {
+    const client = dbClient || this.pool;
+
+    const result = await client.query(
+      `SELECT COALESCE(MAX(order_index), 0)::int as "lastOrder"
+       FROM educational_content.exercises
+       WHERE module_id = $1`,
+      [moduleId]
+    );
+
+    return result.rows[0].lastOrder;
+  }
+
+  /**
+   * Module order to use on import: the requested one when free, else
+   * after the last module
+   */
+  async resolveModuleOrder(requested: number | undefined, dbClient?: PoolClient): Promise<number> {
+    const client = dbClient || this.pool;
+
+    const result = await client.query(
+      `SELECT
+        COALESCE(MAX(order_index), 0)::int as "lastOrder",
+        COALESCE(BOOL_OR(order_index = $1), false) as taken
+      FROM educational_content.modules`,
+      [requested ?? null]
+    );
+
+    const { lastOrder, taken } = result.rows[0];
+    return requested && !taken ? requested : lastOrder + 1;
+  }
+}
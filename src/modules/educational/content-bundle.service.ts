@@ -0,0 +1,374 @@
+/**
+ * Content Bundle Service
+ *
+ * Exports modules and exercises as portable bundles and imports them
+ * back: a module with its ordered exercises, content, hints, rubrics and
+ * media references. IMS QTI 2.1 items are converted to a bundle first.
+ * Imports are validated and checked for conflicts before anything is
+ * written, and are all-or-nothing.
+ */
+
+import { Pool } from 'pg';
+import { ContentBundleRepository } from './content-bundle.repository';
+import { ModulesRepository } from './modules.repository';
+import { ExercisesRepository } from './exercises.repository';
+import { ExerciseContentValidator } from './validators';
+import { CONTENT_BUNDLE_FORMAT, CONTENT_BUNDLE_VERSION, validateBundleStructure } from './validators/content-bundle';
+import { convertQtiItems, QtiItemSource, readQtiPackage } from './utils/qti';
+import {
+  BundleConflict,
+  BundleExerciseReport,
+  BundleImportReport,
+  ContentBundle,
+  ContentBundleExercise,
+  ContentBundleMedia,
+  ContentBundleModule,
+  ContentValidationIssue,
+  ImportContentBundleDto
+} from './educational.types';
+import { AppError } from '../../middleware/error.middleware';
+import { ErrorCode } from '../../shared/types';
+import { log } from '../../shared/utils/logger';
+
+/**
+ * Content keys that hold a media reference
+ */
+const MEDIA_KEY = /(^src$|^href$|url$)/i;
+
+export class ContentBundleService {
+  private repository: ContentBundleRepository;
+  private modulesRepository: ModulesRepository;
+  private exercisesRepository: ExercisesRepository;
+  private contentValidator: ExerciseContentValidator;
+
+  constructor(private pool: Pool) {
+    this.repository = new ContentBundleRepository(pool);
+    this.modulesRepository = new ModulesRepository(pool);
+    this.exercisesRepository = new ExercisesRepository(pool);
+    this.contentValidator = new ExerciseContentValidator();
+  }
+
+  /**
+   * Export a module with its active exercises
+   */
+  async exportModule(moduleId: string): Promise<ContentBundle> {
+    const module = await this.repository.getModuleForExport(moduleId);
+    if (!module) {
+      throw new AppError('Module not found', 404, ErrorCode.NOT_FOUND);
+    }
+
+    const exercises = await this.repository.getModuleExercisesForExport(moduleId);
+    return this.buildBundle(withoutNulls(module), exercises.map(withoutNulls));
+  }
+
+  /**
+   * Export a single exercise (imported into an existing module)
+   */
+  async exportExercise(exerciseId: string): Promise<ContentBundle> {
+    const exercise = await this.repository.getExerciseForExport(exerciseId);
+    if (!exercise) {
+      throw new AppError('Exercise not found', 404, ErrorCode.NOT_FOUND);
+    }
+
+    return this.buildBundle(null, [withoutNulls(exercise)]);
+  }
+
+  /**
+   * Validate and import a bundle or QTI package
+   *
+   * Without `targetModuleId` the bundle's module is created; otherwise the
+   * exercises are appended to that module. Validation errors (400) and
+   * conflicts (409) reject the whole import with the report as details;
+   * a dry run only returns the report.
+   */
+  async importBundle(
+    dto: ImportContentBundleDto,
+    targetModuleId: string | null,
+    importedBy: string
+  ): Promise<BundleImportReport> {
+    const onConflict = dto.onConflict || 'fail';
+    const { bundle, issues } = this.resolveBundle(dto);
+
+    if (targetModuleId && !(await this.repository.moduleExists(targetModuleId))) {
+      throw new AppError('Module not found', 404, ErrorCode.NOT_FOUND);
+    }
+
+    issues.push(...validateBundleStructure(bundle));
+    issues.push(...this.validateExerciseContent(bundle));
+
+    if (!targetModuleId && !bundle.module) {
+      issues.push({ severity: 'error', field: 'module', message: 'Module metadata is required to import into a new module' });
+    }
+    if (targetModuleId && bundle.module) {
+      issues.push({ severity: 'warning', field: 'module', message: 'Module metadata is ignored when importing into an existing module' });
+    }
+
+    const conflicts = await this.findConflicts(bundle, targetModuleId);
+    const moduleConflict = conflicts.some(conflict => conflict.field.startsWith('module'));
+    const hasErrors = issues.some(issue => issue.severity === 'error');
+
+    const report: BundleImportReport = {
+      dryRun: !!dto.dryRun,
+      imported: false,
+      moduleId: targetModuleId,
+      issues,
+      conflicts,
+      exercises: this.reportExercises(bundle, issues, conflicts, onConflict),
+      media: collectMedia(bundle)
+    };
+
+    if (dto.dryRun) {
+      return report;
+    }
+    if (hasErrors) {
+      throw new AppError('Bundle failed validation', 400, ErrorCode.VALIDATION_ERROR, report);
+    }
+    if (moduleConflict || (conflicts.length > 0 && onConflict === 'fail')) {
+      throw new AppError('Bundle conflicts with existing content', 409, 'IMPORT_CONFLICT', report);
+    }
+
+    await this.writeBundle(bundle, targetModuleId, importedBy, report);
+
+    log.info(
+      `Bundle imported into module ${report.moduleId} by ${importedBy}: ` +
+      `${report.exercises.filter(exercise => exercise.status === 'created').length} exercises created`
+    );
+    return report;
+  }
+
+  // ============================================================================
+  // PRIVATE HELPERS
+  // ============================================================================
+
+  private buildBundle(module: ContentBundleModule | null, exercises: ContentBundleExercise[]): ContentBundle {
+    const bundle: ContentBundle = {
+      format: CONTENT_BUNDLE_FORMAT,
+      version: CONTENT_BUNDLE_VERSION,
+      exportedAt: new Date().toISOString(),
+      module,
+      exercises
+    };
+
+    return { ...bundle, media: collectMedia(bundle) };
+  }
+
+  /**
+   * The bundle to import, converting a QTI package when one is given
+   */
+  private resolveBundle(dto: ImportContentBundleDto): { bundle: ContentBundle; issues: ContentValidationIssue[] } {
+    if (dto.bundle) {
+      return { bundle: dto.bundle, issues: [] };
+    }
+
+    let items: QtiItemSource[] = [];
+    const issues: ContentValidationIssue[] = [];
+
+    if (dto.qti?.package) {
+      try {
+        items = readQtiPackage(Buffer.from(dto.qti.package, 'base64'));
+      } catch (error: any) {
+        issues.push({ severity: 'error', field: 'qti.package', message: error.message });
+      }
+    } else {
+      items = (dto.qti?.items || []).map((xml, index) => ({ path: `qti.items.${index}`, xml }));
+    }
+
+    const conversion = convertQtiItems(items);
+
+    return {
+      bundle: {
+        format: CONTENT_BUNDLE_FORMAT,
+        version: CONTENT_BUNDLE_VERSION,
+        module: dto.module || null,
+        exercises: conversion.exercises
+      },
+      issues: [...issues, ...conversion.issues]
+    };
+  }
+
+  /**
+   * Check each exercise's content against its type schema, and its rubric
+   */
+  private validateExerciseContent(bundle: ContentBundle): ContentValidationIssue[] {
+    const issues: ContentValidationIssue[] = [];
+
+    (Array.isArray(bundle.exercises) ? bundle.exercises : []).forEach((exercise, index) => {
+      if (!exercise?.exerciseType || !exercise.content) return;
+
+      const result = this.contentValidator.validate(exercise.exerciseType, exercise.content);
+      issues.push(...result.errors.map(issue => ({
+        ...issue,
+        field: `exercises.${index}.content.${issue.field}`
+      })));
+
+      if (exercise.rubric) {
+        const rubricResult = this.contentValidator.validateRubric(exercise.rubric);
+        issues.push(...rubricResult.errors.map(issue => ({
+          ...issue,
+          field: `exercises.${index}.rubric.${issue.field}`
+        })));
+      }
+    });
+
+    return issues;
+  }
+
+  private async findConflicts(bundle: ContentBundle, targetModuleId: string | null): Promise<BundleConflict[]> {
+    const conflicts: BundleConflict[] = [];
+
+    if (!targetModuleId) {
+      if (typeof bundle.module?.title !== 'string') return conflicts;
+
+      const existing = await this.repository.findModulesByTitle(bundle.module.title);
+      conflicts.push(...existing.map(module => ({
+        field: 'module.title',
+        message: `A module titled "${module.title}" already exists`,
+        existingId: module.id
+      })));
+      return conflicts;
+    }
+
+    const titles = await this.repository.getModuleExerciseTitles(targetModuleId);
+    (Array.isArray(bundle.exercises) ? bundle.exercises : []).forEach((exercise, index) => {
+      const existingId = typeof exercise?.title === 'string' ? titles.get(exercise.title.toLowerCase()) : undefined;
+      if (existingId) {
+        conflicts.push({
+          field: `exercises.${index}.title`,
+          message: `The module already has an exercise titled "${exercise.title}"`,
+          existingId
+        });
+      }
+    });
+
+    return conflicts;
+  }
+
+  private reportExercises(
+    bundle: ContentBundle,
+    issues: ContentValidationIssue[],
+    conflicts: BundleConflict[],
+    onConflict: 'fail' | 'skip'
+  ): BundleExerciseReport[] {
+    const exercises = Array.isArray(bundle.exercises) ? bundle.exercises : [];
+
+    return exercises.map((exercise, index) => {
+      const prefix = `exercises.${index}.`;
+      const invalid = issues.some(issue => issue.severity === 'error' && issue.field.startsWith(prefix));
+      const conflicting = conflicts.some(conflict => conflict.field.startsWith(prefix));
+
+      let status: BundleExerciseReport['status'] = 'ready';
+      if (invalid) status = 'invalid';
+      else if (conflicting) status = onConflict === 'skip' ? 'skipped' : 'conflict';
+
+      return {
+        index,
+        title: exercise?.title,
+        exerciseType: exercise?.exerciseType,
+        orderIndex: null,
+        status,
+        exerciseId: null
+      };
+    });
+  }
+
+  /**
+   * Create the module (if new) and the exercises in one transaction
+   */
+  private async writeBundle(
+    bundle: ContentBundle,
+    targetModuleId: string | null,
+    importedBy: string,
+    report: BundleImportReport
+  ): Promise<void> {
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      let moduleId = targetModuleId;
+      if (!moduleId) {
+        const module = bundle.module!;
+        const created = await this.modulesRepository.createModule(
+          {
+            ...withoutNulls(module),
+            orderIndex: await this.repository.resolveModuleOrder(module.orderIndex, client)
+          },
+          importedBy,
+          client
+        );
+        moduleId = created.id;
+      }
+
+      let orderIndex = await this.repository.getLastExerciseOrder(moduleId, client);
+
+      for (const entry of report.exercises) {
+        if (entry.status !== 'ready') continue;
+
+        const exercise = bundle.exercises[entry.index];
+        orderIndex++;
+
+        const created = await this.exercisesRepository.createExercise(
+          {
+            ...exercise,
+            moduleId,
+            orderIndex,
+            instructions: exercise.instructions || '',
+            config: exercise.config || {},
+            solution: exercise.solution || undefined,
+            rubric: exercise.rubric || undefined,
+            timeLimitMinutes: exercise.timeLimitMinutes || undefined
+          },
+          importedBy,
+          client
+        );
+
+        entry.status = 'created';
+        entry.orderIndex = orderIndex;
+        entry.exerciseId = created.id;
+      }
+
+      await client.query('COMMIT');
+
+      report.imported = true;
+      report.moduleId = moduleId;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+}
+
+/**
+ * Drop null columns so exported bundles only carry set values
+ */
+function withoutNulls<T extends object>(row: T): T {
+  return Object.fromEntries(Object.entries(row).filter(([, value]) => value !== null && value !== undefined)) as T;
+}
+
+/**
+ * External files referenced by the module and exercise content
+ */
+function collectMedia(bundle: ContentBundle): ContentBundleMedia[] {
+  const media = new Map<string, string[]>();
+
+  const visit = (value: any, path: string, key: string): void => {
+    if (typeof value === 'string') {
+      if (MEDIA_KEY.test(key) && value.trim()) {
+        media.set(value, [...(media.get(value) || []), path]);
+      }
+    } else if (Array.isArray(value)) {
+      value.forEach((item, index) => visit(item, `${path}.${index}`, key));
+    } else if (value && typeof value === 'object') {
+      Object.entries(value).forEach(([childKey, child]) => visit(child, `${path}.${childKey}`, childKey));
+    }
+  };
+
+  visit(bundle.module, 'module', 'module');
+  (Array.isArray(bundle.exercises) ? bundle.exercises : []).forEach((exercise, index) => {
+    visit(exercise?.content, `exercises.${index}.content`, 'content');
+  });
+
+  return [...media.entries()].map(([url, references]) => ({ url, references }));
+}
@@ -5,6 +5,7 @@
  */
 
 import Joi from 'joi';
+import { ExerciseVariant } from '../educational.types';
 
 export interface SubmitExercisePayload {
   userId: string;
@@ -19,8 +20,11 @@ export interface SubmitExercisePayload {
     count: number;
   }[];
   attemptNumber?: number;
-  startedAt?: string | Date; // Timestamp when user started the exercise
-  sessionId?: string; // Session identifier for tracking
+  attemptToken?: string; // Signed token from the start-attempt endpoint
+  startedAt?: string | Date; // Server-side start time of the attempt session
+  sessionId?: string; // Attempt session id
+  timeOveragePenalty?: number; // Points deducted for exceeding the time limit
+  variant?: ExerciseVariant | null; // The attempt's variant, from the attempt session
 }
 
 /**
@@ -42,11 +46,13 @@ export const submitExerciseSchema = Joi.object({
     Joi.array(),
     Joi.object()
   ).optional(),
+  attemptToken: Joi.string().required(),
+  // Deprecated: timing comes from the attempt session
   startedAt: Joi.alternatives().try(
     Joi.number(),
     Joi.date(),
     Joi.string()
-  ).required(),
+  ).optional(),
   hintsUsed: Joi.number().min(0).default(0),
   powerupsUsed: Joi.array().items(
     Joi.string().valid('pistas', 'vision_lectora', 'segunda_oportunidad')
@@ -8,21 +8,59 @@ import { Pool } from 'pg';
 import { ModulesController } from './modules.controller';
 import { ExercisesController } from './exercises.controller';
 import { ProgressController } from './progress.controller';
+import { RegradeController } from './regrade.controller';
+import { SubmissionOutboxController } from './submission-outbox.controller';
+import { ContentBundleController } from './content-bundle.controller';
+import { SubmissionIntegrityController } from './submission-integrity.controller';
+import { ReviewQueueController } from './review-queue.controller';
+import { RecommendationsController } from './recommendations.controller';
+import { AttemptGradingController } from './attempt-grading.controller';
+import { ItemAnalysisController } from './item-analysis.controller';
 import { ModulesService } from './modules.service';
 import { ExercisesService } from './exercises.service';
 import { ProgressService } from './progress.service';
+import { RegradeService } from './regrade.service';
+import { AttemptSessionsService } from './attempt-sessions.service';
+import { SubmissionIdempotencyService } from './submission-idempotency.service';
+import { SubmissionOutboxService } from './submission-outbox.service';
+import { ScoringPolicyService } from './scoring-policy.service';
+import { SubmissionIntegrityService } from './submission-integrity.service';
+import { ContentBundleService } from './content-bundle.service';
+import { ReviewQueueService } from './review-queue.service';
+import { RecommendationsService } from './recommendations.service';
+import { AttemptGradingService } from './attempt-grading.service';
+import { ItemAnalysisService } from './item-analysis.service';
 import { AnalyticsService } from './analytics.service';
+import { AnalyticsTimeframe } from './educational.types';
 import { ActivitiesController } from '../progress/activities.controller';
 import { ActivitiesService } from '../progress/activities.service';
-import { authenticateJWT } from '../../middleware/auth.middleware';
+import { authenticateJWT, requireRole } from '../../middleware/auth.middleware';
 import { applyRLS } from '../../middleware/rls.middleware';
 import { validate } from '../../middleware/validation.middleware';
+import { AuthRequest } from '../../shared/types';
 import {
   createModuleSchema,
   updateModuleSchema,
   createExerciseSchema,
   updateExerciseSchema,
   submitExerciseSchema,
+  useComodinSchema,
+  dryRunExerciseSchema,
+  dryRunDraftExerciseSchema,
+  confirmRegradeSchema,
+  reviewAttemptFlagSchema,
+  contentAuditQuerySchema,
+  importContentBundleSchema,
+  studentVariantsQuerySchema,
+  dueReviewsQuerySchema,
+  submitReviewSchema,
+  recommendationsQuerySchema,
+  gradeAttemptSchema,
+  pendingGradingQuerySchema,
+  analyticsQuerySchema,
+  analyticsParamsSchema,
+  classroomAnalyticsParamsSchema,
+  itemAnalysisQuerySchema,
 } from './validations/educational.validation';
 
 export function createEducationalRoutes(pool: Pool): Router {
@@ -34,11 +72,59 @@ export function createEducationalRoutes(pool: Pool): Router {
   const progressService = new ProgressService(pool);
   const analyticsService = new AnalyticsService(pool);
   const activitiesService = new ActivitiesService(pool);
+  const regradeService = new RegradeService(pool);
+  const attemptSessionsService = new AttemptSessionsService(pool);
+  const idempotencyService = new SubmissionIdempotencyService(pool);
+  const outboxService = new SubmissionOutboxService(pool);
+  const scoringPolicyService = new ScoringPolicyService(pool);
+  const integrityService = new SubmissionIntegrityService(pool);
+  const bundleService = new ContentBundleService(pool);
+  const reviewQueueService = new ReviewQueueService(pool);
+  const recommendationsService = new RecommendationsService(pool);
+  const gradingService = new AttemptGradingService(pool);
+  const itemAnalysisService = new ItemAnalysisService(pool);
+
+  // Initialize re-grade system (create tables if needed)
+  regradeService.initialize().catch(err => {
+    console.error('Failed to initialize re-grade system:', err);
+  });
+  attemptSessionsService.initialize().catch(err => {
+    console.error('Failed to initialize attempt sessions:', err);
+  });
+  idempotencyService.initialize().catch(err => {
+    console.error('Failed to initialize submission idempotency:', err);
+  });
+  outboxService.initialize().catch(err => {
+    console.error('Failed to initialize submission outbox:', err);
+  });
+  scoringPolicyService.initialize().catch(err => {
+    console.error('Failed to initialize scoring policies:', err);
+  });
+  integrityService.initialize().catch(err => {
+    console.error('Failed to initialize submission integrity:', err);
+  });
+  reviewQueueService.initialize().catch(err => {
+    console.error('Failed to initialize review queue:', err);
+  });
+  gradingService.initialize().catch(err => {
+    console.error('Failed to initialize attempt grading:', err);
+  });
+  analyticsService.initialize().catch(err => {
+    console.error('Failed to initialize learner analytics:', err);
+  });
 
   const modulesController = new ModulesController(modulesService);
-  const exercisesController = new ExercisesController(exercisesService);
+  const exercisesController = new ExercisesController(exercisesService, attemptSessionsService, idempotencyService);
   const progressController = new ProgressController(progressService);
   const activitiesController = new ActivitiesController(activitiesService);
+  const regradeController = new RegradeController(regradeService);
+  const outboxController = new SubmissionOutboxController(outboxService);
+  const integrityController = new SubmissionIntegrityController(integrityService);
+  const bundleController = new ContentBundleController(bundleService);
+  const reviewQueueController = new ReviewQueueController(reviewQueueService);
+  const recommendationsController = new RecommendationsController(recommendationsService);
+  const gradingController = new AttemptGradingController(gradingService);
+  const itemAnalysisController = new ItemAnalysisController(itemAnalysisService);
 
   // ============================================================================
   // MODULE ROUTES
@@ -59,10 +145,18 @@ export function createEducationalRoutes(pool: Pool): Router {
   router.delete('/modules/:moduleId', authenticateJWT, modulesController.deleteModule);
   router.patch('/modules/:moduleId/publish', authenticateJWT, modulesController.updatePublishStatus);
 
+  // Teacher routes: portable bundles (JSON, or IMS QTI 2.1 packages on import)
+  router.get('/modules/:moduleId/export', authenticateJWT, requireRole('admin_teacher', 'super_admin'), bundleController.exportModule);
+  router.post('/modules/import', authenticateJWT, requireRole('admin_teacher', 'super_admin'), validate(importContentBundleSchema), bundleController.importBundle);
+  router.post('/modules/:moduleId/import', authenticateJWT, requireRole('admin_teacher', 'super_admin'), validate(importContentBundleSchema), bundleController.importBundle);
+
   // ============================================================================
   // EXERCISE ROUTES
   // ============================================================================
 
+  // Admin routes: stored exercises whose content fails its type schema
+  router.get('/exercises/content-audit', authenticateJWT, requireRole('super_admin'), validate(contentAuditQuerySchema, 'query'), exercisesController.auditExerciseContent);
+
   // Public routes
   router.get('/exercises', exercisesController.getAllExercises);
   router.get('/exercises/:exerciseId', exercisesController.getExerciseById);
@@ -71,13 +165,63 @@ export function createEducationalRoutes(pool: Pool): Router {
   router.get('/mechanics/:exerciseId/hints', exercisesController.getExerciseHints);
 
   // Student routes (authentication required)
+  router.post('/exercises/:exerciseId/start', authenticateJWT, applyRLS, exercisesController.startAttempt);
+  router.post('/exercises/:exerciseId/powerups/:powerupType(pistas|vision_lectora|segunda_oportunidad)', authenticateJWT, applyRLS, validate(useComodinSchema), exercisesController.usePowerup);
   router.post('/exercises/:exerciseId/submit', authenticateJWT, applyRLS, validate(submitExerciseSchema), exercisesController.submitExercise);
 
+  // Teacher routes: answer-key dry run (nothing is saved)
+  router.post('/exercises/dry-run', authenticateJWT, requireRole('admin_teacher', 'super_admin'), validate(dryRunDraftExerciseSchema), exercisesController.dryRunExercise);
+  router.get('/exercises/:exerciseId/export', authenticateJWT, requireRole('admin_teacher', 'super_admin'), bundleController.exportExercise);
+  router.post('/exercises/:exerciseId/dry-run', authenticateJWT, requireRole('admin_teacher', 'super_admin'), validate(dryRunExerciseSchema), exercisesController.dryRunExercise);
+
+  // Teacher routes: re-grade past attempts after an answer-key fix (preview, then confirm)
+  router.post('/exercises/:exerciseId/regrade/preview', authenticateJWT, requireRole('admin_teacher', 'super_admin'), regradeController.previewRegrade);
+  router.post('/exercises/:exerciseId/regrade', authenticateJWT, requireRole('admin_teacher', 'super_admin'), validate(confirmRegradeSchema), regradeController.confirmRegrade);
+  router.get('/exercises/:exerciseId/regrades', authenticateJWT, requireRole('admin_teacher', 'super_admin'), regradeController.getRegradeHistory);
+
+  // Teacher routes: each student's randomized variant
+  router.get('/exercises/:exerciseId/variants', authenticateJWT, requireRole('admin_teacher', 'super_admin'), validate(studentVariantsQuerySchema, 'query'), exercisesController.getStudentVariants);
+
+  // Teacher routes: review queue of flagged attempts (teachers see their classrooms)
+  router.get('/attempt-flags', authenticateJWT, requireRole('admin_teacher', 'super_admin'), integrityController.getFlags);
+  router.post('/attempt-flags/:flagId/review', authenticateJWT, requireRole('admin_teacher', 'super_admin'), validate(reviewAttemptFlagSchema), integrityController.reviewFlag);
+
+  // Teacher routes: rubric grading of manually scored attempts (teachers see their classrooms)
+  router.get('/attempts/pending-grading', authenticateJWT, requireRole('admin_teacher', 'super_admin'), validate(pendingGradingQuerySchema, 'query'), gradingController.getPendingAttempts);
+  router.get('/attempts/:attemptId/grading', authenticateJWT, requireRole('admin_teacher', 'super_admin'), gradingController.getAttemptForGrading);
+  router.post('/attempts/:attemptId/grade', authenticateJWT, requireRole('admin_teacher', 'super_admin'), validate(gradeAttemptSchema), gradingController.gradeAttempt);
+
+  // Teacher routes: item analysis of exercises and assignments, as JSON or CSV (teachers see their classrooms)
+  router.get('/exercises/:exerciseId/item-analysis', authenticateJWT, requireRole('admin_teacher', 'super_admin'), validate(itemAnalysisQuerySchema, 'query'), itemAnalysisController.getExerciseItemAnalysis);
+  router.get('/assignments/:assignmentId/item-analysis', authenticateJWT, requireRole('admin_teacher', 'super_admin'), validate(itemAnalysisQuerySchema, 'query'), itemAnalysisController.getAssignmentItemAnalysis);
+
   // Admin routes (authentication required)
   router.post('/exercises', authenticateJWT, validate(createExerciseSchema), exercisesController.createExercise);
   router.put('/exercises/:exerciseId', authenticateJWT, validate(updateExerciseSchema), exercisesController.updateExercise);
   router.delete('/exercises/:exerciseId', authenticateJWT, exercisesController.deleteExercise);
 
+  // ============================================================================
+  // REVIEW QUEUE ROUTES (authentication required)
+  // ============================================================================
+
+  // Student routes: spaced-repetition reviews of missed items
+  router.get('/reviews/due', authenticateJWT, validate(dueReviewsQuerySchema, 'query'), reviewQueueController.getDueReviews);
+  router.post('/reviews/:reviewId', authenticateJWT, validate(submitReviewSchema), reviewQueueController.submitReview);
+
+  // ============================================================================
+  // RECOMMENDATION ROUTES (authentication required)
+  // ============================================================================
+
+  // Student routes: next exercises, adapted to recent performance and rank
+  router.get('/recommendations', authenticateJWT, validate(recommendationsQuerySchema, 'query'), recommendationsController.getRecommendations);
+
+  // ============================================================================
+  // SUBMISSION EVENT ROUTES (super admin)
+  // ============================================================================
+
+  router.get('/submission-events/dead-letter', authenticateJWT, requireRole('super_admin'), outboxController.getDeadLetterEvents);
+  router.post('/submission-events/dead-letter/:eventId/replay', authenticateJWT, requireRole('super_admin'), outboxController.replayDeadLetterEvent);
+
   // ============================================================================
   // PROGRESS ROUTES (authentication required)
   // ============================================================================
@@ -96,12 +240,16 @@ export function createEducationalRoutes(pool: Pool): Router {
   // ANALYTICS ROUTES (authentication required)
   // ============================================================================
 
-  router.get('/analytics/:userId', authenticateJWT, applyRLS, async (req, res, next) => {
+  router.get('/analytics/:userId', authenticateJWT, applyRLS, validate(analyticsParamsSchema, 'params'), validate(analyticsQuerySchema, 'query'), async (req: AuthRequest, res, next) => {
     try {
       const { userId } = req.params;
-      const timeframe = (req.query.timeframe as string) || 'month';
+      const timeframe = (req.query.timeframe as AnalyticsTimeframe) || 'month';
 
-      const analytics = await analyticsService.getUserAnalytics(userId, timeframe);
+      const analytics = await analyticsService.getUserAnalytics(
+        userId,
+        { userId: req.user?.id!, role: req.user?.role! },
+        timeframe
+      );
 
       res.json({
         success: true,
@@ -112,12 +260,16 @@ export function createEducationalRoutes(pool: Pool): Router {
     }
   });
 
-  router.get('/analytics/classroom/:classroomId', authenticateJWT, applyRLS, async (req, res, next) => {
+  router.get('/analytics/classroom/:classroomId', authenticateJWT, requireRole('admin_teacher', 'super_admin'), applyRLS, validate(classroomAnalyticsParamsSchema, 'params'), async (req: AuthRequest, res, next) => {
     try {
       const { classroomId } = req.params;
       const timeframe = (req.query.timeframe as string) || 'month';
 
-      const analytics = await analyticsService.getClassroomAnalytics(classroomId, timeframe);
+      const analytics = await analyticsService.getClassroomAnalytics(
+        classroomId,
+        { userId: req.user?.id!, role: req.user?.role! },
+        timeframe
+      );
 
       res.json({
         success: true,
@@ -185,11 +185,11 @@ export interface CreateExerciseDto {
   config: Record<string, any>;
   content: ExerciseContent;
   solution?: Record<string, any>;
-  rubric?: Record<string, any>;
+  rubric?: ExerciseRubric | null; // Grading rubric of manually scored types
   autoGradable?: boolean;
   difficulty: DifficultyLevel;
   maxPoints?: number;
-  passingScore?: number;
+  passingScore?: number | null;
   estimatedTimeMinutes?: number;
   timeLimitMinutes?: number;
   maxAttempts?: number;
@@ -225,8 +225,10 @@ export interface ExerciseResponse {
   difficulty: DifficultyLevel;
   difficultyLevel?: DifficultyLevel; // Alias for difficulty
   estimatedTimeMinutes: number;
+  timeLimitMinutes?: number | null; // Enforced through attempt sessions
+  maxAttempts?: number | null; // null or 0 = unlimited
   pointsReward: number;
-  passingScore: number; // Minimum score required to pass
+  passingScore: number | null; // Minimum score required to pass (null = scoring policy's)
   mlCoinsReward: number;
   xpReward: number;
   content: ExerciseContent;
@@ -235,13 +237,46 @@ export interface ExerciseResponse {
   userProgress?: {
     attempts: number;
     bestScore: number;
+    latestScore?: number;
+    averageScore?: number;
     completed: boolean;
     lastAttemptedAt?: Date;
   };
+  attemptStatus?: AttemptStatus; // Present when the exercise is loaded for a user
   createdAt: Date;
   updatedAt: Date;
 }
 
+/**
+ * Which attempt counts as the student's result for an exercise
+ */
+export type AttemptScorePolicy = 'best' | 'latest' | 'average';
+
+/**
+ * Attempt limits for an exercise
+ *
+ * `maxAttempts` comes from the exercise; cooldown and score policy are read
+ * from `content.attemptPolicy`.
+ */
+export interface AttemptPolicy {
+  maxAttempts: number | null; // null = unlimited
+  cooldownMinutes: number; // Wait between attempts (0 = none)
+  scorePolicy: AttemptScorePolicy;
+}
+
+/**
+ * A student's attempt standing on an exercise
+ */
+export interface AttemptStatus {
+  maxAttempts: number | null;
+  attemptsUsed: number;
+  remainingAttempts: number | null; // null = unlimited
+  cooldownEndsAt: Date | null;
+  canAttempt: boolean;
+  scorePolicy: AttemptScorePolicy;
+  countedScore: number | null; // null until the first attempt
+}
+
 // ============================================================================
 // EXERCISE CONTENT TYPE-SPECIFIC INTERFACES
 // ============================================================================
@@ -267,10 +302,16 @@ export interface CrucigramaContent extends ExerciseContent {
   };
 }
 
+/**
+ * Timeline ordering score modes
+ */
+export type TimelineOrderScoring = 'position' | 'pairwise' | 'longest_run';
+
 /**
  * Línea de Tiempo Content
  */
 export interface LineaTiempoContent extends ExerciseContent {
+  orderScoring?: TimelineOrderScoring;
   events: Array<{
     id: string;
     title: string;
@@ -286,6 +327,28 @@ export interface LineaTiempoContent extends ExerciseContent {
   };
 }
 
+/**
+ * Sopa de Letras Content
+ */
+export interface SopaLetrasContent extends ExerciseContent {
+  grid: string[] | string[][]; // Rows of letters
+  words: Array<string | { word: string; clue?: string }>;
+}
+
+/**
+ * Sopa de Letras Answers
+ *
+ * Each find is the start and end cell of a word on the grid, in any of
+ * the 8 directions. Only finds that read a puzzle word are scored.
+ */
+export interface SopaLetrasAnswers {
+  finds: Array<{
+    word?: string;
+    start: { row: number; col: number };
+    end: { row: number; col: number };
+  }>;
+}
+
 /**
  * Detective Textual Content
  */
@@ -322,8 +385,17 @@ export interface MapaConceptualContent extends ExerciseContent {
     toConceptId: string;
     label: string;
     type: 'is-a' | 'has-a' | 'part-of' | 'causes' | 'leads-to';
+    direction?: 'directed' | 'undirected' | 'bidirectional'; // Default: directed
+    labelSynonyms?: string[];
+    weight?: number; // Default: 1
+    required?: boolean; // Optional edges add credit but are not needed for 100
   }>;
   mainConcept: string;
+  labelSynonyms?: string[][]; // Label synonym sets shared by all relationships
+  graphScoring?: {
+    wrongLabelCredit?: number; // Credit for the right concepts with a wrong label (default 0.5)
+    wrongEdgePenalty?: number; // Points lost per edge that is not in the map (default 0.5)
+  };
 }
 
 /**
@@ -447,6 +519,231 @@ export interface ComicDigitalContent extends ExerciseContent {
   };
 }
 
+/**
+ * Emparejamiento Content
+ */
+export interface EmparejamientoContent extends ExerciseContent {
+  correctPairs: Record<string, string | number>; // Left item -> matching right item
+}
+
+/**
+ * Verdadero/Falso Content
+ */
+export interface VerdaderoFalsoContent extends ExerciseContent {
+  statements: Array<{
+    id?: string;
+    statement?: string;
+    text?: string;
+    correctAnswer?: boolean;
+    isTrue?: boolean; // Legacy alias for correctAnswer
+    explanation?: string;
+  }>;
+}
+
+/**
+ * Completar Espacios Content
+ */
+export interface CompletarEspaciosContent extends ExerciseContent {
+  text?: string;
+  blanks: Array<{
+    id?: string;
+    correctAnswer: string;
+    acceptedAnswers?: string[];
+    synonyms?: string[];
+    matching?: Record<string, any>; // Per-blank text matching overrides
+  }>;
+}
+
+/**
+ * Choice questions content (Comprensión Auditiva, Análisis de Memes)
+ */
+export interface ChoiceQuestionsContent extends ExerciseContent {
+  questions: Array<{
+    id?: string;
+    question: string;
+    options: any[];
+    correctAnswer: any; // An option, or its index
+    points?: number;
+  }>;
+}
+
+/**
+ * Collage de Prensa Content
+ */
+export interface CollagePrensaContent extends ExerciseContent {
+  requiredElements?: Array<string | { id: string; points?: number }>;
+}
+
+// ============================================================================
+// CONTENT VALIDATION INTERFACES
+// ============================================================================
+
+/**
+ * One problem found in exercise content
+ *
+ * Errors reject the content; warnings are reported but accepted.
+ */
+export interface ContentValidationIssue {
+  severity: 'error' | 'warning';
+  field: string; // Path in the content, e.g. `clues.across.0.answer`
+  message: string;
+}
+
+/**
+ * Result of validating exercise content against its type schema
+ */
+export interface ContentValidationResult {
+  isValid: boolean;
+  errors: ContentValidationIssue[];
+}
+
+/**
+ * A stored exercise whose content fails its type schema
+ */
+export interface InvalidExerciseContent {
+  exerciseId: string;
+  moduleId: string;
+  title: string;
+  exerciseType: ExerciseType;
+  isActive: boolean;
+  errors: ContentValidationIssue[];
+}
+
+/**
+ * Content audit of stored exercises
+ */
+export interface ExerciseContentAudit {
+  scanned: number;
+  invalid: number;
+  byType: Record<string, number>; // Invalid exercises per type
+  exercises: InvalidExerciseContent[];
+}
+
+// ============================================================================
+// CONTENT BUNDLE INTERFACES
+// ============================================================================
+
+/**
+ * Module metadata in a bundle
+ */
+export interface ContentBundleModule {
+  title: string;
+  subtitle?: string | null;
+  description: string;
+  summary?: string | null;
+  orderIndex?: number;
+  difficulty: DifficultyLevel;
+  estimatedDurationMinutes?: number;
+  learningObjectives?: string[];
+  rangoMayaRequired?: RangoMaya | null;
+  rangoMayaGranted?: RangoMaya | null;
+  xpReward?: number;
+  mlCoinsReward?: number;
+  thumbnailUrl?: string | null;
+  tags?: string[];
+}
+
+/**
+ * Exercise in a bundle; its position in the bundle is its order
+ */
+export interface ContentBundleExercise {
+  title: string;
+  description: string;
+  instructions?: string;
+  exerciseType: ExerciseType;
+  difficulty: DifficultyLevel;
+  content: ExerciseContent;
+  config?: Record<string, any>;
+  solution?: Record<string, any> | null;
+  rubric?: ExerciseRubric | null;
+  autoGradable?: boolean;
+  hints?: string[];
+  maxPoints?: number;
+  passingScore?: number | null;
+  estimatedTimeMinutes?: number;
+  timeLimitMinutes?: number | null;
+  maxAttempts?: number;
+  comodinesAllowed?: ComodinType[];
+  xpReward?: number;
+  mlCoinsReward?: number;
+}
+
+/**
+ * External file referenced by bundle content (not embedded)
+ */
+export interface ContentBundleMedia {
+  url: string;
+  references: string[]; // Bundle paths that use the file, e.g. `exercises.0.content.questions.1.imageUrl`
+}
+
+/**
+ * Portable module/exercise bundle
+ *
+ * `module` is null for bundles of loose exercises, which can only be
+ * imported into an existing module.
+ */
+export interface ContentBundle {
+  format: string; // 'glit.content-bundle'
+  version: number;
+  exportedAt?: string;
+  module: ContentBundleModule | null;
+  exercises: ContentBundleExercise[];
+  media?: ContentBundleMedia[];
+}
+
+/**
+ * What to do with exercises whose title already exists in the module
+ */
+export type BundleConflictStrategy = 'fail' | 'skip';
+
+/**
+ * Import request: a bundle, or an IMS QTI 2.1 package converted to one
+ */
+export interface ImportContentBundleDto {
+  bundle?: ContentBundle;
+  qti?: {
+    package?: string; // Base64 zip with imsmanifest.xml
+    items?: string[]; // assessmentItem XML documents
+  };
+  module?: ContentBundleModule; // Module metadata for QTI imports into a new module
+  dryRun?: boolean;
+  onConflict?: BundleConflictStrategy;
+}
+
+/**
+ * Clash between the bundle and content already stored
+ */
+export interface BundleConflict {
+  field: string; // Bundle path, e.g. `module.title` or `exercises.2.title`
+  message: string;
+  existingId: string;
+}
+
+/**
+ * Outcome of one bundle exercise
+ */
+export interface BundleExerciseReport {
+  index: number;
+  title: string;
+  exerciseType: string;
+  orderIndex: number | null;
+  status: 'ready' | 'created' | 'skipped' | 'invalid' | 'conflict';
+  exerciseId: string | null;
+}
+
+/**
+ * Result of validating (and, unless it was a dry run, importing) a bundle
+ */
+export interface BundleImportReport {
+  dryRun: boolean;
+  imported: boolean;
+  moduleId: string | null;
+  issues: ContentValidationIssue[]; // Field paths are bundle paths
+  conflicts: BundleConflict[];
+  exercises: BundleExerciseReport[];
+  media: ContentBundleMedia[];
+}
+
 // ============================================================================
 // SUBMISSION INTERFACES
 // ============================================================================
@@ -461,6 +758,8 @@ export interface SubmitExerciseDto {
   timeSpent: number; // seconds
   powerupsUsed: ComodinType[];
   sessionId?: string;
+  timeOveragePenalty?: number; // Points deducted for exceeding the time limit
+  variant?: ExerciseVariant | null; // Set when the attempt had its own variant
 }
 
 /**
@@ -484,13 +783,7 @@ export interface SubmissionResponse {
   };
   feedback: {
     overall: string;
-    answerReview: Array<{
-      questionId: string;
-      isCorrect: boolean;
-      userAnswer: string;
-      correctAnswer: string;
-      explanation?: string;
-    }>;
+    answerReview: AnswerReviewItem[];
   };
   achievements: Array<{
     id: string;
@@ -504,9 +797,34 @@ export interface SubmissionResponse {
     bonusMLCoins: number;
     newMultiplier: number;
   } | null;
+  pendingEvents?: SubmissionEventType[]; // Side effects still being processed
+  rewardsHeld?: { xp: number; mlCoins: number }; // Held until a teacher reviews the attempt
+  gradingStatus?: AttemptGradingStatus; // Set for manually scored types; rewards settle when graded
   createdAt: Date;
 }
 
+/**
+ * Submission response with the answer key (keyed like feedback.answerReview)
+ * and explanations, sent only after submission
+ */
+export interface SecureSubmissionResponse extends Omit<SubmissionResponse, 'correctAnswers'> {
+  correctAnswers: Record<string, any>;
+  explanations: Record<string, string>;
+}
+
+/**
+ * Per-item review returned after submission
+ */
+export interface AnswerReviewItem {
+  questionId: string;
+  isCorrect: boolean;
+  credit: number; // Partial credit earned (0-1)
+  userAnswer: any;
+  correctAnswer: any;
+  acceptedWithTypo?: boolean; // Accepted by the typo tolerance of the matching policy
+  explanation?: string;
+}
+
 // ============================================================================
 // PROGRESS TRACKING INTERFACES
 // ============================================================================
@@ -599,11 +917,37 @@ export interface ExerciseAttempt {
   completedAt: Date;
 }
 
+/**
+ * Window of learner analytics, ending now
+ */
+export type AnalyticsTimeframe = 'week' | 'month' | 'quarter' | 'year' | 'all';
+
+/**
+ * Part of the day (UTC) a student studies in
+ */
+export type StudyTimeOfDay = 'morning' | 'afternoon' | 'evening' | 'night';
+
+/**
+ * Attempt as read for learner analytics
+ */
+export interface AnalyticsAttempt {
+  exerciseId: string;
+  moduleId: string | null;
+  moduleName: string | null;
+  exerciseType: ExerciseType;
+  score: number;
+  isCorrect: boolean;
+  timeSpent: number; // seconds
+  submittedAt: Date;
+  pendingReview: boolean; // Waiting for a teacher's grade; has no score yet
+}
+
 /**
  * Learning Analytics
  */
 export interface LearningAnalytics {
-  timeframe: string;
+  timeframe: AnalyticsTimeframe;
+  generatedAt: Date;
   summary: {
     totalTimeStudied: number; // minutes
     exercisesCompleted: number;
@@ -626,10 +970,10 @@ export interface LearningAnalytics {
     successRate: number;
   }>;
   studyPattern: {
-    averageSessionDuration: number;
-    preferredStudyTime: string;
-    mostActiveDay: string;
-    studyConsistency: number;
+    averageSessionDuration: number; // minutes
+    preferredStudyTime: StudyTimeOfDay | null; // null without activity
+    mostActiveDay: string | null;
+    studyConsistency: number; // percentage of days with activity
   };
   trends: {
     scoreOverTime: Array<{ date: string; averageScore: number }>;
@@ -768,10 +1112,930 @@ export interface ScoreResult {
     powerups?: number;
     timeOverage?: number;
   };
+  passed: boolean;
   mlCoins: number;
   xp: number;
 }
 
+/**
+ * Why a scorer produced the base score it did
+ */
+export type ScoreReasonCode =
+  | 'SCORED' // Items were graded automatically
+  | 'NO_GRADABLE_ITEMS' // Content has nothing to grade against
+  | 'MANUAL_REVIEW' // Requires teacher review, score is provisional
+  | 'UNSUPPORTED_TYPE'; // No scorer registered for the exercise type
+
+/**
+ * Answer-key dry run request (teacher only)
+ *
+ * `exercise` is an unsaved exercise payload, used when no exercise id is given.
+ * `currentRank`, `streakDays` and `firstAttempt` simulate a student.
+ */
+export interface DryRunExerciseDto {
+  exercise?: Partial<CreateExerciseDto>;
+  answers: any;
+  timeSpent?: number; // seconds
+  powerupsUsed?: ComodinType[];
+  currentRank?: RangoMaya;
+  streakDays?: number;
+  firstAttempt?: boolean;
+}
+
+/**
+ * Exercise fields read to score a preview (an unsaved draft has no id)
+ */
+export type PreviewExercise = Pick<
+  ExerciseResponse,
+  | 'exerciseType'
+  | 'content'
+  | 'difficultyLevel'
+  | 'estimatedTimeMinutes'
+  | 'passingScore'
+  | 'mlCoinsReward'
+  | 'xpReward'
+  | 'userProgress'
+> & { id: string | null };
+
+/**
+ * Submission fields read to score a preview (no student submitted it)
+ */
+export type PreviewSubmission = Pick<SubmitExerciseDto, 'answers' | 'timeSpent' | 'powerupsUsed' | 'timeOveragePenalty'>;
+
+/**
+ * Full scoring breakdown for a dry run
+ */
+export interface ScoringBreakdown {
+  exerciseId: string | null;
+  exerciseType: ExerciseType;
+  baseScore: number;
+  earnedPoints: number;
+  maxScore: number;
+  reasonCode: ScoreReasonCode;
+  finalScore: number;
+  passed: boolean;
+  scoringPolicyVersion: number;
+  multipliers: ScoreResult['multipliers'];
+  bonuses: ScoreResult['bonuses'];
+  penalties: ScoreResult['penalties'];
+  rewards: {
+    mlCoins: number;
+    xp: number;
+  };
+  feedback: SubmissionResponse['feedback'];
+}
+
+/**
+ * Scoring policy: multipliers, bonuses, penalties and passing score
+ *
+ * Stored per organization with a platform default. Bonuses and penalties
+ * are in score points (0-100 scale).
+ */
+export interface ScoringPolicy {
+  passingScore: number;
+  difficultyMultipliers: Record<string, number>; // By DifficultyLevel
+  rankMultipliers: Record<string, number>; // By RangoMaya
+  streak: {
+    percentPerDay: number; // 0.05 = +5% per streak day
+    maxPercent: number;
+  };
+  bonuses: {
+    perfect: number;
+    noHints: number;
+    speed: number;
+    speedTimeRatio: number; // Speed bonus below this fraction of the estimated time
+    firstAttempt: number;
+    firstAttemptMinScore: number;
+  };
+  penalties: {
+    perPowerup: number;
+  };
+}
+
+/**
+ * A stored version of a scoring policy
+ *
+ * `organizationId` is null for the platform default; `id` is null (and
+ * `version` 0) for the built-in default that applies until an admin edits it.
+ */
+export interface ScoringPolicyVersion {
+  id: string | null;
+  organizationId: string | null;
+  version: number;
+  policy: ScoringPolicy;
+  createdBy: string | null;
+  createdAt: Date | null;
+}
+
+/**
+ * Scoring policy update; omitted fields keep their current value
+ */
+export interface UpdateScoringPolicyDto {
+  passingScore?: number;
+  difficultyMultipliers?: Record<string, number>;
+  rankMultipliers?: Record<string, number>;
+  streak?: Partial<ScoringPolicy['streak']>;
+  bonuses?: Partial<ScoringPolicy['bonuses']>;
+  penalties?: Partial<ScoringPolicy['penalties']>;
+}
+
+// ============================================================================
+// ATTEMPT SESSION INTERFACES
+// ============================================================================
+
+/**
+ * What happens when a submission exceeds the exercise time limit
+ *
+ * Read from `content.timeLimitPolicy`, falling back to the platform default.
+ */
+export interface TimeLimitPolicy {
+  mode: 'reject' | 'penalize';
+  graceSeconds: number; // Tolerated overrun (network latency, slow devices)
+  penaltyPerMinute: number; // Points deducted per started minute over the limit
+  maxPenalty: number;
+}
+
+/**
+ * Server-side attempt session
+ */
+export interface AttemptSession {
+  id: string;
+  userId: string;
+  exerciseId: string;
+  status: 'active' | 'submitted' | 'expired';
+  startedAt: Date;
+  expiresAt: Date;
+  timeLimitSeconds: number | null;
+  submittedAt: Date | null;
+  variant: ExerciseVariant | null;
+}
+
+/**
+ * Start attempt response
+ */
+export interface StartAttemptResponse {
+  sessionId: string;
+  attemptToken: string;
+  startedAt: Date;
+  expiresAt: Date;
+  deadline: Date | null; // startedAt + time limit, when the exercise has one
+  timeLimitSeconds: number | null;
+  timeLimitPolicy: TimeLimitPolicy | null;
+  attemptStatus: AttemptStatus; // Standing before this attempt
+  variant: { seed: string; content: ExerciseContent } | null; // This attempt's variant, without the answer key
+}
+
+/**
+ * Server-measured timing of a redeemed attempt
+ */
+export interface RedeemedAttempt {
+  sessionId: string;
+  startedAt: Date;
+  timeSpent: number; // seconds, measured by the server
+  overageSeconds: number;
+  timeOveragePenalty: number;
+  powerupsUsed: ComodinType[]; // Consumed during the attempt, as recorded by the server
+  variant: ExerciseVariant | null;
+}
+
+/**
+ * Why an attempt was recorded without being scored, kept in its
+ * grading context
+ */
+export interface RejectedAttemptContext {
+  rejectionReason: 'TIME_LIMIT_EXCEEDED';
+  timeLimitSeconds: number;
+  overageSeconds: number;
+}
+
+/**
+ * Use comodín request (tied to an active attempt)
+ *
+ * `answers` is required by segunda_oportunidad, which checks them.
+ */
+export interface UseComodinDto {
+  attemptToken: string;
+  answers?: any;
+}
+
+/**
+ * Effect of a comodín on the active attempt
+ */
+export type ComodinEffect =
+  | {
+      type: ComodinType.PISTAS;
+      hint: { order: number; text: string };
+      hintsRemaining: number;
+    }
+  | {
+      type: ComodinType.VISION_LECTORA;
+      mode: 'remove_distractors';
+      removedOptions: Record<string, any[]>; // Question id -> options taken out
+    }
+  | {
+      type: ComodinType.VISION_LECTORA;
+      mode: 'highlight';
+      highlights: Array<{ itemId: string; passage: any }>;
+    }
+  | {
+      type: ComodinType.SEGUNDA_OPORTUNIDAD;
+      wrongItems: string[]; // Items to fix before the final submission
+      gradedItems: number;
+    };
+
+/**
+ * Use comodín response
+ */
+export interface UseComodinResponse {
+  sessionId: string;
+  effect: ComodinEffect;
+  usesLeftThisAttempt: number;
+}
+
+// ============================================================================
+// RE-GRADE INTERFACES
+// ============================================================================
+
+/**
+ * Score change for one historical attempt
+ */
+export interface RegradeAttemptChange {
+  attemptId: string;
+  userId: string; // profile id
+  oldScore: number;
+  newScore: number;
+  oldPassed: boolean;
+  newPassed: boolean;
+  xpDelta: number;
+  mlCoinsDelta: number;
+  rewardsHeld: boolean; // Deltas adjust rewards held for a pending review, not the student's
+}
+
+/**
+ * Impact of re-grading an exercise against its current answer key
+ *
+ * `contentHash` identifies the answer key that was previewed; the teacher
+ * sends it back to confirm so a re-grade never runs against a key that
+ * changed after the preview.
+ */
+export interface RegradePreview {
+  exerciseId: string;
+  contentHash: string;
+  attemptsTotal: number;
+  attemptsChanged: number;
+  attemptsSkipped: number; // Attempts the current key cannot auto-score
+  students: {
+    total: number;
+    affected: number;
+    failToPass: number;
+    passToFail: number;
+  };
+  averageScoreDelta: number;
+  xpDelta: number;
+  mlCoinsDelta: number;
+  changes: RegradeAttemptChange[];
+}
+
+/**
+ * Confirm re-grade request
+ */
+export interface ConfirmRegradeDto {
+  contentHash: string;
+  reason?: string;
+}
+
+/**
+ * Executed re-grade job
+ */
+export interface RegradeJob {
+  id: string;
+  exerciseId: string;
+  requestedBy: string;
+  contentHash: string;
+  reason: string | null;
+  attemptsTotal: number;
+  attemptsChanged: number;
+  failToPass: number;
+  passToFail: number;
+  xpDelta: number;
+  mlCoinsDelta: number;
+  createdAt: Date;
+  completedAt: Date | null;
+}
+
+// ============================================================================
+// SUBMISSION EVENT INTERFACES
+// ============================================================================
+
+/**
+ * Side effects of a submission, processed by the outbox worker
+ */
+export type SubmissionEventType =
+  | 'streak.activity'
+  | 'achievements.check'
+  | 'achievement.notify'
+  | 'rank.check'
+  | 'rank.notify'
+  | 'module_progress.completed'
+  | 'missions.exercise_completed'
+  | 'missions.ml_coins_earned'
+  | 'missions.xp_earned'
+  | 'review_queue.collect'
+  | 'missions.review_completed'
+  | 'grade.notify'
+  | 'analytics.refresh';
+
+/**
+ * Event to enqueue
+ */
+export interface SubmissionEventInput {
+  eventType: SubmissionEventType;
+  payload: Record<string, any>;
+}
+
+/**
+ * Event stored in the outbox
+ */
+export interface SubmissionEvent extends SubmissionEventInput {
+  id: string;
+  attemptId: string | null;
+  userId: string;
+  status: 'pending' | 'processing' | 'completed';
+  attempts: number;
+  nextAttemptAt: Date;
+  lastError: string | null;
+  createdAt: Date;
+  processedAt: Date | null;
+}
+
+/**
+ * Event that ran out of retries
+ */
+export interface DeadLetterEvent extends SubmissionEventInput {
+  id: string;
+  attemptId: string | null;
+  userId: string;
+  attempts: number;
+  lastError: string | null;
+  createdAt: Date;
+  failedAt: Date;
+}
+
+/**
+ * Result of one worker run
+ */
+export interface OutboxRunResult {
+  claimed: number;
+  completed: number;
+  retried: number;
+  deadLettered: number;
+}
+
+// ============================================================================
+// SUBMISSION INTEGRITY INTERFACES
+// ============================================================================
+
+/**
+ * Anomaly detection settings, overridable per exercise through
+ * `content.integrityPolicy`
+ */
+export interface IntegrityPolicy {
+  minTimeRatio: number; // Too fast below this fraction of estimatedTimeMinutes
+  duplicateWindowMinutes: number; // Window for identical answers from classmates
+  scoreJumpThreshold: number; // Points above the student's recent average
+  flagThreshold: number; // Anomaly score (0-100) that sends the attempt to review
+  holdRewards: boolean; // Hold XP and ML Coins of flagged attempts until review
+}
+
+/**
+ * One anomaly found in an attempt
+ */
+export interface IntegritySignal {
+  code: 'too_fast' | 'duplicate_answers' | 'score_jump';
+  weight: number;
+  details: Record<string, any>;
+}
+
+/**
+ * Anomaly assessment of an attempt
+ */
+export interface IntegrityAssessment {
+  anomalyScore: number; // 0-100
+  signals: IntegritySignal[];
+  flagged: boolean;
+  holdRewards: boolean;
+}
+
+export type AttemptFlagStatus = 'pending' | 'cleared' | 'confirmed';
+
+/**
+ * Flagged attempt in the review queue
+ */
+export interface AttemptFlag {
+  id: string;
+  attemptId: string;
+  userId: string; // profile id
+  studentName: string | null;
+  exerciseId: string;
+  exerciseTitle: string | null;
+  score: number;
+  timeSpent: number;
+  anomalyScore: number;
+  signals: IntegritySignal[];
+  status: AttemptFlagStatus;
+  rewardsHeld: boolean;
+  heldXp: number;
+  heldMlCoins: number;
+  reviewedBy: string | null;
+  reviewNotes: string | null;
+  reviewedAt: Date | null;
+  createdAt: Date;
+}
+
+/**
+ * Review decision for a flagged attempt
+ *
+ * `cleared` releases held rewards; `confirmed` forfeits them.
+ */
+export interface ReviewAttemptFlagDto {
+  decision: 'cleared' | 'confirmed';
+  notes?: string;
+}
+
+// ============================================================================
+// EXERCISE VARIANT INTERFACES
+// ============================================================================
+
+/**
+ * Question pool and randomization settings, read from `content.randomization`
+ *
+ * Items are drawn from the exercise's questions, statements or claims;
+ * `{{name}}` placeholders anywhere in the content are filled from one of
+ * the parameter sets.
+ */
+export interface ExerciseRandomization {
+  drawCount?: number; // Items drawn per attempt (default: all)
+  shuffleItems?: boolean;
+  shuffleOptions?: boolean;
+  parameterSets?: Array<Record<string, string | number>>;
+}
+
+/**
+ * One item of a variant, in the order the student sees it
+ */
+export interface VariantItem {
+  id: string; // Item id in the exercise (its position when it has none)
+  index: number; // Position in the exercise content
+  optionOrder?: number[]; // Original option index at each displayed position
+}
+
+/**
+ * An attempt's variant of an exercise, derived from the attempt seed
+ *
+ * Stored with the attempt session and the attempt.
+ */
+export interface ExerciseVariant {
+  seed: string;
+  collection: string | null; // Content collection the items were drawn from
+  items: VariantItem[];
+  parameters: Record<string, string | number> | null;
+}
+
+/**
+ * A student's variant as a teacher sees it (with the answer key)
+ */
+export interface StudentExerciseVariant {
+  attemptId: string;
+  userId: string; // profile id
+  studentName: string | null;
+  score: number;
+  submittedAt: Date;
+  answers: any; // Mapped to the original items
+  variant: ExerciseVariant;
+  content: ExerciseContent; // As the student saw it
+}
+
+// ============================================================================
+// REVIEW QUEUE INTERFACES
+// ============================================================================
+
+/**
+ * SM-2 schedule of a review item
+ */
+export interface ReviewSchedule {
+  easeFactor: number; // 1.3 and up
+  intervalDays: number;
+  repetitions: number; // Successful reviews in a row
+  dueAt: Date;
+}
+
+/**
+ * Missed item in a student's spaced-repetition queue
+ */
+export interface ReviewItem extends ReviewSchedule {
+  id: string;
+  userId: string; // auth user id
+  exerciseId: string;
+  itemId: string; // Item id in the scorer's review (`across_3`, blank or statement id)
+  exerciseType: ExerciseType;
+  parameters: Record<string, string | number> | null; // Variant parameters of the missed attempt
+  lapses: number; // Times the item was missed again
+  lastReviewedAt: Date | null;
+  sourceAttemptId: string | null;
+  createdAt: Date;
+}
+
+/**
+ * Due review as the student sees it: the exercise reduced to the one item,
+ * without its answer key
+ */
+export interface DueReview {
+  id: string;
+  exerciseId: string;
+  exerciseTitle: string;
+  exerciseType: ExerciseType;
+  itemId: string;
+  content: ExerciseContent;
+  repetitions: number;
+  lapses: number;
+  dueAt: Date;
+}
+
+/**
+ * Review result submitted by the student
+ *
+ * `quality` (3-5) rates how easy a correct recall was; wrong answers are
+ * rated from their credit.
+ */
+export interface SubmitReviewDto {
+  answer: any;
+  quality?: number;
+}
+
+/**
+ * Graded review and the item's next schedule
+ */
+export interface ReviewResult {
+  reviewId: string;
+  itemId: string;
+  isCorrect: boolean;
+  credit: number;
+  userAnswer: any;
+  correctAnswer: any;
+  quality: number; // SM-2 quality (0-5)
+  schedule: ReviewSchedule;
+}
+
+// ============================================================================
+// RECOMMENDATION INTERFACES
+// ============================================================================
+
+/**
+ * Reading skill an exercise type trains (the module it belongs to)
+ */
+export type SkillArea = 'literal' | 'inferential' | 'critical' | 'digital' | 'production';
+
+export type RecommendationReasonCode =
+  | 'review_due'
+  | 'weak_skill'
+  | 'weak_type'
+  | 'not_attempted'
+  | 'not_passed'
+  | 'next_in_module'
+  | 'difficulty_match'
+  | 'difficulty_step_up'
+  | 'difficulty_step_down';
+
+/**
+ * Why an exercise was recommended, with a message the frontend can show
+ */
+export interface RecommendationReason {
+  code: RecommendationReasonCode;
+  message: string;
+  details?: Record<string, any>;
+}
+
+/**
+ * Exercise the student could be recommended, with their history on it
+ */
+export interface RecommendationCandidate {
+  id: string;
+  moduleId: string;
+  moduleTitle: string;
+  moduleOrder: number;
+  rangoMayaRequired: RangoMaya | null;
+  title: string;
+  exerciseType: ExerciseType;
+  difficulty: DifficultyLevel;
+  orderIndex: number;
+  estimatedTimeMinutes: number;
+  maxAttempts: number | null;
+  attemptPolicy: Record<string, any> | null; // `content.attemptPolicy`
+  attempts: number;
+  bestScore: number | null;
+  completed: boolean;
+  lastAttemptedAt: Date | null;
+  dueReviews: number; // Missed items of the exercise due for review today
+}
+
+/**
+ * One of the student's recent attempts
+ */
+export interface RecentAttemptScore {
+  exerciseType: ExerciseType;
+  difficulty: DifficultyLevel;
+  score: number;
+  submittedAt: Date;
+}
+
+/**
+ * Average of recent scores in one group
+ */
+export interface PerformanceStat {
+  attempts: number;
+  averageScore: number;
+}
+
+/**
+ * Recent performance per exercise type, difficulty and skill
+ */
+export interface LearnerPerformance {
+  byType: Partial<Record<ExerciseType, PerformanceStat>>;
+  byDifficulty: Partial<Record<DifficultyLevel, PerformanceStat>>;
+  bySkill: Partial<Record<SkillArea, PerformanceStat>>;
+}
+
+/**
+ * Difficulty the student should practice a skill at next
+ */
+export interface TargetDifficulty {
+  difficulty: DifficultyLevel;
+  change: 'up' | 'down' | 'same';
+}
+
+/**
+ * Recommended exercise
+ */
+export interface ExerciseRecommendation {
+  exerciseId: string;
+  moduleId: string;
+  moduleTitle: string;
+  title: string;
+  exerciseType: ExerciseType;
+  difficulty: DifficultyLevel;
+  skill: SkillArea;
+  estimatedTimeMinutes: number;
+  priority: number; // Higher is recommended first
+  reasons: RecommendationReason[]; // Strongest first
+}
+
+/**
+ * Recommendations for a student
+ */
+export interface RecommendationsResponse {
+  recommendations: ExerciseRecommendation[];
+  currentRank: RangoMaya;
+  performance: LearnerPerformance;
+  targetDifficulty: Partial<Record<SkillArea, TargetDifficulty>>;
+  lockedByRank: number; // Exercises left out until a higher rank
+}
+
+// ============================================================================
+// RUBRIC GRADING INTERFACES
+// ============================================================================
+
+/**
+ * Performance level of a rubric criterion
+ */
+export interface RubricLevel {
+  id: string;
+  label: string;
+  descriptor: string; // What work at this level looks like
+  points: number;
+}
+
+/**
+ * Rubric criterion; its maximum is the points of its best level
+ */
+export interface RubricCriterion {
+  id: string;
+  name: string;
+  description?: string;
+  levels: RubricLevel[];
+}
+
+/**
+ * Grading rubric of a manually scored exercise
+ */
+export interface ExerciseRubric {
+  criteria: RubricCriterion[];
+}
+
+/**
+ * Level a teacher picked for one criterion
+ */
+export interface RubricCriterionScoreDto {
+  criterionId: string;
+  levelId: string;
+  comment?: string;
+}
+
+/**
+ * Rubric grade for an attempt; every criterion must be scored
+ */
+export interface GradeAttemptDto {
+  criteria: RubricCriterionScoreDto[];
+  comments?: string;
+}
+
+/**
+ * Graded criterion
+ */
+export interface RubricCriterionGrade {
+  criterionId: string;
+  criterionName: string;
+  levelId: string;
+  levelLabel: string;
+  points: number;
+  maxPoints: number;
+  comment: string | null;
+}
+
+/**
+ * Rubric breakdown of a grade
+ */
+export interface RubricScore {
+  criteria: RubricCriterionGrade[];
+  earnedPoints: number;
+  maxPoints: number;
+  score: number; // 0-100
+}
+
+/**
+ * Grading state of a manually scored attempt, or 'rejected' for an attempt
+ * refused at submission (see RejectedAttemptContext)
+ */
+export type AttemptGradingStatus = 'pending_review' | 'graded' | 'rejected';
+
+/**
+ * Multiplier, bonus and penalty inputs of an attempt at submission, kept so
+ * a teacher's grade or a re-grade scores it as it was submitted
+ */
+export interface GradingContext {
+  currentRank: string;
+  streakDays: number;
+  firstAttempt: boolean;
+  timeOveragePenalty: number;
+}
+
+/**
+ * Rewards and side effects settled when an attempt is graded
+ */
+export interface GradeSettlement {
+  finalScore: number; // Rubric score after multipliers, bonuses and penalties
+  passed: boolean;
+  multipliers: ScoreResult['multipliers'];
+  bonuses: ScoreResult['bonuses'];
+  penalties: ScoreResult['penalties'];
+  rewards: { xp: number; mlCoins: number }; // Credited by this grade (a regrade credits the difference)
+  pendingEvents: SubmissionEventType[];
+}
+
+/**
+ * Teacher's rubric grade of an attempt
+ */
+export interface AttemptGrade extends RubricScore {
+  id: string;
+  attemptId: string;
+  gradedBy: string;
+  comments: string | null;
+  passed: boolean;
+  rubric: ExerciseRubric; // As graded
+  gradedAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Manually scored attempt as the grading teacher sees it
+ */
+export interface AttemptForGrading {
+  attemptId: string;
+  userId: string; // profile id
+  studentName: string | null;
+  exerciseId: string;
+  exerciseTitle: string;
+  exerciseType: ExerciseType;
+  answers: any;
+  score: number;
+  submittedAt: Date;
+  gradingStatus: AttemptGradingStatus | null; // Null for attempts submitted before grading was deferred
+  rubric: ExerciseRubric;
+  rubricSource: 'exercise' | 'evaluation_criteria'; // Derived from content.evaluationCriteria when the exercise has none
+  grade: AttemptGrade | null;
+}
+
+/**
+ * Attempt waiting for a teacher's grade
+ */
+export interface PendingGradingAttempt {
+  attemptId: string;
+  userId: string; // profile id
+  studentName: string | null;
+  exerciseId: string;
+  exerciseTitle: string;
+  exerciseType: ExerciseType;
+  submittedAt: Date;
+}
+
+/**
+ * Rubric grade with the rewards it settled
+ */
+export interface AttemptGradeResult extends AttemptGrade {
+  settlement: GradeSettlement;
+}
+
+// ============================================================================
+// ITEM ANALYSIS INTERFACES
+// ============================================================================
+
+/**
+ * Students whose attempts an item analysis covers
+ */
+export type ItemAnalysisScopeType = 'exercise' | 'assignment' | 'classroom';
+
+/**
+ * Signs that an item needs a teacher's attention
+ */
+export type ItemAnalysisFlag =
+  | 'too_hard' // Few students got it right
+  | 'too_easy' // Almost every student got it right
+  | 'low_discrimination' // Strong and weak students do about as well
+  | 'negative_discrimination' // Weak students do better than strong ones
+  | 'attractive_distractor'; // A wrong option is chosen more often than the right one
+
+/**
+ * First scored attempt of a student at an exercise, as read for item analysis
+ */
+export interface ItemAnalysisAttempt {
+  attemptId: string;
+  userId: string; // profile id
+  exerciseId: string;
+  answers: any;
+  variant: ExerciseVariant | null;
+  submittedAt: Date;
+}
+
+/**
+ * How often an answer was given to an item
+ */
+export interface ItemAnswerFrequency {
+  answer: string;
+  count: number;
+  share: number; // Percentage of the item's respondents
+  isCorrect: boolean;
+}
+
+/**
+ * Psychometrics of one auto-graded item
+ */
+export interface ItemAnalysis {
+  itemId: string;
+  prompt: string | null;
+  kind: 'choice' | 'text';
+  correctAnswer: string | null;
+  respondents: number;
+  omitted: number; // Respondents who left it blank
+  difficulty: number; // p-value: average credit earned (0-1)
+  discrimination: number | null; // Upper minus lower group p-value (-1 to 1); null with too few respondents
+  distractors: ItemAnswerFrequency[]; // Choice items: every option, chosen or not, and other answers given
+  commonWrongAnswers: ItemAnswerFrequency[]; // Text items: most frequent wrong answers
+  flags: ItemAnalysisFlag[];
+}
+
+/**
+ * Item analysis of one exercise
+ */
+export interface ExerciseItemAnalysis {
+  exerciseId: string;
+  exerciseTitle: string;
+  exerciseType: ExerciseType;
+  respondents: number;
+  averageScore: number;
+  items: ItemAnalysis[];
+}
+
+/**
+ * Item analysis of the exercises in a scope
+ */
+export interface ItemAnalysisReport {
+  scope: ItemAnalysisScopeType;
+  scopeId: string;
+  scopeTitle: string;
+  classroomId: string | null;
+  generatedAt: Date;
+  exercises: ExerciseItemAnalysis[];
+}
+
 // ============================================================================
 // UTILITY TYPES
 // ============================================================================
@@ -6,13 +6,19 @@
 import { Response, NextFunction } from 'express';
 import { AuthRequest } from '../../shared/types';
 import { ExercisesService } from './exercises.service';
-import { CreateExerciseDto, SubmitExerciseDto, PaginationQuery, FilterOptions } from './educational.types';
+import { AttemptSessionsService } from './attempt-sessions.service';
+import { SubmissionIdempotencyService } from './submission-idempotency.service';
+import { CreateExerciseDto, SubmitExerciseDto, PaginationQuery, FilterOptions, DryRunExerciseDto, ComodinType, UseComodinDto } from './educational.types';
 import { validateSubmission, SubmitExercisePayload } from './dto/submit-exercise.dto';
 import { getRateLimiter, TooManyRequestsError } from '../../shared/services/rate-limiter.service';
 import { log } from '../../shared/utils/logger';
 
 export class ExercisesController {
-  constructor(private exercisesService: ExercisesService) {}
+  constructor(
+    private exercisesService: ExercisesService,
+    private attemptSessionsService: AttemptSessionsService,
+    private idempotencyService: SubmissionIdempotencyService
+  ) {}
 
   /**
    * GET /api/educational/exercises
@@ -104,13 +110,62 @@ export class ExercisesController {
     }
   };
 
+  /**
+   * POST /api/educational/exercises/:exerciseId/start
+   *
+   * Opens an attempt session. The returned token must be sent with the submission.
+   */
+  startAttempt = async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      const { exerciseId } = req.params;
+      const userId = req.user?.id!;
+
+      const attempt = await this.attemptSessionsService.startAttempt(userId, exerciseId);
+
+      res.status(201).json({
+        success: true,
+        data: attempt
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/educational/exercises/:exerciseId/powerups/:powerupType
+   *
+   * Uses a comodín on the active attempt and returns its effect.
+   */
+  usePowerup = async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      const { exerciseId, powerupType } = req.params;
+      const userId = req.user?.id!;
+      const dto: UseComodinDto = req.body;
+
+      const result = await this.attemptSessionsService.usePowerup(
+        userId,
+        exerciseId,
+        powerupType as ComodinType,
+        dto
+      );
+
+      res.json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
   /**
    * POST /api/educational/exercises/:exerciseId/submit
    *
    * SECURE ENDPOINT with:
+   * - Idempotency (Idempotency-Key header or attempt session)
    * - Rate limiting (max 1 submit per 5 seconds)
    * - Zod validation
-   * - Timestamp anti-cheat
+   * - Server-issued attempt token (server-measured duration, time limit)
    * - Server-side answer validation
    */
   submitExercise = async (req: AuthRequest, res: Response, next: NextFunction) => {
@@ -118,25 +173,7 @@ export class ExercisesController {
       const { exerciseId } = req.params;
       const userId = req.user?.id!;
 
-      // 1. RATE LIMITING: Prevent rapid-fire submissions
-      const rateLimiter = getRateLimiter();
-      try {
-        await rateLimiter.checkLimit(userId, exerciseId);
-      } catch (error) {
-        if (error instanceof TooManyRequestsError) {
-          return res.status(429).json({
-            success: false,
-            error: {
-              message: error.message,
-              retryAfter: error.retryAfter,
-              code: 'RATE_LIMIT_EXCEEDED'
-            }
-          });
-        }
-        throw error;
-      }
-
-      // 2. VALIDATION: Validate request payload
+      // 1. VALIDATION: Validate request payload
       let validatedData;
       try {
         // Log incoming payload for debugging
@@ -159,51 +196,157 @@ export class ExercisesController {
         });
       }
 
-      // 3. ANTI-CHEAT: Validate timestamp
-      const now = Date.now();
-      const timeTaken = now - validatedData.startedAt;
-
-      // Minimum 1 second (prevent instant submissions)
-      if (timeTaken < 1000) {
-        return res.status(400).json({
-          success: false,
-          error: {
-            message: 'Submission too fast. Please take time to complete the exercise.',
-            code: 'SUBMISSION_TOO_FAST'
-          }
+      // 2. IDEMPOTENCY: A retry with the same key gets the original response.
+      // The key is the Idempotency-Key header, or the attempt session.
+      const idempotencyKey = req.header('Idempotency-Key')
+        || this.attemptSessionsService.getSessionId(userId, exerciseId, validatedData.attemptToken);
+
+      const claim = await this.idempotencyService.begin(userId, idempotencyKey, exerciseId, req.body);
+      if (claim.replayed) {
+        res.set('Idempotent-Replayed', 'true');
+        return res.json({
+          success: true,
+          data: claim.response
         });
       }
 
-      // Maximum 24 hours (prevent stale sessions)
-      if (timeTaken > 86400000) {
-        return res.status(400).json({
-          success: false,
-          error: {
-            message: 'Session expired. Please start the exercise again.',
-            code: 'SESSION_EXPIRED'
+      // Session of a redeemed token, until its submission is saved
+      let redeemedSessionId: string | null = null;
+
+      try {
+        // 3. RATE LIMITING: Prevent rapid-fire submissions
+        const rateLimiter = getRateLimiter();
+        try {
+          await rateLimiter.checkLimit(userId, exerciseId);
+        } catch (error) {
+          if (error instanceof TooManyRequestsError) {
+            await this.idempotencyService.release(userId, idempotencyKey);
+            return res.status(429).json({
+              success: false,
+              error: {
+                message: error.message,
+                retryAfter: error.retryAfter,
+                code: 'RATE_LIMIT_EXCEEDED'
+              }
+            });
           }
+          throw error;
+        }
+
+        // 4. ANTI-CHEAT: Redeem the attempt token. Duration is measured by the
+        // server from the session start; client timestamps are ignored.
+        const attempt = await this.attemptSessionsService.redeemAttempt(
+          userId,
+          exerciseId,
+          validatedData.attemptToken
+        );
+        redeemedSessionId = attempt.sessionId;
+
+        // 5. BUILD SECURE SUBMISSION
+        const submission: SubmitExercisePayload = {
+          userId,
+          exerciseId,
+          answers: validatedData.answers,
+          startedAt: attempt.startedAt,
+          timeSpent: attempt.timeSpent,
+          // Comodines come from the server record, not from the client payload
+          hintsUsed: attempt.powerupsUsed.filter(type => type === ComodinType.PISTAS).length,
+          powerupsUsed: attempt.powerupsUsed,
+          sessionId: attempt.sessionId,
+          timeOveragePenalty: attempt.timeOveragePenalty,
+          variant: attempt.variant
+        };
+
+        // 6. SUBMIT TO SERVICE (validation happens server-side). The key is
+        // completed in the attempt's transaction, so a saved attempt always
+        // replays its response.
+        const result = await this.exercisesService.submitExerciseSecure(submission, (client, saved) =>
+          this.idempotencyService.complete(userId, idempotencyKey, saved, client)
+        );
+        redeemedSessionId = null;
+
+        // 7. RETURN RESULT (includes correct answers ONLY after submission)
+        res.json({
+          success: true,
+          data: result
         });
+      } catch (error) {
+        // A submission that failed before it was saved can be retried with
+        // the same token
+        if (redeemedSessionId) {
+          await this.attemptSessionsService.reopenAttempt(userId, exerciseId, redeemedSessionId);
+        }
+        await this.idempotencyService.release(userId, idempotencyKey);
+        throw error;
       }
+    } catch (error) {
+      next(error);
+    }
+  };
 
-      // 4. BUILD SECURE SUBMISSION
-      const submission: SubmitExercisePayload = {
-        userId,
+  /**
+   * POST /api/educational/exercises/dry-run
+   * POST /api/educational/exercises/:exerciseId/dry-run
+   *
+   * Teacher-only answer-key test. Nothing is saved and no rewards are fired.
+   */
+  dryRunExercise = async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      const exerciseId = req.params.exerciseId || null;
+      const dto: DryRunExerciseDto = req.body;
+
+      const breakdown = await this.exercisesService.dryRunExercise(exerciseId, dto, req.user?.id!);
+
+      res.json({
+        success: true,
+        data: breakdown
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * GET /api/educational/exercises/:exerciseId/variants
+   *
+   * Each student's randomized variant, with the answer key.
+   * Query: studentId (profile id)
+   */
+  getStudentVariants = async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      const { exerciseId } = req.params;
+
+      const variants = await this.attemptSessionsService.getStudentVariants(
         exerciseId,
-        answers: validatedData.answers,
-        startedAt: validatedData.startedAt,
-        timeSpent: Math.floor(timeTaken / 1000), // Convert to seconds
-        hintsUsed: validatedData.hintsUsed,
-        powerupsUsed: validatedData.powerupsUsed,
-        sessionId: validatedData.sessionId
-      };
+        { userId: req.user?.id!, role: req.user?.role! },
+        req.query.studentId as string | undefined
+      );
+
+      res.json({
+        success: true,
+        data: variants
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
 
-      // 5. SUBMIT TO SERVICE (validation happens server-side)
-      const result = await this.exercisesService.submitExerciseSecure(submission);
+  /**
+   * GET /api/educational/exercises/content-audit
+   *
+   * Lists stored exercises whose content fails the schema of their type.
+   */
+  auditExerciseContent = async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      const audit = await this.exercisesService.auditExerciseContent({
+        moduleId: req.query.moduleId as string,
+        exerciseType: req.query.exerciseType as any,
+        includeInactive: String(req.query.includeInactive) === 'true'
+      });
 
-      // 6. RETURN RESULT (includes correct answers ONLY after submission)
       res.json({
         success: true,
-        data: result
+        data: audit
       });
     } catch (error) {
       next(error);
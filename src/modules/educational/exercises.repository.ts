@@ -5,13 +5,15 @@
  * Handles all database operations for exercises table.
  */
 
-import { Pool } from 'pg';
+import { Pool, PoolClient } from 'pg';
 import {
   ExerciseResponse,
   CreateExerciseDto,
   ExerciseSummary,
   PaginationQuery,
-  FilterOptions
+  FilterOptions,
+  ExerciseContent,
+  ExerciseType
 } from './educational.types';
 
 export class ExercisesRepository {
@@ -96,6 +98,8 @@ export class ExercisesRepository {
         e.exercise_type as "exerciseType",
         e.difficulty_level as difficulty,
         e.estimated_time_minutes as "estimatedTimeMinutes",
+        e.time_limit_minutes as "timeLimitMinutes",
+        e.max_attempts as "maxAttempts",
         e.max_points as "pointsReward",
         e.ml_coins_reward as "mlCoinsReward",
         e.xp_reward as "xpReward",
@@ -114,15 +118,19 @@ export class ExercisesRepository {
     const exercise = result.rows[0];
 
     // Get user progress if userId provided
+    // userId is the auth user id; attempts are stored by profile id
     if (userId) {
       const progressQuery = `
         SELECT
-          COUNT(*) as attempts,
+          COUNT(*)::int as attempts,
           MAX(score) as "bestScore",
-          BOOL_OR(is_correct) as completed,
+          (ARRAY_AGG(score ORDER BY submitted_at DESC))[1] as "latestScore",
+          ROUND(AVG(score), 2)::float as "averageScore",
+          COALESCE(BOOL_OR(is_correct), false) as completed,
           MAX(submitted_at) as "lastAttemptedAt"
         FROM progress_tracking.exercise_attempts
-        WHERE exercise_id = $1 AND user_id = $2
+        WHERE exercise_id = $1
+          AND user_id = (SELECT id FROM auth_management.profiles WHERE user_id = $2)
       `;
 
       const progressResult = await this.pool.query(progressQuery, [exerciseId, userId]);
@@ -144,8 +152,11 @@ export class ExercisesRepository {
    */
   async createExercise(
     exerciseData: CreateExerciseDto,
-    createdBy: string
+    createdBy: string,
+    dbClient?: PoolClient
   ): Promise<ExerciseResponse> {
+    const client = dbClient || this.pool;
+
     const query = `
       INSERT INTO educational_content.exercises (
         module_id, title, description, instructions, exercise_type,
@@ -175,10 +186,10 @@ export class ExercisesRepository {
       exerciseData.autoGradable !== false,
       exerciseData.difficulty,
       exerciseData.maxPoints || 100,
-      exerciseData.passingScore || 70,
+      exerciseData.passingScore ?? null,
       exerciseData.estimatedTimeMinutes || 10,
       exerciseData.timeLimitMinutes || null,
-      exerciseData.maxAttempts || 3,
+      exerciseData.maxAttempts ?? 3, // 0 = unlimited
       exerciseData.hints || [],
       exerciseData.comodinesAllowed || ['pistas', 'vision_lectora', 'segunda_oportunidad'],
       exerciseData.xpReward || 20,
@@ -186,7 +197,7 @@ export class ExercisesRepository {
       createdBy
     ];
 
-    const result = await this.pool.query(query, values);
+    const result = await client.query(query, values);
     return result.rows[0];
   }
 
@@ -217,6 +228,22 @@ export class ExercisesRepository {
       fields.push(`difficulty_level = $${paramIndex++}`);
       values.push(updates.difficulty);
     }
+    if (updates.passingScore !== undefined) {
+      fields.push(`passing_score = $${paramIndex++}`);
+      values.push(updates.passingScore);
+    }
+    if (updates.maxAttempts !== undefined) {
+      fields.push(`max_attempts = $${paramIndex++}`);
+      values.push(updates.maxAttempts);
+    }
+    if (updates.timeLimitMinutes !== undefined) {
+      fields.push(`time_limit_minutes = $${paramIndex++}`);
+      values.push(updates.timeLimitMinutes);
+    }
+    if (updates.rubric !== undefined) {
+      fields.push(`rubric = $${paramIndex++}`);
+      values.push(updates.rubric);
+    }
 
     if (fields.length === 0) return true;
 
@@ -246,4 +273,51 @@ export class ExercisesRepository {
     const result = await this.pool.query(query, [exerciseId]);
     return result.rowCount > 0;
   }
+
+  /**
+   * Stored exercises with their content, for content audits
+   */
+  async getExerciseContents(filters: {
+    moduleId?: string;
+    exerciseType?: ExerciseType;
+    includeInactive?: boolean;
+  }): Promise<Array<{
+    id: string;
+    moduleId: string;
+    title: string;
+    exerciseType: ExerciseType;
+    isActive: boolean;
+    content: ExerciseContent;
+  }>> {
+    const conditions: string[] = [];
+    const values: any[] = [];
+
+    if (!filters.includeInactive) {
+      conditions.push('e.is_active = true');
+    }
+    if (filters.moduleId) {
+      values.push(filters.moduleId);
+      conditions.push(`e.module_id = $${values.length}`);
+    }
+    if (filters.exerciseType) {
+      values.push(filters.exerciseType);
+      conditions.push(`e.exercise_type = $${values.length}`);
+    }
+
+    const result = await this.pool.query(
+      `SELECT
+        e.id,
+        e.module_id as "moduleId",
+        e.title,
+        e.exercise_type as "exerciseType",
+        e.is_active as "isActive",
+        e.content
+      FROM educational_content.exercises e
+      ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+      ORDER BY e.module_id, e.order_index`,
+      values
+    );
+
+    return result.rows;
+  }
 }
@@ -6,17 +6,23 @@
 
 import { Pool } from 'pg';
 import { ExercisesRepository } from './exercises.repository';
-import { ExerciseResponse, CreateExerciseDto, PaginationQuery, FilterOptions, SubmitExerciseDto, SubmissionResponse, ExerciseContent, ComodinType } from './educational.types';
-import { ScoringService } from './scoring.service';
+import { ExerciseResponse, CreateExerciseDto, PaginationQuery, FilterOptions, SubmitExerciseDto, SubmissionResponse, SecureSubmissionResponse, ExerciseContent, ExerciseType, ComodinType, DryRunExerciseDto, PreviewExercise, PreviewSubmission, ScoringBreakdown, ExerciseContentAudit, ExerciseRubric } from './educational.types';
+import { AttemptSavedHook, ScoringService } from './scoring.service';
+import { ScoringPolicyService } from './scoring-policy.service';
 import { ExerciseContentValidator } from './validators';
 import { SubmitExercisePayload } from './dto/submit-exercise.dto';
 import { sanitizeExercise, sanitizeExercises } from './utils/sanitize-exercise';
+import { assertCanAttempt, getAttemptStatus } from './utils/attempt-policy';
+import { resolveVariantExercise, toOriginalAnswers } from './utils/exercise-variants';
 import { RanksService } from '../gamification/ranks.service';
 import { RanksRepository } from '../gamification/ranks.repository';
+import { AppError } from '../../middleware/error.middleware';
+import { ErrorCode } from '../../shared/types';
 
 export class ExercisesService {
   private repository: ExercisesRepository;
   private scoringService: ScoringService;
+  private scoringPolicyService: ScoringPolicyService;
   private contentValidator: ExerciseContentValidator;
 
   constructor(pool: Pool) {
@@ -24,6 +30,7 @@ export class ExercisesService {
     const ranksRepository = new RanksRepository(pool);
     const ranksService = new RanksService(ranksRepository);
     this.scoringService = new ScoringService(pool, ranksService);
+    this.scoringPolicyService = new ScoringPolicyService(pool);
     this.contentValidator = new ExerciseContentValidator();
   }
 
@@ -54,6 +61,7 @@ export class ExercisesService {
    *
    * SECURITY: Sanitizes exercise to remove correct answers.
    * Correct answers are ONLY sent after submission via submitExerciseSecure.
+   * With a user, includes remaining attempts and cooldown.
    */
   async getExerciseById(exerciseId: string, userId?: string): Promise<ExerciseResponse> {
     const exercise = await this.repository.getExerciseById(exerciseId, userId);
@@ -62,6 +70,10 @@ export class ExercisesService {
       throw new Error('Exercise not found');
     }
 
+    if (userId) {
+      exercise.attemptStatus = getAttemptStatus(exercise);
+    }
+
     // SECURITY: Remove correct answers before sending to frontend
     const sanitizedExercise = sanitizeExercise(exercise);
 
@@ -99,17 +111,9 @@ export class ExercisesService {
     this.validateExerciseData(exerciseData);
 
     // Content-specific validation
-    const validationResult = this.contentValidator.validate(
-      exerciseData.exerciseType,
-      exerciseData.content
-    );
-
-    if (!validationResult.isValid) {
-      const errorMessages = validationResult.errors
-        .map(err => `[${err.severity}] ${err.field}: ${err.message}`)
-        .join('; ');
-
-      throw new Error(`Invalid exercise content: ${errorMessages}`);
+    this.validateContent(exerciseData.exerciseType, exerciseData.content);
+    if (exerciseData.rubric) {
+      this.validateRubric(exerciseData.rubric);
     }
 
     return this.repository.createExercise(exerciseData, createdBy);
@@ -124,69 +128,79 @@ export class ExercisesService {
       throw new Error('Exercise not found');
     }
 
-    // Validate content if it's being updated
-    if (updates.content && updates.exerciseType) {
-      const validationResult = this.contentValidator.validate(
-        updates.exerciseType,
-        updates.content
-      );
-
-      if (!validationResult.isValid) {
-        const errorMessages = validationResult.errors
-          .map(err => `[${err.severity}] ${err.field}: ${err.message}`)
-          .join('; ');
-
-        throw new Error(`Invalid exercise content: ${errorMessages}`);
-      }
+    // Validate content if it's being updated (against the stored type
+    // unless the type changes too)
+    if (updates.content) {
+      this.validateContent(updates.exerciseType || exercise.exerciseType, updates.content);
+    }
+    if (updates.rubric) {
+      this.validateRubric(updates.rubric);
     }
 
     await this.repository.updateExercise(exerciseId, updates);
   }
 
   /**
-   * Delete exercise
+   * Find stored exercises whose content fails the schema of their type
+   *
+   * Exercises created before the schemas were enforced can still be
+   * malformed; only errors make an exercise invalid, warnings are listed
+   * with them.
    */
-  async deleteExercise(exerciseId: string): Promise<void> {
-    const exercise = await this.repository.getExerciseById(exerciseId);
-    if (!exercise) {
-      throw new Error('Exercise not found');
+  async auditExerciseContent(filters: {
+    moduleId?: string;
+    exerciseType?: ExerciseType;
+    includeInactive?: boolean;
+  }): Promise<ExerciseContentAudit> {
+    const exercises = await this.repository.getExerciseContents(filters);
+    const audit: ExerciseContentAudit = { scanned: exercises.length, invalid: 0, byType: {}, exercises: [] };
+
+    for (const exercise of exercises) {
+      const result = this.contentValidator.validate(exercise.exerciseType, exercise.content);
+      if (result.isValid) continue;
+
+      audit.invalid++;
+      audit.byType[exercise.exerciseType] = (audit.byType[exercise.exerciseType] || 0) + 1;
+      audit.exercises.push({
+        exerciseId: exercise.id,
+        moduleId: exercise.moduleId,
+        title: exercise.title,
+        exerciseType: exercise.exerciseType,
+        isActive: exercise.isActive,
+        errors: result.errors
+      });
     }
 
-    await this.repository.deleteExercise(exerciseId);
+    return audit;
   }
 
   /**
-   * Submit exercise attempt (LEGACY - kept for backward compatibility)
+   * Delete exercise
    */
-  async submitExercise(submission: SubmitExerciseDto): Promise<SubmissionResponse> {
-    const exercise = await this.repository.getExerciseById(submission.exerciseId, submission.userId);
+  async deleteExercise(exerciseId: string): Promise<void> {
+    const exercise = await this.repository.getExerciseById(exerciseId);
     if (!exercise) {
       throw new Error('Exercise not found');
     }
 
-    // Calculate score
-    const scoreResult = await this.scoringService.calculateScore(
-      submission,
-      exercise
-    );
-
-    // Save attempt and return response
-    return scoreResult;
+    await this.repository.deleteExercise(exerciseId);
   }
 
   /**
    * SECURE Submit Exercise
    *
    * Server-side validation with correct answers hidden until after submission.
-   * This is the secure version that should be used by all new implementations.
+   * The only submit path: the controller redeems the attempt token and claims
+   * the idempotency key before calling it.
    *
    * @param submission - Validated submission payload
-   * @returns Submission result with correct answers and explanations
+   * @param onSaved - Runs in the attempt's transaction with the result
+   * @returns Submission result with the answer key (keyed like feedback.answerReview) and explanations
    */
-  async submitExerciseSecure(submission: SubmitExercisePayload): Promise<SubmissionResponse & {
-    correctAnswers: any;
-    explanations: any;
-  }> {
+  async submitExerciseSecure(
+    submission: SubmitExercisePayload,
+    onSaved?: AttemptSavedHook<SecureSubmissionResponse>
+  ): Promise<SecureSubmissionResponse> {
     // 1. Get full exercise data (including correct answers) from database
     const exercise = await this.repository.getExerciseById(
       submission.exerciseId,
@@ -197,172 +211,145 @@ export class ExercisesService {
       throw new Error('Exercise not found');
     }
 
-    // 2. Validate answers server-side (NEVER trust frontend)
-    const validationResult = this.validateAnswers(
-      exercise.content,
-      submission.answers,
-      exercise.exerciseType
-    );
+    // Attempt limit and cooldown (also checked when the attempt is started)
+    assertCanAttempt(exercise);
+
+    // A randomized attempt is scored against the items it drew, with its
+    // answers mapped back to the original items and options
+    const variant = submission.variant || null;
+    const answers = submission.answers ?? submission.answer;
+    const scoredExercise = variant ? resolveVariantExercise(exercise, variant) : exercise;
 
-    // 3. Calculate score using scoring service
-    const legacySubmission: SubmitExerciseDto = {
+    // 2. Score server-side (NEVER trust frontend) with the scorer registry
+    // behind ScoringService.
+    const scoredSubmission: SubmitExerciseDto = {
       userId: submission.userId,
       exerciseId: submission.exerciseId,
-      answers: submission.answers,
+      answers: variant ? toOriginalAnswers(answers, variant, exercise) : answers,
       timeSpent: submission.timeSpent,
-      powerupsUsed: submission.powerupsUsed as any[] as ComodinType[]
+      powerupsUsed: submission.powerupsUsed as any[] as ComodinType[],
+      sessionId: submission.sessionId,
+      timeOveragePenalty: submission.timeOveragePenalty,
+      variant
     };
 
-    const scoreResult = await this.scoringService.calculateScore(
-      legacySubmission,
-      exercise
-    );
-
-    // 4. Extract correct answers from exercise content (ONLY sent after submission)
-    const correctAnswers = this.extractCorrectAnswers(exercise.content, exercise.exerciseType);
-    const explanations = exercise.content.explanations || {};
-
-    // 5. Return complete result with correct answers
-    return {
+    // 3. Extract correct answers from the same scorer (ONLY sent after submission)
+    const correctAnswers = this.scoringService.extractCorrectAnswers(scoredExercise);
+    const explanations = scoredExercise.content.explanations || {};
+    const withAnswerKey = (scoreResult: SubmissionResponse): SecureSubmissionResponse => ({
       ...scoreResult,
       correctAnswers,
       explanations
-    };
+    });
+
+    const scoreResult = await this.scoringService.calculateScore(
+      scoredSubmission,
+      scoredExercise,
+      onSaved && ((client, saved) => onSaved(client, withAnswerKey(saved)))
+    );
+
+    // 4. Return complete result with correct answers
+    return withAnswerKey(scoreResult);
   }
 
   /**
-   * Validate user answers against correct answers
+   * Dry-run an answer key (teacher only)
    *
-   * @param content - Exercise content (with correct answers)
-   * @param userAnswers - User's submitted answers
-   * @param exerciseType - Type of exercise
-   * @returns Validation result with correct/incorrect count
+   * Scores sample answers against a saved exercise, or against the unsaved
+   * `dto.exercise` payload when no id is given, and returns the full
+   * breakdown. Nothing is written to exercise_attempts and no rewards,
+   * streaks or mission events are fired. Scored with the scoring policy of
+   * the requesting teacher's organization.
    */
-  private validateAnswers(
-    content: ExerciseContent,
-    userAnswers: any,
-    exerciseType: string
-  ): { correctCount: number; totalQuestions: number; isValid: boolean } {
-    let correctCount = 0;
-    let totalQuestions = 0;
-
-    // Type-specific validation logic
-    switch (exerciseType) {
-      case 'verdadero_falso':
-        // Validate true/false statements
-        if (content.statements && Array.isArray(content.statements)) {
-          totalQuestions = content.statements.length;
-          content.statements.forEach((statement: any) => {
-            if (userAnswers[statement.id] === statement.correctAnswer) {
-              correctCount++;
-            }
-          });
-        }
-        break;
-
-      case 'crucigrama_cientifico':
-        // Validate crossword clues
-        const clues = content.clues as any;
-        if (clues) {
-          // Across clues
-          clues.across?.forEach((clue: any) => {
-            totalQuestions++;
-            if (userAnswers[`across_${clue.number}`]?.toLowerCase() === clue.answer.toLowerCase()) {
-              correctCount++;
-            }
-          });
-
-          // Down clues
-          clues.down?.forEach((clue: any) => {
-            totalQuestions++;
-            if (userAnswers[`down_${clue.number}`]?.toLowerCase() === clue.answer.toLowerCase()) {
-              correctCount++;
-            }
-          });
-        }
-        break;
-
-      case 'multiple_choice':
-        // Validate multiple choice questions
-        if (content.questions && Array.isArray(content.questions)) {
-          totalQuestions = content.questions.length;
-          content.questions.forEach((question: any) => {
-            if (userAnswers[question.id] === question.correctAnswer) {
-              correctCount++;
-            }
-          });
-        }
-        break;
-
-      default:
-        // Generic validation for other types
-        if (content.correctAnswers) {
-          totalQuestions = Object.keys(content.correctAnswers).length;
-          Object.entries(content.correctAnswers).forEach(([key, correctValue]) => {
-            if (userAnswers[key] === correctValue) {
-              correctCount++;
-            }
-          });
-        }
+  async dryRunExercise(
+    exerciseId: string | null,
+    dto: DryRunExerciseDto,
+    requestedBy: string
+  ): Promise<ScoringBreakdown> {
+    let exercise: PreviewExercise | null;
+
+    if (exerciseId) {
+      exercise = await this.repository.getExerciseById(exerciseId);
+      if (!exercise) {
+        throw new Error('Exercise not found');
+      }
+    } else {
+      if (!dto.exercise) {
+        throw new Error('Exercise payload is required when no exercise ID is given');
+      }
+      this.validateContent(dto.exercise.exerciseType, dto.exercise.content);
+      exercise = this.toPreviewExercise(dto.exercise);
     }
 
+    const firstAttempt = dto.firstAttempt !== false;
+    const simulated: PreviewExercise = {
+      ...exercise,
+      userProgress: firstAttempt
+        ? undefined
+        : { attempts: 1, bestScore: 0, completed: false }
+    };
+
+    const submission: PreviewSubmission = {
+      answers: dto.answers,
+      timeSpent: dto.timeSpent ?? exercise.estimatedTimeMinutes * 60,
+      powerupsUsed: dto.powerupsUsed || []
+    };
+
+    const scoringPolicy = await this.scoringPolicyService.getPolicyForUser(requestedBy);
+
+    return this.scoringService.previewScore(submission, simulated, {
+      currentRank: dto.currentRank || 'nacom',
+      streakDays: dto.streakDays || 0
+    }, scoringPolicy);
+  }
+
+  // ============================================================================
+  // PRIVATE HELPERS
+  // ============================================================================
+
+  /**
+   * Build an in-memory exercise from an unsaved payload, with the same
+   * defaults the repository applies on insert
+   */
+  private toPreviewExercise(data: Partial<CreateExerciseDto>): PreviewExercise {
     return {
-      correctCount,
-      totalQuestions,
-      isValid: totalQuestions > 0
+      id: null,
+      exerciseType: data.exerciseType,
+      content: data.content,
+      estimatedTimeMinutes: data.estimatedTimeMinutes || 10,
+      passingScore: data.passingScore ?? null,
+      mlCoinsReward: data.mlCoinsReward || 5,
+      xpReward: data.xpReward || 20
     };
   }
 
   /**
-   * Extract correct answers from exercise content
-   *
-   * @param content - Exercise content
-   * @param exerciseType - Type of exercise
-   * @returns Object with correct answers
+   * Validate type-specific content, with the field-level problems as
+   * error details
    */
-  private extractCorrectAnswers(content: ExerciseContent, exerciseType: string): any {
-    switch (exerciseType) {
-      case 'verdadero_falso':
-        if (content.statements && Array.isArray(content.statements)) {
-          return content.statements.reduce((acc: any, statement: any) => {
-            acc[statement.id] = statement.correctAnswer;
-            return acc;
-          }, {});
-        }
-        break;
-
-      case 'crucigrama_cientifico':
-        const clues = content.clues as any;
-        const answers: any = {};
-        if (clues) {
-          clues.across?.forEach((clue: any) => {
-            answers[`across_${clue.number}`] = clue.answer;
-          });
-          clues.down?.forEach((clue: any) => {
-            answers[`down_${clue.number}`] = clue.answer;
-          });
-        }
-        return answers;
-
-      case 'multiple_choice':
-        if (content.questions && Array.isArray(content.questions)) {
-          return content.questions.reduce((acc: any, question: any) => {
-            acc[question.id] = question.correctAnswer;
-            return acc;
-          }, {});
-        }
-        break;
-
-      default:
-        return content.correctAnswers || {};
-    }
+  private validateContent(exerciseType: ExerciseType, content: ExerciseContent): void {
+    const validationResult = this.contentValidator.validate(exerciseType, content);
 
-    return {};
+    if (!validationResult.isValid) {
+      throw new AppError(
+        `Invalid ${exerciseType} exercise content`,
+        400,
+        ErrorCode.VALIDATION_ERROR,
+        validationResult.errors
+      );
+    }
   }
 
-  // ============================================================================
-  // PRIVATE HELPERS
-  // ============================================================================
+  /**
+   * Validate a grading rubric, with the field-level problems as error details
+   */
+  private validateRubric(rubric: ExerciseRubric): void {
+    const validationResult = this.contentValidator.validateRubric(rubric);
+
+    if (!validationResult.isValid) {
+      throw new AppError('Invalid exercise rubric', 400, ErrorCode.VALIDATION_ERROR, validationResult.errors);
+    }
+  }
 
   private validateExerciseData(data: CreateExerciseDto): void {
     if (!data.title || data.title.trim().length < 3) {
@@ -0,0 +1,74 @@
+/**
+ * Item Analysis Controller
+ * HTTP request handlers for teachers' item analysis of exercises and
+ * assignments, as JSON or CSV.
+ */
+
+import { Response, NextFunction } from 'express';
+import { AuthRequest } from '../../shared/types';
+import { ItemAnalysisService } from './item-analysis.service';
+import { ItemAnalysisReport } from './educational.types';
+import { itemAnalysisCsv } from './utils/item-analysis';
+
+export class ItemAnalysisController {
+  constructor(private itemAnalysisService: ItemAnalysisService) {}
+
+  /**
+   * GET /api/educational/exercises/:exerciseId/item-analysis
+   *
+   * Query: classroomId, format (json | csv)
+   */
+  getExerciseItemAnalysis = async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      const { exerciseId } = req.params;
+
+      const report = await this.itemAnalysisService.getExerciseItemAnalysis(
+        exerciseId,
+        { userId: req.user?.id!, role: req.user?.role! },
+        (req.query.classroomId as string) || null
+      );
+
+      this.send(req, res, report);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * GET /api/educational/assignments/:assignmentId/item-analysis
+   *
+   * Query: classroomId, format (json | csv)
+   */
+  getAssignmentItemAnalysis = async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      const { assignmentId } = req.params;
+
+      const report = await this.itemAnalysisService.getAssignmentItemAnalysis(
+        assignmentId,
+        { userId: req.user?.id!, role: req.user?.role! },
+        (req.query.classroomId as string) || null
+      );
+
+      this.send(req, res, report);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  private send(req: AuthRequest, res: Response, report: ItemAnalysisReport): void {
+    if (req.query.format === 'csv') {
+      res.setHeader('Content-Type', 'text/csv');
+      res.setHeader(
+        'Content-Disposition',
+        `attachment; filename="${report.scope}_${report.scopeId}_item_analysis.csv"`
+      );
+      res.send(itemAnalysisCsv(report));
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: report
+    });
+  }
+}
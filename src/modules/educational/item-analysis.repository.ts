@@ -0,0 +1,123 @@
+/**
+ * Item Analysis Repository
+ *
+ * Data access layer for item analysis: the scored attempts of a teacher's
+ * students, classrooms and assignments.
+ */
+
+import { Pool } from 'pg';
+import { ItemAnalysisAttempt } from './educational.types';
+
+/**
+ * Students whose attempts are analyzed; every given filter applies
+ */
+export interface ItemAnalysisStudents {
+  teacherId?: string | null; // Students in the teacher's classrooms (null = everyone)
+  classroomId?: string | null;
+  assignmentId?: string | null; // Students assigned directly or through a classroom
+}
+
+export class ItemAnalysisRepository {
+  constructor(private pool: Pool) {}
+
+  /**
+   * Get an assignment with its exercises (only the teacher's, unless null)
+   */
+  async getAssignment(
+    assignmentId: string,
+    teacherId: string | null
+  ): Promise<{ id: string; title: string; exerciseIds: string[] } | null> {
+    const result = await this.pool.query(
+      `SELECT
+         a.id,
+         a.title,
+         COALESCE(array_agg(ae.exercise_id) FILTER (WHERE ae.exercise_id IS NOT NULL), '{}') as "exerciseIds"
+       FROM assignments a
+       LEFT JOIN assignment_exercises ae ON ae.assignment_id = a.id
+       WHERE a.id = $1 AND ($2::uuid IS NULL OR a.teacher_id = $2)
+       GROUP BY a.id`,
+      [assignmentId, teacherId]
+    );
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Get a classroom (only the teacher's, unless null)
+   */
+  async getClassroom(classroomId: string, teacherId: string | null): Promise<{ id: string; name: string } | null> {
+    const result = await this.pool.query(
+      `SELECT id, name FROM classrooms WHERE id = $1 AND ($2::uuid IS NULL OR teacher_id = $2)`,
+      [classroomId, teacherId]
+    );
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * First scored attempt of each student at each exercise (null = every
+   * exercise), oldest first
+   *
+   * Attempts waiting for a teacher's grade, and attempts rejected at
+   * submission, are left out.
+   */
+  async getFirstAttempts(exerciseIds: string[] | null, students: ItemAnalysisStudents): Promise<ItemAnalysisAttempt[]> {
+    const conditions = [
+      `($1::uuid[] IS NULL OR ea.exercise_id = ANY($1::uuid[]))`,
+      `COALESCE(ea.grading_status, '') NOT IN ('pending_review', 'rejected')`
+    ];
+    const params: any[] = [exerciseIds];
+
+    if (students.teacherId) {
+      params.push(students.teacherId);
+      conditions.push(`EXISTS (
+        SELECT 1 FROM classroom_students cs
+        JOIN classrooms c ON c.id = cs.classroom_id
+        WHERE c.teacher_id = $${params.length} AND cs.student_id = p.user_id
+      )`);
+    }
+
+    if (students.classroomId) {
+      params.push(students.classroomId);
+      conditions.push(`EXISTS (
+        SELECT 1 FROM classroom_students cs
+        WHERE cs.classroom_id = $${params.length} AND cs.student_id = p.user_id
+      )`);
+    }
+
+    if (students.assignmentId) {
+      params.push(students.assignmentId);
+      conditions.push(`(
+        EXISTS (
+          SELECT 1 FROM assignment_students ast
+          WHERE ast.assignment_id = $${params.length} AND ast.student_id = p.user_id
+        )
+        OR EXISTS (
+          SELECT 1 FROM assignment_classrooms ac
+          JOIN classroom_students cs ON cs.classroom_id = ac.classroom_id
+          WHERE ac.assignment_id = $${params.length} AND cs.student_id = p.user_id
+        )
+      )`);
+    }
+
+    const result = await this.pool.query(
+      `SELECT * FROM (
+         SELECT DISTINCT ON (ea.user_id, ea.exercise_id)
+           ea.id as "attemptId",
+           ea.user_id as "userId",
+           ea.exercise_id as "exerciseId",
+           ea.submitted_answers as answers,
+           ea.variant,
+           ea.submitted_at as "submittedAt"
+         FROM progress_tracking.exercise_attempts ea
+         JOIN auth_management.profiles p ON p.id = ea.user_id
+         WHERE ${conditions.join(' AND ')}
+         ORDER BY ea.user_id, ea.exercise_id, ea.submitted_at ASC
+       ) first_attempts
+       ORDER BY "submittedAt" ASC`,
+      params
+    );
+
+    return result.rows;
+  }
+}
@@ -0,0 +1,186 @@
+/**
+ * Item Analysis Service
+ *
+ * Item-level psychometrics of auto-graded exercises for teachers, per
+ * exercise or per assignment, to find misleading questions and concepts a
+ * class has misread. Each student's first scored attempt is re-scored by
+ * the exercise type's scorer (against the student's variant) to get the
+ * credit and answer of every item. Manually graded types have no items
+ * and are left out.
+ */
+
+import { Pool } from 'pg';
+import { ItemAnalysisRepository, ItemAnalysisStudents } from './item-analysis.repository';
+import { ExercisesRepository } from './exercises.repository';
+import { scorerRegistry } from './scorers';
+import { resolveVariantExercise } from './utils/exercise-variants';
+import { itemContent } from './utils/review-items';
+import { analyzeItems, ScoredResponse, summarizeMistakes } from './utils/item-analysis';
+import {
+  ClassroomAnalytics,
+  ExerciseItemAnalysis,
+  ExerciseResponse,
+  ItemAnalysisAttempt,
+  ItemAnalysisReport
+} from './educational.types';
+import { AppError } from '../../middleware/error.middleware';
+import { ErrorCode } from '../../shared/types';
+
+/**
+ * Teacher requesting an item analysis
+ */
+export interface ItemAnalysisViewer {
+  userId: string;
+  role: string;
+}
+
+export class ItemAnalysisService {
+  private repository: ItemAnalysisRepository;
+  private exercisesRepository: ExercisesRepository;
+
+  constructor(private pool: Pool) {
+    this.repository = new ItemAnalysisRepository(pool);
+    this.exercisesRepository = new ExercisesRepository(pool);
+  }
+
+  /**
+   * Item analysis of an exercise over the teacher's students, or one of
+   * their classrooms
+   */
+  async getExerciseItemAnalysis(
+    exerciseId: string,
+    viewer: ItemAnalysisViewer,
+    classroomId: string | null = null
+  ): Promise<ItemAnalysisReport> {
+    const exercise = await this.exercisesRepository.getExerciseById(exerciseId);
+    if (!exercise) {
+      throw new AppError('Exercise not found', 404, ErrorCode.NOT_FOUND);
+    }
+
+    const students = await this.studentsFor(viewer, classroomId);
+    const attempts = await this.repository.getFirstAttempts([exercise.id], students);
+
+    return {
+      scope: 'exercise',
+      scopeId: exercise.id,
+      scopeTitle: exercise.title,
+      classroomId,
+      generatedAt: new Date(),
+      exercises: this.analyzeExercises([exercise], attempts)
+    };
+  }
+
+  /**
+   * Item analysis of an assignment's exercises over its students, or those
+   * of one classroom
+   */
+  async getAssignmentItemAnalysis(
+    assignmentId: string,
+    viewer: ItemAnalysisViewer,
+    classroomId: string | null = null
+  ): Promise<ItemAnalysisReport> {
+    const assignment = await this.repository.getAssignment(assignmentId, this.scopeFor(viewer));
+    if (!assignment) {
+      throw new AppError('Assignment not found', 404, ErrorCode.NOT_FOUND);
+    }
+
+    const students = { ...(await this.studentsFor(viewer, classroomId)), teacherId: null, assignmentId };
+    const attempts = await this.repository.getFirstAttempts(assignment.exerciseIds, students);
+
+    return {
+      scope: 'assignment',
+      scopeId: assignment.id,
+      scopeTitle: assignment.title,
+      classroomId,
+      generatedAt: new Date(),
+      exercises: this.analyzeExercises(await this.getExercises(assignment.exerciseIds), attempts)
+    };
+  }
+
+  /**
+   * Exercises one of the teacher's classrooms gets wrong most, with their
+   * most frequent wrong answers
+   */
+  async getClassroomMistakes(
+    classroomId: string,
+    viewer: ItemAnalysisViewer,
+    limit: number = 10
+  ): Promise<ClassroomAnalytics['commonMistakes']> {
+    const students = await this.studentsFor(viewer, classroomId);
+    const attempts = await this.repository.getFirstAttempts(null, students);
+    const exerciseIds = [...new Set(attempts.map(attempt => attempt.exerciseId))];
+
+    return this.analyzeExercises(await this.getExercises(exerciseIds), attempts)
+      .map(analysis => summarizeMistakes(analysis))
+      .filter(mistakes => mistakes.errorRate > 0)
+      .sort((a, b) => b.errorRate - a.errorRate)
+      .slice(0, limit);
+  }
+
+  /**
+   * Item analysis of each auto-graded exercise with at least one scored
+   * attempt
+   */
+  private analyzeExercises(exercises: ExerciseResponse[], attempts: ItemAnalysisAttempt[]): ExerciseItemAnalysis[] {
+    return exercises
+      .filter(exercise => !scorerRegistry.isManual(exercise))
+      .map(exercise => {
+        const responses = attempts
+          .filter(attempt => attempt.exerciseId === exercise.id)
+          .map(attempt => this.scoreAttempt(exercise, attempt))
+          .filter((response): response is ScoredResponse => response !== null);
+
+        return {
+          exerciseId: exercise.id,
+          exerciseTitle: exercise.title,
+          exerciseType: exercise.exerciseType,
+          respondents: responses.length,
+          averageScore: responses.length > 0
+            ? Math.round(responses.reduce((total, response) => total + response.score, 0) / responses.length)
+            : 0,
+          items: analyzeItems(responses, itemId => itemContent(exercise, itemId))
+        };
+      })
+      .filter(analysis => analysis.respondents > 0);
+  }
+
+  private scoreAttempt(exercise: ExerciseResponse, attempt: ItemAnalysisAttempt): ScoredResponse | null {
+    const scored = attempt.variant ? resolveVariantExercise(exercise, attempt.variant) : exercise;
+    const result = scorerRegistry.score(attempt.answers, scored);
+
+    return result.reasonCode === 'SCORED' ? { score: result.score, items: result.items } : null;
+  }
+
+  private async getExercises(exerciseIds: string[]): Promise<ExerciseResponse[]> {
+    const exercises: ExerciseResponse[] = [];
+
+    for (const exerciseId of exerciseIds) {
+      const exercise = await this.exercisesRepository.getExerciseById(exerciseId);
+      if (exercise) exercises.push(exercise);
+    }
+
+    return exercises;
+  }
+
+  /**
+   * The viewer's students, narrowed to one of their classrooms
+   */
+  private async studentsFor(viewer: ItemAnalysisViewer, classroomId: string | null): Promise<ItemAnalysisStudents> {
+    const teacherId = this.scopeFor(viewer);
+
+    if (!classroomId) {
+      return { teacherId };
+    }
+
+    const classroom = await this.repository.getClassroom(classroomId, teacherId);
+    if (!classroom) {
+      throw new AppError('Classroom not found', 404, ErrorCode.NOT_FOUND);
+    }
+
+    return { classroomId };
+  }
+
+  private scopeFor(viewer: ItemAnalysisViewer): string | null {
+    return viewer.role === 'super_admin' ? null : viewer.userId;
+  }
+}
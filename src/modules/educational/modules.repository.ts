@@ -192,8 +192,11 @@ export class ModulesRepository {
    */
   async createModule(
     moduleData: CreateModuleDto,
-    createdBy: string
+    createdBy: string,
+    dbClient?: PoolClient
   ): Promise<ModuleResponse> {
+    const client = dbClient || this.pool;
+
     const query = `
       INSERT INTO educational_content.modules (
         title,
@@ -249,7 +252,7 @@ export class ModulesRepository {
       createdBy
     ];
 
-    const result = await this.pool.query(query, values);
+    const result = await client.query(query, values);
     return { ...result.rows[0], totalExercises: 0 };
   }
 
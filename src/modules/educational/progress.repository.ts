@@ -3,7 +3,7 @@
  * Data access layer for student progress tracking.
  */
 
-import { Pool } from 'pg';
+import { Pool, PoolClient } from 'pg';
 import { UserProgressOverview, ModuleProgressDetail, ExerciseAttempt, LearningSession } from './educational.types';
 
 export class ProgressRepository {
@@ -180,7 +180,13 @@ export class ProgressRepository {
   /**
    * Create or update module progress
    */
-  async upsertModuleProgress(userId: string, moduleId: string, exerciseCompleted: boolean): Promise<void> {
+  async upsertModuleProgress(
+    userId: string,
+    moduleId: string,
+    exerciseCompleted: boolean,
+    dbClient?: PoolClient
+  ): Promise<void> {
+    const client = dbClient || this.pool;
     const query = `
       INSERT INTO progress_tracking.module_progress (
         user_id, module_id, started_at, completed_exercises, total_exercises, progress_percentage
@@ -204,6 +210,49 @@ export class ProgressRepository {
         END
     `;
 
-    await this.pool.query(query, [userId, moduleId, exerciseCompleted]);
+    await client.query(query, [userId, moduleId, exerciseCompleted]);
+  }
+
+  /**
+   * Recount module progress from passing attempts
+   *
+   * Unlike upsertModuleProgress, which increments, this rebuilds the counts
+   * from exercise_attempts so it is safe to run after scores were rewritten.
+   */
+  async recalculateModuleProgress(userId: string, moduleId: string, dbClient?: PoolClient): Promise<void> {
+    const client = dbClient || this.pool;
+
+    const query = `
+      WITH counts AS (
+        SELECT
+          (SELECT COUNT(*) FROM educational_content.exercises
+            WHERE module_id = $2 AND is_active = true) as total,
+          (SELECT COUNT(DISTINCT ea.exercise_id)
+             FROM progress_tracking.exercise_attempts ea
+             JOIN educational_content.exercises e ON e.id = ea.exercise_id
+            WHERE ea.user_id = $1 AND e.module_id = $2 AND e.is_active = true AND ea.is_correct = true) as completed
+      )
+      UPDATE progress_tracking.module_progress mp
+      SET
+        total_exercises = counts.total,
+        completed_exercises = counts.completed,
+        progress_percentage = CASE
+          WHEN counts.total > 0 THEN ROUND(counts.completed::numeric / counts.total * 100)
+          ELSE 0
+        END,
+        status = CASE
+          WHEN counts.total > 0 AND counts.completed >= counts.total THEN 'completed'::progress_status
+          ELSE 'in_progress'::progress_status
+        END,
+        completed_at = CASE
+          WHEN counts.total > 0 AND counts.completed >= counts.total THEN COALESCE(mp.completed_at, NOW())
+          ELSE NULL
+        END,
+        updated_at = NOW()
+      FROM counts
+      WHERE mp.user_id = $1 AND mp.module_id = $2
+    `;
+
+    await client.query(query, [userId, moduleId]);
   }
 }
@@ -3,7 +3,7 @@
  * Business logic for progress tracking.
  */
 
-import { Pool } from 'pg';
+import { Pool, PoolClient } from 'pg';
 import { ProgressRepository } from './progress.repository';
 import { UserProgressOverview, ModuleProgressDetail, ExerciseAttempt } from './educational.types';
 
@@ -34,7 +34,12 @@ export class ProgressService {
     return this.repository.getExerciseAttempts(userId, filters);
   }
 
-  async updateModuleProgress(userId: string, moduleId: string, exerciseCompleted: boolean): Promise<void> {
-    await this.repository.upsertModuleProgress(userId, moduleId, exerciseCompleted);
+  async updateModuleProgress(
+    userId: string,
+    moduleId: string,
+    exerciseCompleted: boolean,
+    dbClient?: PoolClient
+  ): Promise<void> {
+    await this.repository.upsertModuleProgress(userId, moduleId, exerciseCompleted, dbClient);
   }
 }
@@ -0,0 +1,34 @@
+/**
+ * Recommendations Controller
+ * HTTP request handlers for next-exercise recommendations.
+ */
+
+import { Response, NextFunction } from 'express';
+import { AuthRequest } from '../../shared/types';
+import { RecommendationsService } from './recommendations.service';
+
+export class RecommendationsController {
+  constructor(private recommendationsService: RecommendationsService) {}
+
+  /**
+   * GET /api/educational/recommendations
+   *
+   * Next exercises for the authenticated student, each with the reasons
+   * it was picked.
+   */
+  getRecommendations = async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      const recommendations = await this.recommendationsService.getRecommendations(req.user?.id!, {
+        moduleId: req.query.moduleId as string | undefined,
+        limit: req.query.limit ? parseInt(req.query.limit as string) : undefined
+      });
+
+      res.json({
+        success: true,
+        data: recommendations
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -0,0 +1,120 @@
+/**
+ * Recommendations Repository
+ *
+ * Data access layer for the next-exercise recommender: the student's
+ * candidate exercises with their history, and their recent scores.
+ */
+
+import { Pool } from 'pg';
+import { RangoMaya, RecentAttemptScore, RecommendationCandidate } from './educational.types';
+
+/**
+ * Profile and current rank of a student
+ */
+export interface LearnerContext {
+  profileId: string;
+  currentRank: RangoMaya | null;
+}
+
+export class RecommendationsRepository {
+  constructor(private pool: Pool) {}
+
+  /**
+   * Get a student's profile id and current rank from their auth user id
+   */
+  async getLearnerContext(userId: string): Promise<LearnerContext | null> {
+    const result = await this.pool.query(
+      `SELECT p.id as "profileId", ur.current_rank as "currentRank"
+       FROM auth_management.profiles p
+       LEFT JOIN gamification_system.user_ranks ur ON ur.user_id = p.id AND ur.is_current = true
+       WHERE p.user_id = $1`,
+      [userId]
+    );
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Active exercises of published modules, with the student's attempts and
+   * the review items due before `dueBefore`
+   *
+   * @param profileId - attempts are stored by profile id
+   * @param userId - review items are stored by auth user id
+   */
+  async getCandidates(
+    profileId: string,
+    userId: string,
+    moduleId: string | null,
+    dueBefore: Date
+  ): Promise<RecommendationCandidate[]> {
+    const result = await this.pool.query(
+      `SELECT
+         e.id,
+         e.module_id as "moduleId",
+         m.title as "moduleTitle",
+         m.order_index as "moduleOrder",
+         m.rango_maya_required as "rangoMayaRequired",
+         e.title,
+         e.exercise_type as "exerciseType",
+         e.difficulty_level as difficulty,
+         e.order_index as "orderIndex",
+         e.estimated_time_minutes as "estimatedTimeMinutes",
+         e.max_attempts as "maxAttempts",
+         e.content->'attemptPolicy' as "attemptPolicy",
+         COALESCE(a.attempts, 0)::int as attempts,
+         a.best_score as "bestScore",
+         COALESCE(a.completed, false) as completed,
+         a.last_attempted_at as "lastAttemptedAt",
+         COALESCE(r.due, 0)::int as "dueReviews"
+       FROM educational_content.exercises e
+       JOIN educational_content.modules m ON m.id = e.module_id
+       LEFT JOIN (
+         SELECT
+           exercise_id,
+           COUNT(*) as attempts,
+           MAX(score) as best_score,
+           BOOL_OR(is_correct) as completed,
+           MAX(submitted_at) as last_attempted_at
+         FROM progress_tracking.exercise_attempts
+         WHERE user_id = $1
+         GROUP BY exercise_id
+       ) a ON a.exercise_id = e.id
+       LEFT JOIN (
+         SELECT exercise_id, COUNT(*) as due
+         FROM progress_tracking.review_items
+         WHERE user_id = $2 AND status = 'active' AND due_at < $4
+         GROUP BY exercise_id
+       ) r ON r.exercise_id = e.id
+       WHERE e.is_active = true
+         AND m.is_published = true
+         AND ($3::uuid IS NULL OR e.module_id = $3)
+       ORDER BY m.order_index ASC, e.order_index ASC`,
+      [profileId, userId, moduleId, dueBefore]
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * The student's latest scored attempts, newest first (attempts waiting for
+   * a teacher's grade have no score yet, and attempts rejected at submission
+   * were never scored)
+   */
+  async getRecentScores(profileId: string, limit: number): Promise<RecentAttemptScore[]> {
+    const result = await this.pool.query(
+      `SELECT
+         e.exercise_type as "exerciseType",
+         e.difficulty_level as difficulty,
+         ea.score::float as score,
+         ea.submitted_at as "submittedAt"
+       FROM progress_tracking.exercise_attempts ea
+       JOIN educational_content.exercises e ON e.id = ea.exercise_id
+       WHERE ea.user_id = $1 AND COALESCE(ea.grading_status, '') NOT IN ('pending_review', 'rejected')
+       ORDER BY ea.submitted_at DESC
+       LIMIT $2`,
+      [profileId, limit]
+    );
+
+    return result.rows;
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Recommendations Service
+ *
+ * Picks the next best exercises for a student from their recent scores per
+ * exercise type and difficulty, the exercises they have not tried and
+ * their missed items due for review. Exercises of modules above the
+ * student's rank are never recommended.
+ */
+
+import { Pool } from 'pg';
+import { RecommendationsRepository } from './recommendations.repository';
+import { meetsRankRequirement, recommendExercises, summarizePerformance, targetDifficulties } from './utils/exercise-recommender';
+import { endOfToday } from './utils/spaced-repetition';
+import { RangoMaya, RecommendationsResponse } from './educational.types';
+import { AppError } from '../../middleware/error.middleware';
+import { ErrorCode } from '../../shared/types';
+
+const RECENT_ATTEMPTS = 30; // Attempts that count as recent performance
+
+export class RecommendationsService {
+  private repository: RecommendationsRepository;
+
+  constructor(pool: Pool) {
+    this.repository = new RecommendationsRepository(pool);
+  }
+
+  /**
+   * Recommend the next exercises for a student, optionally within a module
+   *
+   * @param userId - auth user id
+   */
+  async getRecommendations(
+    userId: string,
+    options: { moduleId?: string; limit?: number } = {}
+  ): Promise<RecommendationsResponse> {
+    const learner = await this.repository.getLearnerContext(userId);
+    if (!learner) {
+      throw new AppError('Profile not found', 404, ErrorCode.NOT_FOUND);
+    }
+
+    const currentRank = learner.currentRank || RangoMaya.NACOM;
+
+    const [candidates, recent] = await Promise.all([
+      this.repository.getCandidates(learner.profileId, userId, options.moduleId || null, endOfToday()),
+      this.repository.getRecentScores(learner.profileId, RECENT_ATTEMPTS)
+    ]);
+
+    const unlocked = candidates.filter(candidate => meetsRankRequirement(candidate.rangoMayaRequired, currentRank));
+
+    return {
+      recommendations: recommendExercises(unlocked, recent, options.limit || 5),
+      currentRank,
+      performance: summarizePerformance(recent),
+      targetDifficulty: targetDifficulties(recent),
+      lockedByRank: candidates.length - unlocked.length
+    };
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * Regrade Controller
+ * HTTP request handlers for re-grading exercise attempts.
+ */
+
+import { Response, NextFunction } from 'express';
+import { AuthRequest } from '../../shared/types';
+import { RegradeService } from './regrade.service';
+import { ConfirmRegradeDto } from './educational.types';
+
+export class RegradeController {
+  constructor(private regradeService: RegradeService) {}
+
+  /**
+   * POST /api/educational/exercises/:exerciseId/regrade/preview
+   *
+   * Impact of re-grading against the current answer key. Nothing is saved.
+   */
+  previewRegrade = async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      const { exerciseId } = req.params;
+
+      const preview = await this.regradeService.previewRegrade(exerciseId);
+
+      res.json({
+        success: true,
+        data: preview
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/educational/exercises/:exerciseId/regrade
+   */
+  confirmRegrade = async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      const { exerciseId } = req.params;
+      const dto: ConfirmRegradeDto = req.body;
+      const requestedBy = req.user?.id!;
+
+      const job = await this.regradeService.confirmRegrade(exerciseId, dto, requestedBy);
+
+      res.json({
+        success: true,
+        data: job
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * GET /api/educational/exercises/:exerciseId/regrades
+   */
+  getRegradeHistory = async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      const { exerciseId } = req.params;
+
+      const jobs = await this.regradeService.getRegradeHistory(exerciseId);
+
+      res.json({
+        success: true,
+        data: jobs
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
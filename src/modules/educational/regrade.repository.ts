@@ -0,0 +1,296 @@
+/**
+ * Regrade Repository
+ *
+ * Data access layer for re-grading historical exercise attempts.
+ */
+
+import { Pool, PoolClient } from 'pg';
+import { ExerciseVariant, GradingContext, RegradeAttemptChange, RegradeJob } from './educational.types';
+import { log } from '../../shared/utils/logger';
+
+/**
+ * Stored attempt with the inputs needed to score it again
+ */
+export interface StoredAttempt {
+  id: string;
+  userId: string; // profile id
+  answers: any;
+  score: number;
+  isCorrect: boolean;
+  timeSpent: number;
+  powerupsUsed: string[];
+  xpEarned: number;
+  mlCoinsEarned: number;
+  attemptNumber: number;
+  currentRank: string;
+  streakDays: number;
+  organizationId: string | null;
+  scoringPolicyId: string | null; // Null for the built-in policy
+  scoringPolicyVersion: number | null; // Null for attempts scored before policies were recorded
+  gradingContext: GradingContext | null; // Null for attempts submitted before it was recorded
+  holdStatus: 'pending' | 'confirmed' | null; // Rewards held for review, or forfeited by it
+  heldXp: number;
+  heldMlCoins: number;
+  variant: ExerciseVariant | null; // Set when the attempt had its own variant
+}
+
+const JOB_COLUMNS = `
+  id,
+  exercise_id as "exerciseId",
+  requested_by as "requestedBy",
+  content_hash as "contentHash",
+  reason,
+  attempts_total as "attemptsTotal",
+  attempts_changed as "attemptsChanged",
+  fail_to_pass as "failToPass",
+  pass_to_fail as "passToFail",
+  xp_delta as "xpDelta",
+  ml_coins_delta as "mlCoinsDelta",
+  created_at as "createdAt",
+  completed_at as "completedAt"
+`;
+
+export class RegradeRepository {
+  constructor(private pool: Pool) {}
+
+  /**
+   * Create re-grade tables if not exists
+   */
+  async ensureRegradeTables(client?: PoolClient): Promise<void> {
+    const db = client || this.pool;
+
+    try {
+      await db.query(`
+        CREATE TABLE IF NOT EXISTS progress_tracking.regrade_jobs (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          exercise_id UUID NOT NULL REFERENCES educational_content.exercises(id) ON DELETE CASCADE,
+          requested_by UUID NOT NULL,
+          content_hash TEXT NOT NULL,
+          reason TEXT,
+          attempts_total INTEGER NOT NULL DEFAULT 0,
+          attempts_changed INTEGER NOT NULL DEFAULT 0,
+          fail_to_pass INTEGER NOT NULL DEFAULT 0,
+          pass_to_fail INTEGER NOT NULL DEFAULT 0,
+          xp_delta INTEGER NOT NULL DEFAULT 0,
+          ml_coins_delta INTEGER NOT NULL DEFAULT 0,
+          created_at TIMESTAMPTZ DEFAULT NOW(),
+          completed_at TIMESTAMPTZ
+        );
+
+        CREATE TABLE IF NOT EXISTS progress_tracking.attempt_regrades (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          job_id UUID NOT NULL REFERENCES progress_tracking.regrade_jobs(id) ON DELETE CASCADE,
+          attempt_id UUID NOT NULL REFERENCES progress_tracking.exercise_attempts(id) ON DELETE CASCADE,
+          user_id UUID NOT NULL,
+          old_score INTEGER NOT NULL,
+          new_score INTEGER NOT NULL,
+          old_is_correct BOOLEAN NOT NULL,
+          new_is_correct BOOLEAN NOT NULL,
+          xp_delta INTEGER NOT NULL DEFAULT 0,
+          ml_coins_delta INTEGER NOT NULL DEFAULT 0,
+          created_at TIMESTAMPTZ DEFAULT NOW()
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_regrade_jobs_exercise ON progress_tracking.regrade_jobs(exercise_id);
+        CREATE INDEX IF NOT EXISTS idx_attempt_regrades_job ON progress_tracking.attempt_regrades(job_id);
+        CREATE INDEX IF NOT EXISTS idx_attempt_regrades_attempt ON progress_tracking.attempt_regrades(attempt_id);
+      `);
+    } catch (error) {
+      // Tables might already exist, log and continue
+      log.debug('Regrade tables setup:', error);
+    }
+  }
+
+  /**
+   * Get every attempt at an exercise, numbered per student, with its
+   * grading context, its rewards held or forfeited by an integrity review
+   * and the student's current rank and streak
+   *
+   * Attempts rejected at submission keep their zero score and are left out.
+   */
+  async getAttemptsForExercise(exerciseId: string, dbClient?: PoolClient): Promise<StoredAttempt[]> {
+    const client = dbClient || this.pool;
+
+    const query = `
+      SELECT
+        ea.id,
+        ea.user_id as "userId",
+        ea.submitted_answers as answers,
+        ea.score,
+        ea.is_correct as "isCorrect",
+        COALESCE(ea.time_spent_seconds, 0) as "timeSpent",
+        COALESCE(ea.comodines_used, '{}') as "powerupsUsed",
+        COALESCE(ea.xp_earned, 0) as "xpEarned",
+        COALESCE(ea.ml_coins_earned, 0) as "mlCoinsEarned",
+        ROW_NUMBER() OVER (PARTITION BY ea.user_id ORDER BY ea.submitted_at, ea.id)::int as "attemptNumber",
+        COALESCE(ur.current_rank::text, 'nacom') as "currentRank",
+        COALESCE(us.current_streak, 0) as "streakDays",
+        p.tenant_id as "organizationId",
+        ea.scoring_policy_id as "scoringPolicyId",
+        ea.scoring_policy_version as "scoringPolicyVersion",
+        ea.grading_context as "gradingContext",
+        af.status as "holdStatus",
+        COALESCE(af.held_xp, 0) as "heldXp",
+        COALESCE(af.held_ml_coins, 0) as "heldMlCoins",
+        ea.variant
+      FROM progress_tracking.exercise_attempts ea
+      LEFT JOIN auth_management.profiles p ON p.id = ea.user_id
+      LEFT JOIN progress_tracking.attempt_flags af
+        ON af.attempt_id = ea.id AND af.rewards_held AND af.status IN ('pending', 'confirmed')
+      LEFT JOIN gamification_system.user_stats us ON us.user_id = ea.user_id
+      LEFT JOIN gamification_system.user_ranks ur ON ur.user_id = ea.user_id AND ur.is_current = true
+      WHERE ea.exercise_id = $1 AND ea.grading_status IS DISTINCT FROM 'rejected'
+      ORDER BY ea.user_id, ea.submitted_at, ea.id
+    `;
+
+    const result = await client.query(query, [exerciseId]);
+    return result.rows;
+  }
+
+  /**
+   * Create a re-grade job
+   */
+  async createJob(
+    exerciseId: string,
+    requestedBy: string,
+    contentHash: string,
+    reason: string | null,
+    dbClient?: PoolClient
+  ): Promise<string> {
+    const client = dbClient || this.pool;
+
+    const result = await client.query(
+      `INSERT INTO progress_tracking.regrade_jobs (exercise_id, requested_by, content_hash, reason)
+       VALUES ($1, $2, $3, $4)
+       RETURNING id`,
+      [exerciseId, requestedBy, contentHash, reason]
+    );
+
+    return result.rows[0].id;
+  }
+
+  /**
+   * Lock the pending reviews holding rewards of an exercise's attempts
+   *
+   * Taken before the attempts are locked, in the same order as a review
+   * (flag, then attempt), so a review cannot release amounts the re-grade
+   * is changing.
+   */
+  async lockHeldRewards(exerciseId: string, dbClient: PoolClient): Promise<void> {
+    await dbClient.query(
+      `SELECT id FROM progress_tracking.attempt_flags
+       WHERE exercise_id = $1 AND status = 'pending' AND rewards_held
+       FOR UPDATE`,
+      [exerciseId]
+    );
+  }
+
+  /**
+   * Rewrite an attempt's score and record the old and new values
+   *
+   * Reward deltas of an attempt whose rewards are held for review adjust
+   * the held amounts, paid if the review clears it.
+   */
+  async applyAttemptChange(jobId: string, change: RegradeAttemptChange, dbClient: PoolClient): Promise<void> {
+    const earned = change.rewardsHeld ? { xp: 0, mlCoins: 0 } : { xp: change.xpDelta, mlCoins: change.mlCoinsDelta };
+
+    await dbClient.query(
+      `UPDATE progress_tracking.exercise_attempts
+       SET score = $2,
+           is_correct = $3,
+           xp_earned = GREATEST(COALESCE(xp_earned, 0) + $4, 0),
+           ml_coins_earned = GREATEST(COALESCE(ml_coins_earned, 0) + $5, 0)
+       WHERE id = $1`,
+      [change.attemptId, change.newScore, change.newPassed, earned.xp, earned.mlCoins]
+    );
+
+    if (change.rewardsHeld) {
+      await dbClient.query(
+        `UPDATE progress_tracking.attempt_flags
+         SET held_xp = GREATEST(held_xp + $2, 0),
+             held_ml_coins = GREATEST(held_ml_coins + $3, 0)
+         WHERE attempt_id = $1 AND status = 'pending'`,
+        [change.attemptId, change.xpDelta, change.mlCoinsDelta]
+      );
+    }
+
+    await dbClient.query(
+      `INSERT INTO progress_tracking.attempt_regrades (
+        job_id, attempt_id, user_id, old_score, new_score,
+        old_is_correct, new_is_correct, xp_delta, ml_coins_delta
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+      [
+        jobId,
+        change.attemptId,
+        change.userId,
+        change.oldScore,
+        change.newScore,
+        change.oldPassed,
+        change.newPassed,
+        change.xpDelta,
+        change.mlCoinsDelta
+      ]
+    );
+  }
+
+  /**
+   * Adjust a student's total XP (never below zero)
+   */
+  async adjustUserXp(userId: string, delta: number, dbClient: PoolClient): Promise<void> {
+    await dbClient.query(
+      `UPDATE gamification_system.user_stats
+       SET total_xp = GREATEST(total_xp + $1, 0),
+           updated_at = NOW()
+       WHERE user_id = $2`,
+      [delta, userId]
+    );
+  }
+
+  /**
+   * Mark a job as completed with its totals
+   */
+  async completeJob(
+    jobId: string,
+    totals: Pick<RegradeJob, 'attemptsTotal' | 'attemptsChanged' | 'failToPass' | 'passToFail' | 'xpDelta' | 'mlCoinsDelta'>,
+    dbClient: PoolClient
+  ): Promise<RegradeJob> {
+    const result = await dbClient.query(
+      `UPDATE progress_tracking.regrade_jobs
+       SET attempts_total = $2,
+           attempts_changed = $3,
+           fail_to_pass = $4,
+           pass_to_fail = $5,
+           xp_delta = $6,
+           ml_coins_delta = $7,
+           completed_at = NOW()
+       WHERE id = $1
+       RETURNING ${JOB_COLUMNS}`,
+      [
+        jobId,
+        totals.attemptsTotal,
+        totals.attemptsChanged,
+        totals.failToPass,
+        totals.passToFail,
+        totals.xpDelta,
+        totals.mlCoinsDelta
+      ]
+    );
+
+    return result.rows[0];
+  }
+
+  /**
+   * Get re-grade history for an exercise
+   */
+  async getJobsForExercise(exerciseId: string): Promise<RegradeJob[]> {
+    const result = await this.pool.query(
+      `SELECT ${JOB_COLUMNS}
+       FROM progress_tracking.regrade_jobs
+       WHERE exercise_id = $1
+       ORDER BY created_at DESC`,
+      [exerciseId]
+    );
+
+    return result.rows;
+  }
+}
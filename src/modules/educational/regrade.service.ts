@@ -0,0 +1,390 @@
+/**
+ * Regrade Service
+ *
+ * Re-scores historical attempts after an exercise's answer key changes.
+ * A preview reports the impact first; confirming rewrites the attempts,
+ * posts ML Coins adjustments to the ledger, corrects XP and rebuilds
+ * module progress, all in one transaction.
+ */
+
+import { Pool } from 'pg';
+import crypto from 'crypto';
+import { ExercisesRepository } from './exercises.repository';
+import { ProgressRepository } from './progress.repository';
+import { RegradeRepository, StoredAttempt } from './regrade.repository';
+import { ScoringService } from './scoring.service';
+import { ScoringPolicyService } from './scoring-policy.service';
+import { scorerRegistry } from './scorers';
+import { resolveVariantExercise } from './utils/exercise-variants';
+import {
+  ComodinType,
+  ConfirmRegradeDto,
+  ExerciseResponse,
+  RegradeAttemptChange,
+  RegradeJob,
+  RegradePreview,
+  ScoringPolicyVersion,
+  SubmitExerciseDto
+} from './educational.types';
+import { CoinsRepository } from '../gamification/coins.repository';
+import { RanksService } from '../gamification/ranks.service';
+import { RanksRepository } from '../gamification/ranks.repository';
+import { AppError } from '../../middleware/error.middleware';
+import { ErrorCode } from '../../shared/types';
+import { log } from '../../shared/utils/logger';
+
+export class RegradeService {
+  private repository: RegradeRepository;
+  private exercisesRepository: ExercisesRepository;
+  private progressRepository: ProgressRepository;
+  private coinsRepository: CoinsRepository;
+  private ranksService: RanksService;
+  private scoringService: ScoringService;
+  private scoringPolicyService: ScoringPolicyService;
+
+  constructor(private pool: Pool) {
+    this.repository = new RegradeRepository(pool);
+    this.exercisesRepository = new ExercisesRepository(pool);
+    this.progressRepository = new ProgressRepository(pool);
+    this.coinsRepository = new CoinsRepository(pool);
+    this.ranksService = new RanksService(new RanksRepository(pool));
+    this.scoringService = new ScoringService(pool, this.ranksService);
+    this.scoringPolicyService = new ScoringPolicyService(pool);
+  }
+
+  /**
+   * Initialize re-grade system (ensure tables exist)
+   */
+  async initialize(): Promise<void> {
+    await this.repository.ensureRegradeTables();
+  }
+
+  /**
+   * Preview the impact of re-grading an exercise against its current key
+   */
+  async previewRegrade(exerciseId: string): Promise<RegradePreview> {
+    const exercise = await this.getGradableExercise(exerciseId);
+    const attempts = await this.repository.getAttemptsForExercise(exerciseId);
+    const policies = await this.loadScoringPolicies(attempts);
+
+    return this.buildPreview(exercise, attempts, policies);
+  }
+
+  /**
+   * Re-grade every attempt at an exercise
+   *
+   * `dto.contentHash` must match the key that was previewed.
+   */
+  async confirmRegrade(exerciseId: string, dto: ConfirmRegradeDto, requestedBy: string): Promise<RegradeJob> {
+    const exercise = await this.getGradableExercise(exerciseId);
+
+    if (dto.contentHash !== this.hashAnswerKey(exercise)) {
+      throw new AppError(
+        'The answer key changed since the preview. Preview the re-grade again before confirming.',
+        409,
+        'ANSWER_KEY_CHANGED'
+      );
+    }
+
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      // Lock the held rewards (before the attempts, as a review does), then
+      // the attempts so concurrent re-grades of the same exercise run one at a time
+      await this.repository.lockHeldRewards(exerciseId, client);
+      await client.query(
+        'SELECT id FROM progress_tracking.exercise_attempts WHERE exercise_id = $1 FOR UPDATE',
+        [exerciseId]
+      );
+
+      const attempts = await this.repository.getAttemptsForExercise(exerciseId, client);
+      const policies = await this.loadScoringPolicies(attempts);
+      const preview = this.buildPreview(exercise, attempts, policies);
+
+      const jobId = await this.repository.createJob(
+        exerciseId,
+        requestedBy,
+        preview.contentHash,
+        dto.reason || null,
+        client
+      );
+
+      for (const change of preview.changes) {
+        await this.repository.applyAttemptChange(jobId, change, client);
+      }
+
+      // Rewards are adjusted once per student; held rewards stay held
+      const deltasByUser = new Map<string, { xp: number; mlCoins: number; passChanged: boolean }>();
+      for (const change of preview.changes) {
+        const totals = deltasByUser.get(change.userId) || { xp: 0, mlCoins: 0, passChanged: false };
+        if (!change.rewardsHeld) {
+          totals.xp += change.xpDelta;
+          totals.mlCoins += change.mlCoinsDelta;
+        }
+        totals.passChanged = totals.passChanged || change.oldPassed !== change.newPassed;
+        deltasByUser.set(change.userId, totals);
+      }
+
+      for (const [userId, totals] of deltasByUser) {
+        if (totals.xp !== 0) {
+          await this.repository.adjustUserXp(userId, totals.xp, client);
+        }
+
+        if (totals.mlCoins !== 0) {
+          await this.coinsRepository.adjustCoins(
+            {
+              userId,
+              amount: totals.mlCoins,
+              reason: `Re-grade of exercise ${exercise.title}`,
+              transactionType: 'admin_adjustment',
+              referenceId: jobId,
+              referenceType: 'regrade_job',
+              metadata: { exerciseId }
+            },
+            client
+          );
+        }
+
+        if (totals.passChanged && exercise.moduleId) {
+          await this.progressRepository.recalculateModuleProgress(userId, exercise.moduleId, client);
+        }
+      }
+
+      const job = await this.repository.completeJob(
+        jobId,
+        {
+          attemptsTotal: preview.attemptsTotal,
+          attemptsChanged: preview.attemptsChanged,
+          failToPass: preview.students.failToPass,
+          passToFail: preview.students.passToFail,
+          xpDelta: preview.xpDelta,
+          mlCoinsDelta: preview.mlCoinsDelta
+        },
+        client
+      );
+
+      await client.query('COMMIT');
+
+      log.info(
+        `Exercise ${exerciseId} re-graded by ${requestedBy}: ${preview.attemptsChanged}/${preview.attemptsTotal} attempts changed`
+      );
+
+      // XP may now cross a rank threshold; promotion is checked outside the transaction
+      for (const [userId, totals] of deltasByUser) {
+        if (totals.xp > 0) {
+          try {
+            await this.ranksService.autoCheckPromotion(userId);
+          } catch (error) {
+            log.error('Error checking rank promotion after re-grade:', error);
+          }
+        }
+      }
+
+      return job;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      log.error('Error re-grading exercise:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Get re-grade history for an exercise
+   */
+  async getRegradeHistory(exerciseId: string): Promise<RegradeJob[]> {
+    return this.repository.getJobsForExercise(exerciseId);
+  }
+
+  // ============================================================================
+  // PRIVATE HELPERS
+  // ============================================================================
+
+  /**
+   * Load an exercise that can be auto-scored
+   */
+  private async getGradableExercise(exerciseId: string): Promise<ExerciseResponse> {
+    const exercise = await this.exercisesRepository.getExerciseById(exerciseId);
+
+    if (!exercise) {
+      throw new AppError('Exercise not found', 404, ErrorCode.NOT_FOUND);
+    }
+
+    if (scorerRegistry.isManual(exercise)) {
+      throw new AppError(
+        'Manually graded exercises cannot be re-graded automatically',
+        400,
+        ErrorCode.VALIDATION_ERROR
+      );
+    }
+
+    return exercise;
+  }
+
+  /**
+   * Score every attempt again and summarize the changes
+   *
+   * Attempts are re-scored with the same pipeline as a live submission,
+   * with the rank, streak and time-limit penalty stored with the attempt
+   * (attempts submitted before they were stored use the student's current
+   * rank and streak and no penalty); the first-attempt bonus and the
+   * improvement-only rewards follow the attempt's position in the student's
+   * history. Each attempt keeps the scoring policy version it was scored
+   * with, and randomized attempts are scored against the items they drew.
+   */
+  private buildPreview(
+    exercise: ExerciseResponse,
+    attempts: StoredAttempt[],
+    policies: Map<string, ScoringPolicyVersion>
+  ): RegradePreview {
+    const changes: RegradeAttemptChange[] = [];
+    const oldPassByUser = new Map<string, boolean>();
+    const newPassByUser = new Map<string, boolean>();
+    const bestByUser = new Map<string, number>();
+    let attemptsSkipped = 0;
+    let scoreDeltaTotal = 0;
+
+    for (const attempt of attempts) {
+      oldPassByUser.set(attempt.userId, oldPassByUser.get(attempt.userId) || attempt.isCorrect);
+
+      const breakdown = this.scoringService.previewScore(
+        this.toSubmission(exercise, attempt),
+        {
+          ...(attempt.variant ? resolveVariantExercise(exercise, attempt.variant) : exercise),
+          userProgress: attempt.attemptNumber > 1
+            ? { attempts: attempt.attemptNumber - 1, bestScore: bestByUser.get(attempt.userId) || 0, completed: false }
+            : undefined
+        },
+        {
+          currentRank: attempt.gradingContext?.currentRank ?? attempt.currentRank,
+          streakDays: attempt.gradingContext?.streakDays ?? attempt.streakDays
+        },
+        policies.get(attempt.id)!
+      );
+
+      if (breakdown.reasonCode !== 'SCORED') {
+        // Keep the stored result for attempts the current key cannot grade
+        attemptsSkipped++;
+        newPassByUser.set(attempt.userId, newPassByUser.get(attempt.userId) || attempt.isCorrect);
+        bestByUser.set(attempt.userId, Math.max(bestByUser.get(attempt.userId) || 0, attempt.score));
+        continue;
+      }
+
+      newPassByUser.set(attempt.userId, newPassByUser.get(attempt.userId) || breakdown.passed);
+      bestByUser.set(attempt.userId, Math.max(bestByUser.get(attempt.userId) || 0, breakdown.finalScore));
+      scoreDeltaTotal += breakdown.finalScore - attempt.score;
+
+      if (breakdown.finalScore !== attempt.score || breakdown.passed !== attempt.isCorrect) {
+        // Held rewards are compared with what the review would release;
+        // rewards forfeited by a review stay forfeited
+        const rewardsHeld = attempt.holdStatus === 'pending';
+        const forfeited = attempt.holdStatus === 'confirmed';
+        const earned = rewardsHeld
+          ? { xp: attempt.xpEarned + attempt.heldXp, mlCoins: attempt.mlCoinsEarned + attempt.heldMlCoins }
+          : { xp: attempt.xpEarned, mlCoins: attempt.mlCoinsEarned };
+
+        changes.push({
+          attemptId: attempt.id,
+          userId: attempt.userId,
+          oldScore: attempt.score,
+          newScore: breakdown.finalScore,
+          oldPassed: attempt.isCorrect,
+          newPassed: breakdown.passed,
+          xpDelta: forfeited ? 0 : breakdown.rewards.xp - earned.xp,
+          mlCoinsDelta: forfeited ? 0 : breakdown.rewards.mlCoins - earned.mlCoins,
+          rewardsHeld
+        });
+      }
+    }
+
+    const students = [...oldPassByUser.keys()];
+    const scoredAttempts = attempts.length - attemptsSkipped;
+
+    return {
+      exerciseId: exercise.id,
+      contentHash: this.hashAnswerKey(exercise),
+      attemptsTotal: attempts.length,
+      attemptsChanged: changes.length,
+      attemptsSkipped,
+      students: {
+        total: students.length,
+        affected: new Set(changes.map(change => change.userId)).size,
+        failToPass: students.filter(id => !oldPassByUser.get(id) && newPassByUser.get(id)).length,
+        passToFail: students.filter(id => oldPassByUser.get(id) && !newPassByUser.get(id)).length
+      },
+      averageScoreDelta: scoredAttempts > 0
+        ? Math.round((scoreDeltaTotal / scoredAttempts) * 100) / 100
+        : 0,
+      xpDelta: changes.reduce((sum, change) => sum + change.xpDelta, 0),
+      mlCoinsDelta: changes.reduce((sum, change) => sum + change.mlCoinsDelta, 0),
+      changes
+    };
+  }
+
+  /**
+   * Scoring policy of every attempt, by attempt id
+   *
+   * Attempts scored before policy versions were recorded use the policy
+   * currently in effect for the student's organization.
+   */
+  private async loadScoringPolicies(attempts: StoredAttempt[]): Promise<Map<string, ScoringPolicyVersion>> {
+    const recordedIds = [...new Set(attempts.map(attempt => attempt.scoringPolicyId).filter(Boolean))];
+    const recorded = await this.scoringPolicyService.getPoliciesByIds(recordedIds);
+    const effectiveByOrganization = new Map<string | null, ScoringPolicyVersion>();
+    const policies = new Map<string, ScoringPolicyVersion>();
+
+    for (const attempt of attempts) {
+      let policy = attempt.scoringPolicyId ? recorded.get(attempt.scoringPolicyId) : undefined;
+
+      if (!policy && attempt.scoringPolicyVersion === 0) {
+        policy = this.scoringPolicyService.getBuiltInPolicy();
+      }
+
+      if (!policy) {
+        if (!effectiveByOrganization.has(attempt.organizationId)) {
+          effectiveByOrganization.set(
+            attempt.organizationId,
+            await this.scoringPolicyService.getEffectivePolicy(attempt.organizationId)
+          );
+        }
+        policy = effectiveByOrganization.get(attempt.organizationId)!;
+      }
+
+      policies.set(attempt.id, policy);
+    }
+
+    return policies;
+  }
+
+  /**
+   * Rebuild the submission a stored attempt was scored from
+   */
+  private toSubmission(exercise: ExerciseResponse, attempt: StoredAttempt): SubmitExerciseDto {
+    return {
+      userId: attempt.userId,
+      exerciseId: exercise.id,
+      answers: attempt.answers,
+      timeSpent: attempt.timeSpent,
+      powerupsUsed: (attempt.powerupsUsed || []) as ComodinType[],
+      timeOveragePenalty: attempt.gradingContext?.timeOveragePenalty || 0
+    };
+  }
+
+  /**
+   * Fingerprint of everything that affects a re-grade
+   */
+  private hashAnswerKey(exercise: ExerciseResponse): string {
+    return crypto
+      .createHash('sha256')
+      .update(JSON.stringify({
+        content: exercise.content,
+        passingScore: exercise.passingScore,
+        xpReward: exercise.xpReward,
+        mlCoinsReward: exercise.mlCoinsReward
+      }))
+      .digest('hex');
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * Review Queue Controller
+ * HTTP request handlers for a student's spaced-repetition reviews.
+ */
+
+import { Response, NextFunction } from 'express';
+import { AuthRequest } from '../../shared/types';
+import { ReviewQueueService } from './review-queue.service';
+import { SubmitReviewDto } from './educational.types';
+
+export class ReviewQueueController {
+  constructor(private reviewQueueService: ReviewQueueService) {}
+
+  /**
+   * GET /api/educational/reviews/due
+   *
+   * Reviews due today for the authenticated student.
+   */
+  getDueReviews = async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined;
+
+      const due = await this.reviewQueueService.getDueReviews(req.user?.id!, limit);
+
+      res.json({
+        success: true,
+        data: due
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/educational/reviews/:reviewId
+   *
+   * Grades the answer and schedules the next review.
+   */
+  submitReview = async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      const { reviewId } = req.params;
+      const dto: SubmitReviewDto = req.body;
+
+      const result = await this.reviewQueueService.submitReview(reviewId, req.user?.id!, dto);
+
+      res.json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
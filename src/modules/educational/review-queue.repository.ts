@@ -0,0 +1,216 @@
+/**
+ * Review Queue Repository
+ *
+ * Data access layer for the per-student spaced-repetition queue of missed
+ * exercise items.
+ */
+
+import { Pool, PoolClient } from 'pg';
+import { ExerciseType, ExerciseVariant, ReviewItem, ReviewSchedule } from './educational.types';
+import { log } from '../../shared/utils/logger';
+
+const REVIEW_COLUMNS = `
+  r.id,
+  r.user_id as "userId",
+  r.exercise_id as "exerciseId",
+  r.item_id as "itemId",
+  r.exercise_type as "exerciseType",
+  r.parameters,
+  r.ease_factor as "easeFactor",
+  r.interval_days as "intervalDays",
+  r.repetitions,
+  r.lapses,
+  r.due_at as "dueAt",
+  r.last_reviewed_at as "lastReviewedAt",
+  r.source_attempt_id as "sourceAttemptId",
+  r.created_at as "createdAt"
+`;
+
+/**
+ * Answers of a saved attempt, for collecting its missed items
+ */
+export interface AttemptAnswers {
+  exerciseId: string;
+  answers: any;
+  variant: ExerciseVariant | null;
+}
+
+export class ReviewQueueRepository {
+  constructor(private pool: Pool) {}
+
+  /**
+   * Create review items table if not exists
+   */
+  async ensureReviewTables(client?: PoolClient): Promise<void> {
+    const db = client || this.pool;
+
+    try {
+      await db.query(`
+        CREATE TABLE IF NOT EXISTS progress_tracking.review_items (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          user_id UUID NOT NULL,
+          exercise_id UUID NOT NULL REFERENCES educational_content.exercises(id) ON DELETE CASCADE,
+          item_id TEXT NOT NULL,
+          exercise_type TEXT NOT NULL,
+          parameters JSONB,
+          status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'retired')),
+          ease_factor DOUBLE PRECISION NOT NULL DEFAULT 2.5,
+          interval_days INTEGER NOT NULL DEFAULT 0,
+          repetitions INTEGER NOT NULL DEFAULT 0,
+          lapses INTEGER NOT NULL DEFAULT 0,
+          due_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+          last_reviewed_at TIMESTAMPTZ,
+          source_attempt_id UUID,
+          created_at TIMESTAMPTZ DEFAULT NOW(),
+          updated_at TIMESTAMPTZ DEFAULT NOW(),
+          UNIQUE (user_id, exercise_id, item_id)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_review_items_user_due
+          ON progress_tracking.review_items(user_id, due_at) WHERE status = 'active';
+      `);
+    } catch (error) {
+      // Table might already exist, log and continue
+      log.debug('Review queue tables setup:', error);
+    }
+  }
+
+  /**
+   * Get the answers and variant of a saved attempt
+   */
+  async getAttemptAnswers(attemptId: string): Promise<AttemptAnswers | null> {
+    const result = await this.pool.query(
+      `SELECT exercise_id as "exerciseId", submitted_answers as answers, variant
+       FROM progress_tracking.exercise_attempts
+       WHERE id = $1`,
+      [attemptId]
+    );
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Queue missed items, due right away
+   *
+   * An item already in the queue starts over, and counts a lapse if it had
+   * been recalled since it was last missed.
+   */
+  async upsertMissedItems(
+    userId: string,
+    exerciseId: string,
+    exerciseType: ExerciseType,
+    itemIds: string[],
+    parameters: Record<string, string | number> | null,
+    sourceAttemptId: string,
+    schedule: ReviewSchedule
+  ): Promise<void> {
+    if (itemIds.length === 0) return;
+
+    await this.pool.query(
+      `INSERT INTO progress_tracking.review_items (
+         user_id, exercise_id, item_id, exercise_type, parameters,
+         ease_factor, interval_days, repetitions, due_at, source_attempt_id
+       )
+       SELECT $1, $2, item_id, $3, $4, $5, $6, $7, $8, $9
+       FROM unnest($10::text[]) AS item_id
+       ON CONFLICT (user_id, exercise_id, item_id) DO UPDATE SET
+         parameters = EXCLUDED.parameters,
+         status = 'active',
+         interval_days = EXCLUDED.interval_days,
+         repetitions = EXCLUDED.repetitions,
+         due_at = EXCLUDED.due_at,
+         lapses = review_items.lapses + CASE WHEN review_items.repetitions > 0 THEN 1 ELSE 0 END,
+         source_attempt_id = EXCLUDED.source_attempt_id,
+         updated_at = NOW()`,
+      [
+        userId,
+        exerciseId,
+        exerciseType,
+        parameters ? JSON.stringify(parameters) : null,
+        schedule.easeFactor,
+        schedule.intervalDays,
+        schedule.repetitions,
+        schedule.dueAt,
+        sourceAttemptId,
+        itemIds
+      ]
+    );
+  }
+
+  /**
+   * Active items due before a time, most overdue first
+   */
+  async getDueItems(
+    userId: string,
+    dueBefore: Date,
+    limit: number
+  ): Promise<{ items: Array<ReviewItem & { exerciseTitle: string }>; total: number }> {
+    const [itemsResult, countResult] = await Promise.all([
+      this.pool.query(
+        `SELECT ${REVIEW_COLUMNS}, e.title as "exerciseTitle"
+         FROM progress_tracking.review_items r
+         JOIN educational_content.exercises e ON e.id = r.exercise_id
+         WHERE r.user_id = $1 AND r.status = 'active' AND r.due_at < $2
+         ORDER BY r.due_at ASC, r.created_at ASC
+         LIMIT $3`,
+        [userId, dueBefore, limit]
+      ),
+      this.pool.query(
+        `SELECT COUNT(*)::int as total
+         FROM progress_tracking.review_items
+         WHERE user_id = $1 AND status = 'active' AND due_at < $2`,
+        [userId, dueBefore]
+      )
+    ]);
+
+    return { items: itemsResult.rows, total: countResult.rows[0].total };
+  }
+
+  /**
+   * Lock a student's active review item for grading
+   */
+  async getItemForUpdate(client: PoolClient, reviewId: string, userId: string): Promise<ReviewItem | null> {
+    const result = await client.query(
+      `SELECT ${REVIEW_COLUMNS}
+       FROM progress_tracking.review_items r
+       WHERE r.id = $1 AND r.user_id = $2 AND r.status = 'active'
+       FOR UPDATE`,
+      [reviewId, userId]
+    );
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Save the schedule after a review
+   */
+  async updateSchedule(client: PoolClient, reviewId: string, schedule: ReviewSchedule, lapsed: boolean): Promise<void> {
+    await client.query(
+      `UPDATE progress_tracking.review_items
+       SET ease_factor = $2,
+           interval_days = $3,
+           repetitions = $4,
+           due_at = $5,
+           lapses = lapses + $6,
+           last_reviewed_at = NOW(),
+           updated_at = NOW()
+       WHERE id = $1`,
+      [reviewId, schedule.easeFactor, schedule.intervalDays, schedule.repetitions, schedule.dueAt, lapsed ? 1 : 0]
+    );
+  }
+
+  /**
+   * Take items out of the queue (their item is gone from the exercise)
+   */
+  async retireItems(reviewIds: string[], dbClient?: PoolClient): Promise<void> {
+    if (reviewIds.length === 0) return;
+
+    const client = dbClient || this.pool;
+    await client.query(
+      `UPDATE progress_tracking.review_items
+       SET status = 'retired', updated_at = NOW()
+       WHERE id = ANY($1::uuid[])`,
+      [reviewIds]
+    );
+  }
+}
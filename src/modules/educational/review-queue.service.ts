@@ -0,0 +1,210 @@
+/**
+ * Review Queue Service
+ *
+ * Spaced-repetition review of missed items. After each attempt, the items
+ * the student got wrong (crossword clues, blanks, true/false statements,
+ * questions and claims) are queued and come back on an SM-2 schedule.
+ * Reviews are graded by the exercise type's scorer, one item at a time,
+ * and count as activity for streaks and missions.
+ */
+
+import { Pool } from 'pg';
+import { ReviewQueueRepository } from './review-queue.repository';
+import { ExercisesRepository } from './exercises.repository';
+import { SubmissionOutboxRepository } from './submission-outbox.repository';
+import { scorerRegistry } from './scorers';
+import { resolveVariantExercise } from './utils/exercise-variants';
+import { isolateItem, isReviewable, reviewContent } from './utils/review-items';
+import {
+  endOfToday,
+  initialSchedule,
+  PASSING_QUALITY,
+  reviewQuality,
+  scheduleReview
+} from './utils/spaced-repetition';
+import { DueReview, ExerciseResponse, ReviewResult, SubmissionEventInput, SubmitReviewDto } from './educational.types';
+import { AppError } from '../../middleware/error.middleware';
+import { ErrorCode } from '../../shared/types';
+import { log } from '../../shared/utils/logger';
+
+export class ReviewQueueService {
+  private repository: ReviewQueueRepository;
+  private exercisesRepository: ExercisesRepository;
+  private outboxRepository: SubmissionOutboxRepository;
+
+  constructor(private pool: Pool) {
+    this.repository = new ReviewQueueRepository(pool);
+    this.exercisesRepository = new ExercisesRepository(pool);
+    this.outboxRepository = new SubmissionOutboxRepository(pool);
+  }
+
+  /**
+   * Initialize review queue (ensure table exists)
+   */
+  async initialize(): Promise<void> {
+    await this.repository.ensureReviewTables();
+  }
+
+  /**
+   * Queue the items missed in an attempt
+   *
+   * The attempt is scored again item by item (randomized attempts against
+   * the items they drew); items without full credit are queued.
+   *
+   * @param userId - auth user id
+   * @returns Number of items queued
+   */
+  async collectMissedItems(attemptId: string, userId: string): Promise<number> {
+    const attempt = await this.repository.getAttemptAnswers(attemptId);
+    if (!attempt) return 0;
+
+    const exercise = await this.exercisesRepository.getExerciseById(attempt.exerciseId);
+    if (!exercise || !isReviewable(exercise.exerciseType)) return 0;
+
+    const scored = attempt.variant ? resolveVariantExercise(exercise, attempt.variant) : exercise;
+    const result = scorerRegistry.score(attempt.answers, scored);
+    if (result.reasonCode !== 'SCORED') return 0;
+
+    const missed = result.items.filter(item => item.credit < 1).map(item => item.itemId);
+
+    await this.repository.upsertMissedItems(
+      userId,
+      exercise.id,
+      exercise.exerciseType,
+      missed,
+      attempt.variant?.parameters || null,
+      attemptId,
+      initialSchedule()
+    );
+
+    if (missed.length > 0) {
+      log.info(`Queued ${missed.length} missed item(s) of exercise ${exercise.id} for review by user ${userId}`);
+    }
+
+    return missed.length;
+  }
+
+  /**
+   * Reviews due today, most overdue first
+   *
+   * Items that are no longer in their exercise leave the queue.
+   */
+  async getDueReviews(userId: string, limit: number = 20): Promise<{ reviews: DueReview[]; total: number }> {
+    const { items, total } = await this.repository.getDueItems(userId, endOfToday(), limit);
+    const exercises = new Map<string, ExerciseResponse | null>();
+    const reviews: DueReview[] = [];
+    const removed: string[] = [];
+
+    for (const item of items) {
+      if (!exercises.has(item.exerciseId)) {
+        exercises.set(item.exerciseId, await this.exercisesRepository.getExerciseById(item.exerciseId));
+      }
+
+      const exercise = exercises.get(item.exerciseId);
+      const isolated = exercise ? isolateItem(exercise, item.itemId, item.parameters) : null;
+
+      if (!isolated) {
+        removed.push(item.id);
+        continue;
+      }
+
+      reviews.push({
+        id: item.id,
+        exerciseId: item.exerciseId,
+        exerciseTitle: item.exerciseTitle,
+        exerciseType: item.exerciseType,
+        itemId: item.itemId,
+        content: reviewContent(isolated),
+        repetitions: item.repetitions,
+        lapses: item.lapses,
+        dueAt: item.dueAt
+      });
+    }
+
+    await this.repository.retireItems(removed);
+
+    return { reviews, total: total - removed.length };
+  }
+
+  /**
+   * Grade a review and schedule the item's next one
+   *
+   * The schedule update and the streak/missions events are written in one
+   * transaction.
+   */
+  async submitReview(reviewId: string, userId: string, dto: SubmitReviewDto): Promise<ReviewResult> {
+    const client = await this.pool.connect();
+    let result: ReviewResult | null = null;
+
+    try {
+      await client.query('BEGIN');
+
+      const item = await this.repository.getItemForUpdate(client, reviewId, userId);
+      if (!item) {
+        throw new AppError('Review item not found', 404, ErrorCode.NOT_FOUND);
+      }
+
+      if (new Date(item.dueAt) >= endOfToday()) {
+        throw new AppError('Review item is not due yet', 409, 'REVIEW_NOT_DUE', { dueAt: item.dueAt });
+      }
+
+      const exercise = await this.exercisesRepository.getExerciseById(item.exerciseId);
+      const isolated = exercise ? isolateItem(exercise, item.itemId, item.parameters) : null;
+
+      if (isolated) {
+        const graded = scorerRegistry.score({ [item.itemId]: dto.answer }, isolated).items[0];
+        const quality = reviewQuality(graded.credit, dto.quality);
+        const schedule = scheduleReview(item, quality);
+
+        await this.repository.updateSchedule(
+          client,
+          item.id,
+          schedule,
+          quality < PASSING_QUALITY && item.repetitions > 0
+        );
+        await this.outboxRepository.enqueueEvents(
+          client,
+          null,
+          userId,
+          this.buildReviewEvents(item.exerciseId, item.itemId, graded.credit)
+        );
+
+        result = {
+          reviewId: item.id,
+          itemId: item.itemId,
+          isCorrect: graded.credit >= 1,
+          credit: graded.credit,
+          userAnswer: graded.userAnswer,
+          correctAnswer: graded.correctAnswer,
+          quality,
+          schedule
+        };
+      } else {
+        await this.repository.retireItems([item.id], client);
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    if (!result) {
+      throw new AppError('Review item is no longer part of its exercise', 410, 'REVIEW_ITEM_REMOVED');
+    }
+
+    return result;
+  }
+
+  /**
+   * Side effects of a review, as outbox events (handled by auth user id)
+   */
+  private buildReviewEvents(exerciseId: string, itemId: string, credit: number): SubmissionEventInput[] {
+    return [
+      { eventType: 'streak.activity', payload: {} },
+      { eventType: 'missions.review_completed', payload: { exerciseId, itemId, credit } }
+    ];
+  }
+}
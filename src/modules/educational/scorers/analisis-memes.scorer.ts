@@ -0,0 +1,10 @@
+/**
+ * Análisis de Memes Scorer
+ *
+ * One item per entry in `content.questions` (questions about each meme), answered by id.
+ */
+
+import { ExerciseType } from '../educational.types';
+import { createChoiceQuestionScorer } from './scorer.utils';
+
+export const analisisMemesScorer = createChoiceQuestionScorer(ExerciseType.ANALISIS_MEMES);
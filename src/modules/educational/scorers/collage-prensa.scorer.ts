@@ -0,0 +1,36 @@
+/**
+ * Collage de Prensa Scorer
+ *
+ * One item per entry in `content.requiredElements` that the student placed
+ * in `answers.elements`. Without required elements there is nothing to
+ * check automatically, so the exercise is graded by a teacher.
+ */
+
+import { ExerciseType } from '../educational.types';
+import { ExerciseScorer } from './scorer.types';
+import { buildResult, itemScore, listAnswer } from './scorer.utils';
+
+const requiredElements = (content: any): any[] =>
+  Array.isArray(content?.requiredElements) ? content.requiredElements : [];
+
+export const collagePrensaScorer: ExerciseScorer = {
+  type: ExerciseType.COLLAGE_PRENSA,
+  manual: exercise => requiredElements(exercise.content).length === 0,
+  score(answers, exercise) {
+    const required = requiredElements(exercise.content);
+    if (required.length === 0) {
+      return buildResult([], 'MANUAL_REVIEW');
+    }
+
+    const elementId = (element: any): string => String(element && typeof element === 'object' ? element.id : element);
+    const placed = new Set<string>(listAnswer(answers, 'elements').map(elementId));
+
+    const items = required.map((element: any) => {
+      const id = elementId(element);
+      const isPlaced = placed.has(id);
+      return itemScore(id, isPlaced ? 1 : 0, isPlaced ? id : null, id, element.points ?? 1);
+    });
+
+    return buildResult(items);
+  }
+};
@@ -0,0 +1,36 @@
+/**
+ * Completar Espacios Scorer
+ *
+ * One item per blank, answered by blank id or by position. `acceptedAnswers` lists
+ * alternatives that also earn full credit. Answers are compared with the
+ * free-text matching policy.
+ */
+
+import { ExerciseType } from '../educational.types';
+import { ExerciseScorer } from './scorer.types';
+import { answerForItem, buildResult, itemScore } from './scorer.utils';
+import { matchText, resolveTextMatchPolicy } from './text-matching';
+
+export const completarEspaciosScorer: ExerciseScorer = {
+  type: ExerciseType.COMPLETAR_ESPACIOS,
+  manual: false,
+  score(answers, exercise) {
+    const content = exercise.content as any;
+    const blanks: any[] = content.blanks || [];
+
+    const items = blanks.map((blank: any, index: number) => {
+      const userAnswer = answerForItem(answers, blank, index);
+      const alternatives = Array.isArray(blank.acceptedAnswers) ? blank.acceptedAnswers : [];
+      const accepted = [blank.correctAnswer, ...alternatives];
+      const policy = resolveTextMatchPolicy(content.answerMatching, blank.matching);
+      const match = matchText(userAnswer, accepted, policy, blank.synonyms);
+
+      return {
+        ...itemScore(String(blank.id ?? index), match.credit, userAnswer, blank.correctAnswer),
+        matchType: match.kind
+      };
+    });
+
+    return buildResult(items);
+  }
+};
@@ -0,0 +1,10 @@
+/**
+ * Comprensión Auditiva Scorer
+ *
+ * One item per entry in `content.questions` (listening questions), answered by id.
+ */
+
+import { ExerciseType } from '../educational.types';
+import { createChoiceQuestionScorer } from './scorer.utils';
+
+export const comprensionAuditivaScorer = createChoiceQuestionScorer(ExerciseType.COMPRENSION_AUDITIVA);
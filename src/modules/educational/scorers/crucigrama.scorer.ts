@@ -0,0 +1,35 @@
+/**
+ * Crucigrama Scorer
+ *
+ * One item per clue, keyed `across_<number>` / `down_<number>`.
+ * Answers are compared with the free-text matching policy.
+ */
+
+import { ExerciseType } from '../educational.types';
+import { ExerciseScorer, ItemScore } from './scorer.types';
+import { buildResult, itemScore } from './scorer.utils';
+import { matchText, resolveTextMatchPolicy } from './text-matching';
+
+export const crucigramaScorer: ExerciseScorer = {
+  type: ExerciseType.CRUCIGRAMA,
+  manual: false,
+  score(answers, exercise) {
+    const content = exercise.content as any;
+    const clues = content.clues || {};
+    const items: ItemScore[] = [];
+
+    for (const direction of ['across', 'down']) {
+      (clues[direction] || []).forEach((clue: any) => {
+        const itemId = `${direction}_${clue.number}`;
+        const userAnswer = answers?.[itemId];
+        const policy = resolveTextMatchPolicy(content.answerMatching, clue.matching);
+        const accepted = [clue.answer, ...(clue.acceptedAnswers || [])];
+        const match = matchText(userAnswer, accepted, policy, clue.synonyms);
+
+        items.push({ ...itemScore(itemId, match.credit, userAnswer, clue.answer), matchType: match.kind });
+      });
+    }
+
+    return buildResult(items);
+  }
+};
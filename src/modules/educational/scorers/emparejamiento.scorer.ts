@@ -0,0 +1,24 @@
+/**
+ * Emparejamiento Scorer
+ *
+ * One item per expected pair in `content.correctPairs`.
+ */
+
+import { ExerciseType } from '../educational.types';
+import { ExerciseScorer } from './scorer.types';
+import { buildResult, itemScore } from './scorer.utils';
+
+export const emparejamientoScorer: ExerciseScorer = {
+  type: ExerciseType.EMPAREJAMIENTO,
+  manual: false,
+  score(answers, exercise) {
+    const correctPairs: Record<string, any> = (exercise.content as any).correctPairs || {};
+    const matches = answers?.matches || {};
+
+    const items = Object.entries(correctPairs).map(([key, value]) =>
+      itemScore(key, matches[key] === value ? 1 : 0, matches[key], value)
+    );
+
+    return buildResult(items);
+  }
+};
@@ -0,0 +1,79 @@
+/**
+ * Exercise Scorers
+ *
+ * Registers one scorer per ExerciseType.
+ * To add or tune a type, edit its `<type>.scorer.ts` module.
+ */
+
+import { ExerciseType } from '../educational.types';
+import { analisisMemesScorer } from './analisis-memes.scorer';
+import { collagePrensaScorer } from './collage-prensa.scorer';
+import { completarEspaciosScorer } from './completar-espacios.scorer';
+import { comprensionAuditivaScorer } from './comprension-auditiva.scorer';
+import { crucigramaScorer } from './crucigrama.scorer';
+import { emparejamientoScorer } from './emparejamiento.scorer';
+import { lineaTiempoScorer } from './linea-tiempo.scorer';
+import { mapaConceptualScorer } from './mapa-conceptual.scorer';
+import { quizTikTokScorer } from './quiz-tiktok.scorer';
+import { ScorerRegistry } from './scorer.registry';
+import { createManualScorer } from './scorer.utils';
+import { sopaLetrasScorer } from './sopa-letras.scorer';
+import { verdaderoFalsoScorer } from './verdadero-falso.scorer';
+import { verificadorFakeNewsScorer } from './verificador-fake-news.scorer';
+
+export * from './scorer.types';
+export * from './text-matching';
+export { ScorerRegistry } from './scorer.registry';
+
+/**
+ * Exercise types scored by a teacher
+ */
+export const MANUAL_EXERCISE_TYPES: ExerciseType[] = [
+  ExerciseType.DETECTIVE_TEXTUAL,
+  ExerciseType.CONSTRUCCION_HIPOTESIS,
+  ExerciseType.PREDICCION_NARRATIVA,
+  ExerciseType.PUZZLE_CONTEXTO,
+  ExerciseType.RUEDA_INFERENCIAS,
+  ExerciseType.TRIBUNAL_OPINIONES,
+  ExerciseType.DEBATE_DIGITAL,
+  ExerciseType.ANALISIS_FUENTES,
+  ExerciseType.PODCAST_ARGUMENTATIVO,
+  ExerciseType.MATRIZ_PERSPECTIVAS,
+  ExerciseType.INFOGRAFIA_INTERACTIVA,
+  ExerciseType.DIARIO_MULTIMEDIA,
+  ExerciseType.COMIC_DIGITAL,
+  ExerciseType.VIDEO_CARTA,
+  ExerciseType.DIARIO_INTERACTIVO,
+  ExerciseType.RESUMEN_VISUAL,
+  ExerciseType.NAVEGACION_HIPERTEXTUAL,
+  ExerciseType.CALL_TO_ACTION,
+  ExerciseType.TEXTO_MOVIMIENTO
+];
+
+/**
+ * Create a registry with the built-in scorers
+ */
+export function createDefaultScorerRegistry(): ScorerRegistry {
+  const registry = new ScorerRegistry()
+    .register(crucigramaScorer)
+    .register(sopaLetrasScorer)
+    .register(emparejamientoScorer)
+    .register(lineaTiempoScorer)
+    .register(quizTikTokScorer)
+    .register(comprensionAuditivaScorer)
+    .register(verdaderoFalsoScorer)
+    .register(completarEspaciosScorer)
+    .register(analisisMemesScorer)
+    .register(verificadorFakeNewsScorer)
+    .register(mapaConceptualScorer)
+    .register(collagePrensaScorer);
+
+  MANUAL_EXERCISE_TYPES.forEach(type => registry.register(createManualScorer(type)));
+
+  return registry;
+}
+
+/**
+ * Shared registry used by the scoring service
+ */
+export const scorerRegistry = createDefaultScorerRegistry();
@@ -0,0 +1,123 @@
+/**
+ * Línea de Tiempo Scorer
+ *
+ * One item per event. `content.orderScoring` selects how order is scored:
+ * - `position` (default): credit when the event sits at its chronological index
+ * - `pairwise`: share of the event's pairs placed in the right relative order (Kendall tau)
+ * - `longest_run`: credit for events in the longest correctly ordered subsequence
+ *
+ * Events that share a `year` are interchangeable in every mode.
+ */
+
+import { ExerciseType, TimelineOrderScoring } from '../educational.types';
+import { ExerciseScorer } from './scorer.types';
+import { buildResult, itemScore, listAnswer } from './scorer.utils';
+
+export const lineaTiempoScorer: ExerciseScorer = {
+  type: ExerciseType.LINEA_TIEMPO,
+  manual: false,
+  score(answers, exercise) {
+    const content = exercise.content as any;
+    const events: any[] = content.events || [];
+    const mode: TimelineOrderScoring = content.orderScoring || 'position';
+
+    const yearOf = new Map<string, number>(events.map(event => [String(event.id), Number(event.year)]));
+    const sortedYears = events.map(event => Number(event.year)).sort((a, b) => a - b);
+
+    // Student order without unknown or repeated ids
+    const placed = [...new Set<string>(listAnswer(answers, 'order').map(String))].filter(id => yearOf.has(id));
+    const positionOf = new Map<string, number>(placed.map((id, index) => [id, index]));
+
+    const credits = scoreOrder(mode, placed, positionOf, yearOf, sortedYears);
+
+    const items = events.map(event => {
+      const eventId = String(event.id);
+      return itemScore(
+        eventId,
+        credits.get(eventId) ?? 0,
+        positionOf.get(eventId) ?? null,
+        sortedYears.indexOf(Number(event.year))
+      );
+    });
+
+    return buildResult(items);
+  }
+};
+
+function scoreOrder(
+  mode: TimelineOrderScoring,
+  placed: string[],
+  positionOf: Map<string, number>,
+  yearOf: Map<string, number>,
+  sortedYears: number[]
+): Map<string, number> {
+  switch (mode) {
+    case 'pairwise':
+      return scorePairwise(positionOf, yearOf);
+    case 'longest_run':
+      return scoreLongestRun(placed, yearOf);
+    case 'position':
+    default:
+      return new Map(placed.map((id, index) => [id, yearOf.get(id) === sortedYears[index] ? 1 : 0]));
+  }
+}
+
+/**
+ * Credit each event with the share of its comparable pairs (different
+ * years) that the student placed in the right relative order. A pair with
+ * an unplaced event counts as wrong.
+ */
+function scorePairwise(positionOf: Map<string, number>, yearOf: Map<string, number>): Map<string, number> {
+  const credits = new Map<string, number>();
+  const ids = [...yearOf.keys()];
+
+  for (const id of ids) {
+    if (!positionOf.has(id)) continue;
+
+    let comparable = 0;
+    let concordant = 0;
+
+    for (const other of ids) {
+      if (other === id || yearOf.get(other) === yearOf.get(id)) continue;
+      comparable++;
+
+      if (!positionOf.has(other)) continue;
+
+      const placedBefore = positionOf.get(id)! < positionOf.get(other)!;
+      const happenedBefore = yearOf.get(id)! < yearOf.get(other)!;
+      if (placedBefore === happenedBefore) concordant++;
+    }
+
+    credits.set(id, comparable === 0 ? 1 : concordant / comparable);
+  }
+
+  return credits;
+}
+
+/**
+ * Credit the events in the longest subsequence of the student's order
+ * whose years never decrease
+ */
+function scoreLongestRun(placed: string[], yearOf: Map<string, number>): Map<string, number> {
+  const years = placed.map(id => yearOf.get(id)!);
+  const length = years.map(() => 1);
+  const previous = years.map(() => -1);
+  let end = -1;
+
+  for (let i = 0; i < years.length; i++) {
+    for (let j = 0; j < i; j++) {
+      if (years[j] <= years[i] && length[j] + 1 > length[i]) {
+        length[i] = length[j] + 1;
+        previous[i] = j;
+      }
+    }
+    if (end === -1 || length[i] > length[end]) end = i;
+  }
+
+  const credits = new Map<string, number>(placed.map(id => [id, 0]));
+  for (let i = end; i !== -1; i = previous[i]) {
+    credits.set(placed[i], 1);
+  }
+
+  return credits;
+}
@@ -0,0 +1,151 @@
+/**
+ * Mapa Conceptual Scorer
+ *
+ * Models the student's answer as a graph of relationships and matches it
+ * against the expected edges:
+ * - `directed` edges need the same direction, `undirected` accept either,
+ *   `bidirectional` expect both directions (half credit each)
+ * - labels match through the free-text policy and the synonym sets
+ * - required edges make up the max score, optional edges earn extra
+ *   credit up to it, and edges that are not in the map cost points
+ *
+ * Every expected edge and every wrong extra edge gets a review item.
+ */
+
+import { ExerciseType } from '../educational.types';
+import { ExerciseScorer, ItemScore } from './scorer.types';
+import { buildResult, itemScore, listAnswer } from './scorer.utils';
+import { matchText, resolveTextMatchPolicy, TextMatchPolicy } from './text-matching';
+
+type Edge = { fromConceptId: string; toConceptId: string; label?: string };
+
+const DEFAULT_WRONG_LABEL_CREDIT = 0.5;
+const DEFAULT_WRONG_EDGE_PENALTY = 0.5;
+
+export const mapaConceptualScorer: ExerciseScorer = {
+  type: ExerciseType.MAPA_CONCEPTUAL,
+  manual: false,
+  score(answers, exercise) {
+    const content = exercise.content as any;
+    const relationships: any[] = content.relationships || [];
+    const wrongLabelCredit = content.graphScoring?.wrongLabelCredit ?? DEFAULT_WRONG_LABEL_CREDIT;
+    const wrongEdgePenalty = content.graphScoring?.wrongEdgePenalty ?? DEFAULT_WRONG_EDGE_PENALTY;
+    const policy = resolveTextMatchPolicy(content.answerMatching);
+
+    const studentEdges = dedupeEdges(listAnswer(answers, 'relationships'));
+    const used = new Set<number>();
+
+    // Heavier required edges claim student edges first
+    const ordered = relationships
+      .map((rel, index) => ({ rel, index }))
+      .sort((a, b) => rank(b.rel) - rank(a.rel));
+
+    const expectedItems: ItemScore[] = [];
+    for (const { rel, index } of ordered) {
+      const synonyms = [
+        ...(rel.labelSynonyms || []),
+        ...synonymSetFor(rel.label, content.labelSynonyms, policy)
+      ];
+      const directions: Edge[] = rel.direction === 'bidirectional' ? [rel, reverse(rel)] : [rel];
+
+      let credit = 0;
+      const matched: Edge[] = [];
+
+      for (const direction of directions) {
+        const found = findEdge(studentEdges, used, direction, rel.direction === 'undirected');
+        if (found === -1) continue;
+
+        used.add(found);
+        const edge = studentEdges[found];
+        const labelOk = !rel.label || matchText(edge.label, [rel.label], policy, synonyms).matched;
+        credit += (labelOk ? 1 : wrongLabelCredit) / directions.length;
+        matched.push(edge);
+      }
+
+      expectedItems[index] = itemScore(
+        String(rel.id ?? index),
+        credit,
+        matched.length > 0 ? matched : null,
+        directions.map(direction => ({ ...direction, label: rel.label })),
+        rel.weight ?? 1
+      );
+    }
+
+    const extraItems = studentEdges
+      .filter((_, index) => !used.has(index))
+      .map(edge => itemScore(`extra_${edge.fromConceptId}_${edge.toConceptId}`, 0, edge, null, 0));
+
+    const items = [...expectedItems, ...extraItems];
+    const points = (required: boolean): number =>
+      relationships.reduce((sum, rel, index) => {
+        if ((rel.required !== false) !== required) return sum;
+        return sum + expectedItems[index].credit * expectedItems[index].maxPoints;
+      }, 0);
+    const maxScore = relationships.reduce(
+      (sum, rel, index) => (rel.required === false ? sum : sum + expectedItems[index].maxPoints),
+      0
+    );
+
+    if (maxScore <= 0) {
+      return { ...buildResult([]), items };
+    }
+
+    // Optional edges fill gaps up to the max score, wrong edges cost points
+    const earnedPoints = Math.max(
+      0,
+      Math.min(maxScore, points(true) + points(false)) - extraItems.length * wrongEdgePenalty
+    );
+
+    return {
+      score: (earnedPoints / maxScore) * 100,
+      earnedPoints,
+      maxScore,
+      items,
+      reasonCode: 'SCORED'
+    };
+  }
+};
+
+function rank(rel: any): number {
+  return (rel.required === false ? 0 : 1000) + (rel.weight ?? 1);
+}
+
+function reverse(edge: Edge): Edge {
+  return { fromConceptId: edge.toConceptId, toConceptId: edge.fromConceptId, label: edge.label };
+}
+
+function dedupeEdges(edges: any[]): Edge[] {
+  const seen = new Set<string>();
+  return edges.filter((edge: any) => {
+    if (!edge?.fromConceptId || !edge?.toConceptId) return false;
+    const key = `${edge.fromConceptId}|${edge.toConceptId}|${edge.label ?? ''}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Index of the first unused student edge connecting the same concepts
+ */
+function findEdge(edges: Edge[], used: Set<number>, expected: Edge, undirected: boolean): number {
+  const connects = (edge: Edge, from: string, to: string): boolean =>
+    edge.fromConceptId === from && edge.toConceptId === to;
+
+  return edges.findIndex(
+    (edge, index) =>
+      !used.has(index) &&
+      (connects(edge, expected.fromConceptId, expected.toConceptId) ||
+        (undirected && connects(edge, expected.toConceptId, expected.fromConceptId)))
+  );
+}
+
+/**
+ * Labels from the shared synonym sets that include the expected label
+ */
+function synonymSetFor(label: string, sets: string[][] | undefined, policy: TextMatchPolicy): string[] {
+  if (!label || !Array.isArray(sets)) return [];
+  return sets
+    .filter(set => Array.isArray(set) && set.some(value => matchText(value, [label], policy).matched))
+    .flat();
+}
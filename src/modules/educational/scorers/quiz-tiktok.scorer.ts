@@ -0,0 +1,25 @@
+/**
+ * Quiz TikTok Scorer
+ *
+ * One item per question, answered by question id or by position.
+ */
+
+import { ExerciseType } from '../educational.types';
+import { ExerciseScorer } from './scorer.types';
+import { answerForItem, buildResult, itemScore } from './scorer.utils';
+
+export const quizTikTokScorer: ExerciseScorer = {
+  type: ExerciseType.QUIZ_TIKTOK,
+  manual: false,
+  score(answers, exercise) {
+    const questions: any[] = (exercise.content as any).questions || [];
+
+    const items = questions.map((question: any, index: number) => {
+      const userAnswer = answerForItem(answers, question, index);
+      const isCorrect = userAnswer === question.correctAnswer;
+      return itemScore(String(question.id ?? index), isCorrect ? 1 : 0, userAnswer, question.correctAnswer);
+    });
+
+    return buildResult(items);
+  }
+};
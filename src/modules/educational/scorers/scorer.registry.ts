@@ -0,0 +1,71 @@
+/**
+ * Scorer Registry
+ *
+ * Maps each ExerciseType to the scorer that grades it.
+ */
+
+import { ExerciseType } from '../educational.types';
+import { ExerciseScorer, ScorerExercise, ScorerResult } from './scorer.types';
+import { buildResult } from './scorer.utils';
+
+export class ScorerRegistry {
+  private scorers = new Map<ExerciseType, ExerciseScorer>();
+
+  /**
+   * Register a scorer, replacing any scorer already registered for its type
+   */
+  register(scorer: ExerciseScorer): this {
+    this.scorers.set(scorer.type, scorer);
+    return this;
+  }
+
+  /**
+   * Get the scorer for an exercise type
+   */
+  get(type: ExerciseType): ExerciseScorer | undefined {
+    return this.scorers.get(type);
+  }
+
+  /**
+   * Check whether an exercise type has a scorer
+   */
+  has(type: ExerciseType): boolean {
+    return this.scorers.has(type);
+  }
+
+  /**
+   * Check whether an exercise is graded by a teacher
+   */
+  isManual(exercise: ScorerExercise): boolean {
+    const manual = this.scorers.get(exercise.exerciseType)?.manual ?? false;
+    return typeof manual === 'function' ? manual(exercise) : manual;
+  }
+
+  /**
+   * Score answers with the scorer registered for the exercise type
+   */
+  score(answers: any, exercise: ScorerExercise): ScorerResult {
+    const scorer = this.scorers.get(exercise.exerciseType);
+
+    if (!scorer) {
+      return buildResult([], 'UNSUPPORTED_TYPE');
+    }
+
+    return scorer.score(answers ?? {}, exercise);
+  }
+
+  /**
+   * Correct answers keyed by item id, as graded by the exercise type's scorer
+   *
+   * Derived from the scorer itself so the answer key shown after submission
+   * can never disagree with the score.
+   */
+  extractCorrectAnswers(exercise: ScorerExercise): Record<string, any> {
+    return this.score({}, exercise).items.reduce<Record<string, any>>((acc, item) => {
+      if (item.correctAnswer !== null && item.correctAnswer !== undefined) {
+        acc[item.itemId] = item.correctAnswer;
+      }
+      return acc;
+    }, {});
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * Scorer Types
+ *
+ * Contracts shared by the per-exercise-type scorers and the scorer registry.
+ */
+
+import { ExerciseResponse, ExerciseType, ScoreReasonCode } from '../educational.types';
+import { TextMatchKind } from './text-matching';
+
+export { ScoreReasonCode };
+
+/**
+ * Score for a single gradable item (clue, blank, pair, event...)
+ */
+export interface ItemScore {
+  itemId: string;
+  credit: number; // Fraction of the item earned (0-1)
+  maxPoints: number; // Points the item is worth
+  userAnswer: any;
+  correctAnswer: any;
+  matchType?: TextMatchKind; // How a free-text answer was accepted
+}
+
+/**
+ * Result returned by every scorer
+ */
+export interface ScorerResult {
+  score: number; // Percentage (0-100)
+  earnedPoints: number;
+  maxScore: number;
+  items: ItemScore[];
+  reasonCode: ScoreReasonCode;
+}
+
+/**
+ * Exercise fields the scorers read (whether the exercise is graded by a
+ * teacher, and its answer key)
+ */
+export type ScorerExercise = Pick<ExerciseResponse, 'exerciseType' | 'content'>;
+
+/**
+ * Scorer for one exercise type
+ */
+export interface ExerciseScorer {
+  type: ExerciseType;
+  manual: boolean | ((exercise: ScorerExercise) => boolean); // Per exercise when its content decides
+  score(answers: any, exercise: ScorerExercise): ScorerResult;
+}
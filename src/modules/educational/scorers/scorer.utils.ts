@@ -0,0 +1,134 @@
+/**
+ * Scorer Utilities
+ *
+ * Helpers shared by the per-exercise-type scorers.
+ */
+
+import { ExerciseType } from '../educational.types';
+import { ExerciseScorer, ItemScore, ScoreReasonCode, ScorerResult } from './scorer.types';
+
+/**
+ * Build a scorer result from graded items
+ *
+ * Items carry their own weight, so the percentage is earned points over
+ * the sum of item points. An empty item list never divides by zero.
+ */
+export function buildResult(
+  items: ItemScore[],
+  emptyReason: ScoreReasonCode = 'NO_GRADABLE_ITEMS'
+): ScorerResult {
+  const maxScore = items.reduce((sum, item) => sum + item.maxPoints, 0);
+
+  if (items.length === 0 || maxScore <= 0) {
+    return { score: 0, earnedPoints: 0, maxScore: 0, items, reasonCode: emptyReason };
+  }
+
+  const earnedPoints = items.reduce((sum, item) => sum + clampCredit(item.credit) * item.maxPoints, 0);
+
+  return {
+    score: (earnedPoints / maxScore) * 100,
+    earnedPoints,
+    maxScore,
+    items,
+    reasonCode: 'SCORED'
+  };
+}
+
+/**
+ * Build an item score
+ */
+export function itemScore(
+  itemId: string,
+  credit: number,
+  userAnswer: any,
+  correctAnswer: any,
+  maxPoints: number = 1
+): ItemScore {
+  return { itemId, credit: clampCredit(credit), maxPoints, userAnswer: userAnswer ?? null, correctAnswer };
+}
+
+/**
+ * Scorer for types that are graded by a teacher
+ */
+export function createManualScorer(type: ExerciseType): ExerciseScorer {
+  return {
+    type,
+    manual: true,
+    score: () => buildResult([], 'MANUAL_REVIEW')
+  };
+}
+
+/**
+ * Scorer for types whose content is a list of `questions` answered by id
+ */
+export function createChoiceQuestionScorer(type: ExerciseType): ExerciseScorer {
+  return {
+    type,
+    manual: false,
+    score: (answers, exercise) =>
+      buildResult(scoreChoiceQuestions((exercise.content as any).questions || [], answers))
+  };
+}
+
+/**
+ * Normalize free text for comparison (trimmed, lower case)
+ */
+export function normalizeText(value: any): string {
+  if (value === undefined || value === null) return '';
+  return value.toString().trim().toLowerCase();
+}
+
+/**
+ * Read an answer by key, falling back to the `responses` container
+ */
+export function answerFor(answers: any, key: string | number): any {
+  if (!answers || typeof answers !== 'object') return undefined;
+  return answers.responses?.[key] ?? answers[key];
+}
+
+/**
+ * Read a list answer by key; anything but an array counts as no answer
+ */
+export function listAnswer(answers: any, key: string): any[] {
+  const value = answers && typeof answers === 'object' ? answers[key] : undefined;
+  return Array.isArray(value) ? value : [];
+}
+
+/**
+ * Whether answers are given by position (an array, or a `responses`
+ * array) rather than keyed by item id
+ */
+export function isPositional(answers: any): boolean {
+  return Array.isArray(answers) || Array.isArray(answers?.responses);
+}
+
+/**
+ * Read the answer to a content item: by position for positional answers,
+ * otherwise by the item's id (its position when it has none)
+ *
+ * There is no fallback from one keying to the other, so an unanswered
+ * item never picks up another item's answer.
+ */
+export function answerForItem(answers: any, item: any, index: number): any {
+  if (isPositional(answers)) {
+    return (Array.isArray(answers) ? answers : answers.responses)[index];
+  }
+  return answerFor(answers, item?.id ?? index);
+}
+
+/**
+ * Score choice questions keyed by question id
+ */
+export function scoreChoiceQuestions(questions: any[], answers: any): ItemScore[] {
+  return questions.map((question: any, index: number) => {
+    const itemId = String(question.id ?? index);
+    const userAnswer = answerForItem(answers, question, index);
+    const isCorrect = userAnswer === question.correctAnswer;
+    return itemScore(itemId, isCorrect ? 1 : 0, userAnswer, question.correctAnswer, question.points ?? 1);
+  });
+}
+
+function clampCredit(credit: number): number {
+  if (!Number.isFinite(credit)) return 0;
+  return Math.max(0, Math.min(1, credit));
+}
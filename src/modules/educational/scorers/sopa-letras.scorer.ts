@@ -0,0 +1,99 @@
+/**
+ * Sopa de Letras Scorer
+ *
+ * One item per puzzle word. Each find in `answers.finds` is verified by
+ * reading the letters between its start and end cells on the stored grid
+ * (horizontal, vertical or diagonal, either way). Finds that are not a
+ * straight line, fall off the grid, repeat a word or read a word that is
+ * not in the puzzle earn nothing.
+ */
+
+import { ExerciseType, SopaLetrasAnswers } from '../educational.types';
+import { ExerciseScorer } from './scorer.types';
+import { buildResult, itemScore, listAnswer } from './scorer.utils';
+import { normalizeForMatch, resolveTextMatchPolicy } from './text-matching';
+
+type Cell = { row: number; col: number };
+
+const LETTER_POLICY = resolveTextMatchPolicy({ typoTolerance: false });
+
+export const sopaLetrasScorer: ExerciseScorer = {
+  type: ExerciseType.SOPA_LETRAS,
+  manual: false,
+  score(answers, exercise) {
+    const content = exercise.content as any;
+    const grid = toGrid(content.grid);
+    const words: string[] = (content.words || []).map((word: any) =>
+      typeof word === 'string' ? word : word.word
+    );
+
+    if (grid.length === 0) {
+      return buildResult([]);
+    }
+
+    const verified = new Map<string, SopaLetrasAnswers['finds'][number]>();
+    for (const find of listAnswer(answers, 'finds') as SopaLetrasAnswers['finds']) {
+      const letters = readLine(grid, find?.start, find?.end);
+      if (!letters) continue;
+
+      const word = words.find(candidate => toKey(candidate) === letters);
+      if (word !== undefined && !verified.has(toKey(word))) {
+        verified.set(toKey(word), find);
+      }
+    }
+
+    const items = words.map(word => {
+      const find = verified.get(toKey(word));
+      return itemScore(word, find ? 1 : 0, find ? { start: find.start, end: find.end } : null, word);
+    });
+
+    return buildResult(items);
+  }
+};
+
+/**
+ * Normalize a word or a grid reading for comparison
+ */
+function toKey(text: string): string {
+  return normalizeForMatch(text, LETTER_POLICY).replace(/\s+/g, '');
+}
+
+/**
+ * Accept rows as strings ("ABCD") or arrays of letters
+ */
+function toGrid(grid: any): string[][] {
+  if (!Array.isArray(grid)) return [];
+  return grid.map((row: any) => (Array.isArray(row) ? row.map(String) : Array.from(String(row))));
+}
+
+/**
+ * Read the letters from start to end, or null if the cells are not on
+ * one of the 8 directions or fall outside the grid
+ */
+function readLine(grid: string[][], start: Cell, end: Cell): string | null {
+  if (!isCell(start) || !isCell(end)) return null;
+
+  const rowSpan = end.row - start.row;
+  const colSpan = end.col - start.col;
+
+  if (rowSpan !== 0 && colSpan !== 0 && Math.abs(rowSpan) !== Math.abs(colSpan)) {
+    return null;
+  }
+
+  const length = Math.max(Math.abs(rowSpan), Math.abs(colSpan)) + 1;
+  const stepRow = Math.sign(rowSpan);
+  const stepCol = Math.sign(colSpan);
+  let letters = '';
+
+  for (let i = 0; i < length; i++) {
+    const letter = grid[start.row + i * stepRow]?.[start.col + i * stepCol];
+    if (letter === undefined) return null;
+    letters += letter;
+  }
+
+  return toKey(letters);
+}
+
+function isCell(cell: any): cell is Cell {
+  return Number.isInteger(cell?.row) && Number.isInteger(cell?.col);
+}
@@ -0,0 +1,187 @@
+/**
+ * Free-Text Answer Matching
+ *
+ * Compares typed answers against the expected ones with a configurable
+ * policy: case, diacritics, whitespace/punctuation, typos and synonyms.
+ *
+ * The policy is read from `content.answerMatching` and can be overridden
+ * per item (clue, blank) with `item.matching`.
+ */
+
+/**
+ * Matching policy
+ */
+export interface TextMatchPolicy {
+  caseSensitive: boolean;
+  foldDiacritics: boolean; // "comprension" matches "comprensión"
+  normalizePunctuation: boolean; // Ignore punctuation, collapse whitespace
+  typoTolerance: {
+    enabled: boolean;
+    charsPerTypo: number; // One typo allowed per this many characters
+    maxTypos: number;
+    credit: number; // Credit earned by an answer accepted with typos (0-1)
+  };
+  synonyms: Record<string, string[]>; // Expected answer -> accepted synonyms
+}
+
+/**
+ * How an answer was accepted
+ */
+export type TextMatchKind = 'exact' | 'normalized' | 'synonym' | 'typo' | 'none';
+
+/**
+ * Match result
+ */
+export interface TextMatchResult {
+  matched: boolean;
+  kind: TextMatchKind;
+  credit: number;
+  distance: number;
+}
+
+export const DEFAULT_TEXT_MATCH_POLICY: TextMatchPolicy = {
+  caseSensitive: false,
+  foldDiacritics: true,
+  normalizePunctuation: true,
+  typoTolerance: {
+    enabled: true,
+    charsPerTypo: 5,
+    maxTypos: 2,
+    credit: 1
+  },
+  synonyms: {}
+};
+
+/**
+ * Merge exercise-level and item-level overrides onto the default policy
+ */
+export function resolveTextMatchPolicy(...overrides: any[]): TextMatchPolicy {
+  return overrides.reduce<TextMatchPolicy>((policy, override) => {
+    if (!override || typeof override !== 'object') return policy;
+
+    return {
+      ...policy,
+      ...pickDefined(override, ['caseSensitive', 'foldDiacritics', 'normalizePunctuation']),
+      typoTolerance: {
+        ...policy.typoTolerance,
+        ...(typeof override.typoTolerance === 'boolean'
+          ? { enabled: override.typoTolerance }
+          : pickDefined(override.typoTolerance || {}, ['enabled', 'charsPerTypo', 'maxTypos', 'credit']))
+      },
+      synonyms: { ...policy.synonyms, ...(override.synonyms || {}) }
+    };
+  }, DEFAULT_TEXT_MATCH_POLICY);
+}
+
+/**
+ * Normalize text according to a policy
+ */
+export function normalizeForMatch(value: any, policy: TextMatchPolicy): string {
+  if (value === undefined || value === null) return '';
+
+  let text = value.toString();
+
+  if (!policy.caseSensitive) {
+    text = text.toLowerCase();
+  }
+
+  if (policy.foldDiacritics) {
+    // Strip accents but keep ñ, which is a distinct letter in Spanish
+    text = text
+      .normalize('NFD')
+      .replace(/(?<![nN])\u0303|[\u0300-\u0302\u0304-\u036f]/g, '')
+      .normalize('NFC');
+  }
+
+  if (policy.normalizePunctuation) {
+    text = text.replace(/[^\p{L}\p{N}\s]/gu, ' ');
+  }
+
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Number of typos tolerated for an expected answer of a given length
+ */
+export function allowedTypos(length: number, policy: TextMatchPolicy): number {
+  const { enabled, charsPerTypo, maxTypos } = policy.typoTolerance;
+  if (!enabled || charsPerTypo <= 0) return 0;
+  return Math.min(maxTypos, Math.floor(length / charsPerTypo));
+}
+
+/**
+ * Levenshtein edit distance
+ */
+export function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(current[j - 1] + 1, previous[j] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Match a typed answer against the accepted answers
+ *
+ * `expected[0]` is the canonical answer; synonyms are looked up for every
+ * accepted answer and may also come from `itemSynonyms`.
+ */
+export function matchText(
+  userAnswer: any,
+  expected: any[],
+  policy: TextMatchPolicy,
+  itemSynonyms: string[] = []
+): TextMatchResult {
+  const raw = userAnswer === undefined || userAnswer === null ? '' : userAnswer.toString().trim();
+  const answer = normalizeForMatch(raw, policy);
+  const noMatch: TextMatchResult = { matched: false, kind: 'none', credit: 0, distance: Infinity };
+
+  if (answer === '') return noMatch;
+
+  const accepted = expected.filter(value => value !== undefined && value !== null).map(String);
+
+  if (accepted.some(value => value.trim() === raw)) {
+    return { matched: true, kind: 'exact', credit: 1, distance: 0 };
+  }
+
+  if (accepted.some(value => normalizeForMatch(value, policy) === answer)) {
+    return { matched: true, kind: 'normalized', credit: 1, distance: 0 };
+  }
+
+  const synonymsFor = (value: string): string[] =>
+    policy.synonyms[value] || policy.synonyms[normalizeForMatch(value, policy)] || [];
+  const synonyms = [...itemSynonyms, ...accepted.flatMap(synonymsFor)];
+
+  if (synonyms.some(value => normalizeForMatch(value, policy) === answer)) {
+    return { matched: true, kind: 'synonym', credit: 1, distance: 0 };
+  }
+
+  let best = noMatch;
+  for (const value of accepted) {
+    const target = normalizeForMatch(value, policy);
+    const distance = levenshtein(answer, target);
+    if (distance > 0 && distance <= allowedTypos(target.length, policy) && distance < best.distance) {
+      best = { matched: true, kind: 'typo', credit: policy.typoTolerance.credit, distance };
+    }
+  }
+
+  return best;
+}
+
+function pickDefined(source: Record<string, any>, keys: string[]): Record<string, any> {
+  return keys.reduce<Record<string, any>>((picked, key) => {
+    if (source[key] !== undefined) picked[key] = source[key];
+    return picked;
+  }, {});
+}
@@ -0,0 +1,25 @@
+/**
+ * Verdadero/Falso Scorer
+ *
+ * One item per statement, answered by statement id or by position.
+ */
+
+import { ExerciseType } from '../educational.types';
+import { ExerciseScorer } from './scorer.types';
+import { answerForItem, buildResult, itemScore } from './scorer.utils';
+
+export const verdaderoFalsoScorer: ExerciseScorer = {
+  type: ExerciseType.VERDADERO_FALSO,
+  manual: false,
+  score(answers, exercise) {
+    const statements: any[] = (exercise.content as any).statements || [];
+
+    const items = statements.map((statement: any, index: number) => {
+      const userAnswer = answerForItem(answers, statement, index);
+      const expected = statement.correctAnswer ?? statement.isTrue;
+      return itemScore(String(statement.id ?? index), userAnswer === expected ? 1 : 0, userAnswer, expected);
+    });
+
+    return buildResult(items);
+  }
+};
@@ -0,0 +1,24 @@
+/**
+ * Verificador Fake News Scorer
+ *
+ * One item per claim, answered with its veracity by claim id or by position.
+ */
+
+import { ExerciseType } from '../educational.types';
+import { ExerciseScorer } from './scorer.types';
+import { answerForItem, buildResult, itemScore } from './scorer.utils';
+
+export const verificadorFakeNewsScorer: ExerciseScorer = {
+  type: ExerciseType.VERIFICADOR_FAKE_NEWS,
+  manual: false,
+  score(answers, exercise) {
+    const claims: any[] = (exercise.content as any).claims || [];
+
+    const items = claims.map((claim: any, index: number) => {
+      const userAnswer = answerForItem(answers, claim, index);
+      return itemScore(String(claim.id ?? index), userAnswer === claim.veracity ? 1 : 0, userAnswer, claim.veracity);
+    });
+
+    return buildResult(items);
+  }
+};
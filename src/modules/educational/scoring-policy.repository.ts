@@ -0,0 +1,190 @@
+/**
+ * Scoring Policy Repository
+ *
+ * Data access layer for versioned scoring policies.
+ */
+
+import { Pool, PoolClient } from 'pg';
+import { ScoringPolicy, ScoringPolicyVersion } from './educational.types';
+import { log } from '../../shared/utils/logger';
+
+const POLICY_COLUMNS = `
+  id,
+  organization_id as "organizationId",
+  version,
+  policy,
+  created_by as "createdBy",
+  created_at as "createdAt"
+`;
+
+export class ScoringPolicyRepository {
+  constructor(private pool: Pool) {}
+
+  /**
+   * Create scoring policy table and attempt columns if not exist
+   */
+  async ensureScoringPolicyTables(client?: PoolClient): Promise<void> {
+    const db = client || this.pool;
+
+    try {
+      await db.query(`
+        CREATE TABLE IF NOT EXISTS educational_content.scoring_policies (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          organization_id UUID,
+          version INTEGER NOT NULL,
+          policy JSONB NOT NULL,
+          created_by UUID,
+          created_at TIMESTAMPTZ DEFAULT NOW()
+        );
+
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_scoring_policies_org_version
+          ON educational_content.scoring_policies(
+            COALESCE(organization_id, '00000000-0000-0000-0000-000000000000'::uuid),
+            version
+          );
+
+        ALTER TABLE progress_tracking.exercise_attempts
+          ADD COLUMN IF NOT EXISTS scoring_policy_id UUID,
+          ADD COLUMN IF NOT EXISTS scoring_policy_version INTEGER;
+      `);
+    } catch (error) {
+      // Table might already exist, log and continue
+      log.debug('Scoring policy table setup:', error);
+    }
+  }
+
+  /**
+   * Make the exercise passing score an optional override of the policy's
+   *
+   * Runs apart from the policy tables and only while the column still has
+   * a default or is NOT NULL, so the exercises table is locked once, with a
+   * lock timeout, and a failure is thrown instead of undoing the tables.
+   */
+  async ensureOptionalPassingScore(): Promise<void> {
+    const column = await this.pool.query(
+      `SELECT column_default, is_nullable
+       FROM information_schema.columns
+       WHERE table_schema = 'educational_content'
+         AND table_name = 'exercises'
+         AND column_name = 'passing_score'`
+    );
+
+    const current = column.rows[0];
+    if (!current || (current.column_default === null && current.is_nullable === 'YES')) return;
+
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+      await client.query(`SET LOCAL lock_timeout = '5s'`);
+      await client.query(
+        `ALTER TABLE educational_content.exercises
+           ALTER COLUMN passing_score DROP DEFAULT,
+           ALTER COLUMN passing_score DROP NOT NULL`
+      );
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Latest policy version of an organization (null = platform default)
+   */
+  async getLatestPolicy(organizationId: string | null): Promise<ScoringPolicyVersion | null> {
+    const result = await this.pool.query(
+      `SELECT ${POLICY_COLUMNS}
+       FROM educational_content.scoring_policies
+       WHERE organization_id IS NOT DISTINCT FROM $1
+       ORDER BY version DESC
+       LIMIT 1`,
+      [organizationId]
+    );
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * All policy versions of an organization, newest first
+   */
+  async getPolicyVersions(organizationId: string | null): Promise<ScoringPolicyVersion[]> {
+    const result = await this.pool.query(
+      `SELECT ${POLICY_COLUMNS}
+       FROM educational_content.scoring_policies
+       WHERE organization_id IS NOT DISTINCT FROM $1
+       ORDER BY version DESC`,
+      [organizationId]
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Policy versions by id
+   */
+  async getPoliciesByIds(ids: string[]): Promise<ScoringPolicyVersion[]> {
+    if (ids.length === 0) return [];
+
+    const result = await this.pool.query(
+      `SELECT ${POLICY_COLUMNS}
+       FROM educational_content.scoring_policies
+       WHERE id = ANY($1::uuid[])`,
+      [ids]
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Store a new policy version (versions are never edited in place)
+   */
+  async createPolicyVersion(
+    organizationId: string | null,
+    policy: ScoringPolicy,
+    createdBy: string
+  ): Promise<ScoringPolicyVersion> {
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      // Serialize version numbers per organization
+      await client.query(
+        `SELECT pg_advisory_xact_lock(hashtext('scoring_policy:' || COALESCE($1::text, 'platform')))`,
+        [organizationId]
+      );
+
+      const result = await client.query(
+        `INSERT INTO educational_content.scoring_policies (organization_id, version, policy, created_by)
+         SELECT $1, COALESCE(MAX(version), 0) + 1, $2, $3
+         FROM educational_content.scoring_policies
+         WHERE organization_id IS NOT DISTINCT FROM $1
+         RETURNING ${POLICY_COLUMNS}`,
+        [organizationId, JSON.stringify(policy), createdBy]
+      );
+
+      await client.query('COMMIT');
+      return result.rows[0];
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Organization (tenant) of a user, by auth user id
+   */
+  async getOrganizationIdForUser(userId: string): Promise<string | null> {
+    const result = await this.pool.query(
+      `SELECT tenant_id FROM auth_management.profiles WHERE user_id = $1`,
+      [userId]
+    );
+
+    return result.rows[0]?.tenant_id || null;
+  }
+}
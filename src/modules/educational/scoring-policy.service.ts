@@ -0,0 +1,167 @@
+/**
+ * Scoring Policy Service
+ *
+ * Resolves the scoring policy that applies to a student: the policy of
+ * their organization, else the platform default, else the built-in
+ * default. Every edit stores a new version so attempts can record the
+ * exact policy they were scored with.
+ */
+
+import { Pool } from 'pg';
+import { ScoringPolicyRepository } from './scoring-policy.repository';
+import {
+  DifficultyLevel,
+  ScoringPolicy,
+  ScoringPolicyVersion,
+  UpdateScoringPolicyDto
+} from './educational.types';
+import { RanksRepository } from '../gamification/ranks.repository';
+
+/**
+ * Built-in default, except rank multipliers (taken from the rank
+ * requirements so ranks and scoring agree)
+ */
+const BASE_SCORING_POLICY: Omit<ScoringPolicy, 'rankMultipliers'> = {
+  passingScore: 70,
+  difficultyMultipliers: {
+    [DifficultyLevel.BEGINNER]: 1.0,
+    [DifficultyLevel.INTERMEDIATE]: 1.25,
+    [DifficultyLevel.ADVANCED]: 1.5
+  },
+  streak: {
+    percentPerDay: 0.05,
+    maxPercent: 0.5
+  },
+  bonuses: {
+    perfect: 10,
+    noHints: 5,
+    speed: 5,
+    speedTimeRatio: 0.75,
+    firstAttempt: 10,
+    firstAttemptMinScore: 80
+  },
+  penalties: {
+    perPowerup: 5
+  }
+};
+
+export class ScoringPolicyService {
+  private repository: ScoringPolicyRepository;
+  private ranksRepository: RanksRepository;
+
+  constructor(pool: Pool) {
+    this.repository = new ScoringPolicyRepository(pool);
+    this.ranksRepository = new RanksRepository(pool);
+  }
+
+  /**
+   * Initialize scoring policies (ensure tables exist and the exercise
+   * passing score is optional)
+   */
+  async initialize(): Promise<void> {
+    await this.repository.ensureScoringPolicyTables();
+    await this.repository.ensureOptionalPassingScore();
+  }
+
+  /**
+   * Built-in default policy (version 0)
+   */
+  getBuiltInPolicy(): ScoringPolicyVersion {
+    const rankMultipliers: Record<string, number> = {};
+    for (const requirement of this.ranksRepository.getRankRequirements()) {
+      rankMultipliers[requirement.rank] = requirement.multiplier;
+    }
+
+    return {
+      id: null,
+      organizationId: null,
+      version: 0,
+      policy: { ...BASE_SCORING_POLICY, rankMultipliers },
+      createdBy: null,
+      createdAt: null
+    };
+  }
+
+  /**
+   * Policy in effect for an organization (null = platform default)
+   */
+  async getEffectivePolicy(organizationId: string | null): Promise<ScoringPolicyVersion> {
+    if (organizationId) {
+      const organizationPolicy = await this.repository.getLatestPolicy(organizationId);
+      if (organizationPolicy) return this.withDefaults(organizationPolicy);
+    }
+
+    const platformPolicy = await this.repository.getLatestPolicy(null);
+    return platformPolicy ? this.withDefaults(platformPolicy) : this.getBuiltInPolicy();
+  }
+
+  /**
+   * Policy in effect for a student, by auth user id
+   */
+  async getPolicyForUser(userId: string): Promise<ScoringPolicyVersion> {
+    const organizationId = await this.repository.getOrganizationIdForUser(userId);
+    return this.getEffectivePolicy(organizationId);
+  }
+
+  /**
+   * Stored versions of an organization's policy (null = platform default)
+   */
+  async getPolicyVersions(organizationId: string | null): Promise<ScoringPolicyVersion[]> {
+    return this.repository.getPolicyVersions(organizationId);
+  }
+
+  /**
+   * Policy versions by id, for re-scoring stored attempts
+   */
+  async getPoliciesByIds(ids: string[]): Promise<Map<string, ScoringPolicyVersion>> {
+    const policies = await this.repository.getPoliciesByIds(ids);
+    return new Map(policies.map(policy => [policy.id!, this.withDefaults(policy)]));
+  }
+
+  /**
+   * Update a policy by storing a new version
+   *
+   * The update is merged onto the policy currently in effect, so an
+   * organization's first version starts from the platform default.
+   */
+  async updatePolicy(
+    organizationId: string | null,
+    dto: UpdateScoringPolicyDto,
+    updatedBy: string
+  ): Promise<{ previous: ScoringPolicyVersion; current: ScoringPolicyVersion }> {
+    const previous = await this.getEffectivePolicy(organizationId);
+
+    const policy: ScoringPolicy = {
+      passingScore: dto.passingScore ?? previous.policy.passingScore,
+      difficultyMultipliers: { ...previous.policy.difficultyMultipliers, ...dto.difficultyMultipliers },
+      rankMultipliers: { ...previous.policy.rankMultipliers, ...dto.rankMultipliers },
+      streak: { ...previous.policy.streak, ...dto.streak },
+      bonuses: { ...previous.policy.bonuses, ...dto.bonuses },
+      penalties: { ...previous.policy.penalties, ...dto.penalties }
+    };
+
+    const current = await this.repository.createPolicyVersion(organizationId, policy, updatedBy);
+
+    return { previous, current };
+  }
+
+  /**
+   * Fill settings missing from a stored version with the built-in values
+   */
+  private withDefaults(version: ScoringPolicyVersion): ScoringPolicyVersion {
+    const builtIn = this.getBuiltInPolicy().policy;
+    const stored = version.policy || ({} as ScoringPolicy);
+
+    return {
+      ...version,
+      policy: {
+        passingScore: stored.passingScore ?? builtIn.passingScore,
+        difficultyMultipliers: { ...builtIn.difficultyMultipliers, ...stored.difficultyMultipliers },
+        rankMultipliers: { ...builtIn.rankMultipliers, ...stored.rankMultipliers },
+        streak: { ...builtIn.streak, ...stored.streak },
+        bonuses: { ...builtIn.bonuses, ...stored.bonuses },
+        penalties: { ...builtIn.penalties, ...stored.penalties }
+      }
+    };
+  }
+}
@@ -5,42 +5,58 @@
  * Handles automatic and manual scoring with multipliers and bonuses.
  */
 
-import { Pool } from 'pg';
+import { Pool, PoolClient } from 'pg';
 import {
   SubmitExerciseDto,
   SubmissionResponse,
   ExerciseResponse,
-  ExerciseType,
   ScoreResult,
-  ComodinType
+  ScoringBreakdown,
+  AnswerReviewItem,
+  PreviewExercise,
+  PreviewSubmission,
+  IntegrityAssessment,
+  GradingContext,
+  ScoringPolicy,
+  ScoringPolicyVersion,
+  SubmissionEventInput
 } from './educational.types';
 import { RanksService } from '../gamification/ranks.service';
-import { StreaksService } from '../gamification/streaks.service';
-import { AchievementsService } from '../gamification/achievements.service';
-import { ProgressService } from './progress.service';
+import { SubmissionOutboxRepository } from './submission-outbox.repository';
+import { ScoringPolicyService } from './scoring-policy.service';
+import { SubmissionIntegrityService } from './submission-integrity.service';
+import { SubmissionIntegrityRepository } from './submission-integrity.repository';
+import { AttemptSessionsRepository } from './attempt-sessions.repository';
+import { ScorerRegistry, ScorerResult, scorerRegistry } from './scorers';
+import { isReviewable } from './utils/review-items';
+import { assertCanAttempt, resolveAttemptPolicy } from './utils/attempt-policy';
 import { log } from '../../shared/utils/logger';
-import {
-  notifyAchievementUnlocked,
-  notifyRankUp
-} from '../notifications/notifications.helper';
-import {
-  notifyExerciseCompleted,
-  notifyMLCoinsEarned,
-  notifyXPEarned
-} from '../gamification/missions/missions.events';
+
+const PENDING_REVIEW_FEEDBACK = 'Tu trabajo fue enviado. Tu docente lo calificará pronto.';
+
+/**
+ * Called in the attempt's transaction once the attempt is saved, with the
+ * response to the submission; a failure rolls the attempt back
+ */
+export type AttemptSavedHook<T = SubmissionResponse> = (client: PoolClient, response: T) => Promise<void>;
 
 export class ScoringService {
-  private streaksService: StreaksService;
-  private achievementsService: AchievementsService;
-  private progressService: ProgressService;
+  private outboxRepository: SubmissionOutboxRepository;
+  private scoringPolicyService: ScoringPolicyService;
+  private integrityService: SubmissionIntegrityService;
+  private integrityRepository: SubmissionIntegrityRepository;
+  private attemptSessionsRepository: AttemptSessionsRepository;
 
   constructor(
     private pool: Pool,
-    private ranksService: RanksService
+    private ranksService: RanksService,
+    private scorers: ScorerRegistry = scorerRegistry
   ) {
-    this.streaksService = new StreaksService(pool);
-    this.achievementsService = new AchievementsService(pool);
-    this.progressService = new ProgressService(this.pool);
+    this.outboxRepository = new SubmissionOutboxRepository(pool);
+    this.scoringPolicyService = new ScoringPolicyService(pool);
+    this.integrityService = new SubmissionIntegrityService(pool);
+    this.integrityRepository = new SubmissionIntegrityRepository(pool);
+    this.attemptSessionsRepository = new AttemptSessionsRepository(pool);
   }
 
   /**
@@ -48,479 +64,178 @@ export class ScoringService {
    */
   async calculateScore(
     submission: SubmitExerciseDto,
-    exercise: ExerciseResponse
+    exercise: ExerciseResponse,
+    onSaved?: AttemptSavedHook
   ): Promise<SubmissionResponse> {
-    // Get user stats for multipliers
+    // Get user stats and the scoring policy of the student's organization
     const userStats = await this.getUserStats(submission.userId);
-
-    // Calculate base score based on exercise type
-    const baseScore = this.calculateBaseScore(submission.answers, exercise);
-
-    // Apply multipliers and bonuses
-    const scoreResult = this.applyMultipliersAndBonuses(
-      baseScore,
-      exercise,
-      submission,
-      userStats
-    );
-
-    // Save attempt to database
-    const attemptId = await this.saveAttempt(
-      submission,
-      exercise,
-      scoreResult
-    );
+    const scoringPolicy = await this.scoringPolicyService.getPolicyForUser(submission.userId);
+
+    // Calculate base score, then apply multipliers and bonuses
+    const { baseResult, scoreResult } = this.evaluate(submission, exercise, userStats, scoringPolicy.policy);
+
+    // Manually scored types are saved pending review, with no score or
+    // rewards; they settle when a teacher grades the attempt
+    const pendingReview = this.scorers.isManual(exercise);
+    const gradingContext = this.buildGradingContext(submission, exercise, userStats);
+    const scored: ScoreResult = pendingReview
+      ? { ...scoreResult, finalScore: 0, passed: false, bonuses: {}, mlCoins: 0, xp: 0 }
+      : scoreResult;
+
+    // Anomaly check; flagged attempts may have their rewards held until review
+    const integrity = await this.integrityService.assess(submission, exercise, scored.finalScore);
+    const heldRewards = integrity.holdRewards
+      ? { xp: scored.xp, mlCoins: scored.mlCoins }
+      : null;
+    const awarded: ScoreResult = heldRewards ? { ...scored, xp: 0, mlCoins: 0 } : scored;
+
+    // Save the attempt and its side-effect events in one transaction. The
+    // events (streak, achievements, rank, module progress, missions and
+    // notifications) are processed by the submission outbox worker.
+    const events: SubmissionEventInput[] = pendingReview
+      ? [{ eventType: 'streak.activity', payload: {} }, { eventType: 'analytics.refresh', payload: {} }]
+      : this.buildSubmissionEvents(submission, exercise, awarded);
 
     // NOTE: Rewards are automatically awarded by database trigger
     // trg_update_user_stats_on_exercise when inserting into exercise_attempts
     // No need to call awardRewards() here to avoid duplication
 
-    // Update streak after activity
-    try {
-      await this.streaksService.onUserActivity(submission.userId);
-      log.info(`Streak updated for user ${submission.userId} after exercise completion`);
-    } catch (error) {
-      // Don't fail the entire request if streak update fails
-      log.error('Error updating streak:', error);
-    }
-
-    // Check for achievements after exercise completion
-    const achievements = await this.checkAchievements(submission.userId, submission.exerciseId, scoreResult, submission.timeSpent, submission.powerupsUsed?.length || 0);
-
-    // Send notifications for unlocked achievements
-    if (achievements && achievements.length > 0) {
-      for (const achievement of achievements) {
-        try {
-          await notifyAchievementUnlocked(
-            submission.userId,
-            achievement.id,
-            achievement.name,
-            achievement.iconUrl || '🏆',
-            achievement.rewards?.mlCoins || 0
-          );
-        } catch (error) {
-          log.error('Error sending achievement notification:', error);
-        }
-      }
-    }
-
-    // Auto-check for rank promotion after awarding XP
-    let rankUp = null;
-    try {
-      const promotionResult = await this.ranksService.autoCheckPromotion(submission.userId);
-
-      if (promotionResult.promoted) {
-        log.info(
-          `User ${submission.userId} promoted from ${promotionResult.previousRank || 'unknown'} to ${promotionResult.newRank}!`
-        );
-
-        rankUp = {
-          newRank: promotionResult.newRank,
-          previousRank: promotionResult.previousRank,
-          bonusMLCoins: promotionResult.rewards?.mlCoins || 0,
-          newMultiplier: promotionResult.rewards?.multiplier || 1.0
-        };
-
-        // Send rank up notification
-        try {
-          await notifyRankUp(
-            submission.userId,
-            promotionResult.newRank!,
-            promotionResult.previousRank || 'nacom',
-            promotionResult.rewards?.mlCoins || 0
-          );
-        } catch (error) {
-          log.error('Error sending rank up notification:', error);
-        }
-      }
-    } catch (error) {
-      // Don't fail the entire request if promotion check fails
-      log.error('Error checking rank promotion:', error);
-    }
-
-    // Update module progress after successful exercise completion
-    if (scoreResult.finalScore >= (exercise.passingScore || 70)) {
-      try {
-        await this.progressService.updateModuleProgress(submission.userId, exercise.moduleId, true);
-        log.info(`Module progress updated for user ${submission.userId}, module ${exercise.moduleId}`);
-      } catch (error) {
-        // Don't fail the entire request if progress update fails
-        log.error('Error updating module progress:', error);
-      }
-    }
-
-    // Notify missions system about exercise completion
-    if (scoreResult.finalScore >= (exercise.passingScore || 70)) {
-      try {
-        // Exercise completion event
-        await notifyExerciseCompleted(submission.userId, {
-          exerciseId: submission.exerciseId,
-          exerciseType: exercise.exerciseType,
-          score: scoreResult.finalScore,
-          isPerfect: scoreResult.finalScore === 100,
-          difficulty: exercise.difficulty,
-          moduleId: exercise.moduleId,
-        });
-
-        // ML Coins earned event
-        if (scoreResult.mlCoins > 0) {
-          await notifyMLCoinsEarned(submission.userId, {
-            amount: scoreResult.mlCoins,
-            source: 'exercise_completion',
-            exerciseId: submission.exerciseId,
-          });
-        }
-
-        // XP earned event
-        if (scoreResult.xp > 0) {
-          await notifyXPEarned(submission.userId, {
-            amount: scoreResult.xp,
-            source: 'exercise_completion',
-            exerciseId: submission.exerciseId,
-          });
-        }
-
-        log.info(`Mission events triggered for user ${submission.userId}`);
-      } catch (error) {
-        // Don't fail the request if mission update fails
-        log.error('Error notifying mission system:', error);
-      }
-    }
-
     // Generate feedback
-    const feedback = this.generateFeedback(submission.answers, exercise, scoreResult);
+    const feedback = this.generateFeedback(baseResult, exercise, scored);
 
-    return {
+    const toResponse = (attemptId: string): SubmissionResponse => ({
       attemptId,
-      score: scoreResult.finalScore,
-      isPerfect: scoreResult.finalScore === 100,
+      score: scored.finalScore,
+      isPerfect: scored.finalScore === 100,
       correctAnswers: feedback.answerReview.filter(a => a.isCorrect).length,
       totalQuestions: feedback.answerReview.length,
       rewards: {
-        mlCoins: scoreResult.mlCoins,
-        xp: scoreResult.xp,
-        bonuses: scoreResult.bonuses
+        mlCoins: awarded.mlCoins,
+        xp: awarded.xp,
+        bonuses: scored.bonuses
       },
+      ...(heldRewards && { rewardsHeld: heldRewards }),
+      ...(pendingReview && { gradingStatus: 'pending_review' as const }),
       feedback,
-      achievements,
-      rankUp,
+      // Unlocked achievements and rank-ups arrive as notifications once
+      // the outbox worker has processed the events
+      achievements: [],
+      rankUp: null,
+      pendingEvents: events.map(event => event.eventType),
       createdAt: new Date()
-    };
-  }
-
-  /**
-   * Calculate base score based on exercise type
-   */
-  private calculateBaseScore(answers: any, exercise: ExerciseResponse): number {
-    const exerciseType = exercise.exerciseType;
-
-    switch (exerciseType) {
-      // ========== AUTOMATIC SCORING (13 types) ==========
-
-      case ExerciseType.CRUCIGRAMA:
-        return this.scoreCrucigrama(answers, exercise);
-
-      case ExerciseType.SOPA_LETRAS:
-        return this.scoreSopaLetras(answers, exercise);
-
-      case ExerciseType.EMPAREJAMIENTO:
-        return this.scoreEmparejamiento(answers, exercise);
-
-      case ExerciseType.LINEA_TIEMPO:
-        return this.scoreLineaTiempo(answers, exercise);
-
-      case ExerciseType.QUIZ_TIKTOK:
-        return this.scoreQuizTikTok(answers, exercise);
-
-      case ExerciseType.COMPRENSION_AUDITIVA:
-        return this.scoreComprensionAuditiva(answers, exercise);
-
-      case ExerciseType.VERDADERO_FALSO:
-        return this.scoreVerdaderoFalso(answers, exercise);
-
-      case ExerciseType.COMPLETAR_ESPACIOS:
-        return this.scoreCompletarEspacios(answers, exercise);
-
-      case ExerciseType.NAVEGACION_HIPERTEXTUAL:
-        return this.scoreNavegacionHipertextual(answers, exercise);
-
-      case ExerciseType.ANALISIS_MEMES:
-        return this.scoreAnalisisMemes(answers, exercise);
-
-      case ExerciseType.VERIFICADOR_FAKE_NEWS:
-        return this.scoreVerificadorFakeNews(answers, exercise);
-
-      case ExerciseType.CALL_TO_ACTION:
-        return this.scoreCallToAction(answers, exercise);
-
-      case ExerciseType.TEXTO_MOVIMIENTO:
-        return this.scoreTextoMovimiento(answers, exercise);
-
-      case ExerciseType.MAPA_CONCEPTUAL:
-        return this.scoreMapaConceptual(answers, exercise);
-
-      case ExerciseType.COLLAGE_PRENSA:
-        return this.scoreCollagePrensaAuto(answers, exercise);
-
-      // ========== MANUAL SCORING (14 types) ==========
-      // These return 0 and require teacher review
-
-      case ExerciseType.DETECTIVE_TEXTUAL:
-      case ExerciseType.CONSTRUCCION_HIPOTESIS:
-      case ExerciseType.PREDICCION_NARRATIVA:
-      case ExerciseType.PUZZLE_CONTEXTO:
-      case ExerciseType.RUEDA_INFERENCIAS:
-      case ExerciseType.TRIBUNAL_OPINIONES:
-      case ExerciseType.DEBATE_DIGITAL:
-      case ExerciseType.ANALISIS_FUENTES:
-      case ExerciseType.PODCAST_ARGUMENTATIVO:
-      case ExerciseType.MATRIZ_PERSPECTIVAS:
-      case ExerciseType.INFOGRAFIA_INTERACTIVA:
-      case ExerciseType.DIARIO_MULTIMEDIA:
-      case ExerciseType.COMIC_DIGITAL:
-      case ExerciseType.VIDEO_CARTA:
-        return 0; // Manual scoring - saved for teacher review
-
-      default:
-        return 0;
-    }
-  }
-
-  // ============================================================================
-  // TYPE-SPECIFIC SCORING METHODS
-  // ============================================================================
-
-  /**
-   * Score Crucigrama (Crossword)
-   */
-  private scoreCrucigrama(answers: any, exercise: ExerciseResponse): number {
-    const content = exercise.content as any;
-    const totalClues = (content.clues.across?.length || 0) + (content.clues.down?.length || 0);
-    let correctAnswers = 0;
-
-    // Check across clues
-    content.clues.across?.forEach((clue: any) => {
-      if (answers[`across_${clue.number}`]?.toLowerCase() === clue.answer.toLowerCase()) {
-        correctAnswers++;
-      }
     });
 
-    // Check down clues
-    content.clues.down?.forEach((clue: any) => {
-      if (answers[`down_${clue.number}`]?.toLowerCase() === clue.answer.toLowerCase()) {
-        correctAnswers++;
-      }
-    });
-
-    return (correctAnswers / totalClues) * 100;
-  }
-
-  /**
-   * Score Sopa de Letras (Word Search)
-   */
-  private scoreSopaLetras(answers: any, exercise: ExerciseResponse): number {
-    const content = exercise.content as any;
-    const totalWords = content.words?.length || 0;
-    const foundWords = answers.foundWords || [];
-
-    return (foundWords.length / totalWords) * 100;
-  }
-
-  /**
-   * Score Emparejamiento (Matching)
-   */
-  private scoreEmparejamiento(answers: any, exercise: ExerciseResponse): number {
-    const content = exercise.content as any;
-    const correctPairs = content.correctPairs || {};
-    let correctMatches = 0;
-    let totalPairs = Object.keys(correctPairs).length;
-
-    Object.entries(answers.matches || {}).forEach(([key, value]) => {
-      if (correctPairs[key] === value) {
-        correctMatches++;
-      }
-    });
-
-    return (correctMatches / totalPairs) * 100;
-  }
-
-  /**
-   * Score Línea de Tiempo (Timeline)
-   */
-  private scoreLineaTiempo(answers: any, exercise: ExerciseResponse): number {
-    const content = exercise.content as any;
-    const events = content.events || [];
-
-    // Sort events by year to get correct order
-    const correctOrder = [...events]
-      .sort((a, b) => a.year - b.year)
-      .map(event => event.id);
-
-    // Get user's answer order
-    const userOrder = answers.order || [];
-
-    // Count how many events are in correct position
-    let correctPositions = 0;
-    for (let i = 0; i < correctOrder.length; i++) {
-      if (userOrder[i] === correctOrder[i]) {
-        correctPositions++;
+    let response: SubmissionResponse;
+    await this.saveAttempt(
+      submission,
+      exercise,
+      awarded,
+      scoringPolicy,
+      events,
+      integrity,
+      heldRewards,
+      gradingContext,
+      pendingReview,
+      async (client, attemptId) => {
+        response = toResponse(attemptId);
+        if (onSaved) await onSaved(client, response);
       }
-    }
+    );
 
-    return (correctPositions / events.length) * 100;
+    return response!;
   }
 
   /**
-   * Score Verdadero/Falso
+   * Score answers without persisting anything (answer-key dry run)
+   *
+   * Runs the same scorer, multipliers and bonuses as calculateScore but
+   * never writes an attempt or fires rewards, streaks, missions or
+   * notifications.
    */
-  private scoreVerdaderoFalso(answers: any, exercise: ExerciseResponse): number {
-    const content = exercise.content as any;
-    const statements = content.statements || [];
-    let correctAnswers = 0;
-
-    statements.forEach((statement: any, index: number) => {
-      const userAnswer = answers.responses?.[index] || answers[index];
-      if (userAnswer === statement.correctAnswer || userAnswer === statement.isTrue) {
-        correctAnswers++;
-      }
-    });
+  previewScore(
+    submission: PreviewSubmission,
+    exercise: PreviewExercise,
+    userStats: { currentRank: string; streakDays: number },
+    scoringPolicy: ScoringPolicyVersion
+  ): ScoringBreakdown {
+    const { baseResult, scoreResult } = this.evaluate(submission, exercise, userStats, scoringPolicy.policy);
 
-    return (correctAnswers / statements.length) * 100;
+    return {
+      exerciseId: exercise.id || null,
+      exerciseType: exercise.exerciseType,
+      baseScore: baseResult.score,
+      earnedPoints: baseResult.earnedPoints,
+      maxScore: baseResult.maxScore,
+      reasonCode: baseResult.reasonCode,
+      finalScore: scoreResult.finalScore,
+      passed: scoreResult.passed,
+      scoringPolicyVersion: scoringPolicy.version,
+      multipliers: scoreResult.multipliers,
+      bonuses: scoreResult.bonuses,
+      penalties: scoreResult.penalties,
+      rewards: {
+        mlCoins: scoreResult.mlCoins,
+        xp: scoreResult.xp
+      },
+      feedback: this.generateFeedback(baseResult, exercise, scoreResult)
+    };
   }
 
   /**
-   * Score Completar Espacios (Fill in the blanks)
+   * Final score and rewards of a teacher-graded attempt
+   *
+   * The grade is the base score; multipliers, bonuses and penalties follow
+   * the same rules as a live submission.
    */
-  private scoreCompletarEspacios(answers: any, exercise: ExerciseResponse): number {
-    const content = exercise.content as any;
-    const blanks = content.blanks || [];
-    let correctAnswers = 0;
-
-    blanks.forEach((blank: any, index: number) => {
-      const userAnswer = (answers.responses?.[index] || answers[index] || '').toString().trim().toLowerCase();
-      const correctAnswer = blank.correctAnswer.toString().trim().toLowerCase();
-
-      // Check if user answer matches correct answer (case-insensitive)
-      if (userAnswer === correctAnswer) {
-        correctAnswers++;
-      } else if (blank.acceptedAnswers && Array.isArray(blank.acceptedAnswers)) {
-        // Check alternative accepted answers
-        const isAccepted = blank.acceptedAnswers.some((accepted: string) =>
-          accepted.toString().trim().toLowerCase() === userAnswer
-        );
-        if (isAccepted) {
-          correctAnswers++;
-        }
-      }
-    });
-
-    return (correctAnswers / blanks.length) * 100;
+  scoreGradedAttempt(
+    baseScore: number,
+    submission: SubmitExerciseDto,
+    exercise: ExerciseResponse,
+    userStats: { currentRank: string; streakDays: number },
+    policy: ScoringPolicy
+  ): ScoreResult {
+    return this.applyMultipliersAndBonuses(baseScore, exercise, submission, userStats, policy);
   }
 
   /**
-   * Score Quiz TikTok
+   * Correct answers for an exercise, keyed like the answer review
    */
-  private scoreQuizTikTok(answers: any, exercise: ExerciseResponse): number {
-    const content = exercise.content as any;
-    const questions = content.questions || [];
-    let correctAnswers = 0;
-
-    questions.forEach((question: any, index: number) => {
-      if (answers.responses?.[index] === question.correctAnswer) {
-        correctAnswers++;
-      }
-    });
-
-    return (correctAnswers / questions.length) * 100;
+  extractCorrectAnswers(exercise: ExerciseResponse): Record<string, any> {
+    return this.scorers.extractCorrectAnswers(exercise);
   }
 
   /**
-   * Score Comprensión Auditiva (Listening Comprehension)
+   * Base score plus multipliers and bonuses (no side effects)
    */
-  private scoreComprensionAuditiva(answers: any, exercise: ExerciseResponse): number {
-    const content = exercise.content as any;
-    const questions = content.questions || [];
-    let correctAnswers = 0;
-
-    questions.forEach((question: any) => {
-      if (answers[question.id] === question.correctAnswer) {
-        correctAnswers++;
-      }
-    });
+  private evaluate(
+    submission: PreviewSubmission,
+    exercise: PreviewExercise,
+    userStats: any,
+    policy: ScoringPolicy
+  ): { baseResult: ScorerResult; scoreResult: ScoreResult } {
+    const baseResult = this.calculateBaseScore(submission.answers, exercise);
+    const scoreResult = this.applyMultipliersAndBonuses(
+      baseResult.score,
+      exercise,
+      submission,
+      userStats,
+      policy
+    );
 
-    return (correctAnswers / questions.length) * 100;
+    return { baseResult, scoreResult };
   }
 
   /**
-   * Score other automatic types (simplified)
+   * Calculate base score with the scorer registered for the exercise type
    */
-  private scoreNavegacionHipertextual(answers: any, exercise: ExerciseResponse): number {
-    return this.scoreMultipleChoice(answers, exercise);
-  }
-
-  private scoreAnalisisMemes(answers: any, exercise: ExerciseResponse): number {
-    return this.scoreMultipleChoice(answers, exercise);
-  }
-
-  private scoreVerificadorFakeNews(answers: any, exercise: ExerciseResponse): number {
-    const content = exercise.content as any;
-    const claims = content.claims || [];
-    let correctIdentifications = 0;
+  private calculateBaseScore(answers: any, exercise: PreviewExercise): ScorerResult {
+    const result = this.scorers.score(answers, exercise);
 
-    claims.forEach((claim: any) => {
-      if (answers[claim.id] === claim.veracity) {
-        correctIdentifications++;
-      }
-    });
-
-    return (correctIdentifications / claims.length) * 100;
-  }
-
-  private scoreCallToAction(answers: any, exercise: ExerciseResponse): number {
-    return this.scoreMultipleChoice(answers, exercise);
-  }
-
-  private scoreTextoMovimiento(answers: any, exercise: ExerciseResponse): number {
-    return this.scoreMultipleChoice(answers, exercise);
-  }
-
-  private scoreMapaConceptual(answers: any, exercise: ExerciseResponse): number {
-    const content = exercise.content as any;
-    const correctRelationships = content.relationships || [];
-    let correctConnections = 0;
-
-    correctRelationships.forEach((rel: any) => {
-      const userRel = answers.relationships?.find((r: any) =>
-        r.fromConceptId === rel.fromConceptId && r.toConceptId === rel.toConceptId
-      );
-      if (userRel && userRel.label === rel.label) {
-        correctConnections++;
-      }
-    });
-
-    return (correctConnections / correctRelationships.length) * 100;
-  }
-
-  private scoreCollagePrensaAuto(answers: any, exercise: ExerciseResponse): number {
-    // Auto-scoring based on completion criteria
-    return answers.completed ? 80 : 0; // Base score for completion
-  }
-
-  /**
-   * Generic multiple choice scoring
-   */
-  private scoreMultipleChoice(answers: any, exercise: ExerciseResponse): number {
-    const content = exercise.content as any;
-    const questions = content.questions || [];
-    let correctAnswers = 0;
-
-    questions.forEach((question: any) => {
-      if (answers[question.id] === question.correctAnswer) {
-        correctAnswers++;
-      }
-    });
+    if (result.reasonCode !== 'SCORED') {
+      log.info(`Exercise ${exercise.id} (${exercise.exerciseType}) not auto-scored: ${result.reasonCode}`);
+    }
 
-    return questions.length > 0 ? (correctAnswers / questions.length) * 100 : 0;
+    return result;
   }
 
   // ============================================================================
@@ -528,48 +243,52 @@ export class ScoringService {
   // ============================================================================
 
   /**
-   * Apply difficulty, rank, streak multipliers and bonuses
+   * Apply difficulty, rank, streak multipliers and bonuses of the scoring policy
    */
   private applyMultipliersAndBonuses(
     baseScore: number,
-    exercise: ExerciseResponse,
-    submission: SubmitExerciseDto,
-    userStats: any
+    exercise: PreviewExercise,
+    submission: PreviewSubmission,
+    userStats: any,
+    policy: ScoringPolicy
   ): ScoreResult {
     const multipliers = {
-      difficulty: this.getDifficultyMultiplier(exercise.difficultyLevel),
-      rank: this.getRankMultiplier(userStats.currentRank),
-      streak: this.getStreakMultiplier(userStats.streakDays)
+      difficulty: policy.difficultyMultipliers[exercise.difficultyLevel] ?? 1.0,
+      rank: policy.rankMultipliers[userStats.currentRank?.toLowerCase()] ?? 1.0,
+      streak: 1 + Math.min((userStats.streakDays || 0) * policy.streak.percentPerDay, policy.streak.maxPercent)
     };
 
     const bonuses: Record<string, number> = {};
 
     // Perfect score bonus
     if (baseScore === 100) {
-      bonuses.perfect = 10;
+      bonuses.perfect = policy.bonuses.perfect;
     }
 
     // No hints bonus
     if (submission.powerupsUsed.length === 0) {
-      bonuses.noHints = 5;
+      bonuses.noHints = policy.bonuses.noHints;
     }
 
-    // Speed bonus (if completed in < 75% of estimated time)
+    // Speed bonus (if completed well under the estimated time, server-measured)
     const estimatedTime = exercise.estimatedTimeMinutes * 60;
-    if (submission.timeSpent < estimatedTime * 0.75) {
-      bonuses.speed = 5;
+    if (submission.timeSpent < estimatedTime * policy.bonuses.speedTimeRatio) {
+      bonuses.speed = policy.bonuses.speed;
     }
 
     // First attempt bonus
     const isFirstAttempt = !(exercise.userProgress && exercise.userProgress.attempts > 0);
-    if (isFirstAttempt && baseScore >= 80) {
-      bonuses.firstAttempt = 10;
+    if (isFirstAttempt && baseScore >= policy.bonuses.firstAttemptMinScore) {
+      bonuses.firstAttempt = policy.bonuses.firstAttempt;
     }
 
     // Calculate penalties
     const penalties: Record<string, number> = {};
     if (submission.powerupsUsed.length > 0) {
-      penalties.powerups = submission.powerupsUsed.length * 5; // -5% per powerup
+      penalties.powerups = submission.powerupsUsed.length * policy.penalties.perPowerup;
+    }
+    if (submission.timeOveragePenalty > 0) {
+      penalties.timeOverage = submission.timeOveragePenalty; // Set by the attempt session time-limit policy
     }
 
     // Calculate final score
@@ -584,13 +303,23 @@ export class ScoringService {
     finalScore -= penaltyTotal;
     finalScore = Math.max(0, Math.min(100, finalScore)); // Clamp between 0-100
 
-    // Calculate rewards
-    const mlCoins = Math.floor((finalScore / 100) * (exercise.mlCoinsReward || 5));
-    const xp = Math.floor((finalScore / 100) * (exercise.xpReward || 20));
+    // Calculate rewards. Retries only earn the improvement over the previous
+    // best, so repeating an exercise cannot farm ML Coins or XP.
+    const previousBest = Number(exercise.userProgress?.bestScore) || 0;
+    const rewardFor = (score: number, reward: number) => Math.floor((score / 100) * reward);
+    const mlCoins = Math.max(
+      0,
+      rewardFor(finalScore, exercise.mlCoinsReward || 5) - rewardFor(previousBest, exercise.mlCoinsReward || 5)
+    );
+    const xp = Math.max(
+      0,
+      rewardFor(finalScore, exercise.xpReward || 20) - rewardFor(previousBest, exercise.xpReward || 20)
+    );
 
     return {
       rawScore: baseScore,
       finalScore: Math.round(finalScore),
+      passed: Math.round(finalScore) >= (exercise.passingScore ?? policy.passingScore),
       multipliers,
       bonuses,
       penalties,
@@ -599,40 +328,6 @@ export class ScoringService {
     };
   }
 
-  /**
-   * Get difficulty multiplier
-   */
-  private getDifficultyMultiplier(difficulty: string): number {
-    switch (difficulty) {
-      case 'beginner': return 1.0;
-      case 'intermediate': return 1.25;
-      case 'advanced': return 1.5;
-      default: return 1.0;
-    }
-  }
-
-  /**
-   * Get rank multiplier
-   */
-  private getRankMultiplier(rank: string): number {
-    switch (rank?.toLowerCase()) {
-      case 'nacom': return 1.0;
-      case 'batab': return 1.1;
-      case 'holcatte': return 1.25;
-      case 'guerrero': return 1.5;
-      case 'mercenario': return 2.0;
-      default: return 1.0;
-    }
-  }
-
-  /**
-   * Get streak multiplier
-   */
-  private getStreakMultiplier(streakDays: number): number {
-    const bonusPercent = Math.min(streakDays * 0.05, 0.5); // 5% per day, max 50%
-    return 1 + bonusPercent;
-  }
-
   // ============================================================================
   // DATABASE OPERATIONS
   // ============================================================================
@@ -672,50 +367,198 @@ export class ScoringService {
   }
 
   /**
-   * Save attempt to database
+   * Multiplier, bonus and penalty inputs of an attempt, as they are at
+   * submission
+   */
+  private buildGradingContext(
+    submission: SubmitExerciseDto,
+    exercise: ExerciseResponse,
+    userStats: any
+  ): GradingContext {
+    return {
+      currentRank: userStats.currentRank || 'nacom',
+      streakDays: userStats.streakDays || 0,
+      firstAttempt: !(exercise.userProgress && exercise.userProgress.attempts > 0),
+      timeOveragePenalty: submission.timeOveragePenalty || 0
+    };
+  }
+
+  /**
+   * Save attempt (with the scoring policy version and grading context it
+   * was scored with, its variant and, for manually scored types, its
+   * pending grading), its
+   * submission events and, when flagged, its review-queue entry in one
+   * transaction
+   *
+   * With an attempt limit, the attempts are counted again under the
+   * student's attempt lock for the exercise, so concurrent submissions
+   * cannot save more attempts than the limit. `beforeCommit` runs last in
+   * the transaction.
    */
   private async saveAttempt(
     submission: SubmitExerciseDto,
     exercise: ExerciseResponse,
-    scoreResult: ScoreResult
+    scoreResult: ScoreResult,
+    scoringPolicy: ScoringPolicyVersion,
+    events: SubmissionEventInput[],
+    integrity: IntegrityAssessment,
+    heldRewards: { xp: number; mlCoins: number } | null,
+    gradingContext: GradingContext,
+    pendingReview: boolean,
+    beforeCommit: (client: PoolClient, attemptId: string) => Promise<void>
   ): Promise<string> {
-    // Get profile_id from user_id (auth.users.id -> auth_management.profiles.id)
-    const profileQuery = `
-      SELECT p.id as profile_id
-      FROM auth_management.profiles p
-      WHERE p.user_id = $1
-    `;
-    const profileResult = await this.pool.query(profileQuery, [submission.userId]);
+    const client = await this.pool.connect();
 
-    if (!profileResult.rows[0]) {
-      throw new Error(`Profile not found for user ${submission.userId}`);
-    }
+    try {
+      await client.query('BEGIN');
+
+      if (resolveAttemptPolicy(exercise).maxAttempts !== null) {
+        await this.attemptSessionsRepository.lockAttempts(client, submission.userId, submission.exerciseId);
+        const attempts = await this.attemptSessionsRepository.countAttempts(
+          client,
+          submission.userId,
+          submission.exerciseId
+        );
+        assertCanAttempt({ ...exercise, userProgress: { ...exercise.userProgress, attempts } });
+      }
 
-    const profileId = profileResult.rows[0].profile_id;
+      // Get profile_id from user_id (auth.users.id -> auth_management.profiles.id)
+      const profileQuery = `
+        SELECT p.id as profile_id
+        FROM auth_management.profiles p
+        WHERE p.user_id = $1
+      `;
+      const profileResult = await client.query(profileQuery, [submission.userId]);
 
-    const query = `
-      INSERT INTO progress_tracking.exercise_attempts (
-        user_id, exercise_id, submitted_answers, score,
-        is_correct, time_spent_seconds, comodines_used,
-        xp_earned, ml_coins_earned
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
-      RETURNING id
-    `;
+      if (!profileResult.rows[0]) {
+        throw new Error(`Profile not found for user ${submission.userId}`);
+      }
+
+      const profileId = profileResult.rows[0].profile_id;
+
+      const query = `
+        INSERT INTO progress_tracking.exercise_attempts (
+          user_id, exercise_id, submitted_answers, score,
+          is_correct, time_spent_seconds, comodines_used,
+          xp_earned, ml_coins_earned,
+          scoring_policy_id, scoring_policy_version, variant,
+          grading_status, grading_context
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+        RETURNING id
+      `;
+
+      const values = [
+        profileId,  // Use profile_id instead of auth user_id
+        submission.exerciseId,
+        submission.answers,
+        scoreResult.finalScore,
+        scoreResult.passed,
+        submission.timeSpent,
+        submission.powerupsUsed,
+        scoreResult.xp,
+        scoreResult.mlCoins,
+        scoringPolicy.id,
+        scoringPolicy.version,
+        submission.variant ? JSON.stringify(submission.variant) : null,
+        pendingReview ? 'pending_review' : null,
+        JSON.stringify(gradingContext)
+      ];
+
+      const result = await client.query(query, values);
+      const attemptId = result.rows[0].id;
+
+      await this.outboxRepository.enqueueEvents(client, attemptId, submission.userId, events);
+
+      if (integrity.flagged) {
+        await this.integrityRepository.createFlag(
+          client,
+          attemptId,
+          profileId,
+          submission.exerciseId,
+          integrity,
+          heldRewards || { xp: 0, mlCoins: 0 }
+        );
+      }
 
-    const values = [
-      profileId,  // Use profile_id instead of auth user_id
-      submission.exerciseId,
-      submission.answers,
-      scoreResult.finalScore,
-      scoreResult.finalScore >= (exercise.passingScore || 70), // 70% passing
-      submission.timeSpent,
-      submission.powerupsUsed,
-      scoreResult.xp,
-      scoreResult.mlCoins
+      await beforeCommit(client, attemptId);
+
+      await client.query('COMMIT');
+      return attemptId;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Side effects of a submission, as outbox events
+   *
+   * Events are handled by user id (auth), in this order.
+   */
+  private buildSubmissionEvents(
+    submission: SubmitExerciseDto,
+    exercise: ExerciseResponse,
+    scoreResult: ScoreResult
+  ): SubmissionEventInput[] {
+    const passed = scoreResult.passed;
+
+    const events: SubmissionEventInput[] = [
+      { eventType: 'streak.activity', payload: {} },
+      {
+        eventType: 'achievements.check',
+        payload: {
+          exerciseId: submission.exerciseId,
+          score: scoreResult.finalScore,
+          hintsUsed: submission.powerupsUsed?.length || 0,
+          timeSpent: submission.timeSpent
+        }
+      },
+      { eventType: 'rank.check', payload: {} }
     ];
 
-    const result = await this.pool.query(query, values);
-    return result.rows[0].id;
+    // Module progress counts the first completion of the exercise only
+    if (passed && !exercise.userProgress?.completed) {
+      events.push({ eventType: 'module_progress.completed', payload: { moduleId: exercise.moduleId } });
+    }
+
+    // One event per mission update, so a retry repeats only the one that failed
+    if (passed) {
+      events.push({
+        eventType: 'missions.exercise_completed',
+        payload: {
+          exerciseId: submission.exerciseId,
+          exerciseType: exercise.exerciseType,
+          score: scoreResult.finalScore,
+          difficulty: exercise.difficulty,
+          moduleId: exercise.moduleId
+        }
+      });
+
+      if (scoreResult.mlCoins > 0) {
+        events.push({
+          eventType: 'missions.ml_coins_earned',
+          payload: { exerciseId: submission.exerciseId, amount: scoreResult.mlCoins }
+        });
+      }
+
+      if (scoreResult.xp > 0) {
+        events.push({
+          eventType: 'missions.xp_earned',
+          payload: { exerciseId: submission.exerciseId, amount: scoreResult.xp }
+        });
+      }
+    }
+
+    // Missed items go to the student's spaced-repetition queue
+    if (isReviewable(exercise.exerciseType) && scoreResult.finalScore < 100) {
+      events.push({ eventType: 'review_queue.collect', payload: { exerciseId: submission.exerciseId } });
+    }
+
+    events.push({ eventType: 'analytics.refresh', payload: {} });
+
+    return events;
   }
 
   /**
@@ -739,44 +582,30 @@ export class ScoringService {
   }
 
   /**
-   * Check for achievements after exercise completion
+   * Generate feedback with a review of every graded item
    */
-  private async checkAchievements(userId: string, exerciseId: string, scoreResult: ScoreResult, timeSpent: number, hintsUsed: number): Promise<any[]> {
-    try {
-      const unlockedAchievements = await this.achievementsService.checkAndUnlockAchievements(
-        userId,
-        {
-          exerciseId: exerciseId,
-          score: scoreResult.finalScore,
-          hintsUsed: hintsUsed,
-          timeSpent: timeSpent
-        }
-      );
-
-      // Return achievements in the format expected by the frontend
-      return unlockedAchievements.map(achievement => ({
-        id: achievement.id,
-        name: achievement.name,
-        description: achievement.description,
-        icon: achievement.icon,
-        category: achievement.category,
-        mlCoinsReward: achievement.mlCoinsReward,
-        xpReward: achievement.xpReward,
-        rarity: achievement.rarity
-      }));
-    } catch (error) {
-      log.error('Error checking achievements after exercise:', error);
-      return []; // Don't fail the entire request if achievement check fails
-    }
-  }
+  private generateFeedback(
+    baseResult: ScorerResult,
+    exercise: PreviewExercise,
+    scoreResult: ScoreResult
+  ): SubmissionResponse['feedback'] {
+    const explanations = exercise.content?.explanations || {};
+
+    const answerReview: AnswerReviewItem[] = baseResult.items.map(item => ({
+      questionId: item.itemId,
+      isCorrect: item.credit === 1,
+      credit: item.credit,
+      userAnswer: item.userAnswer,
+      correctAnswer: item.correctAnswer,
+      ...(item.matchType && { acceptedWithTypo: item.matchType === 'typo' }),
+      explanation: explanations[item.itemId]
+    }));
 
-  /**
-   * Generate feedback
-   */
-  private generateFeedback(answers: any, exercise: ExerciseResponse, scoreResult: ScoreResult): any {
     return {
-      overall: this.getOverallFeedback(scoreResult.finalScore),
-      answerReview: [] // Would generate detailed answer review
+      overall: this.scorers.isManual(exercise)
+        ? PENDING_REVIEW_FEEDBACK
+        : this.getOverallFeedback(scoreResult.finalScore),
+      answerReview
     };
   }
 
@@ -0,0 +1,126 @@
+/**
+ * Submission Idempotency Repository
+ *
+ * Data access layer for idempotency keys of exercise submissions.
+ */
+
+import { Pool, PoolClient } from 'pg';
+import { log } from '../../shared/utils/logger';
+
+/**
+ * Stored idempotency record
+ */
+export interface IdempotencyRecord {
+  userId: string;
+  idempotencyKey: string;
+  exerciseId: string;
+  requestHash: string;
+  status: 'processing' | 'completed';
+  response: any;
+  createdAt: Date;
+}
+
+/**
+ * How long a key is remembered
+ */
+const KEY_TTL = '24 hours';
+
+export class SubmissionIdempotencyRepository {
+  constructor(private pool: Pool) {}
+
+  /**
+   * Create idempotency table if not exists
+   */
+  async ensureIdempotencyTable(client?: PoolClient): Promise<void> {
+    const db = client || this.pool;
+
+    try {
+      await db.query(`
+        CREATE TABLE IF NOT EXISTS progress_tracking.submission_idempotency_keys (
+          user_id UUID NOT NULL,
+          idempotency_key TEXT NOT NULL,
+          exercise_id UUID NOT NULL,
+          request_hash TEXT NOT NULL,
+          status TEXT NOT NULL DEFAULT 'processing' CHECK (status IN ('processing', 'completed')),
+          response JSONB,
+          created_at TIMESTAMPTZ DEFAULT NOW(),
+          completed_at TIMESTAMPTZ,
+          PRIMARY KEY (user_id, idempotency_key)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_submission_idempotency_created
+          ON progress_tracking.submission_idempotency_keys(created_at);
+      `);
+    } catch (error) {
+      // Table might already exist, log and continue
+      log.debug('Submission idempotency table setup:', error);
+    }
+  }
+
+  /**
+   * Claim a key; returns false when the key is already taken
+   *
+   * Expired keys of the user are dropped first so they can be reused.
+   */
+  async claimKey(userId: string, idempotencyKey: string, exerciseId: string, requestHash: string): Promise<boolean> {
+    await this.pool.query(
+      `DELETE FROM progress_tracking.submission_idempotency_keys
+       WHERE user_id = $1 AND created_at < NOW() - INTERVAL '${KEY_TTL}'`,
+      [userId]
+    );
+
+    const result = await this.pool.query(
+      `INSERT INTO progress_tracking.submission_idempotency_keys (user_id, idempotency_key, exercise_id, request_hash)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (user_id, idempotency_key) DO NOTHING
+       RETURNING user_id`,
+      [userId, idempotencyKey, exerciseId, requestHash]
+    );
+
+    return result.rows.length > 0;
+  }
+
+  /**
+   * Get a key record
+   */
+  async getKey(userId: string, idempotencyKey: string): Promise<IdempotencyRecord | null> {
+    const result = await this.pool.query(
+      `SELECT
+        user_id as "userId",
+        idempotency_key as "idempotencyKey",
+        exercise_id as "exerciseId",
+        request_hash as "requestHash",
+        status,
+        response,
+        created_at as "createdAt"
+       FROM progress_tracking.submission_idempotency_keys
+       WHERE user_id = $1 AND idempotency_key = $2`,
+      [userId, idempotencyKey]
+    );
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Store the response of a completed submission
+   */
+  async completeKey(userId: string, idempotencyKey: string, response: any, client: PoolClient): Promise<void> {
+    await client.query(
+      `UPDATE progress_tracking.submission_idempotency_keys
+       SET status = 'completed', response = $3, completed_at = NOW()
+       WHERE user_id = $1 AND idempotency_key = $2`,
+      [userId, idempotencyKey, JSON.stringify(response)]
+    );
+  }
+
+  /**
+   * Release a key whose submission failed, so it can be retried
+   */
+  async releaseKey(userId: string, idempotencyKey: string): Promise<void> {
+    await this.pool.query(
+      `DELETE FROM progress_tracking.submission_idempotency_keys
+       WHERE user_id = $1 AND idempotency_key = $2 AND status = 'processing'`,
+      [userId, idempotencyKey]
+    );
+  }
+}
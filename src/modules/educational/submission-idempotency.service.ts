@@ -0,0 +1,113 @@
+/**
+ * Submission Idempotency Service
+ *
+ * Makes exercise submissions safe to retry. The first request with a key
+ * is processed and its response stored; a retry with the same key and body
+ * gets that response back, and a retry with a different body is a conflict.
+ */
+
+import { Pool, PoolClient } from 'pg';
+import crypto from 'crypto';
+import { SubmissionIdempotencyRepository } from './submission-idempotency.repository';
+import { AppError } from '../../middleware/error.middleware';
+import { log } from '../../shared/utils/logger';
+
+/**
+ * Outcome of claiming an idempotency key
+ */
+export type IdempotencyClaim =
+  | { replayed: false }
+  | { replayed: true; response: any };
+
+export class SubmissionIdempotencyService {
+  private repository: SubmissionIdempotencyRepository;
+
+  constructor(pool: Pool) {
+    this.repository = new SubmissionIdempotencyRepository(pool);
+  }
+
+  /**
+   * Initialize idempotency keys (ensure table exists)
+   */
+  async initialize(): Promise<void> {
+    await this.repository.ensureIdempotencyTable();
+  }
+
+  /**
+   * Claim a key before processing a submission
+   */
+  async begin(userId: string, idempotencyKey: string, exerciseId: string, payload: any): Promise<IdempotencyClaim> {
+    const requestHash = this.hashRequest(exerciseId, payload);
+
+    if (await this.repository.claimKey(userId, idempotencyKey, exerciseId, requestHash)) {
+      return { replayed: false };
+    }
+
+    const existing = await this.repository.getKey(userId, idempotencyKey);
+
+    if (!existing) {
+      // Expired and removed between the insert and the read; treat as reused
+      throw new AppError('Idempotency key expired. Retry the submission.', 409, 'IDEMPOTENCY_KEY_EXPIRED');
+    }
+
+    if (existing.requestHash !== requestHash) {
+      throw new AppError(
+        'Idempotency key was already used with a different submission',
+        409,
+        'IDEMPOTENCY_KEY_REUSED'
+      );
+    }
+
+    if (existing.status !== 'completed') {
+      throw new AppError('This submission is still being processed', 409, 'SUBMISSION_IN_PROGRESS');
+    }
+
+    log.info(`Replaying submission for user ${userId} (key ${idempotencyKey})`);
+    return { replayed: true, response: existing.response };
+  }
+
+  /**
+   * Store the response of a processed submission, in the transaction that
+   * saves its attempt
+   */
+  async complete(userId: string, idempotencyKey: string, response: any, client: PoolClient): Promise<void> {
+    await this.repository.completeKey(userId, idempotencyKey, response, client);
+  }
+
+  /**
+   * Release a key after a failed submission
+   */
+  async release(userId: string, idempotencyKey: string): Promise<void> {
+    try {
+      await this.repository.releaseKey(userId, idempotencyKey);
+    } catch (error) {
+      log.error('Error releasing idempotency key:', error);
+    }
+  }
+
+  /**
+   * Hash the request body independently of key order
+   */
+  private hashRequest(exerciseId: string, payload: any): string {
+    return crypto
+      .createHash('sha256')
+      .update(stableStringify({ exerciseId, payload }))
+      .digest('hex');
+  }
+}
+
+function stableStringify(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return `{${Object.keys(value)
+      .sort()
+      .filter(key => value[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`)
+      .join(',')}}`;
+  }
+
+  return JSON.stringify(value);
+}
@@ -0,0 +1,62 @@
+/**
+ * Submission Integrity Controller
+ * HTTP request handlers for the flagged-attempt review queue.
+ */
+
+import { Response, NextFunction } from 'express';
+import { AuthRequest } from '../../shared/types';
+import { SubmissionIntegrityService } from './submission-integrity.service';
+import { AttemptFlagStatus, ReviewAttemptFlagDto } from './educational.types';
+
+export class SubmissionIntegrityController {
+  constructor(private integrityService: SubmissionIntegrityService) {}
+
+  /**
+   * GET /api/educational/attempt-flags
+   *
+   * Query: status (pending | cleared | confirmed), exerciseId, page, limit
+   */
+  getFlags = async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      const result = await this.integrityService.getFlags(
+        { userId: req.user?.id!, role: req.user?.role! },
+        {
+          status: req.query.status as AttemptFlagStatus | undefined,
+          exerciseId: req.query.exerciseId as string | undefined,
+          page: parseInt(req.query.page as string) || 1,
+          limit: Math.min(parseInt(req.query.limit as string) || 20, 100)
+        }
+      );
+
+      res.json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/educational/attempt-flags/:flagId/review
+   */
+  reviewFlag = async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      const { flagId } = req.params;
+      const dto: ReviewAttemptFlagDto = req.body;
+
+      const flag = await this.integrityService.reviewFlag(
+        flagId,
+        dto,
+        { userId: req.user?.id!, role: req.user?.role! }
+      );
+
+      res.json({
+        success: true,
+        data: flag
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -0,0 +1,271 @@
+/**
+ * Submission Integrity Repository
+ *
+ * Data access layer for anomaly evidence and the flagged-attempt review
+ * queue.
+ */
+
+import { Pool, PoolClient } from 'pg';
+import { AttemptFlag, AttemptFlagStatus, IntegrityAssessment } from './educational.types';
+import { log } from '../../shared/utils/logger';
+
+const FLAG_COLUMNS = `
+  f.id,
+  f.attempt_id as "attemptId",
+  f.user_id as "userId",
+  COALESCE(p.display_name, p.full_name) as "studentName",
+  f.exercise_id as "exerciseId",
+  e.title as "exerciseTitle",
+  ea.score,
+  COALESCE(ea.time_spent_seconds, 0) as "timeSpent",
+  f.anomaly_score as "anomalyScore",
+  f.signals,
+  f.status,
+  f.rewards_held as "rewardsHeld",
+  f.held_xp as "heldXp",
+  f.held_ml_coins as "heldMlCoins",
+  f.reviewed_by as "reviewedBy",
+  f.review_notes as "reviewNotes",
+  f.reviewed_at as "reviewedAt",
+  f.created_at as "createdAt"
+`;
+
+const FLAG_JOINS = `
+  FROM progress_tracking.attempt_flags f
+  JOIN progress_tracking.exercise_attempts ea ON ea.id = f.attempt_id
+  LEFT JOIN auth_management.profiles p ON p.id = f.user_id
+  LEFT JOIN educational_content.exercises e ON e.id = f.exercise_id
+`;
+
+/**
+ * Flag scope for teachers: students in one of their classrooms
+ */
+const TEACHER_SCOPE = `
+  EXISTS (
+    SELECT 1 FROM classroom_students cs
+    JOIN classrooms c ON c.id = cs.classroom_id
+    WHERE c.teacher_id = $1 AND cs.student_id = p.user_id
+  )
+`;
+
+export class SubmissionIntegrityRepository {
+  constructor(private pool: Pool) {}
+
+  /**
+   * Create review queue table if not exists
+   */
+  async ensureIntegrityTables(client?: PoolClient): Promise<void> {
+    const db = client || this.pool;
+
+    try {
+      await db.query(`
+        CREATE TABLE IF NOT EXISTS progress_tracking.attempt_flags (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          attempt_id UUID NOT NULL UNIQUE,
+          user_id UUID NOT NULL,
+          exercise_id UUID NOT NULL,
+          anomaly_score INTEGER NOT NULL,
+          signals JSONB NOT NULL DEFAULT '[]',
+          status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'cleared', 'confirmed')),
+          rewards_held BOOLEAN NOT NULL DEFAULT false,
+          held_xp INTEGER NOT NULL DEFAULT 0,
+          held_ml_coins INTEGER NOT NULL DEFAULT 0,
+          reviewed_by UUID,
+          review_notes TEXT,
+          reviewed_at TIMESTAMPTZ,
+          created_at TIMESTAMPTZ DEFAULT NOW()
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_attempt_flags_status
+          ON progress_tracking.attempt_flags(status, created_at);
+      `);
+    } catch (error) {
+      // Table might already exist, log and continue
+      log.debug('Attempt flags table setup:', error);
+    }
+  }
+
+  /**
+   * Recent attempts at the exercise by classmates with the same answers
+   *
+   * `userId` is the auth user id of the student submitting.
+   */
+  async findClassmateDuplicates(
+    userId: string,
+    exerciseId: string,
+    answers: any,
+    windowMinutes: number
+  ): Promise<Array<{ attemptId: string; userId: string; score: number }>> {
+    const result = await this.pool.query(
+      `SELECT ea.id as "attemptId", ea.user_id as "userId", ea.score
+       FROM progress_tracking.exercise_attempts ea
+       JOIN auth_management.profiles p ON p.id = ea.user_id
+       WHERE ea.exercise_id = $2
+         AND p.user_id <> $1
+         AND ea.submitted_at >= NOW() - ($4 * INTERVAL '1 minute')
+         AND ea.submitted_answers = $3::jsonb
+         AND EXISTS (
+           SELECT 1 FROM classroom_students mine
+           JOIN classroom_students theirs ON theirs.classroom_id = mine.classroom_id
+           WHERE mine.student_id = $1 AND theirs.student_id = p.user_id
+         )
+       ORDER BY ea.submitted_at DESC
+       LIMIT 10`,
+      [userId, exerciseId, JSON.stringify(answers), windowMinutes]
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Average score of the student's latest attempts (any exercise)
+   */
+  async getRecentScoreStats(userId: string, limit: number = 10): Promise<{ average: number | null; count: number }> {
+    const result = await this.pool.query(
+      `SELECT AVG(score)::float as average, COUNT(*)::int as count
+       FROM (
+         SELECT ea.score
+         FROM progress_tracking.exercise_attempts ea
+         JOIN auth_management.profiles p ON p.id = ea.user_id
+         WHERE p.user_id = $1
+         ORDER BY ea.submitted_at DESC
+         LIMIT $2
+       ) recent`,
+      [userId, limit]
+    );
+
+    return { average: result.rows[0]?.average ?? null, count: result.rows[0]?.count || 0 };
+  }
+
+  /**
+   * Queue a flagged attempt for review (run inside the attempt transaction)
+   */
+  async createFlag(
+    client: PoolClient,
+    attemptId: string,
+    profileId: string,
+    exerciseId: string,
+    assessment: IntegrityAssessment,
+    held: { xp: number; mlCoins: number }
+  ): Promise<void> {
+    await client.query(
+      `INSERT INTO progress_tracking.attempt_flags (
+        attempt_id, user_id, exercise_id, anomaly_score, signals,
+        rewards_held, held_xp, held_ml_coins
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+      [
+        attemptId,
+        profileId,
+        exerciseId,
+        assessment.anomalyScore,
+        JSON.stringify(assessment.signals),
+        assessment.holdRewards,
+        held.xp,
+        held.mlCoins
+      ]
+    );
+  }
+
+  /**
+   * List flags, newest first
+   *
+   * `teacherId` limits the list to students of the teacher's classrooms
+   * (null for admins).
+   */
+  async getFlags(filters: {
+    teacherId: string | null;
+    status?: AttemptFlagStatus;
+    exerciseId?: string;
+    limit: number;
+    offset: number;
+  }): Promise<{ flags: AttemptFlag[]; total: number }> {
+    const conditions: string[] = [];
+    const values: any[] = [];
+
+    values.push(filters.teacherId);
+    conditions.push(`($1::uuid IS NULL OR ${TEACHER_SCOPE})`);
+
+    if (filters.status) {
+      values.push(filters.status);
+      conditions.push(`f.status = $${values.length}`);
+    }
+    if (filters.exerciseId) {
+      values.push(filters.exerciseId);
+      conditions.push(`f.exercise_id = $${values.length}`);
+    }
+
+    const where = `WHERE ${conditions.join(' AND ')}`;
+
+    const countResult = await this.pool.query(
+      `SELECT COUNT(*)::int as total ${FLAG_JOINS} ${where}`,
+      values
+    );
+
+    const result = await this.pool.query(
+      `SELECT ${FLAG_COLUMNS} ${FLAG_JOINS} ${where}
+       ORDER BY f.created_at DESC
+       LIMIT $${values.length + 1} OFFSET $${values.length + 2}`,
+      [...values, filters.limit, filters.offset]
+    );
+
+    return { flags: result.rows, total: countResult.rows[0].total };
+  }
+
+  /**
+   * Get a flag, locked for review when a client is given
+   *
+   * Returns null when the flag does not exist or is outside the teacher's
+   * classrooms.
+   */
+  async getFlag(flagId: string, teacherId: string | null, dbClient?: PoolClient): Promise<AttemptFlag | null> {
+    const client = dbClient || this.pool;
+
+    const result = await client.query(
+      `SELECT ${FLAG_COLUMNS} ${FLAG_JOINS}
+       WHERE ($1::uuid IS NULL OR ${TEACHER_SCOPE}) AND f.id = $2
+       ${dbClient ? 'FOR UPDATE OF f' : ''}`,
+      [teacherId, flagId]
+    );
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Record the review decision
+   */
+  async resolveFlag(
+    flagId: string,
+    status: AttemptFlagStatus,
+    reviewedBy: string,
+    notes: string | null,
+    dbClient: PoolClient
+  ): Promise<void> {
+    await dbClient.query(
+      `UPDATE progress_tracking.attempt_flags
+       SET status = $2, reviewed_by = $3, review_notes = $4, reviewed_at = NOW()
+       WHERE id = $1`,
+      [flagId, status, reviewedBy, notes]
+    );
+  }
+
+  /**
+   * Credit held rewards to the attempt and the student's XP
+   */
+  async releaseHeldRewards(flag: AttemptFlag, dbClient: PoolClient): Promise<void> {
+    await dbClient.query(
+      `UPDATE progress_tracking.exercise_attempts
+       SET xp_earned = COALESCE(xp_earned, 0) + $2,
+           ml_coins_earned = COALESCE(ml_coins_earned, 0) + $3
+       WHERE id = $1`,
+      [flag.attemptId, flag.heldXp, flag.heldMlCoins]
+    );
+
+    await dbClient.query(
+      `UPDATE gamification_system.user_stats
+       SET total_xp = total_xp + $1,
+           updated_at = NOW()
+       WHERE user_id = $2`,
+      [flag.heldXp, flag.userId]
+    );
+  }
+}
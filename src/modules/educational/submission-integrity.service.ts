@@ -0,0 +1,187 @@
+/**
+ * Submission Integrity Service
+ *
+ * Scores each attempt for anomalies (too fast for the exercise, identical
+ * answers from classmates, sudden score jumps). Flagged attempts go to a
+ * review queue for teachers and admins; their rewards can be held until
+ * the review.
+ */
+
+import { Pool } from 'pg';
+import { SubmissionIntegrityRepository } from './submission-integrity.repository';
+import { assessAttempt, resolveIntegrityPolicy } from './utils/submission-integrity';
+import {
+  AttemptFlag,
+  AttemptFlagStatus,
+  ExerciseResponse,
+  IntegrityAssessment,
+  ReviewAttemptFlagDto,
+  SubmitExerciseDto
+} from './educational.types';
+import { CoinsRepository } from '../gamification/coins.repository';
+import { RanksService } from '../gamification/ranks.service';
+import { RanksRepository } from '../gamification/ranks.repository';
+import { AppError } from '../../middleware/error.middleware';
+import { ErrorCode } from '../../shared/types';
+import { log } from '../../shared/utils/logger';
+
+/**
+ * Who is looking at the review queue
+ */
+export interface FlagReviewer {
+  userId: string;
+  role: string;
+}
+
+export class SubmissionIntegrityService {
+  private repository: SubmissionIntegrityRepository;
+  private coinsRepository: CoinsRepository;
+  private ranksService: RanksService;
+
+  constructor(private pool: Pool) {
+    this.repository = new SubmissionIntegrityRepository(pool);
+    this.coinsRepository = new CoinsRepository(pool);
+    this.ranksService = new RanksService(new RanksRepository(pool));
+  }
+
+  /**
+   * Initialize review queue (ensure table exists)
+   */
+  async initialize(): Promise<void> {
+    await this.repository.ensureIntegrityTables();
+  }
+
+  /**
+   * Score an attempt for anomalies before it is saved
+   *
+   * Detection never blocks a submission: if the evidence cannot be read
+   * the attempt is treated as clean.
+   */
+  async assess(submission: SubmitExerciseDto, exercise: ExerciseResponse, score: number): Promise<IntegrityAssessment> {
+    const policy = resolveIntegrityPolicy(exercise);
+
+    try {
+      const [duplicates, recent] = await Promise.all([
+        this.repository.findClassmateDuplicates(
+          submission.userId,
+          submission.exerciseId,
+          submission.answers,
+          policy.duplicateWindowMinutes
+        ),
+        this.repository.getRecentScoreStats(submission.userId)
+      ]);
+
+      const assessment = assessAttempt(exercise, {
+        score,
+        timeSpent: submission.timeSpent,
+        duplicates,
+        recentAverageScore: recent.average,
+        recentAttempts: recent.count
+      }, policy);
+
+      if (assessment.flagged) {
+        log.warn(
+          `Attempt by user ${submission.userId} at exercise ${submission.exerciseId} flagged ` +
+          `(anomaly score ${assessment.anomalyScore}: ${assessment.signals.map(signal => signal.code).join(', ')})`
+        );
+      }
+
+      return assessment;
+    } catch (error) {
+      log.error('Error assessing submission integrity:', error);
+      return { anomalyScore: 0, signals: [], flagged: false, holdRewards: false };
+    }
+  }
+
+  /**
+   * Review queue; teachers see students of their classrooms only
+   */
+  async getFlags(
+    reviewer: FlagReviewer,
+    filters: { status?: AttemptFlagStatus; exerciseId?: string; page?: number; limit?: number }
+  ): Promise<{ flags: AttemptFlag[]; total: number; page: number; limit: number }> {
+    const page = filters.page || 1;
+    const limit = filters.limit || 20;
+
+    const { flags, total } = await this.repository.getFlags({
+      teacherId: this.scopeFor(reviewer),
+      status: filters.status,
+      exerciseId: filters.exerciseId,
+      limit,
+      offset: (page - 1) * limit
+    });
+
+    return { flags, total, page, limit };
+  }
+
+  /**
+   * Clear or confirm a flagged attempt
+   *
+   * Clearing releases held XP and ML Coins; confirming forfeits them.
+   */
+  async reviewFlag(flagId: string, dto: ReviewAttemptFlagDto, reviewer: FlagReviewer): Promise<AttemptFlag> {
+    const client = await this.pool.connect();
+    let released: AttemptFlag | null = null;
+
+    try {
+      await client.query('BEGIN');
+
+      const flag = await this.repository.getFlag(flagId, this.scopeFor(reviewer), client);
+      if (!flag) {
+        throw new AppError('Flagged attempt not found', 404, ErrorCode.NOT_FOUND);
+      }
+      if (flag.status !== 'pending') {
+        throw new AppError('This attempt was already reviewed', 409, 'FLAG_ALREADY_REVIEWED');
+      }
+
+      if (dto.decision === 'cleared' && flag.rewardsHeld) {
+        await this.repository.releaseHeldRewards(flag, client);
+
+        if (flag.heldMlCoins > 0) {
+          await this.coinsRepository.adjustCoins(
+            {
+              userId: flag.userId,
+              amount: flag.heldMlCoins,
+              reason: `Held rewards released for ${flag.exerciseTitle || 'exercise'}`,
+              transactionType: 'earned_exercise',
+              referenceId: flag.attemptId,
+              referenceType: 'exercise_attempt',
+              metadata: { flagId }
+            },
+            client
+          );
+        }
+
+        released = flag;
+      }
+
+      await this.repository.resolveFlag(flagId, dto.decision, reviewer.userId, dto.notes || null, client);
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    if (released && released.heldXp > 0) {
+      // Released XP can complete a promotion; the review is already committed
+      try {
+        await this.ranksService.autoCheckPromotion(released.userId);
+      } catch (error) {
+        log.error('Error checking rank promotion after releasing held rewards:', error);
+      }
+    }
+
+    log.info(`Flag ${flagId} ${dto.decision} by ${reviewer.userId}`);
+    return (await this.repository.getFlag(flagId, null))!;
+  }
+
+  /**
+   * Teacher id to scope the queue by (null for admins)
+   */
+  private scopeFor(reviewer: FlagReviewer): string | null {
+    return reviewer.role === 'super_admin' ? null : reviewer.userId;
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * Submission Outbox Controller
+ * HTTP request handlers for failed submission side effects.
+ */
+
+import { Response, NextFunction } from 'express';
+import { AuthRequest } from '../../shared/types';
+import { SubmissionOutboxService } from './submission-outbox.service';
+
+export class SubmissionOutboxController {
+  constructor(private outboxService: SubmissionOutboxService) {}
+
+  /**
+   * GET /api/educational/submission-events/dead-letter
+   */
+  getDeadLetterEvents = async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+
+      const result = await this.outboxService.getDeadLetterEvents(page, limit);
+
+      res.json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/educational/submission-events/dead-letter/:eventId/replay
+   *
+   * Puts the event back in the outbox with a fresh retry budget.
+   */
+  replayDeadLetterEvent = async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      const { eventId } = req.params;
+
+      const event = await this.outboxService.replayDeadLetterEvent(eventId);
+
+      res.json({
+        success: true,
+        data: event
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
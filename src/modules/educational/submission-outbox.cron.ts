@@ -0,0 +1,70 @@
+/**
+ * Submission Outbox Cron Jobs
+ *
+ * Worker that processes submission side-effect events.
+ */
+
+import * as cron from 'node-cron';
+import { pool } from '../../database/pool';
+import { SubmissionOutboxService } from './submission-outbox.service';
+import { log } from '../../shared/utils/logger';
+
+// Service instance
+const submissionOutboxService = new SubmissionOutboxService(pool);
+
+// Store cron task
+let workerTask: cron.ScheduledTask | null = null;
+let running = false;
+
+/**
+ * Start the submission outbox worker
+ */
+export function startSubmissionOutboxCronJobs(): void {
+  log.info('Starting submission outbox worker...');
+
+  // Process due events every 10 seconds; a run is skipped while the previous one is busy
+  workerTask = cron.schedule('*/10 * * * * *', async () => {
+    if (running) return;
+    running = true;
+
+    try {
+      await runSubmissionOutboxNow();
+    } catch (error) {
+      log.error('Error in submission outbox worker:', error);
+    } finally {
+      running = false;
+    }
+  });
+
+  log.info('Submission outbox worker started (every 10 seconds)');
+}
+
+/**
+ * Stop the submission outbox worker
+ */
+export function stopSubmissionOutboxCronJobs(): void {
+  if (workerTask) {
+    workerTask.stop();
+    workerTask = null;
+    log.info('Submission outbox worker stopped');
+  }
+}
+
+/**
+ * Process due events until the outbox is drained (also for manual runs)
+ */
+export async function runSubmissionOutboxNow(batchSize: number = 50): Promise<number> {
+  let processed = 0;
+
+  while (true) {
+    const result = await submissionOutboxService.processDueEvents(batchSize);
+    processed += result.claimed;
+
+    if (result.deadLettered > 0) {
+      log.warn(`Submission outbox: ${result.deadLettered} event(s) moved to dead letter`);
+    }
+    if (result.claimed < batchSize) break;
+  }
+
+  return processed;
+}
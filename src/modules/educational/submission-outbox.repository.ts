@@ -0,0 +1,271 @@
+/**
+ * Submission Outbox Repository
+ *
+ * Data access layer for submission side-effect events and their
+ * dead-letter table.
+ */
+
+import { Pool, PoolClient } from 'pg';
+import { DeadLetterEvent, SubmissionEvent, SubmissionEventInput } from './educational.types';
+import { log } from '../../shared/utils/logger';
+
+const EVENT_COLUMNS = `
+  id::text as id,
+  attempt_id as "attemptId",
+  user_id as "userId",
+  event_type as "eventType",
+  payload,
+  status,
+  attempts,
+  next_attempt_at as "nextAttemptAt",
+  last_error as "lastError",
+  created_at as "createdAt",
+  processed_at as "processedAt"
+`;
+
+const DEAD_LETTER_COLUMNS = `
+  id::text as id,
+  attempt_id as "attemptId",
+  user_id as "userId",
+  event_type as "eventType",
+  payload,
+  attempts,
+  last_error as "lastError",
+  created_at as "createdAt",
+  failed_at as "failedAt"
+`;
+
+export class SubmissionOutboxRepository {
+  constructor(private pool: Pool) {}
+
+  /**
+   * Create outbox tables if not exist
+   */
+  async ensureOutboxTables(client?: PoolClient): Promise<void> {
+    const db = client || this.pool;
+
+    try {
+      await db.query(`
+        CREATE TABLE IF NOT EXISTS progress_tracking.submission_events (
+          id BIGSERIAL PRIMARY KEY,
+          attempt_id UUID,
+          user_id UUID NOT NULL,
+          event_type TEXT NOT NULL,
+          payload JSONB NOT NULL DEFAULT '{}',
+          status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'completed')),
+          attempts INTEGER NOT NULL DEFAULT 0,
+          next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+          locked_until TIMESTAMPTZ,
+          last_error TEXT,
+          created_at TIMESTAMPTZ DEFAULT NOW(),
+          processed_at TIMESTAMPTZ
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_submission_events_due
+          ON progress_tracking.submission_events(next_attempt_at)
+          WHERE status <> 'completed';
+
+        CREATE INDEX IF NOT EXISTS idx_submission_events_attempt
+          ON progress_tracking.submission_events(attempt_id);
+
+        CREATE TABLE IF NOT EXISTS progress_tracking.submission_events_dead_letter (
+          id BIGINT PRIMARY KEY,
+          attempt_id UUID,
+          user_id UUID NOT NULL,
+          event_type TEXT NOT NULL,
+          payload JSONB NOT NULL DEFAULT '{}',
+          attempts INTEGER NOT NULL,
+          last_error TEXT,
+          created_at TIMESTAMPTZ,
+          failed_at TIMESTAMPTZ DEFAULT NOW()
+        );
+      `);
+    } catch (error) {
+      // Tables might already exist, log and continue
+      log.debug('Submission outbox tables setup:', error);
+    }
+  }
+
+  /**
+   * Enqueue events (run inside the transaction that saves the attempt)
+   */
+  async enqueueEvents(
+    client: PoolClient,
+    attemptId: string | null,
+    userId: string,
+    events: SubmissionEventInput[]
+  ): Promise<void> {
+    for (const event of events) {
+      await client.query(
+        `INSERT INTO progress_tracking.submission_events (attempt_id, user_id, event_type, payload)
+         VALUES ($1, $2, $3, $4)`,
+        [attemptId, userId, event.eventType, JSON.stringify(event.payload)]
+      );
+    }
+  }
+
+  /**
+   * Claim due events for processing
+   *
+   * Events left in `processing` by a crashed worker are claimed again once
+   * their lease runs out.
+   */
+  async claimDueEvents(limit: number, leaseSeconds: number): Promise<SubmissionEvent[]> {
+    const result = await this.pool.query(
+      `UPDATE progress_tracking.submission_events
+       SET status = 'processing',
+           attempts = attempts + 1,
+           locked_until = NOW() + ($2 * INTERVAL '1 second')
+       WHERE id IN (
+         SELECT id FROM progress_tracking.submission_events
+         WHERE (status = 'pending' AND next_attempt_at <= NOW())
+            OR (status = 'processing' AND locked_until < NOW())
+         ORDER BY id
+         LIMIT $1
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING ${EVENT_COLUMNS}`,
+      [limit, leaseSeconds]
+    );
+
+    return result.rows.sort((a, b) => Number(a.id) - Number(b.id));
+  }
+
+  /**
+   * Lock a claimed event for the rest of the transaction and return its
+   * status (null once it was moved to the dead-letter table)
+   *
+   * A worker that claimed the event again after its lease ran out waits
+   * here until the first one commits or rolls back.
+   */
+  async lockEvent(client: PoolClient, eventId: string): Promise<SubmissionEvent['status'] | null> {
+    const result = await client.query(
+      `SELECT status FROM progress_tracking.submission_events WHERE id = $1 FOR UPDATE`,
+      [eventId]
+    );
+
+    return result.rows[0]?.status ?? null;
+  }
+
+  /**
+   * Mark an event completed and enqueue its follow-up events (run inside
+   * the transaction that handled it)
+   */
+  async completeEvent(client: PoolClient, event: SubmissionEvent, followUps: SubmissionEventInput[]): Promise<void> {
+    await client.query(
+      `UPDATE progress_tracking.submission_events
+       SET status = 'completed', processed_at = NOW(), locked_until = NULL, last_error = NULL
+       WHERE id = $1`,
+      [event.id]
+    );
+
+    await this.enqueueEvents(client, event.attemptId, event.userId, followUps);
+  }
+
+  /**
+   * Schedule another try of a failed event
+   */
+  async scheduleRetry(eventId: string, errorMessage: string, delaySeconds: number): Promise<void> {
+    await this.pool.query(
+      `UPDATE progress_tracking.submission_events
+       SET status = 'pending',
+           locked_until = NULL,
+           last_error = $2,
+           next_attempt_at = NOW() + ($3 * INTERVAL '1 second')
+       WHERE id = $1`,
+      [eventId, errorMessage, delaySeconds]
+    );
+  }
+
+  /**
+   * Move an event that ran out of retries to the dead-letter table
+   */
+  async moveToDeadLetter(eventId: string, errorMessage: string): Promise<void> {
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      await client.query(
+        `INSERT INTO progress_tracking.submission_events_dead_letter
+           (id, attempt_id, user_id, event_type, payload, attempts, last_error, created_at)
+         SELECT id, attempt_id, user_id, event_type, payload, attempts, $2, created_at
+         FROM progress_tracking.submission_events
+         WHERE id = $1`,
+        [eventId, errorMessage]
+      );
+
+      await client.query(
+        `DELETE FROM progress_tracking.submission_events WHERE id = $1`,
+        [eventId]
+      );
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * List dead-letter events, newest first
+   */
+  async getDeadLetterEvents(limit: number, offset: number): Promise<{ events: DeadLetterEvent[]; total: number }> {
+    const [events, count] = await Promise.all([
+      this.pool.query(
+        `SELECT ${DEAD_LETTER_COLUMNS}
+         FROM progress_tracking.submission_events_dead_letter
+         ORDER BY failed_at DESC
+         LIMIT $1 OFFSET $2`,
+        [limit, offset]
+      ),
+      this.pool.query(
+        `SELECT COUNT(*)::int as total FROM progress_tracking.submission_events_dead_letter`
+      )
+    ]);
+
+    return { events: events.rows, total: count.rows[0].total };
+  }
+
+  /**
+   * Put a dead-letter event back in the outbox with a fresh retry budget;
+   * returns null if it does not exist
+   */
+  async requeueDeadLetter(eventId: string): Promise<SubmissionEvent | null> {
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const dead = await client.query(
+        `DELETE FROM progress_tracking.submission_events_dead_letter
+         WHERE id = $1
+         RETURNING attempt_id, user_id, event_type, payload, created_at`,
+        [eventId]
+      );
+
+      if (dead.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return null;
+      }
+
+      const row = dead.rows[0];
+      const result = await client.query(
+        `INSERT INTO progress_tracking.submission_events (id, attempt_id, user_id, event_type, payload, created_at)
+         VALUES ($1, $2, $3, $4, $5, $6)
+         RETURNING ${EVENT_COLUMNS}`,
+        [eventId, row.attempt_id, row.user_id, row.event_type, row.payload, row.created_at]
+      );
+
+      await client.query('COMMIT');
+      return result.rows[0];
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+}
@@ -0,0 +1,292 @@
+/**
+ * Submission Outbox Service
+ *
+ * Processes the side effects of exercise submissions, reviews and teacher
+ * grades (streaks, achievements, rank promotion, module progress, missions,
+ * the review queue, learner analytics and notifications). Events are written in the same transaction as the
+ * attempt, so none is lost; failed events are retried with backoff and
+ * moved to a dead-letter table when they run out of tries.
+ *
+ * Each event is handled in a transaction that marks it completed. Handlers
+ * that write through that transaction's client (module progress and
+ * missions) take effect exactly once; the others may repeat on a retry.
+ */
+
+import { Pool, PoolClient } from 'pg';
+import { SubmissionOutboxRepository } from './submission-outbox.repository';
+import { ProgressService } from './progress.service';
+import { ReviewQueueService } from './review-queue.service';
+import { AnalyticsService } from './analytics.service';
+import {
+  DeadLetterEvent,
+  OutboxRunResult,
+  SubmissionEvent,
+  SubmissionEventInput,
+  SubmissionEventType
+} from './educational.types';
+import { RanksService } from '../gamification/ranks.service';
+import { RanksRepository } from '../gamification/ranks.repository';
+import { StreaksService } from '../gamification/streaks.service';
+import { AchievementsService } from '../gamification/achievements.service';
+import { notifyAchievementUnlocked, notifyExerciseFeedback, notifyRankUp } from '../notifications/notifications.helper';
+import { MissionsService } from '../gamification/missions/missions.service';
+import { MissionsRepository } from '../gamification/missions/missions.repository';
+import { AppError } from '../../middleware/error.middleware';
+import { ErrorCode } from '../../shared/types';
+import { log } from '../../shared/utils/logger';
+
+const MAX_ATTEMPTS = 5;
+const BASE_RETRY_SECONDS = 30; // Doubles on every failed try
+const MAX_RETRY_SECONDS = 60 * 60;
+const LEASE_SECONDS = 5 * 60; // A claimed event is retried if not finished by then
+
+/**
+ * Handler for one event type, given the client of the transaction that
+ * completes the event; may return follow-up events
+ */
+type SubmissionEventHandler = (
+  event: SubmissionEvent,
+  client: PoolClient
+) => Promise<SubmissionEventInput[] | void>;
+
+export class SubmissionOutboxService {
+  private repository: SubmissionOutboxRepository;
+  private streaksService: StreaksService;
+  private achievementsService: AchievementsService;
+  private ranksService: RanksService;
+  private progressService: ProgressService;
+  private reviewQueueService: ReviewQueueService;
+  private analyticsService: AnalyticsService;
+  private missionsService: MissionsService;
+  private handlers: Record<SubmissionEventType, SubmissionEventHandler>;
+
+  constructor(private pool: Pool) {
+    this.repository = new SubmissionOutboxRepository(pool);
+    this.streaksService = new StreaksService(pool);
+    this.achievementsService = new AchievementsService(pool);
+    this.ranksService = new RanksService(new RanksRepository(pool));
+    this.progressService = new ProgressService(pool);
+    this.reviewQueueService = new ReviewQueueService(pool);
+    this.analyticsService = new AnalyticsService(pool);
+    this.missionsService = new MissionsService(new MissionsRepository(pool));
+
+    this.handlers = {
+      'streak.activity': event => this.handleStreakActivity(event),
+      'achievements.check': event => this.handleAchievementsCheck(event),
+      'achievement.notify': event => this.handleAchievementNotify(event),
+      'rank.check': event => this.handleRankCheck(event),
+      'rank.notify': event => this.handleRankNotify(event),
+      'module_progress.completed': (event, client) => this.handleModuleProgress(event, client),
+      'missions.exercise_completed': (event, client) => this.handleExerciseMissions(event, client),
+      'missions.ml_coins_earned': (event, client) => this.handleMLCoinsMissions(event, client),
+      'missions.xp_earned': (event, client) => this.handleXPMissions(event, client),
+      'review_queue.collect': event => this.handleReviewQueueCollect(event),
+      'missions.review_completed': (event, client) => this.handleReviewMissions(event, client),
+      'grade.notify': event => this.handleGradeNotify(event),
+      'analytics.refresh': event => this.handleAnalyticsRefresh(event)
+    };
+  }
+
+  /**
+   * Initialize outbox (ensure tables exist)
+   */
+  async initialize(): Promise<void> {
+    await this.repository.ensureOutboxTables();
+  }
+
+  /**
+   * Process due events in order
+   */
+  async processDueEvents(batchSize: number = 50): Promise<OutboxRunResult> {
+    const events = await this.repository.claimDueEvents(batchSize, LEASE_SECONDS);
+    const result: OutboxRunResult = { claimed: events.length, completed: 0, retried: 0, deadLettered: 0 };
+
+    for (const event of events) {
+      try {
+        const handler = this.handlers[event.eventType];
+        if (!handler) {
+          throw new Error(`No handler for event type ${event.eventType}`);
+        }
+
+        await this.handleEvent(event, handler);
+        result.completed++;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+
+        if (event.attempts >= MAX_ATTEMPTS) {
+          log.error(`Submission event ${event.id} (${event.eventType}) moved to dead letter: ${message}`);
+          await this.repository.moveToDeadLetter(event.id, message);
+          result.deadLettered++;
+        } else {
+          const delay = Math.min(MAX_RETRY_SECONDS, BASE_RETRY_SECONDS * 2 ** (event.attempts - 1));
+          log.warn(`Submission event ${event.id} (${event.eventType}) failed, retrying in ${delay}s: ${message}`);
+          await this.repository.scheduleRetry(event.id, message, delay);
+          result.retried++;
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * List dead-letter events
+   */
+  async getDeadLetterEvents(page: number = 1, limit: number = 50): Promise<{
+    events: DeadLetterEvent[];
+    total: number;
+    page: number;
+    limit: number;
+  }> {
+    const offset = (page - 1) * limit;
+    const { events, total } = await this.repository.getDeadLetterEvents(limit, offset);
+
+    return { events, total, page, limit };
+  }
+
+  /**
+   * Replay a dead-letter event (it is picked up by the next worker run)
+   */
+  async replayDeadLetterEvent(eventId: string): Promise<SubmissionEvent> {
+    const event = await this.repository.requeueDeadLetter(eventId);
+    if (!event) {
+      throw new AppError('Dead-letter event not found', 404, ErrorCode.NOT_FOUND);
+    }
+
+    log.info(`Submission event ${eventId} (${event.eventType}) re-queued from dead letter`);
+    return event;
+  }
+
+  /**
+   * Run a handler and complete its event in one transaction
+   *
+   * An event completed by another worker in the meantime is skipped.
+   */
+  private async handleEvent(event: SubmissionEvent, handler: SubmissionEventHandler): Promise<void> {
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const status = await this.repository.lockEvent(client, event.id);
+      if (status !== 'processing') {
+        await client.query('ROLLBACK');
+        return;
+      }
+
+      const followUps = (await handler(event, client)) || [];
+      await this.repository.completeEvent(client, event, followUps);
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // ============================================================================
+  // EVENT HANDLERS
+  // ============================================================================
+
+  private async handleStreakActivity(event: SubmissionEvent): Promise<void> {
+    await this.streaksService.onUserActivity(event.userId);
+  }
+
+  private async handleAchievementsCheck(event: SubmissionEvent): Promise<SubmissionEventInput[]> {
+    const { exerciseId, score, hintsUsed, timeSpent } = event.payload;
+
+    const unlocked = await this.achievementsService.checkAndUnlockAchievements(event.userId, {
+      exerciseId,
+      score,
+      hintsUsed,
+      timeSpent
+    });
+
+    return unlocked.map(achievement => ({
+      eventType: 'achievement.notify' as const,
+      payload: {
+        achievementId: achievement.id,
+        name: achievement.name,
+        icon: achievement.icon || '🏆',
+        mlCoins: achievement.mlCoinsReward || 0
+      }
+    }));
+  }
+
+  private async handleAchievementNotify(event: SubmissionEvent): Promise<void> {
+    const { achievementId, name, icon, mlCoins } = event.payload;
+    await notifyAchievementUnlocked(event.userId, achievementId, name, icon, mlCoins);
+  }
+
+  private async handleRankCheck(event: SubmissionEvent): Promise<SubmissionEventInput[]> {
+    const promotion = await this.ranksService.autoCheckPromotion(event.userId);
+    if (!promotion.promoted) return [];
+
+    log.info(
+      `User ${event.userId} promoted from ${promotion.previousRank || 'unknown'} to ${promotion.newRank}!`
+    );
+
+    return [{
+      eventType: 'rank.notify',
+      payload: {
+        newRank: promotion.newRank,
+        previousRank: promotion.previousRank || 'nacom',
+        mlCoins: promotion.rewards?.mlCoins || 0
+      }
+    }];
+  }
+
+  private async handleRankNotify(event: SubmissionEvent): Promise<void> {
+    const { newRank, previousRank, mlCoins } = event.payload;
+    await notifyRankUp(event.userId, newRank, previousRank, mlCoins);
+  }
+
+  private async handleModuleProgress(event: SubmissionEvent, client: PoolClient): Promise<void> {
+    await this.progressService.updateModuleProgress(event.userId, event.payload.moduleId, true, client);
+  }
+
+  // Mission handlers update progress through the missions service rather
+  // than the missions event helpers, which swallow errors: a failed update
+  // must fail the event so it is retried and, in the end, dead-lettered
+
+  private async handleExerciseMissions(event: SubmissionEvent, client: PoolClient): Promise<void> {
+    await this.missionsService.updateMissionProgress(event.userId, 'exercises_completed', 1, client);
+    await this.missionsService.updateMissionProgress(event.userId, 'weekly_exercises', 1, client);
+
+    if (event.payload.score === 100) {
+      await this.missionsService.updateMissionProgress(event.userId, 'perfect_scores', 1, client);
+    }
+  }
+
+  private async handleMLCoinsMissions(event: SubmissionEvent, client: PoolClient): Promise<void> {
+    await this.missionsService.updateMissionProgress(event.userId, 'ml_coins_earned', event.payload.amount, client);
+  }
+
+  private async handleXPMissions(event: SubmissionEvent, client: PoolClient): Promise<void> {
+    await this.missionsService.updateMissionProgress(event.userId, 'total_xp_earned', event.payload.amount, client);
+  }
+
+  private async handleReviewQueueCollect(event: SubmissionEvent): Promise<void> {
+    if (!event.attemptId) return;
+    await this.reviewQueueService.collectMissedItems(event.attemptId, event.userId);
+  }
+
+  private async handleReviewMissions(event: SubmissionEvent, client: PoolClient): Promise<void> {
+    await this.missionsService.updateMissionProgress(event.userId, 'reviews_completed', 1, client);
+  }
+
+  private async handleGradeNotify(event: SubmissionEvent): Promise<void> {
+    const { exerciseId, exerciseTitle, score, regraded } = event.payload;
+    const message = regraded
+      ? `Tu docente actualizó la calificación de "${exerciseTitle}": ${score}/100`
+      : `Tu docente calificó "${exerciseTitle}": ${score}/100`;
+
+    await notifyExerciseFeedback(event.userId, exerciseId, message);
+  }
+
+  private async handleAnalyticsRefresh(event: SubmissionEvent): Promise<void> {
+    await this.analyticsService.refreshUserAnalytics(event.userId);
+  }
+}
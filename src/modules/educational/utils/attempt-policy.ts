@@ -0,0 +1,100 @@
+/**
+ * Attempt Policy Utilities
+ *
+ * Attempt limits, cooldowns and the counted-score policy for exercises.
+ * Works from `exercise.userProgress`, so the exercise must be loaded for
+ * the student.
+ */
+
+import { AppError } from '../../../middleware/error.middleware';
+import {
+  AttemptPolicy,
+  AttemptScorePolicy,
+  AttemptStatus,
+  ExerciseResponse
+} from '../educational.types';
+
+const SCORE_POLICIES: AttemptScorePolicy[] = ['best', 'latest', 'average'];
+
+/**
+ * The fields of an exercise the attempt policy reads
+ */
+export type AttemptPolicySource = Pick<ExerciseResponse, 'maxAttempts' | 'content' | 'userProgress'>;
+
+/**
+ * Resolve the attempt policy of an exercise
+ */
+export function resolveAttemptPolicy(exercise: AttemptPolicySource): AttemptPolicy {
+  const override = exercise.content?.attemptPolicy || {};
+  const maxAttempts = Number(exercise.maxAttempts) || 0;
+
+  return {
+    maxAttempts: maxAttempts > 0 ? maxAttempts : null,
+    cooldownMinutes: Math.max(0, Number(override.cooldownMinutes) || 0),
+    scorePolicy: SCORE_POLICIES.includes(override.scorePolicy) ? override.scorePolicy : 'best'
+  };
+}
+
+/**
+ * Current attempt standing of the student the exercise was loaded for
+ */
+export function getAttemptStatus(exercise: AttemptPolicySource, now: Date = new Date()): AttemptStatus {
+  const policy = resolveAttemptPolicy(exercise);
+  const progress = exercise.userProgress;
+  const attemptsUsed = Number(progress?.attempts) || 0;
+
+  const remainingAttempts = policy.maxAttempts !== null
+    ? Math.max(0, policy.maxAttempts - attemptsUsed)
+    : null;
+
+  let cooldownEndsAt: Date | null = null;
+  if (policy.cooldownMinutes > 0 && progress?.lastAttemptedAt) {
+    const endsAt = new Date(new Date(progress.lastAttemptedAt).getTime() + policy.cooldownMinutes * 60000);
+    cooldownEndsAt = endsAt > now ? endsAt : null;
+  }
+
+  return {
+    maxAttempts: policy.maxAttempts,
+    attemptsUsed,
+    remainingAttempts,
+    cooldownEndsAt,
+    canAttempt: remainingAttempts !== 0 && cooldownEndsAt === null,
+    scorePolicy: policy.scorePolicy,
+    countedScore: attemptsUsed > 0 ? countedScore(exercise, policy.scorePolicy) : null
+  };
+}
+
+/**
+ * Throw if the student may not start or submit another attempt
+ */
+export function assertCanAttempt(exercise: ExerciseResponse, now: Date = new Date()): AttemptStatus {
+  const status = getAttemptStatus(exercise, now);
+
+  if (status.remainingAttempts === 0) {
+    throw new AppError(
+      `Maximum number of attempts reached (${status.maxAttempts})`,
+      403,
+      'MAX_ATTEMPTS_REACHED'
+    );
+  }
+
+  if (status.cooldownEndsAt) {
+    throw new AppError(
+      `Please wait before trying again. Next attempt available at ${status.cooldownEndsAt.toISOString()}`,
+      429,
+      'ATTEMPT_COOLDOWN'
+    );
+  }
+
+  return status;
+}
+
+function countedScore(exercise: AttemptPolicySource, scorePolicy: AttemptScorePolicy): number {
+  const progress = exercise.userProgress;
+
+  switch (scorePolicy) {
+    case 'latest': return Number(progress?.latestScore) || 0;
+    case 'average': return Number(progress?.averageScore) || 0;
+    default: return Number(progress?.bestScore) || 0;
+  }
+}
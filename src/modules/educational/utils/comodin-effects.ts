@@ -0,0 +1,131 @@
+/**
+ * Comodín Effects
+ *
+ * What each comodín does to an active attempt. Effects are computed from
+ * the full exercise on the server; none of them reveals a correct answer.
+ */
+
+import { AppError } from '../../../middleware/error.middleware';
+import { ComodinEffect, ComodinType, ExerciseResponse } from '../educational.types';
+import { scorerRegistry } from '../scorers';
+
+/**
+ * Content collections whose items may carry a `highlight` passage
+ */
+const HIGHLIGHT_COLLECTIONS = ['questions', 'statements', 'claims', 'blanks', 'events'];
+
+/**
+ * pistas: reveal the next hint, one per use
+ */
+export function revealNextHint(exercise: ExerciseResponse, hintsAlreadyRevealed: number): ComodinEffect {
+  const hints: any[] = exercise.hints || [];
+
+  if (hintsAlreadyRevealed >= hints.length) {
+    throw new AppError('No more hints available for this exercise', 400, 'POWERUP_NOT_APPLICABLE');
+  }
+
+  const hint = hints[hintsAlreadyRevealed];
+
+  return {
+    type: ComodinType.PISTAS,
+    hint: {
+      order: hintsAlreadyRevealed + 1,
+      text: typeof hint === 'string' ? hint : hint?.text
+    },
+    hintsRemaining: hints.length - hintsAlreadyRevealed - 1
+  };
+}
+
+/**
+ * vision_lectora: remove distractors from choice questions, or highlight
+ * the relevant passage for types without options
+ *
+ * One distractor is kept per question so the choice is still a choice;
+ * `seed` (the attempt session id) picks it, so the result is stable.
+ */
+export function applyVisionLectora(exercise: ExerciseResponse, seed: string): ComodinEffect {
+  const questions: any[] = exercise.content?.questions || [];
+  const choiceQuestions = questions.filter(
+    question => Array.isArray(question.options) && question.options.length > 2
+  );
+
+  if (choiceQuestions.length > 0) {
+    const removedOptions: Record<string, any[]> = {};
+    const offset = seedNumber(seed);
+
+    questions.forEach((question, index) => {
+      if (!choiceQuestions.includes(question)) return;
+
+      const distractors = question.options.filter(
+        (option: any, optionIndex: number) => !isCorrectOption(option, optionIndex, question.correctAnswer)
+      );
+      const kept = distractors[offset % distractors.length];
+
+      removedOptions[String(question.id ?? index)] = distractors.filter((option: any) => option !== kept);
+    });
+
+    return { type: ComodinType.VISION_LECTORA, mode: 'remove_distractors', removedOptions };
+  }
+
+  const highlights: Array<{ itemId: string; passage: any }> = [];
+
+  for (const collection of HIGHLIGHT_COLLECTIONS) {
+    const items: any[] = exercise.content?.[collection] || [];
+    items.forEach((item, index) => {
+      if (item?.highlight) {
+        highlights.push({ itemId: String(item.id ?? index), passage: item.highlight });
+      }
+    });
+  }
+
+  for (const passage of exercise.content?.highlights || []) {
+    highlights.push({ itemId: 'exercise', passage });
+  }
+
+  if (highlights.length === 0) {
+    throw new AppError('Visión Lectora has no effect on this exercise', 400, 'POWERUP_NOT_APPLICABLE');
+  }
+
+  return { type: ComodinType.VISION_LECTORA, mode: 'highlight', highlights };
+}
+
+/**
+ * segunda_oportunidad: grade the current answers and report which items
+ * are wrong, so the student can fix them before submitting the attempt
+ */
+export function checkForSecondChance(exercise: ExerciseResponse, answers: any): ComodinEffect {
+  if (answers === undefined || answers === null) {
+    throw new AppError('Answers are required to use Segunda Oportunidad', 400, 'VALIDATION_ERROR');
+  }
+
+  const result = scorerRegistry.score(answers, exercise);
+
+  if (result.reasonCode !== 'SCORED') {
+    throw new AppError(
+      'Segunda Oportunidad has no effect on this exercise',
+      400,
+      'POWERUP_NOT_APPLICABLE'
+    );
+  }
+
+  return {
+    type: ComodinType.SEGUNDA_OPORTUNIDAD,
+    wrongItems: result.items.filter(item => item.credit < 1).map(item => item.itemId),
+    gradedItems: result.items.length
+  };
+}
+
+function isCorrectOption(option: any, index: number, correctAnswer: any): boolean {
+  const accepted = Array.isArray(correctAnswer) ? correctAnswer : [correctAnswer];
+
+  return accepted.some(answer =>
+    answer === option ||
+    answer === index ||
+    (option && typeof option === 'object' &&
+      (answer === option.id || answer === option.value || answer === option.text))
+  );
+}
+
+function seedNumber(seed: string): number {
+  return parseInt(seed.replace(/[^0-9a-f]/gi, '').slice(0, 8) || '0', 16) || 0;
+}
@@ -0,0 +1,387 @@
+/**
+ * Exercise Recommender
+ *
+ * Ranks the exercises a student could do next. Each candidate earns
+ * priority for:
+ * - missed items of the exercise due for review
+ * - a skill or exercise type the student has been scoring low on
+ * - not having been tried (or passed) yet, and being next in its module
+ * - matching the difficulty the student should practice the skill at,
+ *   which steps up after strong recent scores and down after weak ones
+ *
+ * Every contribution comes with a reason, so the student can be told why
+ * an exercise was picked.
+ */
+
+import {
+  DifficultyLevel,
+  ExerciseRecommendation,
+  ExerciseType,
+  LearnerPerformance,
+  PerformanceStat,
+  RangoMaya,
+  RecentAttemptScore,
+  RecommendationCandidate,
+  RecommendationReason,
+  SkillArea,
+  TargetDifficulty
+} from '../educational.types';
+import { AttemptPolicySource, getAttemptStatus } from './attempt-policy';
+
+/**
+ * Skill each exercise type trains (auxiliary types join the closest module)
+ */
+const EXERCISE_SKILLS: Record<ExerciseType, SkillArea> = {
+  [ExerciseType.CRUCIGRAMA]: 'literal',
+  [ExerciseType.LINEA_TIEMPO]: 'literal',
+  [ExerciseType.SOPA_LETRAS]: 'literal',
+  [ExerciseType.MAPA_CONCEPTUAL]: 'literal',
+  [ExerciseType.EMPAREJAMIENTO]: 'literal',
+  [ExerciseType.VERDADERO_FALSO]: 'literal',
+  [ExerciseType.COMPLETAR_ESPACIOS]: 'literal',
+  [ExerciseType.DETECTIVE_TEXTUAL]: 'inferential',
+  [ExerciseType.CONSTRUCCION_HIPOTESIS]: 'inferential',
+  [ExerciseType.PREDICCION_NARRATIVA]: 'inferential',
+  [ExerciseType.PUZZLE_CONTEXTO]: 'inferential',
+  [ExerciseType.RUEDA_INFERENCIAS]: 'inferential',
+  [ExerciseType.COMPRENSION_AUDITIVA]: 'inferential',
+  [ExerciseType.TRIBUNAL_OPINIONES]: 'critical',
+  [ExerciseType.DEBATE_DIGITAL]: 'critical',
+  [ExerciseType.ANALISIS_FUENTES]: 'critical',
+  [ExerciseType.PODCAST_ARGUMENTATIVO]: 'critical',
+  [ExerciseType.MATRIZ_PERSPECTIVAS]: 'critical',
+  [ExerciseType.VERIFICADOR_FAKE_NEWS]: 'digital',
+  [ExerciseType.INFOGRAFIA_INTERACTIVA]: 'digital',
+  [ExerciseType.QUIZ_TIKTOK]: 'digital',
+  [ExerciseType.NAVEGACION_HIPERTEXTUAL]: 'digital',
+  [ExerciseType.ANALISIS_MEMES]: 'digital',
+  [ExerciseType.TEXTO_MOVIMIENTO]: 'digital',
+  [ExerciseType.CALL_TO_ACTION]: 'digital',
+  [ExerciseType.DIARIO_MULTIMEDIA]: 'production',
+  [ExerciseType.COMIC_DIGITAL]: 'production',
+  [ExerciseType.VIDEO_CARTA]: 'production',
+  [ExerciseType.COLLAGE_PRENSA]: 'production',
+  [ExerciseType.DIARIO_INTERACTIVO]: 'production',
+  [ExerciseType.RESUMEN_VISUAL]: 'production'
+};
+
+const SKILL_LABELS: Record<SkillArea, string> = {
+  literal: 'literal comprehension',
+  inferential: 'inference',
+  critical: 'critical reading',
+  digital: 'digital reading',
+  production: 'reading production'
+};
+
+const DIFFICULTY_ORDER = [DifficultyLevel.BEGINNER, DifficultyLevel.INTERMEDIATE, DifficultyLevel.ADVANCED];
+const RANK_ORDER = [RangoMaya.NACOM, RangoMaya.BATAB, RangoMaya.HOLCATTE, RangoMaya.GUERRERO, RangoMaya.MERCENARIO];
+
+const WEAK_SCORE = 70; // Averages below this count as struggling
+const STEP_UP_SCORE = 85;
+const STEP_DOWN_SCORE = 60;
+const MIN_ATTEMPTS = 2; // Recent attempts needed before a weakness counts
+const STEP_UP_ATTEMPTS = 3;
+const LEVEL_WINDOW = 5; // Recent attempts of a skill that set its difficulty
+
+/**
+ * Priority an exercise earns for one signal, and the reason to show for it
+ */
+type Contribution = { weight: number; reason?: RecommendationReason };
+
+const WEIGHTS = {
+  reviewDuePerItem: 10,
+  reviewDueMax: 30,
+  weakSkill: 30,
+  weakType: 20,
+  notAttempted: 25,
+  notPassed: 15,
+  completed: -30,
+  nextInModule: 10,
+  difficultyMatch: 20,
+  difficultyNear: 5,
+  difficultyFar: -15
+};
+
+/**
+ * Skill an exercise type trains
+ */
+export function skillOf(exerciseType: ExerciseType): SkillArea {
+  return EXERCISE_SKILLS[exerciseType] || 'literal';
+}
+
+/**
+ * Whether a rank reaches the rank a module requires
+ */
+export function meetsRankRequirement(required: RangoMaya | null, current: RangoMaya): boolean {
+  if (!required) return true;
+
+  const requiredIndex = RANK_ORDER.indexOf(required);
+  return requiredIndex === -1 || RANK_ORDER.indexOf(current) >= requiredIndex;
+}
+
+/**
+ * Average recent scores per exercise type, difficulty and skill
+ */
+export function summarizePerformance(recent: RecentAttemptScore[]): LearnerPerformance {
+  return {
+    byType: averageBy(recent, attempt => attempt.exerciseType),
+    byDifficulty: averageBy(recent, attempt => attempt.difficulty),
+    bySkill: averageBy(recent, attempt => skillOf(attempt.exerciseType))
+  };
+}
+
+/**
+ * Difficulty to practice each skill at
+ *
+ * Starts from the difficulty of the student's latest attempts at the skill
+ * and steps up after strong scores, down after weak ones. Skills without
+ * attempts start at beginner.
+ */
+export function targetDifficulties(recent: RecentAttemptScore[]): Partial<Record<SkillArea, TargetDifficulty>> {
+  const targets: Partial<Record<SkillArea, TargetDifficulty>> = {};
+  const latestFirst = [...recent].sort((a, b) => new Date(b.submittedAt).getTime() - new Date(a.submittedAt).getTime());
+
+  for (const skill of Object.keys(SKILL_LABELS) as SkillArea[]) {
+    const window = latestFirst.filter(attempt => skillOf(attempt.exerciseType) === skill).slice(0, LEVEL_WINDOW);
+
+    if (window.length === 0) {
+      targets[skill] = { difficulty: DifficultyLevel.BEGINNER, change: 'same' };
+      continue;
+    }
+
+    const level = Math.max(0, DIFFICULTY_ORDER.indexOf(window[0].difficulty));
+    const average = window.reduce((sum, attempt) => sum + Number(attempt.score), 0) / window.length;
+
+    if (average >= STEP_UP_SCORE && window.length >= STEP_UP_ATTEMPTS && level < DIFFICULTY_ORDER.length - 1) {
+      targets[skill] = { difficulty: DIFFICULTY_ORDER[level + 1], change: 'up' };
+    } else if (average < STEP_DOWN_SCORE && window.length >= MIN_ATTEMPTS && level > 0) {
+      targets[skill] = { difficulty: DIFFICULTY_ORDER[level - 1], change: 'down' };
+    } else {
+      targets[skill] = { difficulty: DIFFICULTY_ORDER[level], change: 'same' };
+    }
+  }
+
+  return targets;
+}
+
+/**
+ * Rank candidates and return the best `limit`
+ *
+ * Candidates the student cannot attempt right now (no attempts left, or
+ * cooling down) are left out; rank gating is up to the caller.
+ */
+export function recommendExercises(
+  candidates: RecommendationCandidate[],
+  recent: RecentAttemptScore[],
+  limit: number
+): ExerciseRecommendation[] {
+  const performance = summarizePerformance(recent);
+  const targets = targetDifficulties(recent);
+  const nextInModule = firstUnattemptedPerModule(candidates);
+
+  return candidates
+    .filter(candidate => getAttemptStatus(toExercise(candidate)).canAttempt)
+    .map(candidate => {
+      const skill = skillOf(candidate.exerciseType);
+      const contributions: Array<Contribution> = [
+        reviewDue(candidate),
+        weakness('weak_skill', performance.bySkill[skill], WEIGHTS.weakSkill, SKILL_LABELS[skill], { skill }),
+        weakness('weak_type', performance.byType[candidate.exerciseType], WEIGHTS.weakType,
+          `${typeLabel(candidate.exerciseType)} exercises`, { exerciseType: candidate.exerciseType }),
+        history(candidate),
+        nextInModule.has(candidate.id)
+          ? {
+              weight: WEIGHTS.nextInModule,
+              reason: {
+                code: 'next_in_module',
+                message: `Next exercise in ${candidate.moduleTitle}`,
+                details: { moduleId: candidate.moduleId }
+              }
+            }
+          : { weight: 0 },
+        difficultyFit(candidate, skill, targets[skill]!)
+      ];
+
+      const reasons = contributions
+        .filter(contribution => contribution.reason && contribution.weight > 0)
+        .sort((a, b) => b.weight - a.weight)
+        .map(contribution => contribution.reason!);
+
+      return {
+        candidate,
+        recommendation: {
+          exerciseId: candidate.id,
+          moduleId: candidate.moduleId,
+          moduleTitle: candidate.moduleTitle,
+          title: candidate.title,
+          exerciseType: candidate.exerciseType,
+          difficulty: candidate.difficulty,
+          skill,
+          estimatedTimeMinutes: candidate.estimatedTimeMinutes,
+          priority: Math.round(contributions.reduce((sum, contribution) => sum + contribution.weight, 0)),
+          reasons
+        }
+      };
+    })
+    .sort((a, b) =>
+      b.recommendation.priority - a.recommendation.priority ||
+      a.candidate.moduleOrder - b.candidate.moduleOrder ||
+      a.candidate.orderIndex - b.candidate.orderIndex
+    )
+    .slice(0, limit)
+    .map(({ recommendation }) => recommendation);
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function averageBy<K extends string>(
+  recent: RecentAttemptScore[],
+  keyOf: (attempt: RecentAttemptScore) => K
+): Partial<Record<K, PerformanceStat>> {
+  const totals = new Map<K, { attempts: number; total: number }>();
+
+  for (const attempt of recent) {
+    const key = keyOf(attempt);
+    const entry = totals.get(key) || { attempts: 0, total: 0 };
+    entry.attempts++;
+    entry.total += Number(attempt.score) || 0;
+    totals.set(key, entry);
+  }
+
+  const stats: Partial<Record<K, PerformanceStat>> = {};
+  totals.forEach((entry, key) => {
+    stats[key] = { attempts: entry.attempts, averageScore: Math.round(entry.total / entry.attempts) };
+  });
+
+  return stats;
+}
+
+function reviewDue(candidate: RecommendationCandidate): Contribution {
+  if (candidate.dueReviews <= 0) return { weight: 0 };
+
+  return {
+    weight: Math.min(WEIGHTS.reviewDueMax, candidate.dueReviews * WEIGHTS.reviewDuePerItem),
+    reason: {
+      code: 'review_due',
+      message: `${candidate.dueReviews} item(s) you missed here are due for review`,
+      details: { dueReviews: candidate.dueReviews }
+    }
+  };
+}
+
+/**
+ * Priority for practicing where recent scores are low; the lower the
+ * average, the closer to the full weight
+ */
+function weakness(
+  code: 'weak_skill' | 'weak_type',
+  stat: PerformanceStat | undefined,
+  weight: number,
+  label: string,
+  details: Record<string, any>
+): Contribution {
+  if (!stat || stat.attempts < MIN_ATTEMPTS || stat.averageScore >= WEAK_SCORE) return { weight: 0 };
+
+  return {
+    weight: weight * (WEAK_SCORE - stat.averageScore) / WEAK_SCORE,
+    reason: {
+      code,
+      message: `Because you struggled with ${label} (${stat.averageScore}% average in recent attempts)`,
+      details: { ...details, averageScore: stat.averageScore, attempts: stat.attempts }
+    }
+  };
+}
+
+function history(candidate: RecommendationCandidate): Contribution {
+  if (candidate.attempts === 0) {
+    return {
+      weight: WEIGHTS.notAttempted,
+      reason: { code: 'not_attempted', message: 'You have not tried this exercise yet' }
+    };
+  }
+
+  if (!candidate.completed) {
+    return {
+      weight: WEIGHTS.notPassed,
+      reason: {
+        code: 'not_passed',
+        message: `You have not passed this exercise yet (best score ${Math.round(Number(candidate.bestScore) || 0)}%)`,
+        details: { bestScore: candidate.bestScore, attempts: candidate.attempts }
+      }
+    };
+  }
+
+  return { weight: WEIGHTS.completed };
+}
+
+function difficultyFit(
+  candidate: RecommendationCandidate,
+  skill: SkillArea,
+  target: TargetDifficulty
+): Contribution {
+  const distance = Math.abs(DIFFICULTY_ORDER.indexOf(candidate.difficulty) - DIFFICULTY_ORDER.indexOf(target.difficulty));
+
+  if (distance === 1) return { weight: WEIGHTS.difficultyNear };
+  if (distance > 1) return { weight: WEIGHTS.difficultyFar };
+
+  const details = { skill, difficulty: target.difficulty };
+  const label = SKILL_LABELS[skill];
+
+  if (target.change === 'up') {
+    return {
+      weight: WEIGHTS.difficultyMatch,
+      reason: { code: 'difficulty_step_up', message: `You are doing well in ${label}, so this one is ${target.difficulty}`, details }
+    };
+  }
+
+  if (target.change === 'down') {
+    return {
+      weight: WEIGHTS.difficultyMatch,
+      reason: { code: 'difficulty_step_down', message: `An easier ${label} exercise to build up your scores`, details }
+    };
+  }
+
+  return {
+    weight: WEIGHTS.difficultyMatch,
+    reason: { code: 'difficulty_match', message: `Matches your current ${label} level (${target.difficulty})`, details }
+  };
+}
+
+/**
+ * Lowest-order exercise of each module the student has not tried
+ */
+function firstUnattemptedPerModule(candidates: RecommendationCandidate[]): Set<string> {
+  const first = new Map<string, RecommendationCandidate>();
+
+  for (const candidate of candidates) {
+    if (candidate.attempts > 0) continue;
+    const current = first.get(candidate.moduleId);
+    if (!current || candidate.orderIndex < current.orderIndex) {
+      first.set(candidate.moduleId, candidate);
+    }
+  }
+
+  return new Set([...first.values()].map(candidate => candidate.id));
+}
+
+/**
+ * A candidate as the attempt policy reads it
+ */
+function toExercise(candidate: RecommendationCandidate): AttemptPolicySource {
+  return {
+    maxAttempts: candidate.maxAttempts,
+    content: { attemptPolicy: candidate.attemptPolicy || undefined },
+    userProgress: {
+      attempts: candidate.attempts,
+      bestScore: Number(candidate.bestScore) || 0,
+      completed: candidate.completed,
+      lastAttemptedAt: candidate.lastAttemptedAt || undefined
+    }
+  };
+}
+
+function typeLabel(exerciseType: ExerciseType): string {
+  return exerciseType.replace(/_/g, ' ');
+}
@@ -0,0 +1,305 @@
+/**
+ * Exercise Variants
+ *
+ * Per-attempt variants of an exercise, configured by `content.randomization`:
+ * - items drawn from a pool (the questions, statements or claims)
+ * - item order and choice options shuffled
+ * - `{{name}}` placeholders filled from one of the parameter sets
+ *
+ * A variant is derived from the attempt seed and records where each
+ * displayed item and option came from, so answers can be mapped back to
+ * the original items for scoring and review.
+ */
+
+import crypto from 'crypto';
+import {
+  ExerciseContent,
+  ExerciseRandomization,
+  ExerciseResponse,
+  ExerciseType,
+  ExerciseVariant,
+  VariantItem
+} from '../educational.types';
+import { answerForItem } from '../scorers/scorer.utils';
+
+/**
+ * Content collection each poolable exercise type draws its items from
+ */
+const POOL_COLLECTIONS: Partial<Record<ExerciseType, string>> = {
+  [ExerciseType.QUIZ_TIKTOK]: 'questions',
+  [ExerciseType.COMPRENSION_AUDITIVA]: 'questions',
+  [ExerciseType.ANALISIS_MEMES]: 'questions',
+  [ExerciseType.VERDADERO_FALSO]: 'statements',
+  [ExerciseType.VERIFICADOR_FAKE_NEWS]: 'claims'
+};
+
+/**
+ * Item fields that give the answer away (removed from the student view)
+ */
+const ANSWER_KEY_FIELDS = ['correctAnswer', 'correctAnswers', 'isTrue', 'isVerified', 'veracity', 'explanation'];
+
+export const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * Content collection an exercise type draws pooled items from
+ */
+export function poolCollection(exerciseType: ExerciseType): string | undefined {
+  return POOL_COLLECTIONS[exerciseType];
+}
+
+/**
+ * Whether attempts at the exercise get their own variant
+ */
+export function isRandomized(exercise: ExerciseResponse): boolean {
+  const settings: ExerciseRandomization | undefined = exercise.content?.randomization;
+  if (!settings || typeof settings !== 'object') return false;
+
+  return !!(settings.drawCount || settings.shuffleItems || settings.shuffleOptions || settings.parameterSets?.length);
+}
+
+/**
+ * Random seed for a new attempt
+ */
+export function createVariantSeed(): string {
+  return crypto.randomBytes(8).toString('hex');
+}
+
+/**
+ * Build the variant of an exercise for a seed (same seed, same variant)
+ */
+export function buildVariant(exercise: ExerciseResponse, seed: string): ExerciseVariant {
+  const settings: ExerciseRandomization = exercise.content?.randomization || {};
+  const random = createRandom(seed);
+  const collection = poolCollection(exercise.exerciseType);
+  const pool: any[] = collection && Array.isArray(exercise.content?.[collection]) ? exercise.content[collection] : [];
+
+  let items: VariantItem[] = pool.map((item, index) => ({ id: String(item?.id ?? index), index }));
+
+  if (settings.drawCount && settings.drawCount < items.length) {
+    items = shuffle(items, random).slice(0, settings.drawCount);
+    if (!settings.shuffleItems) {
+      items.sort((a, b) => a.index - b.index);
+    }
+  } else if (settings.shuffleItems) {
+    items = shuffle(items, random);
+  }
+
+  if (settings.shuffleOptions) {
+    items = items.map(item => {
+      const options = pool[item.index]?.options;
+      return Array.isArray(options) && options.length > 1
+        ? { ...item, optionOrder: shuffle(options.map((_: any, index: number) => index), random) }
+        : item;
+    });
+  }
+
+  const parameterSets = settings.parameterSets || [];
+
+  return {
+    seed,
+    collection: items.length > 0 ? collection! : null,
+    items,
+    parameters: parameterSets.length > 0 ? parameterSets[Math.floor(random() * parameterSets.length)] : null
+  };
+}
+
+/**
+ * The exercise as the student sees it: drawn items in variant order with
+ * shuffled options and parameters filled in
+ *
+ * Without `withAnswerKey` the answer fields of the items are removed.
+ */
+export function renderVariant(
+  content: ExerciseContent,
+  variant: ExerciseVariant,
+  withAnswerKey: boolean = false
+): ExerciseContent {
+  const rendered = fillParameters(withoutRandomization(content), variant.parameters);
+
+  if (variant.collection) {
+    const pool: any[] = rendered[variant.collection] || [];
+
+    rendered[variant.collection] = variant.items
+      .map(item => {
+        const original = findItem(pool, item);
+        if (!original) return null;
+
+        const shown = { ...original, id: original.id ?? item.id };
+        if (hasOptionOrder(original, item)) {
+          shown.options = item.optionOrder!.map(index => original.options[index]);
+          if (isAnsweredByIndex(original)) {
+            shown.correctAnswer = item.optionOrder!.indexOf(original.correctAnswer);
+          }
+        }
+
+        return withAnswerKey ? shown : withoutAnswerKey(shown);
+      })
+      .filter(item => item !== null);
+  }
+
+  if (!withAnswerKey) {
+    delete rendered.explanations;
+  }
+
+  return rendered;
+}
+
+/**
+ * The exercise to score a variant against: the drawn items in their
+ * original order, with their original options and parameters filled in
+ *
+ * Items keep their original ids, so the answer review refers to the
+ * original items.
+ */
+export function resolveVariantExercise(exercise: ExerciseResponse, variant: ExerciseVariant): ExerciseResponse {
+  const content = fillParameters(withoutRandomization(exercise.content), variant.parameters);
+
+  if (variant.collection) {
+    const pool: any[] = content[variant.collection] || [];
+
+    content[variant.collection] = [...variant.items]
+      .sort((a, b) => a.index - b.index)
+      .map(item => {
+        const original = findItem(pool, item);
+        return original ? { ...original, id: original.id ?? item.id } : null;
+      })
+      .filter(item => item !== null);
+  }
+
+  return { ...exercise, content };
+}
+
+/**
+ * Map answers given to a variant back to the original items
+ *
+ * Answers are read by item id, or by displayed position; option indices
+ * are translated to the original option order. The result is keyed by
+ * original item id.
+ */
+export function toOriginalAnswers(answers: any, variant: ExerciseVariant, exercise: ExerciseResponse): any {
+  if (!variant.collection) return answers;
+
+  const pool: any[] = exercise.content?.[variant.collection] || [];
+  // Positional answers refer to the displayed order, never to item ids
+  const mapped: Record<string, any> = {};
+
+  variant.items.forEach((item, position) => {
+    let answer = answerForItem(answers, item, position);
+
+    const original = findItem(pool, item);
+    if (answer !== undefined && original && hasOptionOrder(original, item) && isAnsweredByIndex(original)) {
+      answer = Number.isInteger(answer) ? item.optionOrder![answer] ?? null : answer;
+    }
+
+    if (answer !== undefined) {
+      mapped[item.id] = answer;
+    }
+  });
+
+  return mapped;
+}
+
+/**
+ * Placeholder names used anywhere in a value
+ */
+export function collectPlaceholders(value: any, found: Set<string> = new Set()): Set<string> {
+  if (typeof value === 'string') {
+    for (const match of value.matchAll(PLACEHOLDER)) {
+      found.add(match[1]);
+    }
+  } else if (Array.isArray(value)) {
+    value.forEach(item => collectPlaceholders(item, found));
+  } else if (value && typeof value === 'object') {
+    Object.values(value).forEach(item => collectPlaceholders(item, found));
+  }
+
+  return found;
+}
+
+/**
+ * Item without the fields that give its answer away
+ */
+export function withoutAnswerKey(item: Record<string, any>): Record<string, any> {
+  return Object.fromEntries(Object.entries(item).filter(([key]) => !ANSWER_KEY_FIELDS.includes(key)));
+}
+
+/**
+ * Replace `{{name}}` placeholders in every string of the content; unknown
+ * names are left as they are
+ */
+export function fillParameters<T>(value: T, parameters: Record<string, string | number> | null): T {
+  if (typeof value === 'string') {
+    if (!parameters) return value;
+    return value.replace(PLACEHOLDER, (placeholder, name) =>
+      parameters[name] !== undefined ? String(parameters[name]) : placeholder
+    ) as any;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => fillParameters(item, parameters)) as any;
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, fillParameters(item, parameters)])
+    ) as any;
+  }
+  return value;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Find a variant item in the content by its id, or its position when it
+ * has none (content may have been edited since the variant was built)
+ */
+function findItem(pool: any[], item: VariantItem): any {
+  return pool.find((candidate, index) => String(candidate?.id ?? index) === item.id);
+}
+
+/**
+ * Choice questions whose answer is an option index (rather than the
+ * option itself) need the index translated when options are shuffled
+ */
+function isAnsweredByIndex(item: any): boolean {
+  return Number.isInteger(item.correctAnswer) &&
+    !item.options.some((option: any) => typeof option === 'number');
+}
+
+function hasOptionOrder(original: any, item: VariantItem): boolean {
+  return !!item.optionOrder && Array.isArray(original.options) && original.options.length === item.optionOrder.length;
+}
+
+function withoutRandomization(content: ExerciseContent): ExerciseContent {
+  const { randomization, ...rest } = content || {};
+  return rest;
+}
+
+/**
+ * Deterministic random numbers in [0, 1) for a seed (mulberry32)
+ */
+function createRandom(seed: string): () => number {
+  let state = [...seed].reduce((hash, char) => Math.imul(hash ^ char.charCodeAt(0), 16777619), 2166136261) >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Fisher-Yates shuffle of a copy
+ */
+function shuffle<T>(items: T[], random: () => number): T[] {
+  const shuffled = [...items];
+
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+
+  return shuffled;
+}
@@ -0,0 +1,325 @@
+/**
+ * Item Analysis
+ *
+ * Classical item statistics from each student's first scored attempt at an
+ * exercise: difficulty (the p-value, average credit earned on the item),
+ * discrimination (how much better the top 27% of students by exercise
+ * score did on the item than the bottom 27%), how often each option of a
+ * choice item was picked, and the most common wrong answers to free-text
+ * items (crossword clues and blanks).
+ */
+
+import { ItemScore } from '../scorers/scorer.types';
+import { normalizeText } from '../scorers/scorer.utils';
+import {
+  ClassroomAnalytics,
+  ExerciseItemAnalysis,
+  ItemAnalysis,
+  ItemAnalysisFlag,
+  ItemAnalysisReport,
+  ItemAnswerFrequency
+} from '../educational.types';
+
+/**
+ * Share of students in each of the upper and lower groups
+ */
+const DISCRIMINATION_GROUP_SHARE = 0.27;
+
+/**
+ * Respondents an item needs before its discrimination means anything
+ */
+const MIN_DISCRIMINATION_RESPONDENTS = 10;
+
+const TOO_HARD_DIFFICULTY = 0.3;
+const TOO_EASY_DIFFICULTY = 0.9;
+const LOW_DISCRIMINATION = 0.2;
+
+const MAX_COMMON_WRONG_ANSWERS = 5;
+
+/**
+ * A student's scored attempt at an exercise
+ */
+export interface ScoredResponse {
+  score: number;
+  items: ItemScore[];
+}
+
+/**
+ * Statistics of every item answered in the responses, in content order
+ *
+ * @param contentOf - authored item (prompt and options), null if unknown
+ */
+export function analyzeItems(
+  responses: ScoredResponse[],
+  contentOf: (itemId: string) => Record<string, any> | null
+): ItemAnalysis[] {
+  const answersByItem = new Map<string, Array<{ score: number; item: ItemScore }>>();
+
+  responses.forEach(response => {
+    response.items.forEach(item => {
+      answersByItem.set(item.itemId, [...(answersByItem.get(item.itemId) || []), { score: response.score, item }]);
+    });
+  });
+
+  return [...answersByItem.entries()].map(([itemId, answers]) => {
+    const content = contentOf(itemId);
+    const items = answers.map(answer => answer.item);
+    const kind = items.some(item => item.matchType !== undefined) ? 'text' : 'choice';
+    const difficulty = round(mean(items.map(item => item.credit)), 2);
+    const discrimination = discriminationIndex(answers);
+    const distractors = kind === 'choice' ? choiceFrequencies(items, content) : [];
+
+    return {
+      itemId,
+      prompt: promptOf(content),
+      kind,
+      correctAnswer: correctAnswerLabel(items[0].correctAnswer, content),
+      respondents: items.length,
+      omitted: items.filter(item => isBlank(item.userAnswer)).length,
+      difficulty,
+      discrimination,
+      distractors,
+      commonWrongAnswers: kind === 'text' ? commonWrongAnswers(items) : [],
+      flags: itemFlags(difficulty, discrimination, distractors)
+    };
+  });
+}
+
+/**
+ * Common mistakes of an exercise for classroom analytics: its error rate
+ * (share of item responses without full credit) and its most frequent
+ * wrong answers
+ */
+export function summarizeMistakes(
+  analysis: ExerciseItemAnalysis,
+  limit: number = 3
+): ClassroomAnalytics['commonMistakes'][number] {
+  const responses = analysis.items.reduce((total, item) => total + item.respondents, 0);
+  const credit = analysis.items.reduce((total, item) => total + item.difficulty * item.respondents, 0);
+
+  const mistakes = analysis.items.flatMap(item =>
+    [...item.distractors.filter(answer => !answer.isCorrect), ...item.commonWrongAnswers]
+      .map(answer => ({ label: `${item.prompt || item.itemId}: ${answer.answer}`, count: answer.count }))
+  );
+
+  return {
+    exerciseId: analysis.exerciseId,
+    exerciseTitle: analysis.exerciseTitle,
+    errorRate: responses > 0 ? round(100 - (credit / responses) * 100, 1) : 0,
+    commonErrors: mistakes
+      .filter(mistake => mistake.count > 0)
+      .sort((a, b) => b.count - a.count)
+      .slice(0, limit)
+      .map(mistake => `${mistake.label} (${mistake.count})`)
+  };
+}
+
+/**
+ * Item analysis as CSV, one row per item
+ */
+export function itemAnalysisCsv(report: ItemAnalysisReport): string {
+  const headers = [
+    'Exercise ID',
+    'Exercise Title',
+    'Exercise Type',
+    'Item ID',
+    'Prompt',
+    'Kind',
+    'Correct Answer',
+    'Respondents',
+    'Omitted',
+    'Difficulty',
+    'Discrimination',
+    'Flags',
+    'Answer Distribution',
+    'Common Wrong Answers'
+  ];
+
+  const rows = report.exercises.flatMap(exercise =>
+    exercise.items.map(item => [
+      exercise.exerciseId,
+      exercise.exerciseTitle,
+      exercise.exerciseType,
+      item.itemId,
+      item.prompt ?? '',
+      item.kind,
+      item.correctAnswer ?? '',
+      item.respondents,
+      item.omitted,
+      item.difficulty,
+      item.discrimination ?? '',
+      item.flags.join(' '),
+      formatFrequencies(item.distractors),
+      formatFrequencies(item.commonWrongAnswers)
+    ])
+  );
+
+  return [headers, ...rows].map(row => row.map(csvCell).join(',')).join('\n');
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((total, value) => total + value, 0) / values.length : 0;
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+function percentage(part: number, total: number): number {
+  return total > 0 ? round((part / total) * 100, 1) : 0;
+}
+
+function isBlank(answer: any): boolean {
+  return answer === undefined || answer === null || (typeof answer === 'string' && answer.trim() === '');
+}
+
+function formatAnswer(answer: any): string {
+  if (Array.isArray(answer)) return answer.map(formatAnswer).join(', ');
+  if (answer && typeof answer === 'object') return JSON.stringify(answer);
+  return String(answer);
+}
+
+function promptOf(content: Record<string, any> | null): string | null {
+  if (!content) return null;
+  const prompt = content.question ?? content.statement ?? content.text ?? content.claim ?? content.clue;
+  return typeof prompt === 'string' ? prompt : null;
+}
+
+/**
+ * Correct answer as shown to students (the option, for an option index)
+ */
+function correctAnswerLabel(correctAnswer: any, content: Record<string, any> | null): string | null {
+  if (correctAnswer === undefined || correctAnswer === null) return null;
+
+  const options: any[] = Array.isArray(content?.options) ? content!.options : [];
+  const index = optionIndex(correctAnswer, options);
+
+  return index >= 0 ? optionLabel(options[index]) : formatAnswer(correctAnswer);
+}
+
+/**
+ * Upper minus lower group p-value, groups ranked by exercise score
+ */
+function discriminationIndex(answers: Array<{ score: number; item: ItemScore }>): number | null {
+  if (answers.length < MIN_DISCRIMINATION_RESPONDENTS) return null;
+
+  const ranked = [...answers].sort((a, b) => b.score - a.score);
+  const groupSize = Math.max(1, Math.round(ranked.length * DISCRIMINATION_GROUP_SHARE));
+  const upper = mean(ranked.slice(0, groupSize).map(answer => answer.item.credit));
+  const lower = mean(ranked.slice(-groupSize).map(answer => answer.item.credit));
+
+  return round(upper - lower, 2);
+}
+
+function optionLabel(option: any): string {
+  if (option && typeof option === 'object') {
+    return formatAnswer(option.text ?? option.value ?? option.id);
+  }
+  return formatAnswer(option);
+}
+
+/**
+ * Same matching the scorers and the content validator accept: the option
+ * itself, its position, or its id, value or text
+ */
+function optionIndex(answer: any, options: any[]): number {
+  return options.findIndex((option, index) =>
+    answer === option ||
+    answer === index ||
+    (option && typeof option === 'object' &&
+      (answer === option.id || answer === option.value || answer === option.text))
+  );
+}
+
+/**
+ * Picks of every option (including options nobody chose) followed by
+ * answers that are not among the options
+ */
+function choiceFrequencies(items: ItemScore[], content: Record<string, any> | null): ItemAnswerFrequency[] {
+  const options: any[] = Array.isArray(content?.options) ? content!.options : [];
+  const correctIndex = optionIndex(items[0].correctAnswer, options);
+
+  const picks = options.map((option, index) => ({
+    answer: optionLabel(option),
+    count: 0,
+    isCorrect: index === correctIndex
+  }));
+  const others = new Map<string, { answer: string; count: number; isCorrect: boolean }>();
+
+  items
+    .filter(item => !isBlank(item.userAnswer))
+    .forEach(item => {
+      const index = optionIndex(item.userAnswer, options);
+      if (index >= 0) {
+        picks[index].count++;
+        return;
+      }
+
+      const answer = formatAnswer(item.userAnswer);
+      const other = others.get(answer) || { answer, count: 0, isCorrect: item.credit >= 1 };
+      other.count++;
+      others.set(answer, other);
+    });
+
+  return [...picks, ...[...others.values()].sort((a, b) => b.count - a.count)]
+    .map(pick => ({ ...pick, share: percentage(pick.count, items.length) }));
+}
+
+/**
+ * Most frequent wrong free-text answers, compared trimmed and lower case
+ */
+function commonWrongAnswers(items: ItemScore[]): ItemAnswerFrequency[] {
+  const counts = new Map<string, number>();
+
+  items
+    .filter(item => item.credit < 1 && !isBlank(item.userAnswer))
+    .forEach(item => {
+      const answer = normalizeText(formatAnswer(item.userAnswer));
+      counts.set(answer, (counts.get(answer) || 0) + 1);
+    });
+
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_COMMON_WRONG_ANSWERS)
+    .map(([answer, count]) => ({ answer, count, share: percentage(count, items.length), isCorrect: false }));
+}
+
+function itemFlags(
+  difficulty: number,
+  discrimination: number | null,
+  distractors: ItemAnswerFrequency[]
+): ItemAnalysisFlag[] {
+  const flags: ItemAnalysisFlag[] = [];
+
+  if (difficulty < TOO_HARD_DIFFICULTY) flags.push('too_hard');
+  if (difficulty > TOO_EASY_DIFFICULTY) flags.push('too_easy');
+
+  if (discrimination !== null && discrimination < 0) {
+    flags.push('negative_discrimination');
+  } else if (discrimination !== null && discrimination < LOW_DISCRIMINATION) {
+    flags.push('low_discrimination');
+  }
+
+  const correctPicks = Math.max(0, ...distractors.filter(answer => answer.isCorrect).map(answer => answer.count));
+  if (distractors.some(answer => !answer.isCorrect && answer.count > correctPicks)) {
+    flags.push('attractive_distractor');
+  }
+
+  return flags;
+}
+
+function formatFrequencies(frequencies: ItemAnswerFrequency[]): string {
+  return frequencies.map(frequency => `${frequency.answer}: ${frequency.count}`).join('; ');
+}
+
+/**
+ * Quoted CSV cell (quotes doubled)
+ */
+function csvCell(value: string | number): string {
+  return `"${String(value).replace(/"/g, '""')}"`;
+}
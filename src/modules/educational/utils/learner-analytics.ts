@@ -0,0 +1,295 @@
+/**
+ * Learner Analytics
+ *
+ * Builds a student's learning analytics from their attempts in a timeframe.
+ * Attempts waiting for a teacher's grade count as study time and activity
+ * but not towards scores. Days, weekdays and times of day are UTC.
+ */
+
+import { AnalyticsAttempt, AnalyticsTimeframe, LearningAnalytics, StudyTimeOfDay } from '../educational.types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Days covered by each timeframe (null = all history)
+ */
+export const TIMEFRAME_DAYS: Record<AnalyticsTimeframe, number | null> = {
+  week: 7,
+  month: 30,
+  quarter: 90,
+  year: 365,
+  all: null
+};
+
+/**
+ * Attempts less than this apart belong to the same study session
+ */
+const SESSION_GAP_MINUTES = 30;
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/**
+ * Midnight (UTC) of a date's day
+ */
+export function startOfDay(date: Date): Date {
+  const start = new Date(date);
+  start.setUTCHours(0, 0, 0, 0);
+  return start;
+}
+
+/**
+ * First instant of a timeframe (null for all history)
+ */
+export function timeframeStart(timeframe: AnalyticsTimeframe, now: Date = new Date()): Date | null {
+  const days = TIMEFRAME_DAYS[timeframe];
+  if (days === null) return null;
+
+  const start = startOfDay(now);
+  start.setUTCDate(start.getUTCDate() - (days - 1));
+  return start;
+}
+
+/**
+ * Learning analytics of a student's attempts, oldest first
+ */
+export function buildLearnerAnalytics(
+  attempts: AnalyticsAttempt[],
+  timeframe: AnalyticsTimeframe,
+  now: Date = new Date()
+): LearningAnalytics {
+  const scored = attempts.filter(attempt => !attempt.pendingReview);
+
+  return {
+    timeframe,
+    generatedAt: now,
+    summary: {
+      totalTimeStudied: toMinutes(sum(attempts.map(attempt => attempt.timeSpent))),
+      exercisesCompleted: countCompleted(attempts),
+      averageScore: average(scored.map(attempt => attempt.score)),
+      perfectScores: scored.filter(attempt => attempt.score >= 100).length,
+      improvementRate: improvementRate(scored.map(attempt => attempt.score))
+    },
+    performanceByModule: groupBy(attempts.filter(attempt => attempt.moduleId), attempt => attempt.moduleId!)
+      .map(([moduleId, moduleAttempts]) => {
+        const moduleScores = moduleAttempts.filter(attempt => !attempt.pendingReview).map(attempt => attempt.score);
+        return {
+          moduleId,
+          moduleName: moduleAttempts[0].moduleName || '',
+          averageScore: average(moduleScores),
+          exercisesCompleted: countCompleted(moduleAttempts),
+          timeSpent: toMinutes(sum(moduleAttempts.map(attempt => attempt.timeSpent))),
+          improvement: improvementRate(moduleScores)
+        };
+      }),
+    performanceByType: groupBy(scored, attempt => attempt.exerciseType)
+      .map(([exerciseType, typeAttempts]) => ({
+        exerciseType: typeAttempts[0].exerciseType,
+        averageScore: average(typeAttempts.map(attempt => attempt.score)),
+        totalAttempts: typeAttempts.length,
+        successRate: percentage(typeAttempts.filter(attempt => attempt.isCorrect).length, typeAttempts.length)
+      }))
+      .sort((a, b) => b.totalAttempts - a.totalAttempts || a.exerciseType.localeCompare(b.exerciseType)),
+    studyPattern: {
+      averageSessionDuration: averageSessionMinutes(attempts),
+      preferredStudyTime: mostFrequent(attempts.map(attempt => timeOfDay(new Date(attempt.submittedAt)))),
+      mostActiveDay: mostFrequent(attempts.map(attempt => WEEKDAYS[new Date(attempt.submittedAt).getUTCDay()])),
+      studyConsistency: studyConsistency(attempts, timeframe, now)
+    },
+    trends: buildTrends(attempts, timeframe, now)
+  };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + (Number(value) || 0), 0);
+}
+
+function average(values: number[]): number {
+  return values.length > 0 ? round(sum(values) / values.length) : 0;
+}
+
+function percentage(part: number, total: number): number {
+  return total > 0 ? round((part / total) * 100) : 0;
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function toMinutes(seconds: number): number {
+  return Math.round(seconds / 60);
+}
+
+function dayKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Groups in order of first appearance
+ */
+function groupBy<T>(items: T[], keyOf: (item: T) => string): Array<[string, T[]]> {
+  const groups = new Map<string, T[]>();
+  items.forEach(item => {
+    const key = keyOf(item);
+    groups.set(key, [...(groups.get(key) || []), item]);
+  });
+  return [...groups.entries()];
+}
+
+/**
+ * Most frequent value; ties go to the value seen first
+ */
+function mostFrequent<T>(values: T[]): T | null {
+  const counts = new Map<T, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+
+  let best: T | null = null;
+  let bestCount = 0;
+  counts.forEach((count, value) => {
+    if (count > bestCount) {
+      best = value;
+      bestCount = count;
+    }
+  });
+
+  return best;
+}
+
+/**
+ * Distinct exercises passed
+ */
+function countCompleted(attempts: AnalyticsAttempt[]): number {
+  return new Set(attempts.filter(attempt => attempt.isCorrect).map(attempt => attempt.exerciseId)).size;
+}
+
+/**
+ * Change of the average score from the first to the second half of the
+ * attempts, as a percentage of the first
+ */
+function improvementRate(scores: number[]): number {
+  if (scores.length < 2) return 0;
+
+  const half = Math.floor(scores.length / 2);
+  const before = average(scores.slice(0, half));
+  const after = average(scores.slice(scores.length - half));
+
+  return before > 0 ? round(((after - before) / before) * 100) : 0;
+}
+
+function timeOfDay(date: Date): StudyTimeOfDay {
+  const hour = date.getUTCHours();
+  if (hour >= 5 && hour < 12) return 'morning';
+  if (hour >= 12 && hour < 18) return 'afternoon';
+  if (hour >= 18 && hour < 22) return 'evening';
+  return 'night';
+}
+
+/**
+ * Average minutes of a study session: attempts (from start to submission)
+ * less than SESSION_GAP_MINUTES apart
+ */
+function averageSessionMinutes(attempts: AnalyticsAttempt[]): number {
+  const sessions: number[] = [];
+  let sessionEnd = 0;
+
+  attempts.forEach(attempt => {
+    const submittedAt = new Date(attempt.submittedAt).getTime();
+    const startedAt = submittedAt - (Number(attempt.timeSpent) || 0) * 1000;
+
+    if (sessions.length > 0 && startedAt - sessionEnd <= SESSION_GAP_MINUTES * 60 * 1000) {
+      sessions[sessions.length - 1] += Number(attempt.timeSpent) || 0;
+    } else {
+      sessions.push(Number(attempt.timeSpent) || 0);
+    }
+    sessionEnd = Math.max(sessionEnd, submittedAt);
+  });
+
+  return sessions.length > 0 ? round(sum(sessions) / sessions.length / 60) : 0;
+}
+
+/**
+ * Share of the timeframe's days with at least one attempt (for all
+ * history, the days since the first attempt)
+ */
+function studyConsistency(attempts: AnalyticsAttempt[], timeframe: AnalyticsTimeframe, now: Date): number {
+  if (attempts.length === 0) return 0;
+
+  const start = timeframeStart(timeframe, now) || startOfDay(new Date(attempts[0].submittedAt));
+  const days = Math.round((startOfDay(now).getTime() - start.getTime()) / DAY_MS) + 1;
+  const activeDays = new Set(attempts.map(attempt => dayKey(new Date(attempt.submittedAt)))).size;
+
+  return percentage(Math.min(activeDays, days), days);
+}
+
+/**
+ * Start of the trend bucket a date falls in: days up to a month, weeks
+ * (from Monday) for a quarter, months beyond
+ */
+function bucketStart(date: Date, timeframe: AnalyticsTimeframe): Date {
+  const start = startOfDay(date);
+
+  if (timeframe === 'quarter') {
+    start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+  } else if (timeframe === 'year' || timeframe === 'all') {
+    start.setUTCDate(1);
+  }
+
+  return start;
+}
+
+function nextBucket(bucket: Date, timeframe: AnalyticsTimeframe): Date {
+  const next = new Date(bucket);
+
+  if (timeframe === 'quarter') {
+    next.setUTCDate(next.getUTCDate() + 7);
+  } else if (timeframe === 'year' || timeframe === 'all') {
+    next.setUTCMonth(next.getUTCMonth() + 1);
+  } else {
+    next.setUTCDate(next.getUTCDate() + 1);
+  }
+
+  return next;
+}
+
+/**
+ * Score and activity per bucket; activity lists every bucket of the
+ * timeframe, scores only buckets with scored attempts
+ */
+function buildTrends(
+  attempts: AnalyticsAttempt[],
+  timeframe: AnalyticsTimeframe,
+  now: Date
+): LearningAnalytics['trends'] {
+  const scoreOverTime: LearningAnalytics['trends']['scoreOverTime'] = [];
+  const activityOverTime: LearningAnalytics['trends']['activityOverTime'] = [];
+
+  if (attempts.length === 0 && timeframe === 'all') {
+    return { scoreOverTime, activityOverTime };
+  }
+
+  const buckets = groupBy(attempts, attempt => dayKey(bucketStart(new Date(attempt.submittedAt), timeframe)));
+  const byBucket = new Map(buckets);
+  const first = timeframeStart(timeframe, now) || new Date(attempts[0].submittedAt);
+  const last = bucketStart(now, timeframe);
+
+  for (let bucket = bucketStart(first, timeframe); bucket <= last; bucket = nextBucket(bucket, timeframe)) {
+    const date = dayKey(bucket);
+    const bucketAttempts = byBucket.get(date) || [];
+    const scores = bucketAttempts.filter(attempt => !attempt.pendingReview).map(attempt => attempt.score);
+
+    if (scores.length > 0) {
+      scoreOverTime.push({ date, averageScore: average(scores) });
+    }
+
+    activityOverTime.push({
+      date,
+      exercisesCompleted: countCompleted(bucketAttempts),
+      minutesStudied: toMinutes(sum(bucketAttempts.map(attempt => attempt.timeSpent)))
+    });
+  }
+
+  return { scoreOverTime, activityOverTime };
+}
@@ -0,0 +1,365 @@
+/**
+ * QTI Import Utilities
+ *
+ * Converts IMS QTI 2.1 assessment items into bundle exercises. Each item
+ * becomes one exercise:
+ * - choiceInteraction (single answer) -> quiz_tiktok, or verdadero_falso
+ *   when the two choices are true/false
+ * - textEntryInteraction -> completar_espacios (one blank per interaction)
+ * - matchInteraction -> emparejamiento
+ * - orderInteraction -> linea_tiempo (the correct order becomes the years)
+ *
+ * Items with other interactions are skipped with a warning.
+ */
+
+import {
+  ContentBundleExercise,
+  ContentValidationIssue,
+  DifficultyLevel,
+  ExerciseType
+} from '../educational.types';
+import { childElements, findAll, findFirst, isElement, parseXml, textContent, XmlElement, XmlNode } from './xml';
+import { readZip } from './zip-reader';
+
+const QTI_ITEM_RESOURCE = /^imsqti_item_xmlv2p[0-9]$/;
+const TRUE_LABELS = ['true', 'verdadero', 'cierto', 'v'];
+const FALSE_LABELS = ['false', 'falso', 'f'];
+const BLANK_MARKER = '____';
+const SUPPORTED_INTERACTIONS = ['choiceInteraction', 'textEntryInteraction', 'matchInteraction', 'orderInteraction'];
+
+/**
+ * Item document and where it came from (for issue paths)
+ */
+export interface QtiItemSource {
+  path: string;
+  xml: string;
+}
+
+export interface QtiConversion {
+  exercises: ContentBundleExercise[];
+  issues: ContentValidationIssue[];
+}
+
+interface ResponseDeclaration {
+  cardinality: string;
+  correct: string[];
+  mapped: string[]; // Mapping keys worth points (alternative answers)
+}
+
+/**
+ * Item documents of a QTI content package, in manifest order
+ *
+ * Falls back to every XML file with an assessmentItem root when the
+ * manifest lists no items.
+ */
+export function readQtiPackage(archive: Buffer): QtiItemSource[] {
+  const files = readZip(archive);
+  const text = (path: string): string | undefined => files.get(path)?.toString('utf8');
+
+  const manifestXml = text('imsmanifest.xml');
+  if (!manifestXml) {
+    throw new Error('QTI package has no imsmanifest.xml');
+  }
+
+  const manifest = parseXml(manifestXml);
+  const hrefs = findAll(manifest, 'resource')
+    .filter(resource => QTI_ITEM_RESOURCE.test(resource.attributes.type || ''))
+    .map(resource => resource.attributes.href)
+    .filter((href): href is string => !!href);
+
+  const paths = hrefs.length > 0
+    ? hrefs
+    : [...files.keys()].filter(path => path.endsWith('.xml') && path !== 'imsmanifest.xml' && /<(\w+:)?assessmentItem[\s>]/.test(text(path)!));
+
+  return paths.map(path => {
+    const xml = text(decodeURIComponent(path));
+    if (xml === undefined) {
+      throw new Error(`QTI package is missing ${path}`);
+    }
+    return { path, xml };
+  });
+}
+
+/**
+ * Convert QTI items to bundle exercises
+ */
+export function convertQtiItems(items: QtiItemSource[]): QtiConversion {
+  const exercises: ContentBundleExercise[] = [];
+  const issues: ContentValidationIssue[] = [];
+
+  for (const item of items) {
+    let root: XmlElement;
+    try {
+      root = parseXml(item.xml);
+    } catch (error: any) {
+      issues.push({ severity: 'error', field: item.path, message: `Invalid XML: ${error.message}` });
+      continue;
+    }
+
+    if (root.name !== 'assessmentItem') {
+      issues.push({ severity: 'error', field: item.path, message: 'Not a QTI assessmentItem' });
+      continue;
+    }
+
+    const exercise = convertItem(root);
+    if (typeof exercise === 'string') {
+      issues.push({ severity: 'warning', field: item.path, message: `Item skipped: ${exercise}` });
+    } else {
+      exercises.push(exercise);
+    }
+  }
+
+  return { exercises, issues };
+}
+
+/**
+ * Convert one item, or return why it cannot be converted
+ */
+function convertItem(item: XmlElement): ContentBundleExercise | string {
+  const identifier = item.attributes.identifier || 'item';
+  const body = findFirst(item, 'itemBody');
+  if (!body) return 'the item has no itemBody';
+
+  const responses = readResponseDeclarations(item);
+  const interactions = findInteractions(body);
+
+  if (interactions.length === 0) return 'the item has no interactions';
+
+  const kinds = new Set(interactions.map(interaction => interaction.name));
+  if (kinds.size > 1) return `mixed interactions (${[...kinds].join(', ')}) are not supported`;
+
+  const kind = interactions[0].name;
+  if (!SUPPORTED_INTERACTIONS.includes(kind)) return `${kind} is not supported`;
+
+  const converted = convertInteractions(kind, interactions, responses, body);
+  if (typeof converted === 'string') return converted;
+
+  const title = item.attributes.title?.trim() || identifier;
+
+  return {
+    title: title.length >= 3 ? title : `QTI ${title}`,
+    description: `Imported from QTI item ${identifier}`,
+    instructions: textContent(findFirst(body, 'prompt')) || '',
+    exerciseType: converted.exerciseType,
+    difficulty: DifficultyLevel.BEGINNER,
+    content: converted.content
+  };
+}
+
+function convertInteractions(
+  kind: string,
+  interactions: XmlElement[],
+  responses: Map<string, ResponseDeclaration>,
+  body: XmlElement
+): { exerciseType: ExerciseType; content: Record<string, any> } | string {
+  const responseOf = (interaction: XmlElement): ResponseDeclaration | undefined =>
+    responses.get(interaction.attributes.responseIdentifier);
+
+  switch (kind) {
+    case 'choiceInteraction': {
+      const questions: any[] = [];
+
+      for (const interaction of interactions) {
+        const response = responseOf(interaction);
+        if (!response || response.correct.length === 0) return 'a choice has no correct response';
+        if (response.cardinality !== 'single' || response.correct.length > 1) {
+          return 'multiple-response choices are not supported';
+        }
+
+        const choices = childElements(interaction, 'simpleChoice').map(choice => ({
+          id: choice.attributes.identifier,
+          text: textContent(choice)
+        }));
+        questions.push({
+          id: interaction.attributes.responseIdentifier,
+          question: textContent(findFirst(interaction, 'prompt')) || bodyText(body),
+          choices,
+          correctIndex: choices.findIndex(choice => choice.id === response.correct[0])
+        });
+      }
+
+      if (questions.some(question => question.correctIndex === -1)) {
+        return 'the correct response is not one of the choices';
+      }
+
+      if (questions.every(isTrueFalse)) {
+        return {
+          exerciseType: ExerciseType.VERDADERO_FALSO,
+          content: {
+            statements: questions.map(question => ({
+              id: question.id,
+              statement: question.question,
+              correctAnswer: TRUE_LABELS.includes(normalizeLabel(question.choices[question.correctIndex].text))
+            }))
+          }
+        };
+      }
+
+      return {
+        exerciseType: ExerciseType.QUIZ_TIKTOK,
+        content: {
+          questions: questions.map(question => ({
+            id: question.id,
+            question: question.question,
+            options: question.choices.map((choice: any) => choice.text),
+            correctAnswer: question.correctIndex,
+            explanation: ''
+          })),
+          swipeDirection: 'vertical',
+          autoAdvance: false,
+          timePerQuestion: 30
+        }
+      };
+    }
+
+    case 'textEntryInteraction': {
+      const blanks: any[] = [];
+
+      for (const interaction of interactions) {
+        const response = responseOf(interaction);
+        if (!response || response.correct.length === 0) return 'a text entry has no correct response';
+
+        const [correctAnswer, ...rest] = response.correct;
+        const acceptedAnswers = [...new Set([...rest, ...response.mapped])].filter(answer => answer !== correctAnswer);
+
+        blanks.push({
+          id: interaction.attributes.responseIdentifier,
+          correctAnswer,
+          ...(acceptedAnswers.length > 0 && { acceptedAnswers })
+        });
+      }
+
+      return {
+        exerciseType: ExerciseType.COMPLETAR_ESPACIOS,
+        content: { text: bodyText(body, true), blanks }
+      };
+    }
+
+    case 'matchInteraction': {
+      if (interactions.length > 1) return 'more than one match interaction per item is not supported';
+
+      const interaction = interactions[0];
+      const response = responseOf(interaction);
+      if (!response || response.correct.length === 0) return 'the match has no correct response';
+
+      const [sources, targets] = childElements(interaction, 'simpleMatchSet').map(set =>
+        childElements(set, 'simpleAssociableChoice').map(choice => ({
+          id: choice.attributes.identifier,
+          text: textContent(choice)
+        }))
+      );
+      if (!sources || !targets) return 'the match needs two sets of choices';
+
+      const correctPairs: Record<string, string> = {};
+      for (const pair of response.correct) {
+        const [source, target] = pair.split(/\s+/);
+        if (!sources.some(choice => choice.id === source) || !targets.some(choice => choice.id === target)) {
+          return `the correct pair "${pair}" does not match the choices`;
+        }
+        correctPairs[source] = target;
+      }
+
+      return {
+        exerciseType: ExerciseType.EMPAREJAMIENTO,
+        content: {
+          question: textContent(findFirst(interaction, 'prompt')) || undefined,
+          leftItems: sources,
+          rightItems: targets,
+          correctPairs
+        }
+      };
+    }
+
+    case 'orderInteraction': {
+      if (interactions.length > 1) return 'more than one order interaction per item is not supported';
+
+      const interaction = interactions[0];
+      const response = responseOf(interaction);
+      const choices = new Map(childElements(interaction, 'simpleChoice').map(choice => [
+        choice.attributes.identifier,
+        textContent(choice)
+      ]));
+      if (!response || response.correct.length !== choices.size) return 'the order has no complete correct response';
+      if (response.correct.some(id => !choices.has(id))) return 'the correct order does not match the choices';
+
+      // Positions stand in for years so the timeline scorer grades the order
+      return {
+        exerciseType: ExerciseType.LINEA_TIEMPO,
+        content: {
+          question: textContent(findFirst(interaction, 'prompt')) || undefined,
+          events: response.correct.map((id, index) => ({
+            id,
+            title: choices.get(id),
+            date: String(index + 1),
+            year: index + 1,
+            description: '',
+            correctPosition: index
+          })),
+          timelineRange: { startYear: 1, endYear: response.correct.length }
+        }
+      };
+    }
+
+    default:
+      return `${kind} is not supported`;
+  }
+}
+
+function readResponseDeclarations(item: XmlElement): Map<string, ResponseDeclaration> {
+  const responses = new Map<string, ResponseDeclaration>();
+
+  for (const declaration of childElements(item, 'responseDeclaration')) {
+    const correctResponse = findFirst(declaration, 'correctResponse');
+    const mapping = findFirst(declaration, 'mapping');
+
+    responses.set(declaration.attributes.identifier, {
+      cardinality: declaration.attributes.cardinality || 'single',
+      correct: correctResponse ? childElements(correctResponse, 'value').map(textContent) : [],
+      mapped: mapping
+        ? childElements(mapping, 'mapEntry')
+          .filter(entry => Number(entry.attributes.mappedValue) > 0)
+          .map(entry => entry.attributes.mapKey)
+        : []
+    });
+  }
+
+  return responses;
+}
+
+function findInteractions(body: XmlElement): XmlElement[] {
+  const found: XmlElement[] = [];
+
+  for (const child of childElements(body)) {
+    if (child.name.endsWith('Interaction')) {
+      found.push(child);
+    } else {
+      found.push(...findInteractions(child));
+    }
+  }
+
+  return found;
+}
+
+/**
+ * Item body text outside the interactions; text entries become blanks
+ */
+function bodyText(body: XmlElement, withBlanks: boolean = false): string {
+  const render = (node: XmlNode): string => {
+    if (!isElement(node)) return node;
+    if (node.name === 'textEntryInteraction') return withBlanks ? BLANK_MARKER : '';
+    if (node.name.endsWith('Interaction') || node.name === 'prompt') return '';
+    return node.children.map(render).join(' ');
+  };
+
+  return render(body).replace(/\s+/g, ' ').replace(/\s+([.,;:!?])/g, '$1').trim();
+}
+
+function isTrueFalse(question: { choices: Array<{ text: string }> }): boolean {
+  if (question.choices.length !== 2) return false;
+  const labels = question.choices.map(choice => normalizeLabel(choice.text));
+  return labels.some(label => TRUE_LABELS.includes(label)) && labels.some(label => FALSE_LABELS.includes(label));
+}
+
+function normalizeLabel(label: string): string {
+  return label.normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim().toLowerCase();
+}
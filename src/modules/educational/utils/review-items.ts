@@ -0,0 +1,129 @@
+/**
+ * Review Items
+ *
+ * Missed items are reviewed one at a time, so the exercise is reduced to
+ * a single graded item: a crossword clue, a blank, a true/false
+ * statement, or a question or claim of the choice types. The reduced
+ * exercise is scored by the exercise type's own scorer.
+ */
+
+import { ExerciseContent, ExerciseResponse, ExerciseType } from '../educational.types';
+import { fillParameters, withoutAnswerKey } from './exercise-variants';
+
+/**
+ * Content collection holding the reviewable items of each exercise type
+ */
+const ITEM_COLLECTIONS: Partial<Record<ExerciseType, string>> = {
+  [ExerciseType.COMPLETAR_ESPACIOS]: 'blanks',
+  [ExerciseType.VERDADERO_FALSO]: 'statements',
+  [ExerciseType.VERIFICADOR_FAKE_NEWS]: 'claims',
+  [ExerciseType.QUIZ_TIKTOK]: 'questions',
+  [ExerciseType.COMPRENSION_AUDITIVA]: 'questions',
+  [ExerciseType.ANALISIS_MEMES]: 'questions'
+};
+
+const CROSSWORD_DIRECTIONS = ['across', 'down'];
+
+/**
+ * Free-text answer fields of clues and blanks (on top of the choice answer key)
+ */
+const TEXT_ANSWER_FIELDS = ['answer', 'acceptedAnswers', 'synonyms'];
+
+/**
+ * Whether missed items of an exercise type go to the review queue
+ */
+export function isReviewable(exerciseType: ExerciseType): boolean {
+  return exerciseType === ExerciseType.CRUCIGRAMA || !!ITEM_COLLECTIONS[exerciseType];
+}
+
+/**
+ * The exercise reduced to one item, for scoring a review
+ *
+ * The item keeps the id the scorer reports it under, so an answer keyed by
+ * `itemId` grades it. Returns null when the item is no longer in the
+ * content.
+ */
+export function isolateItem(
+  exercise: ExerciseResponse,
+  itemId: string,
+  parameters: Record<string, string | number> | null = null
+): ExerciseResponse | null {
+  const content = fillParameters(exercise.content || {}, parameters);
+
+  if (exercise.exerciseType === ExerciseType.CRUCIGRAMA) {
+    const [direction, number] = itemId.split('_');
+    if (!CROSSWORD_DIRECTIONS.includes(direction)) return null;
+
+    const clue = (content.clues?.[direction] || []).find((candidate: any) => String(candidate.number) === number);
+    if (!clue) return null;
+
+    return {
+      ...exercise,
+      content: { answerMatching: content.answerMatching, clues: { [direction]: [clue] } }
+    };
+  }
+
+  const collection = ITEM_COLLECTIONS[exercise.exerciseType];
+  if (!collection) return null;
+
+  const items: any[] = Array.isArray(content[collection]) ? content[collection] : [];
+  const item = items.find((candidate, index) => String(candidate?.id ?? index) === itemId);
+  if (!item) return null;
+
+  const { randomization, explanations, ...rest } = content;
+
+  return {
+    ...exercise,
+    content: { ...rest, [collection]: [{ ...item, id: item.id ?? itemId }] }
+  };
+}
+
+/**
+ * Content of an isolated item as the student sees it (no answer key)
+ *
+ * Crossword clues show the answer length in place of the grid.
+ */
+export function reviewContent(isolated: ExerciseResponse): ExerciseContent {
+  const content = isolated.content;
+
+  if (isolated.exerciseType === ExerciseType.CRUCIGRAMA) {
+    const clues: Record<string, any[]> = {};
+
+    for (const direction of CROSSWORD_DIRECTIONS) {
+      if (!content.clues[direction]) continue;
+      clues[direction] = content.clues[direction].map((clue: any) => ({
+        ...withoutTextAnswer(clue),
+        length: String(clue.answer).replace(/\s+/g, '').length
+      }));
+    }
+
+    return { clues };
+  }
+
+  const collection = ITEM_COLLECTIONS[isolated.exerciseType]!;
+
+  return {
+    ...content,
+    [collection]: content[collection].map((item: any) => withoutTextAnswer(withoutAnswerKey(item)))
+  };
+}
+
+/**
+ * One item of an exercise as authored (with its answer key), or null when
+ * the exercise type has no items or the item is no longer in the content
+ */
+export function itemContent(exercise: ExerciseResponse, itemId: string): Record<string, any> | null {
+  const isolated = isolateItem(exercise, itemId);
+  if (!isolated) return null;
+
+  if (isolated.exerciseType === ExerciseType.CRUCIGRAMA) {
+    const [direction] = itemId.split('_');
+    return isolated.content.clues[direction][0];
+  }
+
+  return isolated.content[ITEM_COLLECTIONS[isolated.exerciseType]!][0];
+}
+
+function withoutTextAnswer(item: Record<string, any>): Record<string, any> {
+  return Object.fromEntries(Object.entries(item).filter(([key]) => !TEXT_ANSWER_FIELDS.includes(key)));
+}
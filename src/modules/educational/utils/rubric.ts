@@ -0,0 +1,170 @@
+/**
+ * Rubric Grading
+ *
+ * Scores a manually graded attempt from the level a teacher picked for each
+ * rubric criterion. Exercises without a rubric of their own are graded with
+ * one derived from the weights in `content.evaluationCriteria`.
+ */
+
+import {
+  ExerciseContent,
+  ExerciseRubric,
+  RubricCriterionGrade,
+  RubricCriterionScoreDto,
+  RubricScore
+} from '../educational.types';
+import { RUBRIC_SCHEMA, rubricRules } from '../validators/rubric';
+import { AppError } from '../../../middleware/error.middleware';
+import { ErrorCode } from '../../../shared/types';
+
+/**
+ * Levels of a derived criterion, as a share of its weight
+ */
+const DERIVED_LEVELS = [
+  { id: 'excelente', label: 'Excelente', share: 1, descriptor: 'Cumple el criterio de forma completa y destacada' },
+  { id: 'bueno', label: 'Bueno', share: 0.75, descriptor: 'Cumple el criterio con detalles menores por mejorar' },
+  { id: 'en_desarrollo', label: 'En desarrollo', share: 0.5, descriptor: 'Cumple el criterio de forma parcial' },
+  { id: 'insuficiente', label: 'Insuficiente', share: 0, descriptor: 'No cumple el criterio' }
+];
+
+/**
+ * Names of the evaluation criteria used by the content schemas
+ */
+const CRITERION_NAMES: Record<string, string> = {
+  clarity: 'Claridad',
+  evidence: 'Evidencia',
+  logic: 'Lógica',
+  persuasion: 'Persuasión',
+  contentQuality: 'Calidad del contenido',
+  audioQuality: 'Calidad del audio',
+  argumentation: 'Argumentación',
+  engagement: 'Interés',
+  reflection: 'Reflexión',
+  creativity: 'Creatividad',
+  multimedia: 'Uso multimedia',
+  consistency: 'Constancia',
+  narrative: 'Narrativa',
+  visualComposition: 'Composición visual',
+  coherence: 'Coherencia'
+};
+
+/**
+ * Rubric an attempt is graded with, and where it came from
+ *
+ * @returns null when the exercise has neither a valid rubric nor weighted
+ * evaluation criteria
+ */
+export function resolveRubric(
+  rubric: ExerciseRubric | null | undefined,
+  content: ExerciseContent | null | undefined
+): { rubric: ExerciseRubric; source: 'exercise' | 'evaluation_criteria' } | null {
+  if (rubric && isValidRubric(rubric)) {
+    return { rubric, source: 'exercise' };
+  }
+
+  const derived = deriveRubric(content?.evaluationCriteria);
+  return derived ? { rubric: derived, source: 'evaluation_criteria' } : null;
+}
+
+/**
+ * Score a rubric from one level per criterion
+ *
+ * Every criterion must be scored exactly once with one of its levels.
+ * The score is the share of the rubric's maximum points, 0-100.
+ */
+export function scoreRubric(rubric: ExerciseRubric, selections: RubricCriterionScoreDto[]): RubricScore {
+  const problems: string[] = [];
+  const selected = new Map<string, RubricCriterionScoreDto>();
+
+  selections.forEach(selection => {
+    if (selected.has(selection.criterionId)) {
+      problems.push(`Criterion "${selection.criterionId}" is scored more than once`);
+    }
+    selected.set(selection.criterionId, selection);
+  });
+
+  const known = new Set(rubric.criteria.map(criterion => criterion.id));
+  selections
+    .filter(selection => !known.has(selection.criterionId))
+    .forEach(selection => problems.push(`Criterion "${selection.criterionId}" is not in the rubric`));
+
+  const criteria: RubricCriterionGrade[] = [];
+
+  rubric.criteria.forEach(criterion => {
+    const maxPoints = Math.max(...criterion.levels.map(level => level.points));
+    const selection = selected.get(criterion.id);
+
+    if (!selection) {
+      problems.push(`Criterion "${criterion.id}" is not scored`);
+      return;
+    }
+
+    const level = criterion.levels.find(candidate => candidate.id === selection.levelId);
+    if (!level) {
+      problems.push(`Level "${selection.levelId}" is not a level of criterion "${criterion.id}"`);
+      return;
+    }
+
+    criteria.push({
+      criterionId: criterion.id,
+      criterionName: criterion.name,
+      levelId: level.id,
+      levelLabel: level.label,
+      points: level.points,
+      maxPoints,
+      comment: selection.comment?.trim() || null
+    });
+  });
+
+  if (problems.length > 0) {
+    throw new AppError('Rubric grade does not match the rubric', 400, ErrorCode.VALIDATION_ERROR, problems);
+  }
+
+  const earnedPoints = round(criteria.reduce((sum, criterion) => sum + criterion.points, 0));
+  const maxPoints = round(criteria.reduce((sum, criterion) => sum + criterion.maxPoints, 0));
+
+  return {
+    criteria,
+    earnedPoints,
+    maxPoints,
+    score: maxPoints > 0 ? Math.round((earnedPoints / maxPoints) * 100) : 0
+  };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function isValidRubric(rubric: ExerciseRubric): boolean {
+  return !RUBRIC_SCHEMA.validate(rubric, { allowUnknown: true }).error
+    && !rubricRules(rubric).some(issue => issue.severity === 'error');
+}
+
+/**
+ * One criterion per weighted evaluation criterion; the weights share out
+ * 100 points
+ */
+function deriveRubric(evaluationCriteria: Record<string, any> | undefined): ExerciseRubric | null {
+  if (!evaluationCriteria || typeof evaluationCriteria !== 'object') return null;
+
+  const weighted = Object.entries(evaluationCriteria)
+    .filter(([, weight]) => typeof weight === 'number' && weight > 0) as Array<[string, number]>;
+  const totalWeight = weighted.reduce((sum, [, weight]) => sum + weight, 0);
+
+  const criteria = weighted.map(([key, weight]) => ({
+    id: key,
+    name: CRITERION_NAMES[key] || key,
+    levels: DERIVED_LEVELS.map(level => ({
+      id: level.id,
+      label: level.label,
+      descriptor: level.descriptor,
+      points: round((weight / totalWeight) * 100 * level.share)
+    }))
+  }));
+
+  return criteria.length > 0 ? { criteria } : null;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,88 @@
+/**
+ * Spaced Repetition
+ *
+ * SM-2 schedule for review items. Each review is rated with a quality from
+ * 0 (blackout) to 5 (perfect recall); 3 and up counts as recalled and
+ * stretches the interval, anything lower starts the item over.
+ */
+
+import { ReviewSchedule } from '../educational.types';
+
+export const INITIAL_EASE_FACTOR = 2.5;
+const MIN_EASE_FACTOR = 1.3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Lowest quality that counts as recalled
+ */
+export const PASSING_QUALITY = 3;
+
+/**
+ * Schedule of an item that has just been missed: due right away
+ */
+export function initialSchedule(now: Date = new Date()): ReviewSchedule {
+  return { easeFactor: INITIAL_EASE_FACTOR, intervalDays: 0, repetitions: 0, dueAt: now };
+}
+
+/**
+ * Next schedule after a review rated `quality` (0-5)
+ */
+export function scheduleReview(
+  current: Pick<ReviewSchedule, 'easeFactor' | 'intervalDays' | 'repetitions'>,
+  quality: number,
+  now: Date = new Date()
+): ReviewSchedule {
+  const q = Math.max(0, Math.min(5, Math.round(quality)));
+
+  let repetitions: number;
+  let intervalDays: number;
+
+  if (q >= PASSING_QUALITY) {
+    if (current.repetitions === 0) {
+      intervalDays = 1;
+    } else if (current.repetitions === 1) {
+      intervalDays = 6;
+    } else {
+      intervalDays = Math.max(1, Math.round(current.intervalDays * current.easeFactor));
+    }
+    repetitions = current.repetitions + 1;
+  } else {
+    repetitions = 0;
+    intervalDays = 1;
+  }
+
+  const easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    current.easeFactor + (0.1 - (5 - q) * (0.08 + (5 - q) * 0.02))
+  );
+
+  return {
+    easeFactor: Math.round(easeFactor * 100) / 100,
+    intervalDays,
+    repetitions,
+    dueAt: new Date(now.getTime() + intervalDays * DAY_MS)
+  };
+}
+
+/**
+ * SM-2 quality of a graded review
+ *
+ * A fully correct answer is rated by the student (3-5, default 4); partial
+ * credit is a near miss (2) and anything else a failed recall (1).
+ */
+export function reviewQuality(credit: number, selfRating?: number): number {
+  if (credit >= 1) {
+    return selfRating === undefined ? 4 : Math.max(PASSING_QUALITY, Math.min(5, Math.round(selfRating)));
+  }
+
+  return credit >= 0.5 ? 2 : 1;
+}
+
+/**
+ * Reviews due before the end of the current day (UTC) are due today
+ */
+export function endOfToday(now: Date = new Date()): Date {
+  const end = new Date(now);
+  end.setUTCHours(24, 0, 0, 0);
+  return end;
+}
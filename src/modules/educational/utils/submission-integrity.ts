@@ -0,0 +1,108 @@
+/**
+ * Submission Integrity Utilities
+ *
+ * Anomaly scoring for exercise attempts. Pure functions: the service
+ * gathers the evidence (classmate duplicates, recent scores) and these
+ * weigh it.
+ */
+
+import { ExerciseResponse, IntegrityAssessment, IntegrityPolicy, IntegritySignal } from '../educational.types';
+
+export const DEFAULT_INTEGRITY_POLICY: IntegrityPolicy = {
+  minTimeRatio: 0.2,
+  duplicateWindowMinutes: 30,
+  scoreJumpThreshold: 50,
+  flagThreshold: 50,
+  holdRewards: false
+};
+
+/**
+ * Minimum prior attempts before a score jump is meaningful
+ */
+const MIN_ATTEMPTS_FOR_JUMP = 3;
+
+/**
+ * Evidence about one attempt
+ */
+export interface IntegrityEvidence {
+  score: number;
+  timeSpent: number; // seconds, server-measured
+  duplicates: Array<{ attemptId: string; userId: string; score: number }>;
+  recentAverageScore: number | null;
+  recentAttempts: number;
+}
+
+/**
+ * Merge `content.integrityPolicy` onto the platform default
+ */
+export function resolveIntegrityPolicy(exercise: ExerciseResponse): IntegrityPolicy {
+  const override = exercise.content?.integrityPolicy;
+  if (!override || typeof override !== 'object') return DEFAULT_INTEGRITY_POLICY;
+
+  return {
+    ...DEFAULT_INTEGRITY_POLICY,
+    ...Object.fromEntries(Object.entries(override).filter(([, value]) => value !== undefined))
+  };
+}
+
+/**
+ * Weigh the evidence into an anomaly score (0-100)
+ */
+export function assessAttempt(
+  exercise: ExerciseResponse,
+  evidence: IntegrityEvidence,
+  policy: IntegrityPolicy
+): IntegrityAssessment {
+  const signals: IntegritySignal[] = [];
+
+  // Impossibly short time; worse when the answers are also (nearly) perfect
+  const estimatedSeconds = (Number(exercise.estimatedTimeMinutes) || 0) * 60;
+  const minSeconds = estimatedSeconds * policy.minTimeRatio;
+  if (estimatedSeconds > 0 && evidence.timeSpent < minSeconds) {
+    signals.push({
+      code: 'too_fast',
+      weight: evidence.score >= 90 ? 60 : 40,
+      details: { timeSpent: evidence.timeSpent, minSeconds: Math.round(minSeconds), estimatedSeconds }
+    });
+  }
+
+  // Identical payloads from classmates. Identical wrong answers are the
+  // strong tell; two perfect payloads are identical by nature.
+  if (evidence.duplicates.length > 0) {
+    signals.push({
+      code: 'duplicate_answers',
+      weight: evidence.score < 100 ? 50 : 25,
+      details: {
+        windowMinutes: policy.duplicateWindowMinutes,
+        matches: evidence.duplicates.map(match => ({ attemptId: match.attemptId, userId: match.userId }))
+      }
+    });
+  }
+
+  // Sudden jump over the student's recent average
+  if (
+    evidence.recentAverageScore !== null &&
+    evidence.recentAttempts >= MIN_ATTEMPTS_FOR_JUMP &&
+    evidence.score - evidence.recentAverageScore >= policy.scoreJumpThreshold
+  ) {
+    signals.push({
+      code: 'score_jump',
+      weight: 30,
+      details: {
+        score: evidence.score,
+        recentAverageScore: Math.round(evidence.recentAverageScore),
+        recentAttempts: evidence.recentAttempts
+      }
+    });
+  }
+
+  const anomalyScore = Math.min(100, signals.reduce((sum, signal) => sum + signal.weight, 0));
+  const flagged = anomalyScore >= policy.flagThreshold;
+
+  return {
+    anomalyScore,
+    signals,
+    flagged,
+    holdRewards: flagged && policy.holdRewards
+  };
+}
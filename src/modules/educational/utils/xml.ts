@@ -0,0 +1,188 @@
+/**
+ * XML Utilities
+ *
+ * Small XML reader for imported content packages (QTI). Handles elements,
+ * attributes, text, CDATA and the predefined and numeric entities;
+ * comments, processing instructions and doctypes are skipped. Namespace
+ * prefixes are dropped from element names.
+ */
+
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlNode[];
+}
+
+export type XmlNode = XmlElement | string;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: "'",
+  nbsp: ' '
+};
+
+/**
+ * Parse a document and return its root element
+ *
+ * Throws on malformed markup.
+ */
+export function parseXml(xml: string): XmlElement {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [] };
+  const stack: XmlElement[] = [root];
+  let position = 0;
+
+  while (position < xml.length) {
+    const tagStart = xml.indexOf('<', position);
+    const textEnd = tagStart === -1 ? xml.length : tagStart;
+
+    if (textEnd > position) {
+      const text = decodeEntities(xml.slice(position, textEnd));
+      if (text.trim() || stack.length > 1) stack[stack.length - 1].children.push(text);
+    }
+    if (tagStart === -1) break;
+
+    if (xml.startsWith('<!--', tagStart)) {
+      position = skipPast(xml, tagStart, '-->');
+    } else if (xml.startsWith('<![CDATA[', tagStart)) {
+      const end = xml.indexOf(']]>', tagStart);
+      if (end === -1) throw new Error('Unterminated CDATA section');
+      stack[stack.length - 1].children.push(xml.slice(tagStart + 9, end));
+      position = end + 3;
+    } else if (xml.startsWith('<?', tagStart)) {
+      position = skipPast(xml, tagStart, '?>');
+    } else if (xml.startsWith('<!', tagStart)) {
+      position = skipPast(xml, tagStart, '>');
+    } else if (xml.startsWith('</', tagStart)) {
+      const end = xml.indexOf('>', tagStart);
+      if (end === -1) throw new Error('Unterminated closing tag');
+
+      const name = localName(xml.slice(tagStart + 2, end).trim());
+      const open = stack.pop();
+      if (!open || open === root || open.name !== name) {
+        throw new Error(`Unexpected closing tag </${name}>`);
+      }
+      position = end + 1;
+    } else {
+      const end = findTagEnd(xml, tagStart);
+      const selfClosing = xml[end - 1] === '/';
+      const body = xml.slice(tagStart + 1, selfClosing ? end - 1 : end);
+      const nameMatch = body.match(/^[^\s/>]+/);
+      if (!nameMatch) throw new Error('Malformed tag');
+
+      const element: XmlElement = {
+        name: localName(nameMatch[0]),
+        attributes: parseAttributes(body.slice(nameMatch[0].length)),
+        children: []
+      };
+      stack[stack.length - 1].children.push(element);
+      if (!selfClosing) stack.push(element);
+      position = end + 1;
+    }
+  }
+
+  if (stack.length > 1) {
+    throw new Error(`Unclosed tag <${stack[stack.length - 1].name}>`);
+  }
+
+  const documentElement = root.children.find(isElement);
+  if (!documentElement) throw new Error('Document has no root element');
+
+  return documentElement;
+}
+
+export function isElement(node: XmlNode): node is XmlElement {
+  return typeof node !== 'string';
+}
+
+/**
+ * Child elements with the given name
+ */
+export function childElements(element: XmlElement, name?: string): XmlElement[] {
+  return element.children.filter(
+    (node): node is XmlElement => isElement(node) && (!name || node.name === name)
+  );
+}
+
+/**
+ * Descendant elements with the given name, in document order
+ */
+export function findAll(element: XmlElement, name: string): XmlElement[] {
+  const found: XmlElement[] = [];
+
+  for (const child of childElements(element)) {
+    if (child.name === name) found.push(child);
+    found.push(...findAll(child, name));
+  }
+
+  return found;
+}
+
+export function findFirst(element: XmlElement, name: string): XmlElement | null {
+  return findAll(element, name)[0] || null;
+}
+
+/**
+ * Text of a node and its descendants, whitespace collapsed
+ */
+export function textContent(node: XmlNode | null): string {
+  if (!node) return '';
+  const raw = isElement(node) ? node.children.map(textContent).join(' ') : node;
+  return raw.replace(/\s+/g, ' ').trim();
+}
+
+function localName(name: string): string {
+  const colon = name.indexOf(':');
+  return colon === -1 ? name : name.slice(colon + 1);
+}
+
+function skipPast(xml: string, from: number, terminator: string): number {
+  const end = xml.indexOf(terminator, from);
+  if (end === -1) throw new Error(`Expected "${terminator}"`);
+  return end + terminator.length;
+}
+
+/**
+ * Position of the `>` closing a start tag (quoted `>` inside attribute
+ * values does not count)
+ */
+function findTagEnd(xml: string, from: number): number {
+  let quote: string | null = null;
+
+  for (let i = from + 1; i < xml.length; i++) {
+    const char = xml[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '>') {
+      return i;
+    }
+  }
+
+  throw new Error('Unterminated tag');
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([^\s=]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(source)) !== null) {
+    attributes[localName(match[1])] = decodeEntities(match[3] ?? match[4]);
+  }
+
+  return attributes;
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(value) ? String.fromCodePoint(value) : entity;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
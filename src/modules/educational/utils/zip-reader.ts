@@ -0,0 +1,93 @@
+/**
+ * Zip Reader
+ *
+ * Reads the files of a zip archive (stored or deflated entries) with
+ * zlib, for imported content packages. Sizes are capped so a crafted
+ * archive cannot exhaust memory.
+ */
+
+import { inflateRawSync } from 'zlib';
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATED = 8;
+
+export const MAX_UNZIPPED_BYTES = 50 * 1024 * 1024;
+
+/**
+ * Files of the archive by path (directories are skipped)
+ *
+ * Throws when the archive is malformed, encrypted, uses another
+ * compression method or unpacks to more than `maxBytes`.
+ */
+export function readZip(archive: Buffer, maxBytes: number = MAX_UNZIPPED_BYTES): Map<string, Buffer> {
+  const endOffset = findEndOfCentralDirectory(archive);
+  const entryCount = archive.readUInt16LE(endOffset + 10);
+  let offset = archive.readUInt32LE(endOffset + 16);
+
+  const files = new Map<string, Buffer>();
+  let totalBytes = 0;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > archive.length || archive.readUInt32LE(offset) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw new Error('Corrupt zip central directory');
+    }
+
+    const flags = archive.readUInt16LE(offset + 8);
+    const method = archive.readUInt16LE(offset + 10);
+    const compressedSize = archive.readUInt32LE(offset + 20);
+    const size = archive.readUInt32LE(offset + 24);
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const extraLength = archive.readUInt16LE(offset + 30);
+    const commentLength = archive.readUInt16LE(offset + 32);
+    const localOffset = archive.readUInt32LE(offset + 42);
+    const name = archive.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue;
+    if (flags & 0x1) throw new Error(`Zip entry ${name} is encrypted`);
+
+    totalBytes += size;
+    if (totalBytes > maxBytes) throw new Error('Zip archive is too large once unpacked');
+
+    files.set(name, readEntry(archive, localOffset, method, compressedSize, size, name));
+  }
+
+  return files;
+}
+
+function findEndOfCentralDirectory(archive: Buffer): number {
+  // The record is 22 bytes plus a comment of up to 64 KB
+  const lowest = Math.max(0, archive.length - 22 - 0xffff);
+
+  for (let offset = archive.length - 22; offset >= lowest; offset--) {
+    if (archive.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) return offset;
+  }
+
+  throw new Error('Not a zip archive');
+}
+
+function readEntry(
+  archive: Buffer,
+  offset: number,
+  method: number,
+  compressedSize: number,
+  size: number,
+  name: string
+): Buffer {
+  if (offset + 30 > archive.length || archive.readUInt32LE(offset) !== LOCAL_FILE_HEADER) {
+    throw new Error(`Corrupt zip entry ${name}`);
+  }
+
+  const start = offset + 30 + archive.readUInt16LE(offset + 26) + archive.readUInt16LE(offset + 28);
+  const data = archive.subarray(start, start + compressedSize);
+
+  if (method === METHOD_STORED) return data;
+  if (method === METHOD_DEFLATED) return inflateRawSync(data, { maxOutputLength: Math.max(size, 1) });
+
+  throw new Error(`Zip entry ${name} uses an unsupported compression method`);
+}
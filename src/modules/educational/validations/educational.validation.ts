@@ -144,7 +144,8 @@ export const createExerciseSchema = Joi.object({
     .integer()
     .min(1)
     .max(Joi.ref('maxScore'))
-    .default(70)
+    .allow(null)
+    .optional() // null = the scoring policy's passing score
     .messages({
       'number.max': 'Passing score cannot exceed max score',
     }),
@@ -152,7 +153,22 @@ export const createExerciseSchema = Joi.object({
     .integer()
     .min(1)
     .required(),
+  maxAttempts: Joi.number()
+    .integer()
+    .min(0)
+    .max(100)
+    .optional()
+    .messages({
+      'number.min': 'Max attempts must be 0 (unlimited) or more',
+    }),
+  timeLimitMinutes: Joi.number()
+    .integer()
+    .min(1)
+    .max(180)
+    .allow(null)
+    .optional(),
   content: Joi.object().required(),
+  rubric: Joi.object().allow(null).optional(),
   hints: Joi.array()
     .items(Joi.object({
       text: Joi.string().required(),
@@ -205,16 +221,19 @@ export const submitExerciseSchema = Joi.object({
       Joi.boolean(), // For boolean answers
     )
     .optional(),
+  attemptToken: Joi.string()
+    .required()
+    .messages({
+      'any.required': 'Attempt token is required. Start the attempt before submitting.',
+    }),
+  // Deprecated: timing comes from the attempt session, client start time is ignored
   startedAt: Joi.alternatives()
     .try(
       Joi.number(),  // Unix timestamp (milliseconds)
       Joi.date(),    // Date object
       Joi.string()   // ISO date string
     )
-    .required()
-    .messages({
-      'any.required': 'Start time is required for anti-cheat validation',
-    }),
+    .optional(),
   hintsUsed: Joi.number()
     .integer()
     .min(0)
@@ -222,6 +241,7 @@ export const submitExerciseSchema = Joi.object({
     .messages({
       'number.min': 'Hints used must be a non-negative number',
     }),
+  // Deprecated: comodines are recorded by the server when used on the attempt
   powerupsUsed: Joi.array()
     .items(Joi.string().valid('pistas', 'vision_lectora', 'segunda_oportunidad'))
     .optional()
@@ -230,6 +250,182 @@ export const submitExerciseSchema = Joi.object({
   attemptNumber: Joi.number().integer().min(1).default(1),
 }).or('answer', 'answers'); // At least one of answer or answers is required
 
+/**
+ * Use comodín validation schema
+ */
+export const useComodinSchema = Joi.object({
+  attemptToken: Joi.string().required(),
+  answers: Joi.alternatives()
+    .try(Joi.object(), Joi.array(), Joi.string(), Joi.number(), Joi.boolean())
+    .optional(),
+});
+
+/**
+ * Answer-key dry run validation schema (saved exercise)
+ */
+export const dryRunExerciseSchema = Joi.object({
+  exercise: Joi.object({
+    exerciseType: Joi.string().required(),
+    content: Joi.object().required(),
+    difficulty: Joi.string().valid('beginner', 'intermediate', 'advanced').optional(),
+    estimatedTimeMinutes: Joi.number().integer().min(1).optional(),
+    passingScore: Joi.number().integer().min(0).max(100).optional(),
+    xpReward: Joi.number().integer().min(0).optional(),
+    mlCoinsReward: Joi.number().integer().min(0).optional(),
+  }).unknown(true).optional(),
+  answers: Joi.alternatives()
+    .try(Joi.object(), Joi.array(), Joi.string(), Joi.number(), Joi.boolean())
+    .required(),
+  timeSpent: Joi.number().integer().min(0).optional(),
+  powerupsUsed: Joi.array()
+    .items(Joi.string().valid('pistas', 'vision_lectora', 'segunda_oportunidad'))
+    .optional()
+    .default([]),
+  currentRank: Joi.string()
+    .valid('nacom', 'batab', 'holcatte', 'guerrero', 'mercenario')
+    .optional(),
+  streakDays: Joi.number().integer().min(0).optional(),
+  firstAttempt: Joi.boolean().optional(),
+});
+
+/**
+ * Answer-key dry run validation schema (unsaved exercise payload)
+ */
+export const dryRunDraftExerciseSchema = dryRunExerciseSchema.fork(
+  ['exercise'],
+  (schema) => schema.required()
+);
+
+/**
+ * Exercise content audit query validation schema
+ */
+export const contentAuditQuerySchema = Joi.object({
+  moduleId: uuidSchema.optional(),
+  exerciseType: Joi.string().optional(),
+  includeInactive: Joi.boolean().optional(),
+});
+
+/**
+ * Student variants query validation schema
+ */
+export const studentVariantsQuerySchema = Joi.object({
+  studentId: uuidSchema.optional(),
+});
+
+/**
+ * Content bundle import validation schema
+ *
+ * Only the envelope is checked here; the bundle itself is validated by
+ * the import so problems come back in its report.
+ */
+export const importContentBundleSchema = Joi.object({
+  bundle: Joi.object(),
+  qti: Joi.object({
+    package: Joi.string().base64(),
+    items: Joi.array().items(Joi.string()).min(1),
+  }).xor('package', 'items'),
+  module: Joi.object(),
+  dryRun: Joi.boolean().default(false),
+  onConflict: Joi.string().valid('fail', 'skip').default('fail'),
+})
+  .xor('bundle', 'qti')
+  .messages({
+    'object.missing': 'Either a bundle or a QTI package is required',
+    'object.xor': 'Send either a bundle or a QTI package, not both',
+  });
+
+/**
+ * Due reviews query validation schema
+ */
+export const dueReviewsQuerySchema = Joi.object({
+  limit: Joi.number().integer().min(1).max(100).optional(),
+});
+
+/**
+ * Recommendations query validation schema
+ */
+export const recommendationsQuerySchema = Joi.object({
+  moduleId: uuidSchema.optional(),
+  limit: Joi.number().integer().min(1).max(20).optional(),
+});
+
+/**
+ * Submit review validation schema
+ */
+export const submitReviewSchema = Joi.object({
+  answer: Joi.any().required(),
+  quality: Joi.number().integer().min(3).max(5).optional(),
+});
+
+/**
+ * Confirm re-grade validation schema
+ */
+export const confirmRegradeSchema = Joi.object({
+  contentHash: Joi.string().hex().length(64).required(),
+  reason: Joi.string().trim().max(500).optional(),
+});
+
+/**
+ * Pending grading query validation schema
+ */
+export const pendingGradingQuerySchema = Joi.object({
+  exerciseId: uuidSchema.optional(),
+  page: Joi.number().integer().min(1).optional(),
+  limit: Joi.number().integer().min(1).max(100).optional(),
+});
+
+/**
+ * Rubric grade validation schema
+ */
+export const gradeAttemptSchema = Joi.object({
+  criteria: Joi.array()
+    .items(Joi.object({
+      criterionId: Joi.string().trim().required(),
+      levelId: Joi.string().trim().required(),
+      comment: Joi.string().trim().max(1000).allow('').optional(),
+    }))
+    .min(1)
+    .required(),
+  comments: Joi.string().trim().max(2000).allow('').optional(),
+});
+
+/**
+ * Learner analytics query validation schema
+ */
+export const analyticsQuerySchema = Joi.object({
+  timeframe: Joi.string().valid('week', 'month', 'quarter', 'year', 'all').optional(),
+});
+
+/**
+ * Learner analytics params validation schema
+ */
+export const analyticsParamsSchema = Joi.object({
+  userId: uuidSchema.required(),
+});
+
+/**
+ * Classroom analytics params validation schema
+ */
+export const classroomAnalyticsParamsSchema = Joi.object({
+  classroomId: uuidSchema.required(),
+});
+
+/**
+ * Item analysis query validation schema
+ */
+export const itemAnalysisQuerySchema = Joi.object({
+  classroomId: uuidSchema.optional(),
+  format: Joi.string().valid('json', 'csv').optional(),
+});
+
+/**
+ * Flagged attempt review validation schema
+ */
+export const reviewAttemptFlagSchema = Joi.object({
+  decision: Joi.string().valid('cleared', 'confirmed').required(),
+  notes: Joi.string().trim().max(1000).optional(),
+});
+
 /**
  * Progress query validation schema
  */
@@ -278,6 +474,12 @@ export default {
   createExerciseSchema,
   updateExerciseSchema,
   submitExerciseSchema,
+  useComodinSchema,
+  dryRunExerciseSchema,
+  dryRunDraftExerciseSchema,
+  confirmRegradeSchema,
+  gradeAttemptSchema,
+  reviewAttemptFlagSchema,
   progressQuerySchema,
   activityFilterSchema,
 };
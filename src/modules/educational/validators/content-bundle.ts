@@ -0,0 +1,104 @@
+/**
+ * Content Bundle Validation
+ *
+ * Checks the structure of an import bundle (module metadata and exercise
+ * settings). Exercise content is checked against its type schema by the
+ * ExerciseContentValidator.
+ */
+
+import Joi from 'joi';
+import {
+  ComodinType,
+  ContentBundle,
+  ContentValidationIssue,
+  DifficultyLevel,
+  ExerciseType,
+  RangoMaya
+} from '../educational.types';
+
+export const CONTENT_BUNDLE_FORMAT = 'glit.content-bundle';
+export const CONTENT_BUNDLE_VERSION = 1;
+
+const BUNDLE_OPTIONS = {
+  abortEarly: false,
+  allowUnknown: true,
+  convert: false,
+  errors: { wrap: { label: false as const } }
+};
+
+const difficulty = Joi.string().valid(...Object.values(DifficultyLevel));
+const rank = Joi.string().valid(...Object.values(RangoMaya)).allow(null);
+
+export const bundleModuleSchema = Joi.object({
+  title: Joi.string().min(3).max(200).required(),
+  subtitle: Joi.string().allow('', null),
+  description: Joi.string().min(10).required(),
+  summary: Joi.string().allow('', null),
+  orderIndex: Joi.number().integer().min(1),
+  difficulty: difficulty.required(),
+  estimatedDurationMinutes: Joi.number().integer().min(1),
+  learningObjectives: Joi.array().items(Joi.string()),
+  rangoMayaRequired: rank,
+  rangoMayaGranted: rank,
+  xpReward: Joi.number().integer().min(0),
+  mlCoinsReward: Joi.number().integer().min(0),
+  thumbnailUrl: Joi.string().allow('', null),
+  tags: Joi.array().items(Joi.string())
+});
+
+const bundleExerciseSchema = Joi.object({
+  title: Joi.string().min(3).max(200).required(),
+  description: Joi.string().min(10).required(),
+  instructions: Joi.string().allow(''),
+  exerciseType: Joi.string().valid(...Object.values(ExerciseType)).required(),
+  difficulty: difficulty.required(),
+  content: Joi.object().required(),
+  config: Joi.object(),
+  solution: Joi.object().allow(null),
+  rubric: Joi.object().allow(null),
+  autoGradable: Joi.boolean(),
+  hints: Joi.array().items(Joi.string()),
+  maxPoints: Joi.number().integer().min(1),
+  passingScore: Joi.number().integer().min(0).max(100).allow(null),
+  estimatedTimeMinutes: Joi.number().integer().min(1),
+  timeLimitMinutes: Joi.number().integer().min(1).allow(null),
+  maxAttempts: Joi.number().integer().min(0),
+  comodinesAllowed: Joi.array().items(Joi.string().valid(...Object.values(ComodinType))),
+  xpReward: Joi.number().integer().min(0),
+  mlCoinsReward: Joi.number().integer().min(0)
+});
+
+const bundleSchema = Joi.object({
+  format: Joi.string().valid(CONTENT_BUNDLE_FORMAT).required(),
+  version: Joi.number().integer().min(1).max(CONTENT_BUNDLE_VERSION).required(),
+  module: bundleModuleSchema.allow(null).required(),
+  exercises: Joi.array().items(bundleExerciseSchema).min(1).required()
+});
+
+/**
+ * Structural problems of a bundle, with bundle paths as fields
+ */
+export function validateBundleStructure(bundle: ContentBundle): ContentValidationIssue[] {
+  const { error } = bundleSchema.validate(bundle, BUNDLE_OPTIONS);
+  const issues: ContentValidationIssue[] = error
+    ? error.details.map(detail => ({
+      severity: 'error' as const,
+      field: detail.path.join('.') || 'bundle',
+      message: detail.message
+    }))
+    : [];
+
+  // Titles identify exercises inside a module
+  const seen = new Set<string>();
+  (Array.isArray(bundle?.exercises) ? bundle.exercises : []).forEach((exercise, index) => {
+    const title = typeof exercise?.title === 'string' ? exercise.title.trim().toLowerCase() : null;
+    if (!title) return;
+
+    if (seen.has(title)) {
+      issues.push({ severity: 'error', field: `exercises.${index}.title`, message: `Duplicate exercise title "${exercise.title}" in the bundle` });
+    }
+    seen.add(title);
+  });
+
+  return issues;
+}
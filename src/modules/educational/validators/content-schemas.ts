@@ -0,0 +1,762 @@
+/**
+ * Exercise Content Schemas
+ *
+ * One schema per ExerciseType, following the type-specific content
+ * interfaces and the fields each scorer reads. A schema has two parts:
+ * - `schema`: the shape of the content (Joi)
+ * - `rules`: checks across fields (unique ids, references, answers that
+ *   must be among the options...), run once the shape is valid
+ *
+ * Types graded by a teacher without a content interface only get the
+ * shared fields checked.
+ */
+
+import Joi from 'joi';
+import { ContentValidationIssue, ExerciseType } from '../educational.types';
+import { normalizeForMatch, resolveTextMatchPolicy } from '../scorers/text-matching';
+import { collectPlaceholders, poolCollection } from '../utils/exercise-variants';
+
+/**
+ * Schema of one exercise type
+ */
+export interface ContentSchema {
+  schema: Joi.ObjectSchema;
+  rules?: (content: any) => ContentValidationIssue[];
+}
+
+// ============================================================================
+// SHARED FIELDS
+// ============================================================================
+
+const text = Joi.string().pattern(/\S/).messages({ 'string.pattern.base': '{{#label}} must not be blank' });
+const itemId = Joi.alternatives().try(text, Joi.number().integer());
+const prose = Joi.string().allow('');
+const credit = Joi.number().min(0).max(1);
+const criteriaWeight = Joi.number().min(0);
+
+const textMatchingSchema = Joi.object({
+  caseSensitive: Joi.boolean(),
+  foldDiacritics: Joi.boolean(),
+  normalizePunctuation: Joi.boolean(),
+  typoTolerance: Joi.alternatives().try(
+    Joi.boolean(),
+    Joi.object({
+      enabled: Joi.boolean(),
+      charsPerTypo: Joi.number().integer().min(1),
+      maxTypos: Joi.number().integer().min(0),
+      credit
+    })
+  ),
+  synonyms: Joi.object().pattern(Joi.string(), Joi.array().items(Joi.string()))
+});
+
+/**
+ * Fields any exercise type may carry (policies read by the platform)
+ */
+export const BASE_CONTENT_SCHEMA = Joi.object({
+  question: Joi.string(),
+  options: Joi.array(),
+  correctAnswers: Joi.array(),
+  explanations: Joi.object().pattern(Joi.string(), prose),
+  marieCurieContext: Joi.object(),
+  resources: Joi.array(),
+  highlights: Joi.array(),
+  answerMatching: textMatchingSchema,
+  attemptPolicy: Joi.object({
+    cooldownMinutes: Joi.number().integer().min(0),
+    scorePolicy: Joi.string().valid('best', 'latest', 'average')
+  }),
+  timeLimitPolicy: Joi.object({
+    mode: Joi.string().valid('reject', 'penalize'),
+    graceSeconds: Joi.number().min(0),
+    penaltyPerMinute: Joi.number().min(0),
+    maxPenalty: Joi.number().min(0)
+  }),
+  integrityPolicy: Joi.object({
+    minTimeRatio: credit,
+    duplicateWindowMinutes: Joi.number().integer().min(1),
+    scoreJumpThreshold: Joi.number().min(0).max(100),
+    flagThreshold: Joi.number().min(0).max(100),
+    holdRewards: Joi.boolean()
+  }),
+  randomization: Joi.object({
+    drawCount: Joi.number().integer().min(1),
+    shuffleItems: Joi.boolean(),
+    shuffleOptions: Joi.boolean(),
+    parameterSets: Joi.array()
+      .items(Joi.object().pattern(Joi.string(), Joi.alternatives().try(Joi.string(), Joi.number())))
+      .min(1)
+  })
+});
+
+/**
+ * Choice question read by `scoreChoiceQuestions`
+ */
+const choiceQuestionSchema = Joi.object({
+  id: itemId,
+  question: text.required(),
+  options: Joi.array().min(2).required(),
+  correctAnswer: Joi.any().required(),
+  points: Joi.number().greater(0)
+});
+
+// ============================================================================
+// RULE HELPERS
+// ============================================================================
+
+function error(field: string, message: string): ContentValidationIssue {
+  return { severity: 'error', field, message };
+}
+
+function warning(field: string, message: string): ContentValidationIssue {
+  return { severity: 'warning', field, message };
+}
+
+/**
+ * Items are answered by id, so two items must never share one
+ */
+function uniqueIds(items: any[], field: string, key: string = 'id'): ContentValidationIssue[] {
+  const seen = new Set<string>();
+  const issues: ContentValidationIssue[] = [];
+
+  items.forEach((item, index) => {
+    if (item?.[key] === undefined) return;
+
+    const value = String(item[key]);
+    if (seen.has(value)) {
+      issues.push(error(`${field}.${index}.${key}`, `Duplicate ${key} "${value}"`));
+    }
+    seen.add(value);
+  });
+
+  return issues;
+}
+
+/**
+ * Same test the Visión Lectora comodín uses to spot the right option
+ */
+function isAmongOptions(correctAnswer: any, options: any[]): boolean {
+  const accepted = Array.isArray(correctAnswer) ? correctAnswer : [correctAnswer];
+
+  return accepted.every(answer =>
+    options.some((option, index) =>
+      answer === option ||
+      answer === index ||
+      (option && typeof option === 'object' &&
+        (answer === option.id || answer === option.value || answer === option.text))
+    )
+  );
+}
+
+function choiceQuestionRules(questions: any[], field: string = 'questions'): ContentValidationIssue[] {
+  const issues = uniqueIds(questions, field);
+
+  questions.forEach((question, index) => {
+    if (Array.isArray(question.options) && !isAmongOptions(question.correctAnswer, question.options)) {
+      issues.push(error(
+        `${field}.${index}.correctAnswer`,
+        'Correct answer must be one of the options or an option index'
+      ));
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Pool settings must fit the items they draw from, and every parameter set
+ * must fill every placeholder
+ */
+export function randomizationRules(exerciseType: ExerciseType, content: any): ContentValidationIssue[] {
+  const settings = content.randomization;
+  if (!settings) return [];
+
+  const issues: ContentValidationIssue[] = [];
+  const collection = poolCollection(exerciseType);
+
+  if (!collection && (settings.drawCount !== undefined || settings.shuffleItems || settings.shuffleOptions)) {
+    issues.push(error('randomization', `${exerciseType} exercises have no item pool; only parameterSets apply`));
+  }
+
+  const poolSize = collection && Array.isArray(content[collection]) ? content[collection].length : 0;
+  if (collection && settings.drawCount > poolSize) {
+    issues.push(error('randomization.drawCount', `Cannot draw ${settings.drawCount} items from a pool of ${poolSize}`));
+  }
+
+  const { randomization, ...rest } = content;
+  const placeholders = [...collectPlaceholders(rest)];
+
+  (settings.parameterSets || []).forEach((parameters: Record<string, any>, index: number) => {
+    const missing = placeholders.filter(name => parameters[name] === undefined);
+    if (missing.length > 0) {
+      issues.push(error(
+        `randomization.parameterSets.${index}`,
+        `Missing values for ${missing.map(name => `{{${name}}}`).join(', ')}`
+      ));
+    }
+  });
+
+  if (placeholders.length > 0 && !settings.parameterSets) {
+    issues.push(warning('randomization', 'Content has placeholders but no parameter sets to fill them'));
+  }
+
+  return issues;
+}
+
+/**
+ * Teacher-graded types weigh their criteria; all-zero weights grade nothing
+ */
+function criteriaRules(content: any): ContentValidationIssue[] {
+  const weights = Object.values(content.evaluationCriteria || {}) as number[];
+  return weights.some(weight => weight > 0)
+    ? []
+    : [error('evaluationCriteria', 'At least one evaluation criterion must have a weight above 0')];
+}
+
+// ============================================================================
+// MODULE 1 - COMPRENSIÓN LITERAL
+// ============================================================================
+
+const crucigramaClue = Joi.object({
+  number: Joi.number().integer().min(1).required(),
+  clue: text.required(),
+  answer: text.required(),
+  acceptedAnswers: Joi.array().items(text),
+  synonyms: Joi.array().items(text),
+  matching: textMatchingSchema
+});
+
+const crucigrama: ContentSchema = {
+  schema: BASE_CONTENT_SCHEMA.keys({
+    grid: Joi.object({
+      rows: Joi.number().integer().min(1).required(),
+      cols: Joi.number().integer().min(1).required(),
+      cells: Joi.array().items(Joi.object({
+        row: Joi.number().integer().min(0).required(),
+        col: Joi.number().integer().min(0).required(),
+        value: prose.required(),
+        isBlack: Joi.boolean().required(),
+        number: Joi.number().integer().min(1)
+      })).required()
+    }).required(),
+    clues: Joi.object({
+      across: Joi.array().items(crucigramaClue).required(),
+      down: Joi.array().items(crucigramaClue).required()
+    }).required()
+  }),
+  rules(content) {
+    const issues: ContentValidationIssue[] = [];
+    const { grid, clues } = content;
+
+    if (clues.across.length + clues.down.length === 0) {
+      issues.push(error('clues', 'The crossword needs at least one clue'));
+    }
+
+    issues.push(...uniqueIds(clues.across, 'clues.across', 'number'));
+    issues.push(...uniqueIds(clues.down, 'clues.down', 'number'));
+
+    grid.cells.forEach((cell: any, index: number) => {
+      if (cell.row >= grid.rows || cell.col >= grid.cols) {
+        issues.push(error(`grid.cells.${index}`, `Cell (${cell.row}, ${cell.col}) is outside the ${grid.rows}x${grid.cols} grid`));
+      }
+    });
+
+    const numbered = new Set(grid.cells.filter((cell: any) => cell.number).map((cell: any) => cell.number));
+    if (numbered.size > 0) {
+      for (const direction of ['across', 'down']) {
+        clues[direction].forEach((clue: any, index: number) => {
+          if (!numbered.has(clue.number)) {
+            issues.push(warning(`clues.${direction}.${index}.number`, `No grid cell is numbered ${clue.number}`));
+          }
+        });
+      }
+    }
+
+    return issues;
+  }
+};
+
+const lineaTiempo: ContentSchema = {
+  schema: BASE_CONTENT_SCHEMA.keys({
+    orderScoring: Joi.string().valid('position', 'pairwise', 'longest_run'),
+    events: Joi.array().items(Joi.object({
+      id: itemId.required(),
+      title: text.required(),
+      date: text.required(),
+      year: Joi.number().integer().required(),
+      description: prose.required(),
+      imageUrl: Joi.string(),
+      correctPosition: Joi.number().integer().min(0).required()
+    })).min(2).required(),
+    timelineRange: Joi.object({
+      startYear: Joi.number().integer().required(),
+      endYear: Joi.number().integer().required()
+    }).required()
+  }),
+  rules(content) {
+    const issues = uniqueIds(content.events, 'events');
+    const { startYear, endYear } = content.timelineRange;
+
+    if (endYear < startYear) {
+      issues.push(error('timelineRange.endYear', 'End year must not be before the start year'));
+    } else {
+      content.events.forEach((event: any, index: number) => {
+        if (event.year < startYear || event.year > endYear) {
+          issues.push(error(`events.${index}.year`, `Year ${event.year} is outside the timeline range ${startYear}-${endYear}`));
+        }
+      });
+    }
+
+    if (new Set(content.events.map((event: any) => event.year)).size < 2) {
+      issues.push(warning('events', 'All events share the same year, so any order is correct'));
+    }
+
+    return issues;
+  }
+};
+
+const WORD_POLICY = resolveTextMatchPolicy({ typoTolerance: false });
+const DIRECTIONS = [[0, 1], [1, 0], [1, 1], [1, -1], [0, -1], [-1, 0], [-1, -1], [-1, 1]];
+
+function toWordKey(value: any): string {
+  return normalizeForMatch(value, WORD_POLICY).replace(/\s+/g, '');
+}
+
+/**
+ * Whether a word can be read on the grid in one of the 8 directions
+ */
+function isOnGrid(grid: string[][], word: string): boolean {
+  const key = toWordKey(word);
+
+  for (let row = 0; row < grid.length; row++) {
+    for (let col = 0; col < grid[row].length; col++) {
+      for (const [stepRow, stepCol] of DIRECTIONS) {
+        let letters = '';
+        for (let i = 0; i < key.length; i++) {
+          const letter = grid[row + i * stepRow]?.[col + i * stepCol];
+          if (letter === undefined) break;
+          letters += letter;
+        }
+        if (letters.length === key.length && toWordKey(letters) === key) return true;
+      }
+    }
+  }
+
+  return false;
+}
+
+const sopaLetras: ContentSchema = {
+  schema: BASE_CONTENT_SCHEMA.keys({
+    grid: Joi.alternatives().try(
+      Joi.array().items(text).min(1),
+      Joi.array().items(Joi.array().items(Joi.string().length(1)).min(1)).min(1)
+    ).required(),
+    words: Joi.array().items(
+      text,
+      Joi.object({ word: text.required(), clue: prose })
+    ).min(1).required()
+  }),
+  rules(content) {
+    const issues: ContentValidationIssue[] = [];
+    const grid: string[][] = content.grid.map((row: any) => (Array.isArray(row) ? row : Array.from(row)));
+
+    grid.forEach((row, index) => {
+      if (row.length !== grid[0].length) {
+        issues.push(error(`grid.${index}`, `Row has ${row.length} letters, expected ${grid[0].length}`));
+      }
+    });
+
+    const seen = new Set<string>();
+    content.words.forEach((entry: any, index: number) => {
+      const word = typeof entry === 'string' ? entry : entry.word;
+      const field = typeof entry === 'string' ? `words.${index}` : `words.${index}.word`;
+
+      if (seen.has(toWordKey(word))) {
+        issues.push(error(field, `Duplicate word "${word}"`));
+      } else if (!isOnGrid(grid, word)) {
+        issues.push(error(field, `Word "${word}" cannot be found on the grid`));
+      }
+      seen.add(toWordKey(word));
+    });
+
+    return issues;
+  }
+};
+
+const mapaConceptual: ContentSchema = {
+  schema: BASE_CONTENT_SCHEMA.keys({
+    concepts: Joi.array().items(Joi.object({
+      id: itemId.required(),
+      text: text.required(),
+      level: Joi.number().integer().min(0).required(),
+      position: Joi.object({ x: Joi.number().required(), y: Joi.number().required() })
+    })).min(2).required(),
+    relationships: Joi.array().items(Joi.object({
+      id: itemId.required(),
+      fromConceptId: itemId.required(),
+      toConceptId: itemId.required(),
+      label: prose.required(),
+      type: Joi.string().valid('is-a', 'has-a', 'part-of', 'causes', 'leads-to').required(),
+      direction: Joi.string().valid('directed', 'undirected', 'bidirectional'),
+      labelSynonyms: Joi.array().items(text),
+      weight: Joi.number().greater(0),
+      required: Joi.boolean()
+    })).min(1).required(),
+    mainConcept: text.required(),
+    labelSynonyms: Joi.array().items(Joi.array().items(text).min(2)),
+    graphScoring: Joi.object({
+      wrongLabelCredit: credit,
+      wrongEdgePenalty: Joi.number().min(0)
+    })
+  }),
+  rules(content) {
+    const issues = [
+      ...uniqueIds(content.concepts, 'concepts'),
+      ...uniqueIds(content.relationships, 'relationships')
+    ];
+    const conceptIds = new Set(content.concepts.map((concept: any) => String(concept.id)));
+
+    content.relationships.forEach((rel: any, index: number) => {
+      for (const end of ['fromConceptId', 'toConceptId']) {
+        if (!conceptIds.has(String(rel[end]))) {
+          issues.push(error(`relationships.${index}.${end}`, `Unknown concept "${rel[end]}"`));
+        }
+      }
+    });
+
+    if (!content.relationships.some((rel: any) => rel.required !== false)) {
+      issues.push(error('relationships', 'At least one relationship must be required'));
+    }
+
+    const isMainConcept = content.concepts.some(
+      (concept: any) => String(concept.id) === content.mainConcept || concept.text === content.mainConcept
+    );
+    if (!isMainConcept) {
+      issues.push(warning('mainConcept', 'Main concept does not match any concept id or text'));
+    }
+
+    return issues;
+  }
+};
+
+const emparejamiento: ContentSchema = {
+  schema: BASE_CONTENT_SCHEMA.keys({
+    correctPairs: Joi.object()
+      .pattern(Joi.string(), Joi.alternatives().try(text, Joi.number()))
+      .min(1)
+      .required()
+  })
+};
+
+// ============================================================================
+// MODULE 2 - COMPRENSIÓN INFERENCIAL
+// ============================================================================
+
+const detectiveTextual: ContentSchema = {
+  schema: BASE_CONTENT_SCHEMA.keys({
+    text: text.required(),
+    questions: Joi.array().items(Joi.object({
+      id: itemId.required(),
+      question: text.required(),
+      type: Joi.string().valid('multiple_choice', 'true_false', 'short_answer', 'inference').required(),
+      options: Joi.array().items(text).min(2),
+      correctAnswer: Joi.alternatives().try(text, Joi.array().items(text).min(1)).required(),
+      explanation: prose.required(),
+      evidenceLocation: Joi.object({
+        startIndex: Joi.number().integer().min(0).required(),
+        endIndex: Joi.number().integer().min(0).required()
+      })
+    })).min(1).required(),
+    cluesAvailable: Joi.array().items(text).required()
+  }),
+  rules(content) {
+    const issues = uniqueIds(content.questions, 'questions');
+
+    content.questions.forEach((question: any, index: number) => {
+      if (question.type === 'multiple_choice') {
+        if (!question.options) {
+          issues.push(error(`questions.${index}.options`, 'Multiple choice questions need options'));
+        } else if (!isAmongOptions(question.correctAnswer, question.options)) {
+          issues.push(error(`questions.${index}.correctAnswer`, 'Correct answer must be one of the options'));
+        }
+      }
+
+      const location = question.evidenceLocation;
+      if (location && (location.endIndex <= location.startIndex || location.endIndex > content.text.length)) {
+        issues.push(error(`questions.${index}.evidenceLocation`, 'Evidence location must be a range inside the text'));
+      }
+    });
+
+    return issues;
+  }
+};
+
+// ============================================================================
+// MODULE 3 - COMPRENSIÓN CRÍTICA
+// ============================================================================
+
+const debateDigital: ContentSchema = {
+  schema: BASE_CONTENT_SCHEMA.keys({
+    topic: text.required(),
+    stance: Joi.string().valid('pro', 'contra').required(),
+    aiOpponentLevel: Joi.string().valid('beginner', 'intermediate', 'advanced').required(),
+    timeLimit: Joi.number().integer().min(1).required(),
+    minArguments: Joi.number().integer().min(1).required(),
+    evaluationCriteria: Joi.object({
+      clarity: criteriaWeight.required(),
+      evidence: criteriaWeight.required(),
+      logic: criteriaWeight.required(),
+      persuasion: criteriaWeight.required()
+    }).required(),
+    backgroundInfo: Joi.array().items(text).required(),
+    suggestedArguments: Joi.array().items(text)
+  }),
+  rules: criteriaRules
+};
+
+const podcastArgumentativo: ContentSchema = {
+  schema: BASE_CONTENT_SCHEMA.keys({
+    topic: text.required(),
+    script: Joi.object({
+      intro: prose.required(),
+      mainPoints: Joi.array().items(text).min(1).required(),
+      conclusion: prose.required()
+    }).required(),
+    minDuration: Joi.number().integer().min(1).required(),
+    maxDuration: Joi.number().integer().min(1).required(),
+    evaluationCriteria: Joi.object({
+      contentQuality: criteriaWeight.required(),
+      audioQuality: criteriaWeight.required(),
+      argumentation: criteriaWeight.required(),
+      engagement: criteriaWeight.required()
+    }).required(),
+    exampleScripts: Joi.array().items(text)
+  }),
+  rules(content) {
+    const issues = criteriaRules(content);
+    if (content.maxDuration < content.minDuration) {
+      issues.push(error('maxDuration', 'Maximum duration must not be below the minimum duration'));
+    }
+    return issues;
+  }
+};
+
+// ============================================================================
+// MODULE 4 - LECTURA DIGITAL
+// ============================================================================
+
+const verificadorFakeNews: ContentSchema = {
+  schema: BASE_CONTENT_SCHEMA.keys({
+    article: Joi.object({
+      title: text.required(),
+      content: text.required(),
+      source: text.required(),
+      publishDate: text.required(),
+      imageUrl: Joi.string()
+    }).required(),
+    claims: Joi.array().items(Joi.object({
+      id: itemId.required(),
+      claim: text.required(),
+      isVerified: Joi.boolean().required(),
+      veracity: Joi.string().valid('true', 'false', 'misleading', 'unverifiable').required(),
+      sources: Joi.array().items(text).required(),
+      explanation: prose.required()
+    })).min(1).required(),
+    checklistCriteria: Joi.array().items(text).required()
+  }),
+  rules: content => uniqueIds(content.claims, 'claims')
+};
+
+const quizTikTok: ContentSchema = {
+  schema: BASE_CONTENT_SCHEMA.keys({
+    questions: Joi.array().items(Joi.object({
+      id: itemId.required(),
+      videoUrl: Joi.string(),
+      imageUrl: Joi.string(),
+      question: text.required(),
+      options: Joi.array().items(text).min(2).required(),
+      correctAnswer: Joi.number().integer().min(0).required(),
+      explanation: prose.required(),
+      funFact: prose
+    })).min(1).required(),
+    swipeDirection: Joi.string().valid('vertical', 'horizontal').required(),
+    autoAdvance: Joi.boolean().required(),
+    timePerQuestion: Joi.number().integer().min(1).required()
+  }),
+  rules(content) {
+    const issues = uniqueIds(content.questions, 'questions');
+
+    content.questions.forEach((question: any, index: number) => {
+      if (question.correctAnswer >= question.options.length) {
+        issues.push(error(`questions.${index}.correctAnswer`, `Option index ${question.correctAnswer} does not exist`));
+      }
+    });
+
+    return issues;
+  }
+};
+
+/**
+ * Types scored by `createChoiceQuestionScorer`
+ */
+const choiceQuestions: ContentSchema = {
+  schema: BASE_CONTENT_SCHEMA.keys({
+    questions: Joi.array().items(choiceQuestionSchema).min(1).required()
+  }),
+  rules: content => choiceQuestionRules(content.questions)
+};
+
+// ============================================================================
+// MODULE 5 - PRODUCCIÓN LECTORA
+// ============================================================================
+
+const diarioMultimedia: ContentSchema = {
+  schema: BASE_CONTENT_SCHEMA.keys({
+    prompts: Joi.array().items(text).min(1).required(),
+    minEntries: Joi.number().integer().min(1).required(),
+    allowedMediaTypes: Joi.array()
+      .items(Joi.string().valid('text', 'image', 'video', 'audio'))
+      .min(1)
+      .unique()
+      .required(),
+    evaluationCriteria: Joi.object({
+      reflection: criteriaWeight.required(),
+      creativity: criteriaWeight.required(),
+      multimedia: criteriaWeight.required(),
+      consistency: criteriaWeight.required()
+    }).required()
+  }),
+  rules: criteriaRules
+};
+
+const libraryItem = Joi.object({
+  id: itemId.required(),
+  name: text.required(),
+  imageUrl: text.required()
+});
+
+const comicDigital: ContentSchema = {
+  schema: BASE_CONTENT_SCHEMA.keys({
+    theme: text.required(),
+    minPanels: Joi.number().integer().min(1).required(),
+    maxPanels: Joi.number().integer().min(1).required(),
+    characterLibrary: Joi.array().items(libraryItem).required(),
+    backgroundLibrary: Joi.array().items(libraryItem).required(),
+    evaluationCriteria: Joi.object({
+      narrative: criteriaWeight.required(),
+      visualComposition: criteriaWeight.required(),
+      creativity: criteriaWeight.required(),
+      coherence: criteriaWeight.required()
+    }).required()
+  }),
+  rules(content) {
+    const issues = [
+      ...criteriaRules(content),
+      ...uniqueIds(content.characterLibrary, 'characterLibrary'),
+      ...uniqueIds(content.backgroundLibrary, 'backgroundLibrary')
+    ];
+    if (content.maxPanels < content.minPanels) {
+      issues.push(error('maxPanels', 'Maximum panels must not be below the minimum panels'));
+    }
+    return issues;
+  }
+};
+
+// ============================================================================
+// AUXILIARES
+// ============================================================================
+
+const verdaderoFalso: ContentSchema = {
+  schema: BASE_CONTENT_SCHEMA.keys({
+    statements: Joi.array().items(
+      Joi.object({
+        id: itemId,
+        statement: text,
+        text,
+        correctAnswer: Joi.boolean(),
+        isTrue: Joi.boolean(),
+        explanation: prose
+      })
+        .or('statement', 'text')
+        .or('correctAnswer', 'isTrue')
+    ).min(1).required()
+  }),
+  rules: content => uniqueIds(content.statements, 'statements')
+};
+
+const completarEspacios: ContentSchema = {
+  schema: BASE_CONTENT_SCHEMA.keys({
+    text: prose,
+    blanks: Joi.array().items(Joi.object({
+      id: itemId,
+      correctAnswer: text.required(),
+      acceptedAnswers: Joi.array().items(text),
+      synonyms: Joi.array().items(text),
+      matching: textMatchingSchema
+    })).min(1).required()
+  }),
+  rules: content => uniqueIds(content.blanks, 'blanks')
+};
+
+const collagePrensa: ContentSchema = {
+  schema: BASE_CONTENT_SCHEMA.keys({
+    requiredElements: Joi.array().items(
+      text,
+      Joi.object({ id: itemId.required(), points: Joi.number().greater(0) })
+    )
+  }),
+  rules(content) {
+    const elements: any[] = content.requiredElements || [];
+    if (elements.length === 0) {
+      return [warning('requiredElements', 'Without required elements every attempt goes to teacher review')];
+    }
+
+    return uniqueIds(elements.map(element => (typeof element === 'object' ? element : { id: element })), 'requiredElements');
+  }
+};
+
+/**
+ * Teacher-graded types without a content interface
+ */
+const openTask: ContentSchema = {
+  schema: BASE_CONTENT_SCHEMA
+};
+
+export const CONTENT_SCHEMAS: Record<ExerciseType, ContentSchema> = {
+  [ExerciseType.CRUCIGRAMA]: crucigrama,
+  [ExerciseType.LINEA_TIEMPO]: lineaTiempo,
+  [ExerciseType.SOPA_LETRAS]: sopaLetras,
+  [ExerciseType.MAPA_CONCEPTUAL]: mapaConceptual,
+  [ExerciseType.EMPAREJAMIENTO]: emparejamiento,
+
+  [ExerciseType.DETECTIVE_TEXTUAL]: detectiveTextual,
+  [ExerciseType.CONSTRUCCION_HIPOTESIS]: openTask,
+  [ExerciseType.PREDICCION_NARRATIVA]: openTask,
+  [ExerciseType.PUZZLE_CONTEXTO]: openTask,
+  [ExerciseType.RUEDA_INFERENCIAS]: openTask,
+
+  [ExerciseType.TRIBUNAL_OPINIONES]: openTask,
+  [ExerciseType.DEBATE_DIGITAL]: debateDigital,
+  [ExerciseType.ANALISIS_FUENTES]: openTask,
+  [ExerciseType.PODCAST_ARGUMENTATIVO]: podcastArgumentativo,
+  [ExerciseType.MATRIZ_PERSPECTIVAS]: openTask,
+
+  [ExerciseType.VERIFICADOR_FAKE_NEWS]: verificadorFakeNews,
+  [ExerciseType.INFOGRAFIA_INTERACTIVA]: openTask,
+  [ExerciseType.QUIZ_TIKTOK]: quizTikTok,
+  [ExerciseType.NAVEGACION_HIPERTEXTUAL]: openTask,
+  [ExerciseType.ANALISIS_MEMES]: choiceQuestions,
+
+  [ExerciseType.DIARIO_MULTIMEDIA]: diarioMultimedia,
+  [ExerciseType.COMIC_DIGITAL]: comicDigital,
+  [ExerciseType.VIDEO_CARTA]: openTask,
+
+  [ExerciseType.COMPRENSION_AUDITIVA]: choiceQuestions,
+  [ExerciseType.COLLAGE_PRENSA]: collagePrensa,
+  [ExerciseType.TEXTO_MOVIMIENTO]: openTask,
+  [ExerciseType.CALL_TO_ACTION]: openTask,
+  [ExerciseType.VERDADERO_FALSO]: verdaderoFalso,
+  [ExerciseType.COMPLETAR_ESPACIOS]: completarEspacios,
+  [ExerciseType.DIARIO_INTERACTIVO]: openTask,
+  [ExerciseType.RESUMEN_VISUAL]: openTask
+};
@@ -4,23 +4,93 @@
  * Validation functions for different exercise types
  */
 
-import { ExerciseType } from '../educational.types';
+import { ContentValidationIssue, ContentValidationResult, ExerciseType } from '../educational.types';
+import { BASE_CONTENT_SCHEMA, CONTENT_SCHEMAS, randomizationRules } from './content-schemas';
+import { RUBRIC_SCHEMA, rubricRules } from './rubric';
+
+const SCHEMA_OPTIONS = {
+  abortEarly: false,
+  allowUnknown: true,
+  convert: false,
+  errors: { wrap: { label: false as const } }
+};
 
 /**
- * Placeholder for exercise content validator
+ * Validates exercise content against the schema of its type
  */
 export class ExerciseContentValidator {
-  validate(exerciseType: any, content: any): { isValid: boolean; errors?: Array<{ severity: string; field: string; message: string }> } {
-    // TODO: Implement comprehensive content validation
-    return { isValid: true, errors: [] };
+  validate(exerciseType: ExerciseType, content: any): ContentValidationResult {
+    const contentSchema = CONTENT_SCHEMAS[exerciseType];
+
+    if (!contentSchema) {
+      return toResult([{ severity: 'error', field: 'exerciseType', message: `Unknown exercise type "${exerciseType}"` }]);
+    }
+
+    if (!content || typeof content !== 'object' || Array.isArray(content)) {
+      return toResult([{ severity: 'error', field: 'content', message: 'Content must be an object' }]);
+    }
+
+    const { error } = contentSchema.schema.validate(content, SCHEMA_OPTIONS);
+
+    if (error) {
+      return toResult(error.details.map(detail => ({
+        severity: 'error' as const,
+        field: detail.path.join('.') || 'content',
+        message: detail.message
+      })));
+    }
+
+    // Cross-field rules assume the shape is valid
+    return toResult([
+      ...(contentSchema.rules ? contentSchema.rules(content) : []),
+      ...randomizationRules(exerciseType, content)
+    ]);
   }
 
+  /**
+   * Validates the grading rubric of an exercise
+   */
+  validateRubric(rubric: any): ContentValidationResult {
+    if (!rubric || typeof rubric !== 'object' || Array.isArray(rubric)) {
+      return toResult([{ severity: 'error', field: 'rubric', message: 'Rubric must be an object' }]);
+    }
+
+    const { error } = RUBRIC_SCHEMA.validate(rubric, SCHEMA_OPTIONS);
+
+    if (error) {
+      return toResult(error.details.map(detail => ({
+        severity: 'error' as const,
+        field: detail.path.join('.') || 'rubric',
+        message: detail.message
+      })));
+    }
+
+    return toResult(rubricRules(rubric));
+  }
+
+  /**
+   * Validate only the fields shared by every exercise type
+   */
   static validate(content: any): { valid: boolean; errors?: string[] } {
-    // TODO: Implement comprehensive content validation
-    return { valid: true };
+    if (!content || typeof content !== 'object' || Array.isArray(content)) {
+      return { valid: false, errors: ['content: Content must be an object'] };
+    }
+
+    const { error } = BASE_CONTENT_SCHEMA.validate(content, SCHEMA_OPTIONS);
+
+    return error
+      ? { valid: false, errors: error.details.map(detail => `${detail.path.join('.')}: ${detail.message}`) }
+      : { valid: true };
   }
 }
 
+function toResult(issues: ContentValidationIssue[]): ContentValidationResult {
+  return {
+    isValid: !issues.some(issue => issue.severity === 'error'),
+    errors: issues
+  };
+}
+
 /**
  * Validate answer format for specific exercise type
  */
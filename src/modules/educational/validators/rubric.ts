@@ -0,0 +1,68 @@
+/**
+ * Rubric Schema
+ *
+ * Shape of the grading rubric of a manually scored exercise: criteria, each
+ * with performance levels (label, descriptor, points). Teachers grade by
+ * picking one level per criterion, so ids must be unique and every
+ * criterion needs a level worth points.
+ */
+
+import Joi from 'joi';
+import { ContentValidationIssue } from '../educational.types';
+
+const text = Joi.string().pattern(/\S/).messages({ 'string.pattern.base': '{{#label}} must not be blank' });
+const rubricId = Joi.string().pattern(/^[A-Za-z0-9_-]+$/).max(64)
+  .messages({ 'string.pattern.base': '{{#label}} may only contain letters, digits, "-" and "_"' });
+
+const rubricLevelSchema = Joi.object({
+  id: rubricId.required(),
+  label: text.max(100).required(),
+  descriptor: Joi.string().allow('').max(2000).required(),
+  points: Joi.number().min(0).max(1000).required()
+});
+
+const rubricCriterionSchema = Joi.object({
+  id: rubricId.required(),
+  name: text.max(200).required(),
+  description: Joi.string().allow('').max(2000),
+  levels: Joi.array().items(rubricLevelSchema).min(2).max(10).required()
+});
+
+export const RUBRIC_SCHEMA = Joi.object({
+  criteria: Joi.array().items(rubricCriterionSchema).min(1).max(20).required()
+});
+
+/**
+ * Checks across criteria and levels, run once the shape is valid
+ */
+export function rubricRules(rubric: any): ContentValidationIssue[] {
+  const issues: ContentValidationIssue[] = [];
+  const criterionIds = new Set<string>();
+
+  rubric.criteria.forEach((criterion: any, index: number) => {
+    const field = `criteria.${index}`;
+
+    if (criterionIds.has(criterion.id)) {
+      issues.push({ severity: 'error', field: `${field}.id`, message: `Duplicate criterion id "${criterion.id}"` });
+    }
+    criterionIds.add(criterion.id);
+
+    const levelIds = new Set<string>();
+    criterion.levels.forEach((level: any, levelIndex: number) => {
+      if (levelIds.has(level.id)) {
+        issues.push({ severity: 'error', field: `${field}.levels.${levelIndex}.id`, message: `Duplicate level id "${level.id}"` });
+      }
+      levelIds.add(level.id);
+    });
+
+    if (!criterion.levels.some((level: any) => level.points > 0)) {
+      issues.push({ severity: 'error', field: `${field}.levels`, message: `Criterion "${criterion.name}" needs a level worth more than 0 points` });
+    }
+
+    if (criterion.levels.some((level: any) => !level.descriptor.trim())) {
+      issues.push({ severity: 'warning', field: `${field}.levels`, message: `Criterion "${criterion.name}" has levels without a descriptor` });
+    }
+  });
+
+  return issues;
+}
@@ -53,6 +53,16 @@ export interface SpendCoinsParams {
   metadata?: any;
 }
 
+export interface AdjustCoinsParams {
+  userId: string;
+  amount: number; // Signed: positive credits, negative debits
+  reason: string;
+  transactionType: string;
+  referenceId?: string;
+  referenceType?: string;
+  metadata?: any;
+}
+
 export class CoinsRepository {
   constructor(private pool: Pool) {}
 
@@ -247,6 +257,86 @@ export class CoinsRepository {
     }
   }
 
+  /**
+   * Post a signed balance correction to the ledger
+   *
+   * Debits never take the balance below zero; the amount actually applied
+   * is recorded and the requested one is kept in metadata. When a client is
+   * passed the caller owns the transaction.
+   */
+  async adjustCoins(params: AdjustCoinsParams, dbClient?: PoolClient): Promise<MLCoinsTransaction> {
+    const client = dbClient || await this.pool.connect();
+    const shouldRelease = !dbClient;
+
+    try {
+      if (shouldRelease) await client.query('BEGIN');
+
+      const balanceResult = await client.query(
+        'SELECT ml_coins FROM gamification_system.user_stats WHERE user_id = $1 FOR UPDATE',
+        [params.userId]
+      );
+
+      const currentBalance = balanceResult.rows[0]?.ml_coins || 0;
+      const appliedAmount = Math.max(Math.round(params.amount), -currentBalance);
+      const newBalance = currentBalance + appliedAmount;
+
+      await client.query(
+        `UPDATE gamification_system.user_stats
+         SET ml_coins = ml_coins + $1,
+             ml_coins_earned_total = GREATEST(ml_coins_earned_total + $1, 0),
+             updated_at = NOW()
+         WHERE user_id = $2`,
+        [appliedAmount, params.userId]
+      );
+
+      const transactionResult = await client.query<MLCoinsTransaction>(
+        `INSERT INTO gamification_system.ml_coins_transactions (
+          user_id,
+          amount,
+          balance_before,
+          balance_after,
+          transaction_type,
+          description,
+          reason,
+          reference_id,
+          reference_type,
+          multiplier,
+          bonus_applied,
+          metadata
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+        RETURNING *`,
+        [
+          params.userId,
+          appliedAmount,
+          currentBalance,
+          newBalance,
+          params.transactionType,
+          params.reason,
+          params.reason,
+          params.referenceId || null,
+          params.referenceType || null,
+          1.0,
+          false,
+          { ...(params.metadata || {}), requestedAmount: params.amount },
+        ]
+      );
+
+      if (shouldRelease) await client.query('COMMIT');
+
+      log.info(`User ${params.userId} ML Coins adjusted by ${appliedAmount} (${params.reason})`);
+
+      return transactionResult.rows[0];
+    } catch (error) {
+      if (shouldRelease) await client.query('ROLLBACK');
+      log.error('Error adjusting ML Coins:', error);
+      throw error;
+    } finally {
+      if (shouldRelease) {
+        client.release();
+      }
+    }
+  }
+
   /**
    * Get transaction history
    */
@@ -157,6 +157,27 @@ export class MissionEvents {
     }
   }
 
+  /**
+   * Track a completed spaced-repetition review
+   */
+  static async onReviewCompleted(
+    userId: string,
+    dbClient?: PoolClient
+  ): Promise<void> {
+    try {
+      await missionsService.updateMissionProgress(
+        userId,
+        'reviews_completed',
+        1,
+        dbClient
+      );
+
+      log.debug(`Mission progress updated: review completed by user ${userId}`);
+    } catch (error) {
+      log.error('Error updating mission progress (review completed):', error);
+    }
+  }
+
   /**
    * Track achievement unlock
    */
@@ -317,6 +338,7 @@ export const {
   onXPEarned,
   onModuleCompleted,
   onPowerupUsed,
+  onReviewCompleted,
   onAchievementUnlocked,
   onRankUp,
   onLogin,
@@ -339,12 +361,14 @@ export async function notifyExerciseCompleted(
     isPerfect: boolean;
     difficulty?: string;
     moduleId?: string;
-  }
+  },
+  dbClient?: PoolClient
 ): Promise<void> {
   try {
     await MissionEvents.onExerciseCompleted(userId, {
       score: data.score,
       usedHints: undefined, // Will be handled separately if needed
+      dbClient,
     });
 
     log.debug(`Mission notification: exercise completed for user ${userId}`);
@@ -359,10 +383,11 @@ export async function notifyMLCoinsEarned(
     amount: number;
     source: string;
     exerciseId?: string;
-  }
+  },
+  dbClient?: PoolClient
 ): Promise<void> {
   try {
-    await MissionEvents.onMLCoinsEarned(userId, data.amount);
+    await MissionEvents.onMLCoinsEarned(userId, data.amount, dbClient);
 
     log.debug(`Mission notification: ${data.amount} ML Coins earned for user ${userId}`);
   } catch (error) {
@@ -376,10 +401,11 @@ export async function notifyXPEarned(
     amount: number;
     source: string;
     exerciseId?: string;
-  }
+  },
+  dbClient?: PoolClient
 ): Promise<void> {
   try {
-    await MissionEvents.onXPEarned(userId, data.amount);
+    await MissionEvents.onXPEarned(userId, data.amount, dbClient);
 
     log.debug(`Mission notification: ${data.amount} XP earned for user ${userId}`);
   } catch (error) {
@@ -203,6 +203,25 @@ export const DAILY_MISSION_TEMPLATES: MissionTemplate[] = [
     difficulty: 'medium',
     icon: 'users',
   },
+  {
+    id: 'daily_reviews_5',
+    title: 'Repasar 5 elementos',
+    description: 'Repasa 5 elementos pendientes de tu cola de repaso',
+    type: 'daily',
+    objectives: [
+      {
+        type: 'reviews_completed',
+        target: 5,
+        description: 'Repasos completados',
+      },
+    ],
+    rewards: {
+      ml_coins: 40,
+      xp: 80,
+    },
+    difficulty: 'easy',
+    icon: 'repeat',
+  },
 ];
 
 /**
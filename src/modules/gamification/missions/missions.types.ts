@@ -36,7 +36,8 @@ export type ObjectiveType =
   | 'guild_joined'
   | 'exercises_no_hints'
   | 'weekly_exercises'
-  | 'total_xp_earned';
+  | 'total_xp_earned'
+  | 'reviews_completed';
 
 /**
  * Mission objective
@@ -71,7 +71,8 @@ export const checkMissionsProgressSchema = Joi.object({
         'guild_joined',
         'exercises_no_hints',
         'weekly_exercises',
-        'total_xp_earned'
+        'total_xp_earned',
+        'reviews_completed'
       )
       .required(),
     amount: Joi.number().integer().min(1).optional().default(1),
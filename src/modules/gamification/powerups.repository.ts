@@ -147,7 +147,7 @@ export class PowerupsRepository {
     const shouldRelease = !dbClient;
 
     try {
-      await client.query('BEGIN');
+      if (shouldRelease) await client.query('BEGIN');
 
       const fieldMap: Record<string, string> = {
         pistas: 'pistas_available',
@@ -183,18 +183,23 @@ export class PowerupsRepository {
          SET ${field} = ${field} - 1,
              ${usedField} = ${usedField} + 1,
              updated_at = NOW()
-         WHERE user_id = $1
+         WHERE user_id = $1 AND ${field} > 0
          RETURNING *`,
         [userId]
       );
 
-      await client.query('COMMIT');
+      // Charged concurrently since the check
+      if (result.rows.length === 0) {
+        throw new Error('Powerup not available');
+      }
+
+      if (shouldRelease) await client.query('COMMIT');
 
       log.info(`User ${userId} used ${powerupType} on exercise ${exerciseId}`);
 
       return result.rows[0];
     } catch (error) {
-      await client.query('ROLLBACK');
+      if (shouldRelease) await client.query('ROLLBACK');
       log.error('Error using powerup:', error);
       throw error;
     } finally {
@@ -12,6 +12,7 @@ import { log } from './shared/utils/logger';
 import { initializeSocketServer, disconnectAllSockets } from './websocket/socket.server';
 import { startMissionsCronJobs, stopMissionsCronJobs } from './modules/gamification/missions/missions.cron';
 import { startNotificationsCronJobs, stopNotificationsCronJobs } from './modules/notifications/notifications.cron';
+import { startSubmissionOutboxCronJobs, stopSubmissionOutboxCronJobs } from './modules/educational/submission-outbox.cron';
 // TODO: Implement these cron jobs
 // import { startDailyResetCronJobs, stopDailyResetCronJobs } from './cron/daily-reset.cron';
 // import { startStreaksCronJobs, stopStreaksCronJobs } from './cron/streaks.cron';
@@ -47,6 +48,7 @@ async function bootstrap(): Promise<void> {
     // Initialize cron jobs
     startMissionsCronJobs();
     startNotificationsCronJobs();
+    startSubmissionOutboxCronJobs();
     // TODO: Implement these cron jobs
     // startDailyResetCronJobs();
     // startStreaksCronJobs();
@@ -78,6 +80,7 @@ async function bootstrap(): Promise<void> {
       // Stop cron jobs
       stopMissionsCronJobs();
       stopNotificationsCronJobs();
+      stopSubmissionOutboxCronJobs();
       // TODO: Implement these cron jobs
       // stopDailyResetCronJobs();
       // stopStreaksCronJobs();
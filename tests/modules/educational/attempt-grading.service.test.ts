@@ -0,0 +1,191 @@
+import { Pool } from 'pg';
+import { AttemptGradingService } from '../../../src/modules/educational/attempt-grading.service';
+import { AttemptGradingRepository, GradableAttempt } from '../../../src/modules/educational/attempt-grading.repository';
+import { ExercisesRepository } from '../../../src/modules/educational/exercises.repository';
+import { ScoringPolicyService } from '../../../src/modules/educational/scoring-policy.service';
+import { SubmissionOutboxRepository } from '../../../src/modules/educational/submission-outbox.repository';
+import { CoinsRepository } from '../../../src/modules/gamification/coins.repository';
+import { AttemptGrade, ExerciseResponse, ExerciseType } from '../../../src/modules/educational/educational.types';
+
+function fakePool(statements: string[]): Pool {
+  const client = {
+    release: jest.fn(),
+    query: jest.fn(async (sql: string) => {
+      statements.push(sql);
+      return { rows: [] };
+    })
+  };
+
+  return { connect: async () => client } as unknown as Pool;
+}
+
+const rubric = {
+  criteria: [{
+    id: 'argument',
+    name: 'Argumentación',
+    levels: [
+      { id: 'weak', label: 'Débil', descriptor: 'Sin evidencia', points: 0 },
+      { id: 'fair', label: 'Suficiente', descriptor: 'Evidencia parcial', points: 5 },
+      { id: 'strong', label: 'Sólida', descriptor: 'Evidencia del texto', points: 10 }
+    ]
+  }]
+};
+
+/**
+ * A detective textual attempt submitted without comodines, well over the
+ * speed bonus time and after an earlier attempt (no first-attempt bonus)
+ */
+function attempt(fields: Partial<GradableAttempt> = {}): GradableAttempt {
+  return {
+    attemptId: 'attempt-1',
+    userId: 'profile-1',
+    authUserId: 'user-1',
+    studentName: 'Ana',
+    exerciseId: 'exercise-1',
+    exerciseTitle: 'El caso del códice',
+    exerciseType: ExerciseType.DETECTIVE_TEXTUAL,
+    content: {} as GradableAttempt['content'],
+    rubric,
+    passingScore: null,
+    answers: { conclusion: 'Fue el escriba' },
+    score: 0,
+    isCorrect: false,
+    timeSpent: 900,
+    powerupsUsed: [],
+    xpEarned: 0,
+    mlCoinsEarned: 0,
+    submittedAt: new Date(),
+    scoringPolicyId: null,
+    gradingStatus: 'pending_review',
+    gradingContext: { currentRank: 'nacom', streakDays: 0, firstAttempt: false, timeOveragePenalty: 0 },
+    currentRank: 'nacom',
+    streakDays: 0,
+    earlierAttempts: 1,
+    otherBestScore: 0,
+    passedBefore: false,
+    ...fields
+  };
+}
+
+const exercise = {
+  id: 'exercise-1',
+  moduleId: 'module-1',
+  exerciseType: ExerciseType.DETECTIVE_TEXTUAL,
+  difficulty: 'beginner',
+  estimatedTimeMinutes: 10,
+  xpReward: 20,
+  mlCoinsReward: 5
+} as unknown as ExerciseResponse;
+
+const grader = { userId: 'teacher-1', role: 'admin_teacher' };
+
+const strong = { criteria: [{ criterionId: 'argument', levelId: 'strong' }] };
+const fair = { criteria: [{ criterionId: 'argument', levelId: 'fair' }] };
+
+describe('AttemptGradingService.gradeAttempt', () => {
+  let statements: string[];
+  let service: AttemptGradingService;
+  let enqueueEvents: jest.SpyInstance;
+
+  function grading(graded: GradableAttempt) {
+    jest.spyOn(AttemptGradingRepository.prototype, 'getAttempt').mockResolvedValue(graded);
+  }
+
+  beforeEach(() => {
+    statements = [];
+    service = new AttemptGradingService(fakePool(statements));
+
+    jest.spyOn(ExercisesRepository.prototype, 'getExerciseById').mockResolvedValue(exercise);
+    jest.spyOn(ScoringPolicyService.prototype, 'getPolicyForUser').mockImplementation(async function (this: ScoringPolicyService) {
+      return this.getBuiltInPolicy();
+    });
+    jest.spyOn(AttemptGradingRepository.prototype, 'saveGrade').mockResolvedValue({ id: 'grade-1' } as AttemptGrade);
+    jest.spyOn(AttemptGradingRepository.prototype, 'settleAttempt').mockResolvedValue();
+    jest.spyOn(AttemptGradingRepository.prototype, 'adjustUserXp').mockResolvedValue();
+    jest.spyOn(CoinsRepository.prototype, 'adjustCoins').mockResolvedValue({} as any);
+    enqueueEvents = jest.spyOn(SubmissionOutboxRepository.prototype, 'enqueueEvents').mockResolvedValue();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('settles a first grade like a live submission and credits its rewards', async () => {
+    grading(attempt());
+
+    const result = await service.gradeAttempt('attempt-1', strong, grader);
+
+    // 100 plus the perfect and no-hints bonuses, capped at 100
+    expect(result.settlement).toMatchObject({ finalScore: 100, passed: true, rewards: { xp: 20, mlCoins: 5 } });
+    expect(AttemptGradingRepository.prototype.settleAttempt).toHaveBeenCalledWith(expect.anything(), 'attempt-1', 100, true, 20, 5);
+    expect(AttemptGradingRepository.prototype.adjustUserXp).toHaveBeenCalledWith(expect.anything(), 'profile-1', 20);
+    expect(CoinsRepository.prototype.adjustCoins).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 'profile-1', amount: 5, transactionType: 'earned_exercise', referenceId: 'attempt-1' }),
+      expect.anything()
+    );
+    expect(result.settlement.pendingEvents).toEqual([
+      'achievements.check',
+      'rank.check',
+      'module_progress.completed',
+      'missions.exercise_completed',
+      'missions.ml_coins_earned',
+      'missions.xp_earned',
+      'grade.notify',
+      'analytics.refresh'
+    ]);
+    expect(enqueueEvents).toHaveBeenCalledWith(expect.anything(), 'attempt-1', 'user-1', expect.any(Array));
+    expect(statements).toEqual(['BEGIN', 'COMMIT']);
+  });
+
+  it('moves XP and ML Coins by the difference when a grade is lowered', async () => {
+    grading(attempt({ gradingStatus: 'graded', score: 100, isCorrect: true, xpEarned: 20, mlCoinsEarned: 5 }));
+
+    const result = await service.gradeAttempt('attempt-1', fair, grader);
+
+    // 50 plus the no-hints bonus: 55, which earns 11 XP and 2 ML Coins
+    expect(result.settlement).toMatchObject({ finalScore: 55, passed: false, rewards: { xp: -9, mlCoins: -3 } });
+    expect(AttemptGradingRepository.prototype.settleAttempt).toHaveBeenCalledWith(expect.anything(), 'attempt-1', 55, false, 11, 2);
+    expect(AttemptGradingRepository.prototype.adjustUserXp).toHaveBeenCalledWith(expect.anything(), 'profile-1', -9);
+    expect(CoinsRepository.prototype.adjustCoins).toHaveBeenCalledWith(
+      expect.objectContaining({ amount: -3, transactionType: 'admin_adjustment' }),
+      expect.anything()
+    );
+
+    const events = enqueueEvents.mock.calls[0][3];
+    expect(events.map((event: any) => event.eventType)).not.toContain('missions.exercise_completed');
+    expect(events.find((event: any) => event.eventType === 'grade.notify').payload).toMatchObject({ regraded: true, score: 55 });
+  });
+
+  it('credits nothing again when a regrade keeps the score', async () => {
+    grading(attempt({ gradingStatus: 'graded', score: 100, isCorrect: true, xpEarned: 20, mlCoinsEarned: 5 }));
+
+    const result = await service.gradeAttempt('attempt-1', strong, grader);
+
+    expect(result.settlement.rewards).toEqual({ xp: 0, mlCoins: 0 });
+    expect(AttemptGradingRepository.prototype.adjustUserXp).not.toHaveBeenCalled();
+    expect(CoinsRepository.prototype.adjustCoins).not.toHaveBeenCalled();
+    expect(result.settlement.pendingEvents).toEqual(['achievements.check', 'rank.check', 'grade.notify', 'analytics.refresh']);
+  });
+
+  it('refuses to grade an attempt rejected at submission', async () => {
+    grading(attempt({ gradingStatus: 'rejected', gradingContext: null }));
+
+    await expect(service.gradeAttempt('attempt-1', strong, grader)).rejects.toMatchObject({
+      statusCode: 409,
+      code: 'ATTEMPT_NOT_GRADABLE'
+    });
+    expect(AttemptGradingRepository.prototype.saveGrade).not.toHaveBeenCalled();
+    expect(statements).toEqual(['BEGIN', 'ROLLBACK']);
+  });
+
+  it('refuses to grade an automatically scored attempt', async () => {
+    grading(attempt({ exerciseType: ExerciseType.CRUCIGRAMA, gradingStatus: null, score: 80 }));
+
+    await expect(service.gradeAttempt('attempt-1', strong, grader)).rejects.toMatchObject({
+      statusCode: 400,
+      code: 'ATTEMPT_NOT_MANUALLY_GRADED'
+    });
+    expect(AttemptGradingRepository.prototype.settleAttempt).not.toHaveBeenCalled();
+    expect(statements).toEqual(['BEGIN', 'ROLLBACK']);
+  });
+});
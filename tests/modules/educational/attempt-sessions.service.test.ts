@@ -0,0 +1,123 @@
+import { Pool } from 'pg';
+import jwt from 'jsonwebtoken';
+import { AttemptSessionsService } from '../../../src/modules/educational/attempt-sessions.service';
+import { AttemptSessionsRepository } from '../../../src/modules/educational/attempt-sessions.repository';
+import { ExercisesRepository } from '../../../src/modules/educational/exercises.repository';
+import { AttemptSession, ComodinType, ExerciseResponse } from '../../../src/modules/educational/educational.types';
+import { jwtConfig } from '../../../src/config/jwt';
+
+function fakePool(statements: string[]): Pool {
+  const client = {
+    release: jest.fn(),
+    query: jest.fn(async (sql: string) => {
+      statements.push(sql);
+      return { rows: [] };
+    })
+  };
+
+  return { connect: async () => client, query: client.query } as unknown as Pool;
+}
+
+function token(): string {
+  return jwt.sign({ sub: 'user-1', sid: 'session-1', exerciseId: 'exercise-1' }, jwtConfig.secret, {
+    issuer: jwtConfig.issuer,
+    audience: 'glit-attempts'
+  });
+}
+
+/**
+ * An active session of a 10 minute attempt, closed after the given seconds
+ */
+function session(elapsedSeconds: number): AttemptSession & { elapsedSeconds: number } {
+  return {
+    id: 'session-1',
+    userId: 'user-1',
+    exerciseId: 'exercise-1',
+    status: 'active',
+    startedAt: new Date('2026-10-19T10:00:00Z'),
+    expiresAt: new Date('2026-10-20T10:00:00Z'),
+    timeLimitSeconds: 600,
+    submittedAt: null,
+    variant: null,
+    elapsedSeconds
+  };
+}
+
+describe('redeeming an attempt', () => {
+  let statements: string[];
+  let service: AttemptSessionsService;
+  let closeSession: jest.SpyInstance;
+  let recordRejectedAttempt: jest.SpyInstance;
+
+  function submitAfter(elapsedSeconds: number, timeLimitPolicy?: Record<string, any>) {
+    jest.spyOn(AttemptSessionsRepository.prototype, 'getSession').mockResolvedValue(session(elapsedSeconds));
+    closeSession.mockResolvedValue({ ...session(elapsedSeconds), status: 'submitted' });
+    jest.spyOn(ExercisesRepository.prototype, 'getExerciseById').mockResolvedValue({
+      id: 'exercise-1',
+      content: { timeLimitPolicy }
+    } as unknown as ExerciseResponse);
+
+    return service.redeemAttempt('user-1', 'exercise-1', token());
+  }
+
+  beforeEach(() => {
+    statements = [];
+    service = new AttemptSessionsService(fakePool(statements));
+
+    closeSession = jest.spyOn(AttemptSessionsRepository.prototype, 'closeSession');
+    jest.spyOn(AttemptSessionsRepository.prototype, 'lockAttempts').mockResolvedValue();
+    jest.spyOn(AttemptSessionsRepository.prototype, 'getSessionPowerups').mockResolvedValue([ComodinType.PISTAS]);
+    recordRejectedAttempt = jest.spyOn(AttemptSessionsRepository.prototype, 'recordRejectedAttempt').mockResolvedValue('attempt-1');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('refuses a submission made right after the start without closing the session', async () => {
+    await expect(submitAfter(0.4)).rejects.toMatchObject({ statusCode: 400, code: 'SUBMISSION_TOO_FAST' });
+    expect(closeSession).not.toHaveBeenCalled();
+  });
+
+  it('accepts an overrun within the grace period without a penalty', async () => {
+    expect(await submitAfter(625.8)).toMatchObject({
+      sessionId: 'session-1',
+      timeSpent: 625,
+      overageSeconds: 25,
+      timeOveragePenalty: 0,
+      powerupsUsed: [ComodinType.PISTAS]
+    });
+  });
+
+  it('turns an overrun past the grace period into a penalty per started minute, up to the maximum', async () => {
+    const penalize = { mode: 'penalize' };
+
+    expect((await submitAfter(690, penalize)).timeOveragePenalty).toBe(20);
+    expect((await submitAfter(3600, penalize)).timeOveragePenalty).toBe(50);
+    expect((await submitAfter(700, { ...penalize, graceSeconds: 0, penaltyPerMinute: 5 })).timeOveragePenalty).toBe(10);
+    expect(recordRejectedAttempt).not.toHaveBeenCalled();
+  });
+
+  it('saves a rejected overrun as a zero-score attempt so it counts toward the limit', async () => {
+    await expect(submitAfter(700)).rejects.toMatchObject({ statusCode: 400, code: 'TIME_LIMIT_EXCEEDED' });
+
+    expect(recordRejectedAttempt).toHaveBeenCalledWith(
+      expect.anything(),
+      'user-1',
+      expect.objectContaining({ id: 'session-1' }),
+      700,
+      [ComodinType.PISTAS],
+      { rejectionReason: 'TIME_LIMIT_EXCEEDED', timeLimitSeconds: 600, overageSeconds: 100 }
+    );
+    expect(AttemptSessionsRepository.prototype.lockAttempts).toHaveBeenCalledWith(expect.anything(), 'user-1', 'exercise-1');
+    expect(statements).toEqual(['BEGIN', 'COMMIT']);
+  });
+
+  it('does not save an attempt whose session expired', async () => {
+    jest.spyOn(AttemptSessionsRepository.prototype, 'getSession').mockResolvedValue(session(700));
+    closeSession.mockResolvedValue({ ...session(700), status: 'expired' });
+
+    await expect(service.redeemAttempt('user-1', 'exercise-1', token())).rejects.toMatchObject({ code: 'SESSION_EXPIRED' });
+    expect(recordRejectedAttempt).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,83 @@
+import { Pool } from 'pg';
+import { ExercisesService } from '../../../src/modules/educational/exercises.service';
+import { ExercisesRepository } from '../../../src/modules/educational/exercises.repository';
+import { ScoringPolicyService } from '../../../src/modules/educational/scoring-policy.service';
+import { ExerciseResponse, ExerciseType } from '../../../src/modules/educational/educational.types';
+
+const content = {
+  statements: [
+    { id: 's1', statement: 'Juan Rulfo escribió Pedro Páramo', correctAnswer: true },
+    { id: 's2', statement: 'La Independencia terminó en 1810', correctAnswer: false }
+  ]
+};
+
+describe('ExercisesService.dryRunExercise', () => {
+  let pool: { query: jest.Mock; connect: jest.Mock };
+  let service: ExercisesService;
+
+  beforeEach(() => {
+    pool = { query: jest.fn(), connect: jest.fn() };
+    service = new ExercisesService(pool as unknown as Pool);
+
+    jest.spyOn(ScoringPolicyService.prototype, 'getPolicyForUser').mockImplementation(async function (this: ScoringPolicyService) {
+      return this.getBuiltInPolicy();
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('scores sample answers against a saved exercise without writing anything', async () => {
+    jest.spyOn(ExercisesRepository.prototype, 'getExerciseById').mockResolvedValue({
+      id: 'exercise-1',
+      exerciseType: ExerciseType.VERDADERO_FALSO,
+      estimatedTimeMinutes: 10,
+      passingScore: null,
+      mlCoinsReward: 5,
+      xpReward: 20,
+      content
+    } as unknown as ExerciseResponse);
+
+    const breakdown = await service.dryRunExercise('exercise-1', { answers: { s1: true, s2: true } }, 'teacher-1');
+
+    expect(breakdown).toMatchObject({
+      exerciseId: 'exercise-1',
+      exerciseType: ExerciseType.VERDADERO_FALSO,
+      baseScore: 50,
+      reasonCode: 'SCORED',
+      scoringPolicyVersion: 0
+    });
+    expect(breakdown.feedback.answerReview.map(item => [item.questionId, item.isCorrect])).toEqual([
+      ['s1', true],
+      ['s2', false]
+    ]);
+    expect(pool.query).not.toHaveBeenCalled();
+    expect(pool.connect).not.toHaveBeenCalled();
+  });
+
+  it('scores an unsaved draft, simulating a retry when asked', async () => {
+    const exercise = { exerciseType: ExerciseType.VERDADERO_FALSO, content };
+
+    const first = await service.dryRunExercise(null, { exercise, answers: { s1: true, s2: false } }, 'teacher-1');
+    const retry = await service.dryRunExercise(
+      null,
+      { exercise, answers: { s1: true, s2: false }, firstAttempt: false },
+      'teacher-1'
+    );
+
+    expect(first).toMatchObject({ exerciseId: null, baseScore: 100, passed: true });
+    expect(first.bonuses.firstAttempt).toBeGreaterThan(0);
+    expect(retry.bonuses.firstAttempt).toBeUndefined();
+    expect(pool.query).not.toHaveBeenCalled();
+  });
+
+  it('rejects a draft whose content does not validate', async () => {
+    const exercise = { exerciseType: ExerciseType.VERDADERO_FALSO, content: { statements: [] } };
+
+    await expect(service.dryRunExercise(null, { exercise, answers: {} }, 'teacher-1')).rejects.toMatchObject({
+      statusCode: 400,
+      code: 'VALIDATION_ERROR'
+    });
+  });
+});
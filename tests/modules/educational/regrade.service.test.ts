@@ -0,0 +1,192 @@
+import { Pool } from 'pg';
+import { RegradeService } from '../../../src/modules/educational/regrade.service';
+import { RegradeRepository, StoredAttempt } from '../../../src/modules/educational/regrade.repository';
+import { SubmissionIntegrityService } from '../../../src/modules/educational/submission-integrity.service';
+import { SubmissionIntegrityRepository } from '../../../src/modules/educational/submission-integrity.repository';
+import { ExercisesRepository } from '../../../src/modules/educational/exercises.repository';
+import { ProgressRepository } from '../../../src/modules/educational/progress.repository';
+import { ScoringService } from '../../../src/modules/educational/scoring.service';
+import { ScoringPolicyService } from '../../../src/modules/educational/scoring-policy.service';
+import { CoinsRepository } from '../../../src/modules/gamification/coins.repository';
+import { RanksService } from '../../../src/modules/gamification/ranks.service';
+import { AttemptFlag, ExerciseResponse } from '../../../src/modules/educational/educational.types';
+
+/**
+ * In-memory state of one student's flagged attempt, updated by the
+ * statements the services run
+ */
+interface State {
+  attempt: { xpEarned: number; mlCoinsEarned: number; score: number };
+  flag: { status: 'pending' | 'cleared' | 'confirmed'; heldXp: number; heldMlCoins: number };
+  totalXp: number;
+  mlCoins: number;
+}
+
+function fakePool(state: State): Pool {
+  const client = {
+    release: jest.fn(),
+    query: jest.fn(async (sql: string, params: any[] = []) => {
+      if (sql.includes('UPDATE progress_tracking.exercise_attempts') && params.length === 5) {
+        // Re-grade: score and earned-reward deltas
+        state.attempt.score = params[1];
+        state.attempt.xpEarned = Math.max(0, state.attempt.xpEarned + params[3]);
+        state.attempt.mlCoinsEarned = Math.max(0, state.attempt.mlCoinsEarned + params[4]);
+      } else if (sql.includes('UPDATE progress_tracking.exercise_attempts')) {
+        // Held rewards released
+        state.attempt.xpEarned += params[1];
+        state.attempt.mlCoinsEarned += params[2];
+      } else if (sql.includes('SET held_xp')) {
+        state.flag.heldXp = Math.max(0, state.flag.heldXp + params[1]);
+        state.flag.heldMlCoins = Math.max(0, state.flag.heldMlCoins + params[2]);
+      } else if (sql.includes('UPDATE progress_tracking.attempt_flags')) {
+        state.flag.status = params[1];
+      } else if (sql.includes('GREATEST(total_xp + $1, 0)')) {
+        state.totalXp = Math.max(0, state.totalXp + params[0]);
+      } else if (sql.includes('SET total_xp = total_xp + $1')) {
+        state.totalXp += params[0];
+      }
+
+      return { rows: [], rowCount: 1 };
+    })
+  };
+
+  return { connect: async () => client, query: client.query } as unknown as Pool;
+}
+
+const exercise = {
+  id: 'exercise-1',
+  moduleId: null,
+  title: 'Ejercicio',
+  exerciseType: 'verdadero_falso',
+  content: {}
+} as unknown as ExerciseResponse;
+
+function storedAttempt(state: State): StoredAttempt {
+  return {
+    id: 'attempt-1',
+    userId: 'profile-1',
+    answers: {},
+    score: state.attempt.score,
+    isCorrect: false,
+    timeSpent: 60,
+    powerupsUsed: [],
+    xpEarned: state.attempt.xpEarned,
+    mlCoinsEarned: state.attempt.mlCoinsEarned,
+    attemptNumber: 1,
+    currentRank: 'nacom',
+    streakDays: 0,
+    organizationId: null,
+    scoringPolicyId: null,
+    scoringPolicyVersion: 0,
+    gradingContext: null,
+    holdStatus: state.flag.status === 'cleared' ? null : state.flag.status,
+    heldXp: state.flag.heldXp,
+    heldMlCoins: state.flag.heldMlCoins,
+    variant: null
+  };
+}
+
+function attemptFlag(state: State): AttemptFlag {
+  return {
+    id: 'flag-1',
+    attemptId: 'attempt-1',
+    userId: 'profile-1',
+    exerciseId: exercise.id,
+    exerciseTitle: exercise.title,
+    status: state.flag.status,
+    rewardsHeld: true,
+    heldXp: state.flag.heldXp,
+    heldMlCoins: state.flag.heldMlCoins
+  } as AttemptFlag;
+}
+
+describe('re-grading an attempt whose rewards are held for review', () => {
+  let state: State;
+  let regradeService: RegradeService;
+  let integrityService: SubmissionIntegrityService;
+
+  beforeEach(() => {
+    // Flagged at submission: 60 points worth 10 XP and 2 ML Coins, held
+    state = {
+      attempt: { xpEarned: 0, mlCoinsEarned: 0, score: 60 },
+      flag: { status: 'pending', heldXp: 10, heldMlCoins: 2 },
+      totalXp: 100,
+      mlCoins: 50
+    };
+
+    const pool = fakePool(state);
+    regradeService = new RegradeService(pool);
+    integrityService = new SubmissionIntegrityService(pool);
+
+    jest.spyOn(ExercisesRepository.prototype, 'getExerciseById').mockResolvedValue(exercise);
+    jest.spyOn(RegradeRepository.prototype, 'getAttemptsForExercise').mockImplementation(async () => [storedAttempt(state)]);
+    jest.spyOn(RegradeRepository.prototype, 'createJob').mockResolvedValue('job-1');
+    jest.spyOn(RegradeRepository.prototype, 'completeJob').mockResolvedValue({} as any);
+    jest.spyOn(ScoringPolicyService.prototype, 'getPoliciesByIds').mockResolvedValue(new Map());
+    jest.spyOn(ScoringPolicyService.prototype, 'getBuiltInPolicy').mockReturnValue({ id: null, version: 0 } as any);
+    jest.spyOn(ProgressRepository.prototype, 'recalculateModuleProgress').mockResolvedValue(undefined as any);
+    jest.spyOn(RanksService.prototype, 'autoCheckPromotion').mockResolvedValue(undefined as any);
+    jest.spyOn(SubmissionIntegrityRepository.prototype, 'getFlag').mockImplementation(async () => attemptFlag(state));
+    jest.spyOn(CoinsRepository.prototype, 'adjustCoins').mockImplementation(async (dto: any) => {
+      state.mlCoins += dto.amount;
+      return {} as any;
+    });
+
+    // The corrected key scores the attempt 90, worth 25 XP and 6 ML Coins
+    jest.spyOn(ScoringService.prototype, 'previewScore').mockReturnValue({
+      reasonCode: 'SCORED',
+      finalScore: 90,
+      passed: true,
+      rewards: { xp: 25, mlCoins: 6 }
+    } as any);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  async function regrade() {
+    const preview = await regradeService.previewRegrade(exercise.id);
+    await regradeService.confirmRegrade(exercise.id, { contentHash: preview.contentHash }, 'teacher-1');
+    return preview;
+  }
+
+  it('adjusts the held rewards instead of paying the student', async () => {
+    const preview = await regrade();
+
+    expect(preview.changes[0]).toMatchObject({ xpDelta: 15, mlCoinsDelta: 4, rewardsHeld: true });
+    expect(state.flag).toMatchObject({ heldXp: 25, heldMlCoins: 6 });
+    expect(state.attempt).toMatchObject({ score: 90, xpEarned: 0, mlCoinsEarned: 0 });
+    expect(state.totalXp).toBe(100);
+    expect(state.mlCoins).toBe(50);
+  });
+
+  it('pays the re-graded rewards once when the flag is cleared', async () => {
+    await regrade();
+    await integrityService.reviewFlag('flag-1', { decision: 'cleared' }, { userId: 'admin-1', role: 'super_admin' });
+
+    expect(state.attempt).toMatchObject({ xpEarned: 25, mlCoinsEarned: 6 });
+    expect(state.totalXp).toBe(125);
+    expect(state.mlCoins).toBe(56);
+  });
+
+  it('completes a clearing review whose rank check fails after the commit', async () => {
+    jest.mocked(RanksService.prototype.autoCheckPromotion).mockRejectedValue(new Error('connection terminated'));
+
+    const flag = await integrityService.reviewFlag('flag-1', { decision: 'cleared' }, { userId: 'admin-1', role: 'super_admin' });
+
+    expect(flag.status).toBe('cleared');
+    expect(state.totalXp).toBe(110);
+    expect(state.mlCoins).toBe(52);
+  });
+
+  it('pays nothing for rewards forfeited by a confirmed flag', async () => {
+    await integrityService.reviewFlag('flag-1', { decision: 'confirmed' }, { userId: 'admin-1', role: 'super_admin' });
+    const preview = await regrade();
+
+    expect(preview.changes[0]).toMatchObject({ xpDelta: 0, mlCoinsDelta: 0, rewardsHeld: false });
+    expect(state.attempt).toMatchObject({ score: 90, xpEarned: 0, mlCoinsEarned: 0 });
+    expect(state.totalXp).toBe(100);
+    expect(state.mlCoins).toBe(50);
+  });
+});
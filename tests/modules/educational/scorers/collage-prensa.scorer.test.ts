@@ -0,0 +1,29 @@
+import { collagePrensaScorer } from '../../../../src/modules/educational/scorers/collage-prensa.scorer';
+import { createDefaultScorerRegistry } from '../../../../src/modules/educational/scorers';
+import { ExerciseResponse, ExerciseType } from '../../../../src/modules/educational/educational.types';
+
+function exercise(content: Record<string, any>): ExerciseResponse {
+  return { id: 'exercise-1', exerciseType: ExerciseType.COLLAGE_PRENSA, content } as unknown as ExerciseResponse;
+}
+
+const collage = exercise({ requiredElements: ['titular', { id: 'fuente', points: 2 }, 'fecha'] });
+
+describe('collagePrensaScorer', () => {
+  const registry = createDefaultScorerRegistry();
+
+  it('scores the required elements the student placed', () => {
+    const result = collagePrensaScorer.score({ elements: [{ id: 'fuente' }, 'fecha', 'foto'] }, collage);
+
+    expect(result).toMatchObject({ earnedPoints: 3, maxScore: 4, score: 75, reasonCode: 'SCORED' });
+    expect(result.items.map(item => item.userAnswer)).toEqual([null, 'fuente', 'fecha']);
+    expect(registry.isManual(collage)).toBe(false);
+  });
+
+  it('leaves collages without required elements to the teacher', () => {
+    const open = exercise({});
+
+    expect(registry.isManual(open)).toBe(true);
+    expect(registry.isManual(exercise({ requiredElements: [] }))).toBe(true);
+    expect(collagePrensaScorer.score({ elements: ['titular'] }, open)).toMatchObject({ items: [], reasonCode: 'MANUAL_REVIEW' });
+  });
+});
@@ -0,0 +1,63 @@
+import { lineaTiempoScorer } from '../../../../src/modules/educational/scorers/linea-tiempo.scorer';
+import { ExerciseResponse, TimelineOrderScoring } from '../../../../src/modules/educational/educational.types';
+
+const events = [
+  { id: 'a', year: 1500 },
+  { id: 'b', year: 1600 },
+  { id: 'c', year: 1700 },
+  { id: 'd', year: 1800 }
+];
+
+function timeline(orderScoring?: TimelineOrderScoring, content: Record<string, any> = { events }): ExerciseResponse {
+  return { id: 'exercise-1', exerciseType: 'linea_tiempo', content: { ...content, orderScoring } } as unknown as ExerciseResponse;
+}
+
+function credits(order: any, orderScoring?: TimelineOrderScoring, content?: Record<string, any>) {
+  const result = lineaTiempoScorer.score({ order }, timeline(orderScoring, content));
+  return Object.fromEntries(result.items.map(item => [item.itemId, Math.round(item.credit * 100) / 100]));
+}
+
+describe('lineaTiempoScorer', () => {
+  // The first event moved to the end: every event is out of place, but the
+  // rest keep their relative order
+  const shifted = ['b', 'c', 'd', 'a'];
+
+  it('scores events at their chronological position by default', () => {
+    expect(credits(['a', 'b', 'c', 'd'])).toEqual({ a: 1, b: 1, c: 1, d: 1 });
+    expect(credits(shifted)).toEqual({ a: 0, b: 0, c: 0, d: 0 });
+  });
+
+  it('scores the share of pairs in the right relative order in pairwise mode', () => {
+    expect(credits(shifted, 'pairwise')).toEqual({ a: 0, b: 0.67, c: 0.67, d: 0.67 });
+  });
+
+  it('counts pairs with an unplaced event as wrong in pairwise mode', () => {
+    expect(credits(['a', 'b', 'c'], 'pairwise')).toEqual({ a: 0.67, b: 0.67, c: 0.67, d: 0 });
+  });
+
+  it('credits the longest correctly ordered run in longest_run mode', () => {
+    expect(credits(shifted, 'longest_run')).toEqual({ a: 0, b: 1, c: 1, d: 1 });
+  });
+
+  it('treats events of the same year as interchangeable', () => {
+    const sameYear = {
+      events: [
+        { id: 'x', year: 1500 },
+        { id: 'y', year: 1500 },
+        { id: 'z', year: 1600 }
+      ]
+    };
+
+    expect(credits(['y', 'x', 'z'], 'position', sameYear)).toEqual({ x: 1, y: 1, z: 1 });
+    expect(credits(['y', 'x', 'z'], 'pairwise', sameYear)).toEqual({ x: 1, y: 1, z: 1 });
+    expect(credits(['y', 'x', 'z'], 'longest_run', sameYear)).toEqual({ x: 1, y: 1, z: 1 });
+  });
+
+  it('ignores unknown and repeated ids', () => {
+    expect(credits(['a', 'zz', 'a', 'b', 'c', 'd'])).toEqual({ a: 1, b: 1, c: 1, d: 1 });
+  });
+
+  it('scores an order that is not a list as unanswered', () => {
+    expect(credits('a,b,c,d', 'pairwise')).toEqual({ a: 0, b: 0, c: 0, d: 0 });
+  });
+});
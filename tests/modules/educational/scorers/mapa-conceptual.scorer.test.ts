@@ -0,0 +1,76 @@
+import { mapaConceptualScorer } from '../../../../src/modules/educational/scorers/mapa-conceptual.scorer';
+import { ExerciseResponse } from '../../../../src/modules/educational/educational.types';
+
+const content = {
+  relationships: [
+    { id: 'r1', fromConceptId: 'A', toConceptId: 'B', label: 'causa', direction: 'directed' },
+    { id: 'r2', fromConceptId: 'B', toConceptId: 'C', label: 'incluye', direction: 'undirected' },
+    { id: 'r3', fromConceptId: 'C', toConceptId: 'D', label: 'se relaciona con', direction: 'bidirectional' },
+    { id: 'r4', fromConceptId: 'A', toConceptId: 'D', label: 'origina', required: false }
+  ],
+  labelSynonyms: [['causa', 'provoca', 'produce']]
+};
+
+const exercise = { id: 'exercise-1', exerciseType: 'mapa_conceptual', content } as unknown as ExerciseResponse;
+
+function edge(fromConceptId: string, toConceptId: string, label: string) {
+  return { fromConceptId, toConceptId, label };
+}
+
+const complete = [
+  edge('A', 'B', 'causa'),
+  edge('B', 'C', 'incluye'),
+  edge('C', 'D', 'se relaciona con'),
+  edge('D', 'C', 'se relaciona con')
+];
+
+function score(relationships: any[]) {
+  const result = mapaConceptualScorer.score({ relationships }, exercise);
+  return { ...result, credit: (id: string) => result.items.find(item => item.itemId === id)?.credit };
+}
+
+describe('mapaConceptualScorer', () => {
+  it('gives full marks for every required edge', () => {
+    expect(score(complete)).toMatchObject({ score: 100, earnedPoints: 3, maxScore: 3 });
+  });
+
+  it('accepts undirected edges either way but not directed ones', () => {
+    const result = score([edge('B', 'A', 'causa'), edge('C', 'B', 'incluye'), ...complete.slice(2)]);
+
+    expect(result.credit('r1')).toBe(0);
+    expect(result.credit('r2')).toBe(1);
+    expect(result.items.some(item => item.itemId === 'extra_B_A')).toBe(true);
+  });
+
+  it('gives half credit for one direction of a bidirectional edge', () => {
+    expect(score(complete.slice(0, 3)).credit('r3')).toBe(0.5);
+  });
+
+  it('matches labels through synonym sets and gives partial credit for wrong labels', () => {
+    const result = score([edge('A', 'B', 'Provoca'), edge('B', 'C', 'contiene'), ...complete.slice(2)]);
+
+    expect(result.credit('r1')).toBe(1);
+    expect(result.credit('r2')).toBe(0.5);
+    expect(result.earnedPoints).toBe(2.5);
+  });
+
+  it('lets optional edges fill gaps up to the max score', () => {
+    const withOptional = score([complete[0], ...complete.slice(2), edge('A', 'D', 'origina')]);
+
+    expect(withOptional).toMatchObject({ earnedPoints: 3, maxScore: 3 });
+    expect(score([...complete, edge('A', 'D', 'origina')]).earnedPoints).toBe(3);
+  });
+
+  it('takes points off for edges that are not in the map', () => {
+    const result = score([...complete, edge('B', 'D', 'causa'), edge('B', 'D', 'causa')]);
+
+    expect(result.earnedPoints).toBe(2.5);
+    expect(result.items.filter(item => item.itemId.startsWith('extra_'))).toHaveLength(1);
+  });
+
+  it('never scores below zero', () => {
+    const result = score([edge('B', 'A', 'x'), edge('D', 'A', 'x'), edge('D', 'B', 'x')]);
+
+    expect(result).toMatchObject({ score: 0, earnedPoints: 0 });
+  });
+});
@@ -0,0 +1,77 @@
+import { createDefaultScorerRegistry, ScorerRegistry } from '../../../../src/modules/educational/scorers';
+import { buildResult, itemScore } from '../../../../src/modules/educational/scorers/scorer.utils';
+import { ExerciseResponse, ExerciseType } from '../../../../src/modules/educational/educational.types';
+
+function exercise(exerciseType: string, content: Record<string, any>): ExerciseResponse {
+  return { id: 'exercise-1', exerciseType, content } as unknown as ExerciseResponse;
+}
+
+describe('ScorerRegistry', () => {
+  const registry = createDefaultScorerRegistry();
+
+  it('reports unsupported types instead of scoring them', () => {
+    const result = new ScorerRegistry().score({}, exercise(ExerciseType.VERDADERO_FALSO, {}));
+
+    expect(result).toMatchObject({ score: 0, maxScore: 0, items: [], reasonCode: 'UNSUPPORTED_TYPE' });
+  });
+
+  it('leaves manually graded types for review', () => {
+    expect(registry.isManual(exercise(ExerciseType.DEBATE_DIGITAL, {}))).toBe(true);
+    expect(registry.isManual(exercise(ExerciseType.VERDADERO_FALSO, {}))).toBe(false);
+    expect(registry.score({ text: 'Mi ensayo' }, exercise(ExerciseType.DEBATE_DIGITAL, {})).reasonCode).toBe('MANUAL_REVIEW');
+  });
+
+  it('leaves the types without an automatic answer key to the teacher', () => {
+    const questions = [{ id: 'q1', question: '¿Qué enlace lleva a la fuente?', options: ['a', 'b'], correctAnswer: 0 }];
+
+    [ExerciseType.NAVEGACION_HIPERTEXTUAL, ExerciseType.CALL_TO_ACTION, ExerciseType.TEXTO_MOVIMIENTO].forEach(type => {
+      const submitted = exercise(type, { questions });
+
+      expect(registry.isManual(submitted)).toBe(true);
+      expect(registry.score({ q1: 0 }, submitted)).toMatchObject({ score: 0, items: [], reasonCode: 'MANUAL_REVIEW' });
+      expect(registry.extractCorrectAnswers(submitted)).toEqual({});
+    });
+  });
+
+  it('gives partial credit per item', () => {
+    const content = {
+      statements: [
+        { id: 's1', correctAnswer: true },
+        { id: 's2', correctAnswer: false },
+        { id: 's3', correctAnswer: true },
+        { id: 's4', correctAnswer: false }
+      ]
+    };
+
+    const result = registry.score({ s1: true, s2: true, s3: true }, exercise(ExerciseType.VERDADERO_FALSO, content));
+
+    expect(result).toMatchObject({ score: 50, earnedPoints: 2, maxScore: 4, reasonCode: 'SCORED' });
+    expect(result.items.map(item => item.credit)).toEqual([1, 0, 1, 0]);
+  });
+
+  it('scores missing answers as an empty submission', () => {
+    const content = { correctPairs: { a: '1', b: '2' } };
+
+    const result = registry.score(undefined, exercise(ExerciseType.EMPAREJAMIENTO, content));
+
+    expect(result).toMatchObject({ score: 0, maxScore: 2, reasonCode: 'SCORED' });
+  });
+
+  it('extracts the correct answer of every item', () => {
+    const content = { correctPairs: { a: '1', b: '2' } };
+
+    expect(registry.extractCorrectAnswers(exercise(ExerciseType.EMPAREJAMIENTO, content))).toEqual({ a: '1', b: '2' });
+  });
+});
+
+describe('buildResult', () => {
+  it('weights items by their points and clamps credit', () => {
+    const result = buildResult([itemScore('a', 1, 'x', 'x', 3), itemScore('b', 2, 'y', 'y', 1), itemScore('c', 0, 'z', 'w', 1)]);
+
+    expect(result).toMatchObject({ earnedPoints: 4, maxScore: 5, score: 80 });
+  });
+
+  it('never divides by zero', () => {
+    expect(buildResult([])).toMatchObject({ score: 0, maxScore: 0, reasonCode: 'NO_GRADABLE_ITEMS' });
+  });
+});
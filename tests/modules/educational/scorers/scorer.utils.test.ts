@@ -0,0 +1,45 @@
+import { answerForItem, scoreChoiceQuestions } from '../../../../src/modules/educational/scorers/scorer.utils';
+
+describe('answerForItem', () => {
+  const items = [{ id: 'q1' }, { id: 'q2' }, {}];
+
+  it('reads keyed answers by item id, or position for items without one', () => {
+    const answers = { q1: 'a', q2: 'b', 2: 'c' };
+
+    expect(items.map((item, index) => answerForItem(answers, item, index))).toEqual(['a', 'b', 'c']);
+  });
+
+  it('reads keyed answers from the responses container', () => {
+    expect(answerForItem({ responses: { q2: 'b' } }, items[1], 1)).toBe('b');
+  });
+
+  it('reads positional answers by index', () => {
+    expect(answerForItem(['a', 'b'], items[1], 1)).toBe('b');
+    expect(answerForItem({ responses: ['a', 'b'] }, items[0], 0)).toBe('a');
+  });
+
+  it('never takes another item\'s answer', () => {
+    // Keyed by id: the answer at position 0 is not q1's
+    expect(answerForItem({ 0: 'a' }, items[0], 0)).toBeUndefined();
+    // Positional: the id is not looked up
+    expect(answerForItem(['a'], items[1], 1)).toBeUndefined();
+  });
+});
+
+describe('scoreChoiceQuestions', () => {
+  it('weights each question by its points', () => {
+    const questions = [
+      { id: 'q1', correctAnswer: 1, points: 2 },
+      { id: 'q2', correctAnswer: 0 }
+    ];
+
+    expect(scoreChoiceQuestions(questions, { q1: 1, q2: 2 })).toEqual([
+      { itemId: 'q1', credit: 1, maxPoints: 2, userAnswer: 1, correctAnswer: 1 },
+      { itemId: 'q2', credit: 0, maxPoints: 1, userAnswer: 2, correctAnswer: 0 }
+    ]);
+  });
+
+  it('scores unanswered questions as wrong', () => {
+    expect(scoreChoiceQuestions([{ id: 'q1', correctAnswer: 0 }], {})[0]).toMatchObject({ credit: 0, userAnswer: null });
+  });
+});
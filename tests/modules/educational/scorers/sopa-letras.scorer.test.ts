@@ -0,0 +1,60 @@
+import { sopaLetrasScorer } from '../../../../src/modules/educational/scorers/sopa-letras.scorer';
+import { ExerciseResponse } from '../../../../src/modules/educational/educational.types';
+
+const exercise = {
+  id: 'exercise-1',
+  exerciseType: 'sopa_letras',
+  content: {
+    grid: ['SOLXX', 'RAMXX', ['L', 'X', 'L', 'X', 'X'], 'UXXXX', 'ZXXXX'],
+    words: ['SOL', 'MAR', { word: 'Luz' }, 'SAL', 'PAN']
+  }
+} as unknown as ExerciseResponse;
+
+function find(start: [number, number], end: [number, number]) {
+  return { start: { row: start[0], col: start[1] }, end: { row: end[0], col: end[1] } };
+}
+
+describe('sopaLetrasScorer', () => {
+  it('verifies finds against the grid in any direction', () => {
+    const result = sopaLetrasScorer.score(
+      { finds: [find([0, 0], [0, 2]), find([1, 2], [1, 0]), find([2, 0], [4, 0])] },
+      exercise
+    );
+
+    expect(result.items.map(item => [item.itemId, item.credit])).toEqual([
+      ['SOL', 1],
+      ['MAR', 1],
+      ['Luz', 1],
+      ['SAL', 0],
+      ['PAN', 0]
+    ]);
+  });
+
+  it('reads diagonals', () => {
+    const result = sopaLetrasScorer.score({ finds: [find([0, 0], [2, 2])] }, exercise);
+
+    expect(result.items.find(item => item.itemId === 'SAL')).toMatchObject({
+      credit: 1,
+      userAnswer: find([0, 0], [2, 2])
+    });
+  });
+
+  it('gives nothing for bent lines, cells off the grid or repeated words', () => {
+    const result = sopaLetrasScorer.score(
+      { finds: [find([0, 0], [1, 2]), find([1, 2], [1, 5]), find([0, 0], [0, 2]), find([0, 0], [0, 2])] },
+      exercise
+    );
+
+    expect(result.earnedPoints).toBe(1);
+  });
+
+  it('ignores finds that are not a list', () => {
+    expect(sopaLetrasScorer.score({ finds: 'SOL' }, exercise)).toMatchObject({ earnedPoints: 0, maxScore: 5 });
+  });
+
+  it('has nothing to grade without a grid', () => {
+    const empty = { ...exercise, content: { words: ['SOL'] } } as ExerciseResponse;
+
+    expect(sopaLetrasScorer.score({}, empty).reasonCode).toBe('NO_GRADABLE_ITEMS');
+  });
+});
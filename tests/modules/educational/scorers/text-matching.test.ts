@@ -0,0 +1,90 @@
+import {
+  allowedTypos,
+  DEFAULT_TEXT_MATCH_POLICY,
+  levenshtein,
+  matchText,
+  normalizeForMatch,
+  resolveTextMatchPolicy
+} from '../../../../src/modules/educational/scorers/text-matching';
+
+describe('levenshtein', () => {
+  it('counts insertions, deletions and substitutions', () => {
+    expect(levenshtein('casa', 'casa')).toBe(0);
+    expect(levenshtein('', 'sol')).toBe(3);
+    expect(levenshtein('casa', 'cas')).toBe(1);
+    expect(levenshtein('casa', 'caza')).toBe(1);
+    expect(levenshtein('kitten', 'sitting')).toBe(3);
+  });
+});
+
+describe('normalizeForMatch', () => {
+  it('folds accents but keeps ñ', () => {
+    expect(normalizeForMatch('Comprensión', DEFAULT_TEXT_MATCH_POLICY)).toBe('comprension');
+    expect(normalizeForMatch('Niño', DEFAULT_TEXT_MATCH_POLICY)).toBe('niño');
+  });
+
+  it('drops punctuation and collapses whitespace', () => {
+    expect(normalizeForMatch('  ¡Hola,   mundo!  ', DEFAULT_TEXT_MATCH_POLICY)).toBe('hola mundo');
+  });
+});
+
+describe('resolveTextMatchPolicy', () => {
+  it('merges exercise and item overrides onto the default', () => {
+    const policy = resolveTextMatchPolicy(
+      { caseSensitive: true, synonyms: { auto: ['coche'] } },
+      { typoTolerance: false, synonyms: { casa: ['hogar'] } }
+    );
+
+    expect(policy.caseSensitive).toBe(true);
+    expect(policy.foldDiacritics).toBe(true);
+    expect(policy.typoTolerance).toMatchObject({ enabled: false, maxTypos: 2 });
+    expect(policy.synonyms).toEqual({ auto: ['coche'], casa: ['hogar'] });
+  });
+
+  it('ignores overrides that are not objects', () => {
+    expect(resolveTextMatchPolicy(null, 'strict')).toEqual(DEFAULT_TEXT_MATCH_POLICY);
+  });
+});
+
+describe('allowedTypos', () => {
+  it('allows one typo per five characters up to two', () => {
+    expect(allowedTypos(4, DEFAULT_TEXT_MATCH_POLICY)).toBe(0);
+    expect(allowedTypos(5, DEFAULT_TEXT_MATCH_POLICY)).toBe(1);
+    expect(allowedTypos(30, DEFAULT_TEXT_MATCH_POLICY)).toBe(2);
+  });
+});
+
+describe('matchText', () => {
+  const policy = resolveTextMatchPolicy();
+
+  it('tells how an answer was accepted', () => {
+    expect(matchText('Comprensión', ['Comprensión'], policy).kind).toBe('exact');
+    expect(matchText('comprension', ['Comprensión'], policy).kind).toBe('normalized');
+    expect(matchText('comprensoin', ['Comprensión'], policy)).toMatchObject({ matched: true, kind: 'typo', distance: 2 });
+  });
+
+  it('accepts synonyms from the policy and the item', () => {
+    const withSynonyms = resolveTextMatchPolicy({ synonyms: { automóvil: ['coche'] } });
+
+    expect(matchText('Coche', ['automóvil'], withSynonyms).kind).toBe('synonym');
+    expect(matchText('carro', ['automóvil'], withSynonyms, ['carro']).kind).toBe('synonym');
+  });
+
+  it('rejects blank answers and answers with too many typos', () => {
+    expect(matchText('  ', ['sol'], policy)).toMatchObject({ matched: false, credit: 0 });
+    expect(matchText('sal', ['sol'], policy).matched).toBe(false);
+    expect(matchText('biblioteka', ['biblioteca'], resolveTextMatchPolicy({ typoTolerance: false })).matched).toBe(false);
+  });
+
+  it('gives the configured credit to answers with typos', () => {
+    const partial = resolveTextMatchPolicy({ typoTolerance: { credit: 0.5 } });
+
+    expect(matchText('biblioteka', ['biblioteca'], partial)).toMatchObject({ matched: true, credit: 0.5 });
+  });
+
+  it('respects case when the policy is case sensitive', () => {
+    const strict = resolveTextMatchPolicy({ caseSensitive: true, typoTolerance: false });
+
+    expect(matchText('madrid', ['Madrid'], strict).matched).toBe(false);
+  });
+});
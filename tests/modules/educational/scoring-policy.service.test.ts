@@ -0,0 +1,191 @@
+import { Pool } from 'pg';
+import { ScoringPolicyService } from '../../../src/modules/educational/scoring-policy.service';
+import { ScoringPolicyRepository } from '../../../src/modules/educational/scoring-policy.repository';
+import { ScoringService } from '../../../src/modules/educational/scoring.service';
+import { RanksService } from '../../../src/modules/gamification/ranks.service';
+import {
+  DifficultyLevel,
+  ExerciseResponse,
+  ScoringPolicy,
+  ScoringPolicyVersion,
+  SubmitExerciseDto
+} from '../../../src/modules/educational/educational.types';
+
+/**
+ * Versions stored by the fake repository, numbered per organization like
+ * the table's unique index
+ */
+function fakeStore(versions: ScoringPolicyVersion[]) {
+  const latest = (organizationId: string | null) =>
+    versions.filter(version => version.organizationId === organizationId).sort((a, b) => b.version - a.version)[0] || null;
+
+  jest.spyOn(ScoringPolicyRepository.prototype, 'getLatestPolicy').mockImplementation(async organizationId => latest(organizationId));
+  jest.spyOn(ScoringPolicyRepository.prototype, 'getPoliciesByIds').mockImplementation(async ids =>
+    versions.filter(version => ids.includes(version.id!))
+  );
+  jest.spyOn(ScoringPolicyRepository.prototype, 'createPolicyVersion').mockImplementation(async (organizationId, policy, createdBy) => {
+    const version: ScoringPolicyVersion = {
+      id: `policy-${versions.length + 1}`,
+      organizationId,
+      version: (latest(organizationId)?.version || 0) + 1,
+      policy,
+      createdBy,
+      createdAt: new Date()
+    };
+    versions.push(version);
+    return version;
+  });
+}
+
+function stored(id: string, organizationId: string | null, version: number, policy: Partial<ScoringPolicy>): ScoringPolicyVersion {
+  return { id, organizationId, version, policy: policy as ScoringPolicy, createdBy: 'admin-1', createdAt: new Date() };
+}
+
+describe('ScoringPolicyService', () => {
+  const service = new ScoringPolicyService({} as Pool);
+  let versions: ScoringPolicyVersion[];
+
+  beforeEach(() => {
+    versions = [];
+    fakeStore(versions);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('getEffectivePolicy', () => {
+    it('uses the built-in version 0 when nothing is stored', async () => {
+      const effective = await service.getEffectivePolicy('org-1');
+
+      expect(effective).toMatchObject({ id: null, version: 0 });
+      expect(effective.policy.passingScore).toBe(70);
+      expect(effective.policy.difficultyMultipliers[DifficultyLevel.ADVANCED]).toBe(1.5);
+    });
+
+    it('prefers the organization policy over the platform default', async () => {
+      versions.push(stored('platform-1', null, 1, { passingScore: 60 }), stored('org-1-1', 'org-1', 1, { passingScore: 80 }));
+
+      expect((await service.getEffectivePolicy('org-1')).policy.passingScore).toBe(80);
+      expect((await service.getEffectivePolicy('org-2')).policy.passingScore).toBe(60);
+      expect((await service.getEffectivePolicy(null)).policy.passingScore).toBe(60);
+    });
+
+    it('fills settings missing from a stored version with the built-in ones', async () => {
+      versions.push(stored('platform-1', null, 1, { passingScore: 60, bonuses: { perfect: 20 } as ScoringPolicy['bonuses'] }));
+
+      const { policy } = await service.getEffectivePolicy(null);
+
+      expect(policy.bonuses).toMatchObject({ perfect: 20, noHints: 5, firstAttempt: 10 });
+      expect(policy.penalties.perPowerup).toBe(5);
+    });
+  });
+
+  describe('updatePolicy', () => {
+    it('stores every edit as a new version merged onto the one in effect', async () => {
+      await service.updatePolicy(null, { passingScore: 65 }, 'admin-1');
+      const { previous, current } = await service.updatePolicy(null, { bonuses: { speed: 8 } }, 'admin-1');
+
+      expect(previous).toMatchObject({ id: 'policy-1', version: 1 });
+      expect(current).toMatchObject({ id: 'policy-2', version: 2 });
+      expect(current.policy.passingScore).toBe(65);
+      expect(current.policy.bonuses).toMatchObject({ speed: 8, perfect: 10 });
+      expect(versions[0].policy.bonuses.speed).toBe(5);
+    });
+
+    it('starts an organization\'s first version from the platform default', async () => {
+      versions.push(stored('platform-1', null, 3, { passingScore: 60 }));
+
+      const { previous, current } = await service.updatePolicy('org-1', { penalties: { perPowerup: 2 } }, 'admin-1');
+
+      expect(previous.id).toBe('platform-1');
+      expect(current).toMatchObject({ organizationId: 'org-1', version: 1 });
+      expect(current.policy).toMatchObject({ passingScore: 60, penalties: { perPowerup: 2 } });
+    });
+  });
+
+  it('finds stored versions by id for re-scoring', async () => {
+    versions.push(stored('platform-1', null, 1, { passingScore: 60 }), stored('platform-2', null, 2, { passingScore: 75 }));
+
+    const byId = await service.getPoliciesByIds(['platform-1']);
+
+    expect([...byId.keys()]).toEqual(['platform-1']);
+    expect(byId.get('platform-1')!.policy.bonuses.perfect).toBe(10);
+  });
+});
+
+describe('ScoringPolicyService.initialize', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('reports a failure to make the passing score optional after creating the policy tables', async () => {
+    const statements: string[] = [];
+    const client = {
+      release: jest.fn(),
+      query: jest.fn(async (sql: string) => {
+        statements.push(sql.trim().split(/\s+/).slice(0, 2).join(' '));
+        if (sql.includes('DROP NOT NULL')) throw new Error('canceling statement due to lock timeout');
+        return { rows: [], rowCount: 0 };
+      })
+    };
+    const pool = {
+      connect: async () => client,
+      query: jest.fn(async (sql: string) => {
+        statements.push(sql.trim().split(/\s+/).slice(0, 2).join(' '));
+        return sql.includes('information_schema')
+          ? { rows: [{ column_default: '70', is_nullable: 'NO' }] }
+          : { rows: [] };
+      })
+    } as unknown as Pool;
+
+    await expect(new ScoringPolicyService(pool).initialize()).rejects.toThrow('lock timeout');
+    expect(statements).toEqual(['CREATE TABLE', 'SELECT column_default,', 'BEGIN', 'SET LOCAL', 'ALTER TABLE', 'ROLLBACK']);
+  });
+
+  it('leaves the exercises table alone once the passing score is optional', async () => {
+    const query = jest.fn(async (sql: string) =>
+      sql.includes('information_schema') ? { rows: [{ column_default: null, is_nullable: 'YES' }] } : { rows: [] }
+    );
+    const connect = jest.fn();
+
+    await new ScoringPolicyService({ query, connect } as unknown as Pool).initialize();
+
+    expect(query).toHaveBeenCalledTimes(2);
+    expect(connect).not.toHaveBeenCalled();
+  });
+});
+
+describe('passing an attempt', () => {
+  const scoringService = new ScoringService({} as Pool, {} as RanksService);
+  const policy = new ScoringPolicyService({} as Pool).getBuiltInPolicy().policy;
+  const submission = { answers: {}, powerupsUsed: ['pista'], timeSpent: 600, timeOveragePenalty: 0 } as unknown as SubmitExerciseDto;
+  const userStats = { currentRank: 'nacom', streakDays: 0 };
+
+  function exercise(passingScore: number | null): ExerciseResponse {
+    return {
+      id: 'exercise-1',
+      difficultyLevel: DifficultyLevel.BEGINNER,
+      estimatedTimeMinutes: 10,
+      passingScore,
+      userProgress: { attempts: 1, bestScore: 0 }
+    } as unknown as ExerciseResponse;
+  }
+
+  // The power-up penalty takes back the 5 points added to the grade, so the
+  // final score is the given one
+  function passes(baseScore: number, passingScore: number | null, passingPolicy = policy): boolean {
+    return scoringService.scoreGradedAttempt(baseScore + 5, submission, exercise(passingScore), userStats, passingPolicy).passed;
+  }
+
+  it('uses the exercise passing score when it sets one', () => {
+    expect(passes(60, 60)).toBe(true);
+    expect(passes(75, 80)).toBe(false);
+  });
+
+  it('falls back to the policy passing score', () => {
+    expect(passes(70, null)).toBe(true);
+    expect(passes(69, null)).toBe(false);
+    expect(passes(69, null, { ...policy, passingScore: 60 })).toBe(true);
+  });
+});
@@ -0,0 +1,77 @@
+import { Pool } from 'pg';
+import { ScoringService } from '../../../src/modules/educational/scoring.service';
+import { ScoringPolicyService } from '../../../src/modules/educational/scoring-policy.service';
+import { RanksService } from '../../../src/modules/gamification/ranks.service';
+import { ExerciseResponse, ExerciseType } from '../../../src/modules/educational/educational.types';
+
+describe('answer review in submission feedback', () => {
+  const scoringService = new ScoringService({} as Pool, {} as RanksService);
+  const policy = new ScoringPolicyService({} as Pool).getBuiltInPolicy();
+  const userStats = { currentRank: 'nacom', streakDays: 0 };
+
+  function exercise(exerciseType: ExerciseType, content: Record<string, any>): ExerciseResponse {
+    return { id: 'exercise-1', exerciseType, content, estimatedTimeMinutes: 10, passingScore: null } as unknown as ExerciseResponse;
+  }
+
+  function review(scored: ExerciseResponse, answers: any) {
+    return scoringService.previewScore({ answers, timeSpent: 600, powerupsUsed: [] }, scored, userStats, policy).feedback;
+  }
+
+  const crucigrama = exercise(ExerciseType.CRUCIGRAMA, {
+    clues: {
+      across: [
+        { number: 1, clue: 'Astro rey', answer: 'Sol' },
+        { number: 3, clue: 'Satélite de la Tierra', answer: 'Luna' }
+      ],
+      down: [{ number: 2, clue: 'Capital mexica', answer: 'Tenochtitlan', matching: { typoTolerance: { credit: 0.5 } } }]
+    },
+    explanations: { down_2: 'Fundada en 1325 en el lago de Texcoco' }
+  });
+
+  it('reviews every graded item with the student answer, the expected one and its explanation', () => {
+    const { answerReview } = review(crucigrama, { across_1: 'sol', down_2: 'Tenochtitlán' });
+
+    expect(answerReview).toEqual([
+      { questionId: 'across_1', isCorrect: true, credit: 1, userAnswer: 'sol', correctAnswer: 'Sol', acceptedWithTypo: false, explanation: undefined },
+      { questionId: 'across_3', isCorrect: false, credit: 0, userAnswer: null, correctAnswer: 'Luna', acceptedWithTypo: false, explanation: undefined },
+      {
+        questionId: 'down_2',
+        isCorrect: true,
+        credit: 1,
+        userAnswer: 'Tenochtitlán',
+        correctAnswer: 'Tenochtitlan',
+        acceptedWithTypo: false,
+        explanation: 'Fundada en 1325 en el lago de Texcoco'
+      }
+    ]);
+  });
+
+  it('marks a free-text answer accepted with typos and the partial credit it earned', () => {
+    const [, , down2] = review(crucigrama, { down_2: 'Tenochtitan' }).answerReview;
+
+    expect(down2).toMatchObject({ isCorrect: false, credit: 0.5, acceptedWithTypo: true, userAnswer: 'Tenochtitan' });
+  });
+
+  it('leaves the typo flag out of items that are not typed', () => {
+    const verdaderoFalso = exercise(ExerciseType.VERDADERO_FALSO, {
+      statements: [
+        { id: 's1', statement: 'Juan Rulfo escribió Pedro Páramo', correctAnswer: true },
+        { id: 's2', statement: 'La Independencia terminó en 1810', correctAnswer: false }
+      ]
+    });
+
+    const { answerReview } = review(verdaderoFalso, { s1: true, s2: true });
+
+    expect(answerReview.map(item => [item.questionId, item.isCorrect, item.correctAnswer])).toEqual([
+      ['s1', true, true],
+      ['s2', false, false]
+    ]);
+    expect(answerReview.some(item => 'acceptedWithTypo' in item)).toBe(false);
+  });
+
+  it('keys the review like the answer key sent after submission', () => {
+    const { answerReview } = review(crucigrama, {});
+
+    expect(answerReview.map(item => item.questionId)).toEqual(Object.keys(scoringService.extractCorrectAnswers(crucigrama)));
+  });
+});
@@ -0,0 +1,169 @@
+import { Pool } from 'pg';
+import { SubmissionIdempotencyService } from '../../../src/modules/educational/submission-idempotency.service';
+import { ExercisesService } from '../../../src/modules/educational/exercises.service';
+import { ExercisesRepository } from '../../../src/modules/educational/exercises.repository';
+import { ScoringPolicyService } from '../../../src/modules/educational/scoring-policy.service';
+import { SubmissionIntegrityService } from '../../../src/modules/educational/submission-integrity.service';
+import { SubmissionOutboxRepository } from '../../../src/modules/educational/submission-outbox.repository';
+import { ExerciseResponse, ExerciseType } from '../../../src/modules/educational/educational.types';
+import { SubmitExercisePayload } from '../../../src/modules/educational/dto/submit-exercise.dto';
+
+interface KeyRow {
+  requestHash: string;
+  status: 'processing' | 'completed';
+  response: any;
+}
+
+/**
+ * Idempotency keys and attempts kept in memory; writes made through a
+ * client only land when its transaction commits
+ */
+function fakeDatabase() {
+  const keys = new Map<string, KeyRow>();
+  const attempts: string[] = [];
+
+  function run(sql: string, params: any[], pending: Array<() => void> | null) {
+    const apply = (write: () => void) => (pending ? pending.push(write) : write());
+
+    if (sql.includes('INSERT INTO progress_tracking.submission_idempotency_keys')) {
+      if (keys.has(params[1])) return { rows: [] };
+      keys.set(params[1], { requestHash: params[3], status: 'processing', response: null });
+      return { rows: [{ user_id: params[0] }] };
+    }
+    if (sql.includes('FROM progress_tracking.submission_idempotency_keys') && sql.includes('SELECT')) {
+      const key = keys.get(params[1]);
+      return { rows: key ? [{ ...key }] : [] };
+    }
+    if (sql.includes('UPDATE progress_tracking.submission_idempotency_keys')) {
+      apply(() => keys.set(params[1], { ...keys.get(params[1])!, status: 'completed', response: JSON.parse(params[2]) }));
+    } else if (sql.includes('DELETE FROM progress_tracking.submission_idempotency_keys') && sql.includes('processing')) {
+      if (keys.get(params[1])?.status === 'processing') keys.delete(params[1]);
+    } else if (sql.includes('auth_management.profiles') && pending) {
+      return { rows: [{ profile_id: 'profile-1' }] };
+    } else if (sql.includes('INSERT INTO progress_tracking.exercise_attempts')) {
+      apply(() => attempts.push('attempt-1'));
+      return { rows: [{ id: 'attempt-1' }] };
+    }
+
+    return { rows: [] };
+  }
+
+  const pool = {
+    query: jest.fn(async (sql: string, params: any[] = []) => run(sql, params, null)),
+    connect: async () => {
+      let pending: Array<() => void> = [];
+
+      return {
+        release: jest.fn(),
+        query: jest.fn(async (sql: string, params: any[] = []) => {
+          if (sql === 'BEGIN') pending = [];
+          else if (sql === 'COMMIT') pending.forEach(write => write());
+          else return run(sql, params, pending);
+          return { rows: [] };
+        })
+      };
+    }
+  } as unknown as Pool;
+
+  return { pool, keys, attempts };
+}
+
+const exercise = {
+  id: 'exercise-1',
+  exerciseType: ExerciseType.VERDADERO_FALSO,
+  difficultyLevel: 'beginner',
+  estimatedTimeMinutes: 10,
+  maxAttempts: null,
+  userProgress: null,
+  content: { statements: [{ id: 's1', correctAnswer: true }, { id: 's2', correctAnswer: false }] }
+} as unknown as ExerciseResponse;
+
+const body = { attemptToken: 'token-1', answers: { s1: true, s2: true } };
+
+const submission: SubmitExercisePayload = {
+  userId: 'user-1',
+  exerciseId: exercise.id,
+  answers: body.answers,
+  timeSpent: 300,
+  hintsUsed: 0,
+  powerupsUsed: [],
+  sessionId: 'session-1',
+  timeOveragePenalty: 0,
+  variant: null
+};
+
+describe('idempotent submissions', () => {
+  let database: ReturnType<typeof fakeDatabase>;
+  let idempotency: SubmissionIdempotencyService;
+  let exercises: ExercisesService;
+
+  function submit() {
+    return exercises.submitExerciseSecure(submission, (client, saved) =>
+      idempotency.complete('user-1', 'key-1', saved, client)
+    );
+  }
+
+  beforeEach(() => {
+    database = fakeDatabase();
+    idempotency = new SubmissionIdempotencyService(database.pool);
+    exercises = new ExercisesService(database.pool);
+
+    jest.spyOn(ExercisesRepository.prototype, 'getExerciseById').mockResolvedValue(exercise);
+    jest.spyOn(ScoringPolicyService.prototype, 'getPolicyForUser').mockImplementation(async function (this: ScoringPolicyService) {
+      return this.getBuiltInPolicy();
+    });
+    jest.spyOn(SubmissionIntegrityService.prototype, 'assess').mockResolvedValue({ flagged: false, holdRewards: false } as any);
+    jest.spyOn(SubmissionOutboxRepository.prototype, 'enqueueEvents').mockResolvedValue();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('replays the stored response for a retry of a completed key', async () => {
+    await expect(idempotency.begin('user-1', 'key-1', exercise.id, body)).resolves.toEqual({ replayed: false });
+    const result = await submit();
+
+    // Same body with its keys in another order
+    const retry = await idempotency.begin('user-1', 'key-1', exercise.id, { answers: { s2: true, s1: true }, attemptToken: 'token-1' });
+
+    expect(result).toMatchObject({ attemptId: 'attempt-1', score: 60, correctAnswers: { s1: true, s2: false } });
+    expect(retry).toEqual({ replayed: true, response: JSON.parse(JSON.stringify(result)) });
+    expect(database.attempts).toEqual(['attempt-1']);
+  });
+
+  it('rejects a key reused with a different submission', async () => {
+    await idempotency.begin('user-1', 'key-1', exercise.id, body);
+    await submit();
+
+    await expect(
+      idempotency.begin('user-1', 'key-1', exercise.id, { ...body, answers: { s1: true, s2: false } })
+    ).rejects.toMatchObject({ statusCode: 409, code: 'IDEMPOTENCY_KEY_REUSED' });
+  });
+
+  it('reports a submission that is still being processed', async () => {
+    await idempotency.begin('user-1', 'key-1', exercise.id, body);
+
+    await expect(idempotency.begin('user-1', 'key-1', exercise.id, body)).rejects.toMatchObject({
+      statusCode: 409,
+      code: 'SUBMISSION_IN_PROGRESS'
+    });
+  });
+
+  it('saves the attempt and completes its key together or not at all', async () => {
+    await idempotency.begin('user-1', 'key-1', exercise.id, body);
+    await expect(
+      exercises.submitExerciseSecure(submission, async (client, saved) => {
+        await idempotency.complete('user-1', 'key-1', saved, client);
+        throw new Error('connection reset');
+      })
+    ).rejects.toThrow('connection reset');
+
+    expect(database.keys.get('key-1')).toMatchObject({ status: 'processing', response: null });
+    expect(database.attempts).toEqual([]);
+
+    // Released by the controller, so the submission can be retried
+    await idempotency.release('user-1', 'key-1');
+    await expect(idempotency.begin('user-1', 'key-1', exercise.id, body)).resolves.toEqual({ replayed: false });
+  });
+});
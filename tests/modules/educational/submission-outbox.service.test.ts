@@ -0,0 +1,94 @@
+import { Pool } from 'pg';
+import { SubmissionOutboxService } from '../../../src/modules/educational/submission-outbox.service';
+import { SubmissionOutboxRepository } from '../../../src/modules/educational/submission-outbox.repository';
+import { MissionsService } from '../../../src/modules/gamification/missions/missions.service';
+import { SubmissionEvent } from '../../../src/modules/educational/educational.types';
+
+function fakePool(statements: string[]): Pool {
+  const client = {
+    release: jest.fn(),
+    query: jest.fn(async (sql: string) => {
+      statements.push(sql);
+      return { rows: [], rowCount: 0 };
+    })
+  };
+
+  return { connect: async () => client, query: client.query } as unknown as Pool;
+}
+
+function event(fields: Partial<SubmissionEvent> = {}): SubmissionEvent {
+  return {
+    id: '1',
+    attemptId: 'attempt-1',
+    userId: 'profile-1',
+    eventType: 'missions.exercise_completed',
+    payload: { exerciseId: 'exercise-1', exerciseType: 'crucigrama', score: 100 },
+    status: 'processing',
+    attempts: 1,
+    nextAttemptAt: new Date(),
+    lastError: null,
+    createdAt: new Date(),
+    processedAt: null,
+    ...fields
+  };
+}
+
+describe('processing mission events from the outbox', () => {
+  let statements: string[];
+  let service: SubmissionOutboxService;
+  let updateMissionProgress: jest.SpyInstance;
+
+  function claim(claimed: SubmissionEvent) {
+    jest.spyOn(SubmissionOutboxRepository.prototype, 'claimDueEvents').mockResolvedValue([claimed]);
+  }
+
+  beforeEach(() => {
+    statements = [];
+    service = new SubmissionOutboxService(fakePool(statements));
+
+    jest.spyOn(SubmissionOutboxRepository.prototype, 'lockEvent').mockResolvedValue('processing');
+    jest.spyOn(SubmissionOutboxRepository.prototype, 'completeEvent').mockResolvedValue();
+    jest.spyOn(SubmissionOutboxRepository.prototype, 'scheduleRetry').mockResolvedValue();
+    jest.spyOn(SubmissionOutboxRepository.prototype, 'moveToDeadLetter').mockResolvedValue();
+    updateMissionProgress = jest.spyOn(MissionsService.prototype, 'updateMissionProgress').mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('updates the missions and completes the event in the same transaction', async () => {
+    claim(event());
+
+    expect(await service.processDueEvents()).toEqual({ claimed: 1, completed: 1, retried: 0, deadLettered: 0 });
+    expect(updateMissionProgress.mock.calls.map(call => call[1])).toEqual([
+      'exercises_completed',
+      'weekly_exercises',
+      'perfect_scores'
+    ]);
+    expect(SubmissionOutboxRepository.prototype.completeEvent).toHaveBeenCalled();
+    expect(statements).toEqual(['BEGIN', 'COMMIT']);
+  });
+
+  it('leaves an event whose mission update fails pending for a retry', async () => {
+    claim(event({ eventType: 'missions.xp_earned', payload: { exerciseId: 'exercise-1', amount: 25 }, attempts: 2 }));
+    updateMissionProgress.mockRejectedValue(new Error('deadlock detected'));
+
+    expect(await service.processDueEvents()).toEqual({ claimed: 1, completed: 0, retried: 1, deadLettered: 0 });
+    expect(SubmissionOutboxRepository.prototype.completeEvent).not.toHaveBeenCalled();
+    expect(SubmissionOutboxRepository.prototype.scheduleRetry).toHaveBeenCalledWith('1', 'deadlock detected', 60);
+    expect(statements).toEqual(['BEGIN', 'ROLLBACK']);
+  });
+
+  it('dead-letters an event that keeps failing with the error it failed with', async () => {
+    claim(event({ eventType: 'missions.review_completed', payload: {}, attempts: 5 }));
+    updateMissionProgress.mockRejectedValue(new Error('relation "gamification_system.missions" does not exist'));
+
+    expect(await service.processDueEvents()).toEqual({ claimed: 1, completed: 0, retried: 0, deadLettered: 1 });
+    expect(SubmissionOutboxRepository.prototype.moveToDeadLetter).toHaveBeenCalledWith(
+      '1',
+      'relation "gamification_system.missions" does not exist'
+    );
+    expect(SubmissionOutboxRepository.prototype.scheduleRetry).not.toHaveBeenCalled();
+  });
+});
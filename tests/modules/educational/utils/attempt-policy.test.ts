@@ -0,0 +1,84 @@
+import {
+  assertCanAttempt,
+  getAttemptStatus,
+  resolveAttemptPolicy
+} from '../../../../src/modules/educational/utils/attempt-policy';
+import { ExerciseResponse } from '../../../../src/modules/educational/educational.types';
+
+const now = new Date('2026-03-01T12:00:00Z');
+
+function exercise(
+  maxAttempts: number | null,
+  attemptPolicy: Record<string, any> | undefined,
+  userProgress?: Record<string, any>
+): ExerciseResponse {
+  return { maxAttempts, content: { attemptPolicy }, userProgress } as unknown as ExerciseResponse;
+}
+
+describe('resolveAttemptPolicy', () => {
+  it('defaults to unlimited attempts, no cooldown and the best score', () => {
+    expect(resolveAttemptPolicy(exercise(0, undefined))).toEqual({
+      maxAttempts: null,
+      cooldownMinutes: 0,
+      scorePolicy: 'best'
+    });
+  });
+
+  it('falls back to the defaults for invalid overrides', () => {
+    const policy = resolveAttemptPolicy(exercise(3, { cooldownMinutes: -5, scorePolicy: 'worst' }));
+
+    expect(policy).toEqual({ maxAttempts: 3, cooldownMinutes: 0, scorePolicy: 'best' });
+  });
+});
+
+describe('getAttemptStatus', () => {
+  it('counts the remaining attempts', () => {
+    const status = getAttemptStatus(exercise(3, undefined, { attempts: 2, bestScore: 80 }), now);
+
+    expect(status).toMatchObject({ attemptsUsed: 2, remainingAttempts: 1, canAttempt: true, countedScore: 80 });
+  });
+
+  it('has no counted score before the first attempt', () => {
+    expect(getAttemptStatus(exercise(null, undefined), now)).toMatchObject({
+      remainingAttempts: null,
+      canAttempt: true,
+      countedScore: null
+    });
+  });
+
+  it('counts the score the policy selects', () => {
+    const progress = { attempts: 3, bestScore: 90, latestScore: 60, averageScore: 75 };
+
+    expect(getAttemptStatus(exercise(null, { scorePolicy: 'latest' }, progress), now).countedScore).toBe(60);
+    expect(getAttemptStatus(exercise(null, { scorePolicy: 'average' }, progress), now).countedScore).toBe(75);
+  });
+
+  it('waits out the cooldown after the last attempt', () => {
+    const progress = { attempts: 1, lastAttemptedAt: '2026-03-01T11:50:00Z' };
+
+    expect(getAttemptStatus(exercise(null, { cooldownMinutes: 15 }, progress), now)).toMatchObject({
+      cooldownEndsAt: new Date('2026-03-01T12:05:00Z'),
+      canAttempt: false
+    });
+    expect(getAttemptStatus(exercise(null, { cooldownMinutes: 5 }, progress), now)).toMatchObject({
+      cooldownEndsAt: null,
+      canAttempt: true
+    });
+  });
+});
+
+describe('assertCanAttempt', () => {
+  it('rejects attempts past the limit', () => {
+    expect(() => assertCanAttempt(exercise(2, undefined, { attempts: 2 }), now)).toThrow(
+      expect.objectContaining({ statusCode: 403, code: 'MAX_ATTEMPTS_REACHED' })
+    );
+  });
+
+  it('rejects attempts during the cooldown', () => {
+    const progress = { attempts: 1, lastAttemptedAt: '2026-03-01T11:50:00Z' };
+
+    expect(() => assertCanAttempt(exercise(null, { cooldownMinutes: 15 }, progress), now)).toThrow(
+      expect.objectContaining({ statusCode: 429, code: 'ATTEMPT_COOLDOWN' })
+    );
+  });
+});
@@ -0,0 +1,95 @@
+import {
+  applyVisionLectora,
+  checkForSecondChance,
+  revealNextHint
+} from '../../../../src/modules/educational/utils/comodin-effects';
+import { ComodinEffect, ExerciseResponse } from '../../../../src/modules/educational/educational.types';
+
+function exercise(fields: Record<string, any>): ExerciseResponse {
+  return { id: 'exercise-1', exerciseType: 'quiz_tiktok', content: {}, hints: [], ...fields } as unknown as ExerciseResponse;
+}
+
+describe('revealNextHint', () => {
+  const withHints = exercise({ hints: ['Lee el título', { text: 'Mira la fecha' }] });
+
+  it('reveals hints in order', () => {
+    expect(revealNextHint(withHints, 1)).toMatchObject({
+      hint: { order: 2, text: 'Mira la fecha' },
+      hintsRemaining: 0
+    });
+  });
+
+  it('rejects a use once every hint is revealed', () => {
+    expect(() => revealNextHint(withHints, 2)).toThrow(expect.objectContaining({ code: 'POWERUP_NOT_APPLICABLE' }));
+  });
+});
+
+describe('applyVisionLectora', () => {
+  const quiz = exercise({
+    content: {
+      questions: [
+        { id: 'q1', options: ['a', 'b', 'c', 'd'], correctAnswer: 2 },
+        { id: 'q2', options: ['sí', 'no'], correctAnswer: 0 }
+      ]
+    }
+  });
+
+  it('removes all but one distractor, never the correct option', () => {
+    const effect = applyVisionLectora(quiz, 'session-0001');
+    const { removedOptions } = effect as Extract<ComodinEffect, { mode: 'remove_distractors' }>;
+
+    expect(effect).toMatchObject({ mode: 'remove_distractors' });
+    expect(removedOptions.q1).toHaveLength(2);
+    expect(removedOptions.q1).not.toContain('c');
+    expect(removedOptions.q2).toBeUndefined();
+  });
+
+  it('removes the same distractors for the same session', () => {
+    const seed = '3f2a9c1e-0000-4000-8000-000000000000';
+
+    expect(applyVisionLectora(quiz, seed)).toEqual(applyVisionLectora(quiz, seed));
+  });
+
+  it('highlights the relevant passages of types without options', () => {
+    const effect = applyVisionLectora(
+      exercise({ content: { statements: [{ id: 's1', highlight: 'párrafo 2' }, { id: 's2' }], highlights: ['título'] } }),
+      'session-1'
+    );
+
+    expect(effect).toMatchObject({
+      mode: 'highlight',
+      highlights: [
+        { itemId: 's1', passage: 'párrafo 2' },
+        { itemId: 'exercise', passage: 'título' }
+      ]
+    });
+  });
+
+  it('rejects exercises it has no effect on', () => {
+    expect(() => applyVisionLectora(exercise({}), 'session-1')).toThrow(
+      expect.objectContaining({ code: 'POWERUP_NOT_APPLICABLE' })
+    );
+  });
+});
+
+describe('checkForSecondChance', () => {
+  const trueFalse = exercise({
+    exerciseType: 'verdadero_falso',
+    content: { statements: [{ id: 's1', correctAnswer: true }, { id: 's2', correctAnswer: false }] }
+  });
+
+  it('reports the wrong items without their answers', () => {
+    expect(checkForSecondChance(trueFalse, { s1: true, s2: true })).toEqual({
+      type: 'segunda_oportunidad',
+      wrongItems: ['s2'],
+      gradedItems: 2
+    });
+  });
+
+  it('requires answers and an auto-graded exercise', () => {
+    expect(() => checkForSecondChance(trueFalse, null)).toThrow(expect.objectContaining({ code: 'VALIDATION_ERROR' }));
+    expect(() => checkForSecondChance(exercise({ exerciseType: 'debate_digital' }), {})).toThrow(
+      expect.objectContaining({ code: 'POWERUP_NOT_APPLICABLE' })
+    );
+  });
+});
@@ -0,0 +1,152 @@
+import {
+  meetsRankRequirement,
+  recommendExercises,
+  summarizePerformance,
+  targetDifficulties
+} from '../../../../src/modules/educational/utils/exercise-recommender';
+import {
+  DifficultyLevel,
+  ExerciseType,
+  RangoMaya,
+  RecentAttemptScore,
+  RecommendationCandidate
+} from '../../../../src/modules/educational/educational.types';
+
+function attempt(exerciseType: ExerciseType, difficulty: DifficultyLevel, score: number, day: number): RecentAttemptScore {
+  return { exerciseType, difficulty, score, submittedAt: new Date(Date.UTC(2026, 2, day)) };
+}
+
+function candidate(id: string, fields: Partial<RecommendationCandidate> = {}): RecommendationCandidate {
+  return {
+    id,
+    moduleId: 'module-1',
+    moduleTitle: 'Comprensión Literal',
+    moduleOrder: 1,
+    rangoMayaRequired: null,
+    title: `Ejercicio ${id}`,
+    exerciseType: ExerciseType.CRUCIGRAMA,
+    difficulty: DifficultyLevel.BEGINNER,
+    orderIndex: 1,
+    estimatedTimeMinutes: 10,
+    maxAttempts: null,
+    attemptPolicy: null,
+    attempts: 1,
+    bestScore: 50,
+    completed: false,
+    lastAttemptedAt: null,
+    dueReviews: 0,
+    ...fields
+  };
+}
+
+const { BEGINNER, INTERMEDIATE, ADVANCED } = DifficultyLevel;
+
+describe('targetDifficulties', () => {
+  it('starts skills without attempts at beginner', () => {
+    expect(targetDifficulties([]).critical).toEqual({ difficulty: BEGINNER, change: 'same' });
+  });
+
+  it('steps up after three strong scores at the latest difficulty', () => {
+    const recent = [1, 2, 3].map(day => attempt(ExerciseType.CRUCIGRAMA, INTERMEDIATE, 90, day));
+
+    expect(targetDifficulties(recent).literal).toEqual({ difficulty: ADVANCED, change: 'up' });
+    expect(targetDifficulties(recent.slice(0, 2)).literal).toEqual({ difficulty: INTERMEDIATE, change: 'same' });
+  });
+
+  it('steps down after weak scores, never below beginner', () => {
+    const weak = [attempt(ExerciseType.QUIZ_TIKTOK, INTERMEDIATE, 40, 1), attempt(ExerciseType.ANALISIS_MEMES, INTERMEDIATE, 50, 2)];
+
+    expect(targetDifficulties(weak).digital).toEqual({ difficulty: BEGINNER, change: 'down' });
+    expect(targetDifficulties(weak.map(entry => ({ ...entry, difficulty: BEGINNER }))).digital).toEqual({
+      difficulty: BEGINNER,
+      change: 'same'
+    });
+  });
+
+  it('only looks at the five latest attempts of a skill', () => {
+    const recent = [
+      ...[1, 2, 3].map(day => attempt(ExerciseType.CRUCIGRAMA, BEGINNER, 10, day)),
+      ...[4, 5, 6, 7, 8].map(day => attempt(ExerciseType.SOPA_LETRAS, BEGINNER, 95, day))
+    ];
+
+    expect(targetDifficulties(recent).literal).toEqual({ difficulty: INTERMEDIATE, change: 'up' });
+  });
+});
+
+describe('summarizePerformance', () => {
+  it('averages recent scores by type, difficulty and skill', () => {
+    const recent = [attempt(ExerciseType.CRUCIGRAMA, BEGINNER, 40, 1), attempt(ExerciseType.SOPA_LETRAS, BEGINNER, 81, 2)];
+
+    expect(summarizePerformance(recent)).toEqual({
+      byType: { crucigrama: { attempts: 1, averageScore: 40 }, sopa_letras: { attempts: 1, averageScore: 81 } },
+      byDifficulty: { beginner: { attempts: 2, averageScore: 61 } },
+      bySkill: { literal: { attempts: 2, averageScore: 61 } }
+    });
+  });
+});
+
+describe('meetsRankRequirement', () => {
+  it('compares ranks in promotion order', () => {
+    expect(meetsRankRequirement(null, RangoMaya.NACOM)).toBe(true);
+    expect(meetsRankRequirement(RangoMaya.HOLCATTE, RangoMaya.GUERRERO)).toBe(true);
+    expect(meetsRankRequirement(RangoMaya.HOLCATTE, RangoMaya.BATAB)).toBe(false);
+  });
+});
+
+describe('recommendExercises', () => {
+  it('puts due reviews and weak skills first and explains why', () => {
+    const recent = [1, 2].map(day => attempt(ExerciseType.DEBATE_DIGITAL, BEGINNER, 35, day));
+    const [first, second, third] = recommendExercises(
+      [
+        candidate('done', { completed: true, bestScore: 95 }),
+        candidate('review', { dueReviews: 2 }),
+        candidate('weak', { exerciseType: ExerciseType.TRIBUNAL_OPINIONES })
+      ],
+      recent,
+      3
+    );
+
+    expect([first.exerciseId, second.exerciseId, third.exerciseId]).toEqual(['review', 'weak', 'done']);
+    expect(first.reasons[0]).toMatchObject({ code: 'review_due', details: { dueReviews: 2 } });
+    expect(second.reasons.map(reason => reason.code)).toEqual(['difficulty_match', 'weak_skill', 'not_passed']);
+    expect(second.reasons[1]).toMatchObject({ details: { skill: 'critical', averageScore: 35 } });
+    expect(third.reasons.map(reason => reason.code)).not.toContain('not_passed');
+  });
+
+  it('prefers the next untried exercise of a module', () => {
+    const [first] = recommendExercises(
+      [candidate('later', { attempts: 0, orderIndex: 3 }), candidate('next', { attempts: 0, orderIndex: 2 })],
+      [],
+      1
+    );
+
+    expect(first).toMatchObject({ exerciseId: 'next' });
+    expect(first.reasons[0].code).toBe('not_attempted');
+    expect(first.reasons.map(reason => reason.code)).toContain('next_in_module');
+  });
+
+  it('leaves out exercises the student cannot attempt now', () => {
+    const recommendations = recommendExercises(
+      [
+        candidate('exhausted', { maxAttempts: 1, attempts: 1 }),
+        candidate('cooling', { attemptPolicy: { cooldownMinutes: 60 }, lastAttemptedAt: new Date() }),
+        candidate('open')
+      ],
+      [],
+      10
+    );
+
+    expect(recommendations.map(recommendation => recommendation.exerciseId)).toEqual(['open']);
+  });
+
+  it('penalizes difficulties far from the target', () => {
+    const [near, far] = recommendExercises(
+      [candidate('advanced', { difficulty: ADVANCED }), candidate('intermediate', { difficulty: INTERMEDIATE })],
+      [],
+      2
+    );
+
+    expect([near.exerciseId, far.exerciseId]).toEqual(['intermediate', 'advanced']);
+    expect(near.priority - far.priority).toBe(20);
+  });
+});
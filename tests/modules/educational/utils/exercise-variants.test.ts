@@ -0,0 +1,134 @@
+import {
+  buildVariant,
+  collectPlaceholders,
+  fillParameters,
+  isRandomized,
+  renderVariant,
+  resolveVariantExercise,
+  toOriginalAnswers
+} from '../../../../src/modules/educational/utils/exercise-variants';
+import { scorerRegistry } from '../../../../src/modules/educational/scorers';
+import { ExerciseResponse } from '../../../../src/modules/educational/educational.types';
+
+const questions = ['q1', 'q2', 'q3', 'q4', 'q5', 'q6'].map((id, index) => ({
+  id,
+  question: `¿Cuánto es {{base}} + ${index}?`,
+  options: ['uno', 'dos', 'tres', 'cuatro'],
+  correctAnswer: index % 4,
+  explanation: 'Suma'
+}));
+
+function quiz(randomization: Record<string, any>): ExerciseResponse {
+  return {
+    id: 'exercise-1',
+    exerciseType: 'comprension_auditiva',
+    content: { questions, randomization }
+  } as unknown as ExerciseResponse;
+}
+
+const seeds = ['a1b2c3d4', 'ffff0000', 'seed-3', 'seed-4', 'seed-5'];
+
+describe('isRandomized', () => {
+  it('needs a setting that changes the exercise', () => {
+    expect(isRandomized(quiz({}))).toBe(false);
+    expect(isRandomized(quiz({ parameterSets: [] }))).toBe(false);
+    expect(isRandomized(quiz({ shuffleOptions: true }))).toBe(true);
+  });
+});
+
+describe('buildVariant', () => {
+  const exercise = quiz({ drawCount: 3, shuffleOptions: true, parameterSets: [{ base: 1 }, { base: 2 }] });
+
+  it('builds the same variant for the same seed', () => {
+    expect(buildVariant(exercise, 'a1b2c3d4')).toEqual(buildVariant(exercise, 'a1b2c3d4'));
+  });
+
+  it('draws different items for different seeds', () => {
+    const draws = new Set(seeds.map(seed => buildVariant(exercise, seed).items.map(item => item.id).join()));
+
+    expect(draws.size).toBeGreaterThan(1);
+  });
+
+  it('keeps drawn items in content order unless items are shuffled', () => {
+    seeds.forEach(seed => {
+      const indices = buildVariant(exercise, seed).items.map(item => item.index);
+
+      expect(indices).toHaveLength(3);
+      expect(indices).toEqual([...indices].sort((a, b) => a - b));
+    });
+  });
+
+  it('shuffles every option list into a permutation', () => {
+    buildVariant(exercise, 'seed-3').items.forEach(item => {
+      expect([...item.optionOrder!].sort()).toEqual([0, 1, 2, 3]);
+    });
+  });
+});
+
+describe('renderVariant', () => {
+  const exercise = quiz({ shuffleItems: true, shuffleOptions: true, parameterSets: [{ base: 10 }] });
+  const variant = buildVariant(exercise, 'a1b2c3d4');
+
+  it('shows the items in variant order without their answers', () => {
+    const shown = renderVariant(exercise.content, variant).questions;
+
+    expect(shown.map((question: any) => question.id)).toEqual(variant.items.map(item => item.id));
+    expect(shown[0]).not.toHaveProperty('correctAnswer');
+    expect(shown[0]).not.toHaveProperty('explanation');
+    expect(shown[0].question).toMatch(/^¿Cuánto es 10 \+ \d\?$/);
+  });
+
+  it('points the answer key at the shuffled option', () => {
+    renderVariant(exercise.content, variant, true).questions.forEach((question: any) => {
+      const original = questions.find(candidate => candidate.id === question.id)!;
+
+      expect(question.options[question.correctAnswer]).toBe(original.options[original.correctAnswer]);
+    });
+  });
+});
+
+describe('toOriginalAnswers', () => {
+  const exercise = quiz({ drawCount: 4, shuffleItems: true, shuffleOptions: true });
+
+  // The variant of a seed and its questions as displayed, with the answer key
+  function displayed(seed: string) {
+    const variant = buildVariant(exercise, seed);
+    const shown = renderVariant(exercise.content, variant, true).questions;
+    return { variant, shown };
+  }
+
+  it.each(seeds)('maps correct answers to a variant back to full marks (seed %s)', seed => {
+    const { variant, shown } = displayed(seed);
+    const byId = Object.fromEntries(shown.map((question: any) => [question.id, question.correctAnswer]));
+    const byPosition = shown.map((question: any) => question.correctAnswer);
+
+    for (const answers of [byId, byPosition, { responses: byPosition }]) {
+      const result = scorerRegistry.score(toOriginalAnswers(answers, variant, exercise), resolveVariantExercise(exercise, variant));
+
+      expect(result).toMatchObject({ score: 100, maxScore: 4 });
+    }
+  });
+
+  it('keys the mapped answers by original item id and leaves unanswered items out', () => {
+    const { variant, shown } = displayed('seed-4');
+    const mapped = toOriginalAnswers([shown[0].correctAnswer], variant, exercise);
+    const original = questions.find(question => question.id === shown[0].id)!;
+
+    expect(mapped).toEqual({ [original.id]: original.correctAnswer });
+  });
+
+  it('returns answers unchanged for variants without items', () => {
+    const answers = { q1: 2 };
+
+    expect(toOriginalAnswers(answers, { seed: 's', collection: null, items: [], parameters: null }, exercise)).toBe(answers);
+  });
+});
+
+describe('parameters', () => {
+  it('fills known placeholders and leaves unknown ones', () => {
+    const content = { text: 'De {{ origen }} a {{destino}}', list: ['{{origen}}', 3] };
+
+    expect([...collectPlaceholders(content)]).toEqual(['origen', 'destino']);
+    expect(fillParameters(content, { origen: 'Mérida' })).toEqual({ text: 'De Mérida a {{destino}}', list: ['Mérida', 3] });
+  });
+});
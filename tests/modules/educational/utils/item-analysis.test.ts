@@ -0,0 +1,144 @@
+import {
+  analyzeItems,
+  itemAnalysisCsv,
+  ScoredResponse,
+  summarizeMistakes
+} from '../../../../src/modules/educational/utils/item-analysis';
+import { itemScore } from '../../../../src/modules/educational/scorers/scorer.utils';
+import { ExerciseType, ItemAnalysisReport } from '../../../../src/modules/educational/educational.types';
+
+const content: Record<string, Record<string, any>> = {
+  q1: { question: '¿Quién escribió Pedro Páramo?', options: ['Fuentes', 'Rulfo', 'Paz', 'Poniatowska'], correctAnswer: 1 },
+  q2: { question: '¿Año de la Independencia?', options: ['1810', '1821'], correctAnswer: 0 },
+  across_1: { clue: 'Astro rey', answer: 'Sol' }
+};
+
+/**
+ * Ten students, best first (scores 100 down to 10), answering with the
+ * given answers and credits
+ */
+function responses(itemId: string, answers: Array<[any, number]>, freeText = false): ScoredResponse[] {
+  return answers.map(([answer, credit], index) => ({
+    score: 100 - index * 10,
+    items: [{
+      ...itemScore(itemId, credit, answer, content[itemId].correctAnswer ?? content[itemId].answer),
+      ...(freeText && { matchType: credit >= 1 ? 'exact' as const : 'none' as const })
+    }]
+  }));
+}
+
+// Strong students pick Rulfo, weak ones Paz, and one answers off the list
+const q1 = responses('q1', [[1, 1], [1, 1], [1, 1], [1, 1], [1, 1], [1, 1], [2, 0], [2, 0], [2, 0], ['Octavio', 0]]);
+
+// Free text, one blank
+const across1 = responses(
+  'across_1',
+  [['Sol', 1], ['Sol', 1], ['Sol', 1], ['Sol', 1], ['sol ', 1], ['Luna', 0], [' luna', 0], ['Marte', 0], ['LUNA', 0], ['', 0]],
+  true
+);
+
+const contentOf = (itemId: string) => content[itemId] || null;
+
+describe('analyzeItems', () => {
+  it('reports difficulty, discrimination and the pick of every option', () => {
+    const [item] = analyzeItems(q1, contentOf);
+
+    expect(item).toMatchObject({
+      itemId: 'q1',
+      prompt: '¿Quién escribió Pedro Páramo?',
+      kind: 'choice',
+      correctAnswer: 'Rulfo',
+      respondents: 10,
+      omitted: 0,
+      difficulty: 0.6,
+      discrimination: 1,
+      commonWrongAnswers: [],
+      flags: []
+    });
+    expect(item.distractors).toEqual([
+      { answer: 'Fuentes', count: 0, isCorrect: false, share: 0 },
+      { answer: 'Rulfo', count: 6, isCorrect: true, share: 60 },
+      { answer: 'Paz', count: 3, isCorrect: false, share: 30 },
+      { answer: 'Poniatowska', count: 0, isCorrect: false, share: 0 },
+      { answer: 'Octavio', count: 1, isCorrect: false, share: 10 }
+    ]);
+  });
+
+  it('counts the most common wrong free-text answers, trimmed and lower case', () => {
+    const [item] = analyzeItems(across1, contentOf);
+
+    expect(item).toMatchObject({ kind: 'text', prompt: 'Astro rey', correctAnswer: 'Sol', omitted: 1, difficulty: 0.5, distractors: [] });
+    expect(item.commonWrongAnswers).toEqual([
+      { answer: 'luna', count: 3, share: 30, isCorrect: false },
+      { answer: 'marte', count: 1, share: 10, isCorrect: false }
+    ]);
+  });
+
+  it('flags items weak students do better on and wrong options picked over the right one', () => {
+    // The strong students all fall for 1821
+    const q2 = responses('q2', [[1, 0], [1, 0], [1, 0], [1, 0], [1, 0], [1, 0], [1, 0], [0, 1], [0, 1], [0, 1]]);
+
+    expect(analyzeItems(q2, contentOf)[0]).toMatchObject({
+      difficulty: 0.3,
+      discrimination: -1,
+      flags: ['negative_discrimination', 'attractive_distractor']
+    });
+  });
+
+  it('needs ten respondents for discrimination', () => {
+    const [item] = analyzeItems(q1.slice(0, 9), contentOf);
+
+    expect(item.discrimination).toBeNull();
+    expect(analyzeItems(q1.slice(0, 5), contentOf)[0].flags).toEqual(['too_easy']);
+  });
+});
+
+describe('summarizeMistakes', () => {
+  it('reports the error rate and the most frequent wrong answers', () => {
+    const analysis = {
+      exerciseId: 'exercise-1',
+      exerciseTitle: 'Literatura mexicana',
+      exerciseType: ExerciseType.CRUCIGRAMA,
+      respondents: 10,
+      averageScore: 55,
+      items: analyzeItems(q1.map((response, index) => ({ ...response, items: [...response.items, ...across1[index].items] })), contentOf)
+    };
+
+    expect(summarizeMistakes(analysis)).toEqual({
+      exerciseId: 'exercise-1',
+      exerciseTitle: 'Literatura mexicana',
+      errorRate: 45,
+      commonErrors: [
+        '¿Quién escribió Pedro Páramo?: Paz (3)',
+        'Astro rey: luna (3)',
+        '¿Quién escribió Pedro Páramo?: Octavio (1)'
+      ]
+    });
+  });
+});
+
+describe('itemAnalysisCsv', () => {
+  it('writes one quoted row per item', () => {
+    const report: ItemAnalysisReport = {
+      scope: 'exercise',
+      scopeId: 'exercise-1',
+      scopeTitle: 'Literatura',
+      classroomId: null,
+      generatedAt: new Date(),
+      exercises: [{
+        exerciseId: 'exercise-1',
+        exerciseTitle: 'El "Llano" en llamas',
+        exerciseType: ExerciseType.QUIZ_TIKTOK,
+        respondents: 10,
+        averageScore: 55,
+        items: analyzeItems(q1, contentOf)
+      }]
+    };
+
+    const [header, row] = itemAnalysisCsv(report).split('\n');
+
+    expect(header.startsWith('"Exercise ID","Exercise Title"')).toBe(true);
+    expect(row).toContain('"El ""Llano"" en llamas"');
+    expect(row).toContain('"Fuentes: 0; Rulfo: 6; Paz: 3; Poniatowska: 0; Octavio: 1"');
+  });
+});
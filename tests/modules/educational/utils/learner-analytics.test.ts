@@ -0,0 +1,108 @@
+import { buildLearnerAnalytics, timeframeStart } from '../../../../src/modules/educational/utils/learner-analytics';
+import { AnalyticsAttempt, ExerciseType } from '../../../../src/modules/educational/educational.types';
+
+// A Wednesday evening
+const now = new Date('2026-03-04T20:00:00Z');
+
+function attempt(fields: Omit<Partial<AnalyticsAttempt>, 'submittedAt'> & { submittedAt: string }): AnalyticsAttempt {
+  return {
+    exerciseId: 'ex1',
+    moduleId: 'm1',
+    moduleName: 'Comprensión Literal',
+    exerciseType: ExerciseType.CRUCIGRAMA,
+    score: 0,
+    isCorrect: false,
+    timeSpent: 600,
+    pendingReview: false,
+    ...fields,
+    submittedAt: new Date(fields.submittedAt)
+  };
+}
+
+const attempts = [
+  attempt({ score: 50, timeSpent: 600, submittedAt: '2026-03-02T09:10:00Z' }),
+  // Started 5 minutes after the previous submission: same session
+  attempt({ score: 90, isCorrect: true, timeSpent: 300, submittedAt: '2026-03-02T09:20:00Z' }),
+  attempt({
+    exerciseId: 'ex2',
+    exerciseType: ExerciseType.DEBATE_DIGITAL,
+    pendingReview: true,
+    timeSpent: 1200,
+    submittedAt: '2026-03-03T15:00:00Z'
+  }),
+  attempt({
+    exerciseId: 'ex3',
+    moduleId: null,
+    moduleName: null,
+    exerciseType: ExerciseType.SOPA_LETRAS,
+    score: 100,
+    isCorrect: true,
+    submittedAt: '2026-03-04T09:00:00Z'
+  })
+];
+
+describe('timeframeStart', () => {
+  it('covers the timeframe\'s days up to today', () => {
+    expect(timeframeStart('week', now)).toEqual(new Date('2026-02-26T00:00:00Z'));
+    expect(timeframeStart('all', now)).toBeNull();
+  });
+});
+
+describe('buildLearnerAnalytics', () => {
+  const analytics = buildLearnerAnalytics(attempts, 'week', now);
+
+  it('leaves attempts waiting for a grade out of the scores but not the study time', () => {
+    expect(analytics.summary).toEqual({
+      totalTimeStudied: 45,
+      exercisesCompleted: 2,
+      averageScore: 80,
+      perfectScores: 1,
+      improvementRate: 100
+    });
+  });
+
+  it('breaks performance down by module and by exercise type', () => {
+    expect(analytics.performanceByModule).toEqual([
+      { moduleId: 'm1', moduleName: 'Comprensión Literal', averageScore: 70, exercisesCompleted: 1, timeSpent: 35, improvement: 80 }
+    ]);
+    expect(analytics.performanceByType).toEqual([
+      { exerciseType: 'crucigrama', averageScore: 70, totalAttempts: 2, successRate: 50 },
+      { exerciseType: 'sopa_letras', averageScore: 100, totalAttempts: 1, successRate: 100 }
+    ]);
+  });
+
+  it('finds study sessions, habits and consistency', () => {
+    expect(analytics.studyPattern).toEqual({
+      averageSessionDuration: 15,
+      preferredStudyTime: 'morning',
+      mostActiveDay: 'Monday',
+      studyConsistency: 42.9
+    });
+  });
+
+  it('lists activity for every day of the week and scores for days with scored attempts', () => {
+    expect(analytics.trends.activityOverTime.map(day => day.date)).toEqual([
+      '2026-02-26', '2026-02-27', '2026-02-28', '2026-03-01', '2026-03-02', '2026-03-03', '2026-03-04'
+    ]);
+    expect(analytics.trends.activityOverTime[5]).toEqual({ date: '2026-03-03', exercisesCompleted: 0, minutesStudied: 20 });
+    expect(analytics.trends.scoreOverTime).toEqual([
+      { date: '2026-03-02', averageScore: 70 },
+      { date: '2026-03-04', averageScore: 100 }
+    ]);
+  });
+
+  it('groups a quarter by week from Monday', () => {
+    const quarter = buildLearnerAnalytics(attempts, 'quarter', now).trends;
+
+    expect(quarter.activityOverTime).toHaveLength(14);
+    expect(quarter.activityOverTime[13]).toEqual({ date: '2026-03-02', exercisesCompleted: 2, minutesStudied: 45 });
+  });
+
+  it('is empty without attempts', () => {
+    const empty = buildLearnerAnalytics([], 'all', now);
+
+    expect(empty.summary).toEqual({ totalTimeStudied: 0, exercisesCompleted: 0, averageScore: 0, perfectScores: 0, improvementRate: 0 });
+    expect(empty.studyPattern).toMatchObject({ preferredStudyTime: null, studyConsistency: 0 });
+    expect(empty.trends).toEqual({ scoreOverTime: [], activityOverTime: [] });
+  });
+});
@@ -0,0 +1,177 @@
+import { convertQtiItems, readQtiPackage } from '../../../../src/modules/educational/utils/qti';
+import { ExerciseContentValidator } from '../../../../src/modules/educational/validators';
+import { buildZip } from '../../../helpers/build-zip';
+
+function item(identifier: string, declarations: string, body: string, title: string = `Pregunta ${identifier}`): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+    <assessmentItem xmlns="http://www.imsglobal.org/xsd/imsqti_v2p1" identifier="${identifier}" title="${title}">
+      ${declarations}
+      <itemBody>${body}</itemBody>
+    </assessmentItem>`;
+}
+
+function response(identifier: string, values: string[], cardinality: string = 'single', mapping: string = ''): string {
+  return `<responseDeclaration identifier="${identifier}" cardinality="${cardinality}" baseType="identifier">
+      <correctResponse>${values.map(value => `<value>${value}</value>`).join('')}</correctResponse>
+      ${mapping}
+    </responseDeclaration>`;
+}
+
+const choiceItem = item(
+  'q1',
+  response('RESPONSE', ['B']),
+  `<choiceInteraction responseIdentifier="RESPONSE" maxChoices="1">
+    <prompt>¿Quién escribió el Popol Vuh?</prompt>
+    <simpleChoice identifier="A">Sor Juana</simpleChoice>
+    <simpleChoice identifier="B">Autores mayas</simpleChoice>
+    <simpleChoice identifier="C">Octavio Paz</simpleChoice>
+  </choiceInteraction>`
+);
+
+function convert(xml: string) {
+  return convertQtiItems([{ path: 'items/item.xml', xml }]);
+}
+
+describe('convertQtiItems', () => {
+  const validator = new ExerciseContentValidator();
+
+  it('converts single choices to a quiz', () => {
+    const { exercises, issues } = convert(choiceItem);
+
+    expect(issues).toEqual([]);
+    expect(exercises[0]).toMatchObject({
+      title: 'Pregunta q1',
+      exerciseType: 'quiz_tiktok',
+      content: {
+        questions: [{
+          id: 'RESPONSE',
+          question: '¿Quién escribió el Popol Vuh?',
+          options: ['Sor Juana', 'Autores mayas', 'Octavio Paz'],
+          correctAnswer: 1
+        }]
+      }
+    });
+    expect(validator.validate(exercises[0].exerciseType, exercises[0].content).isValid).toBe(true);
+  });
+
+  it('converts true/false choices to verdadero_falso', () => {
+    const { exercises } = convert(item(
+      'q2',
+      response('RESPONSE', ['F']),
+      `<p>El maíz llegó de Europa.</p>
+      <choiceInteraction responseIdentifier="RESPONSE" maxChoices="1">
+        <simpleChoice identifier="T">Verdadero</simpleChoice>
+        <simpleChoice identifier="F">Falso</simpleChoice>
+      </choiceInteraction>`
+    ));
+
+    expect(exercises[0]).toMatchObject({
+      exerciseType: 'verdadero_falso',
+      content: { statements: [{ id: 'RESPONSE', statement: 'El maíz llegó de Europa.', correctAnswer: false }] }
+    });
+  });
+
+  it('converts text entries to blanks with the mapped alternatives', () => {
+    const mapping = `<mapping defaultValue="0">
+        <mapEntry mapKey="Tenochtitlan" mappedValue="1"/>
+        <mapEntry mapKey="Tenochtitlán" mappedValue="1"/>
+        <mapEntry mapKey="Cancún" mappedValue="0"/>
+      </mapping>`;
+    const { exercises } = convert(item(
+      'q3',
+      response('R1', ['Tenochtitlan'], 'single', mapping),
+      '<p>La capital mexica era <textEntryInteraction responseIdentifier="R1"/>.</p>'
+    ));
+
+    expect(exercises[0]).toMatchObject({
+      exerciseType: 'completar_espacios',
+      content: {
+        text: 'La capital mexica era ____.',
+        blanks: [{ id: 'R1', correctAnswer: 'Tenochtitlan', acceptedAnswers: ['Tenochtitlán'] }]
+      }
+    });
+  });
+
+  it('converts matches to pairs and orders to a timeline', () => {
+    const match = convert(item(
+      'q4',
+      response('RESPONSE', ['A X', 'B Y'], 'multiple'),
+      `<matchInteraction responseIdentifier="RESPONSE">
+        <simpleMatchSet>
+          <simpleAssociableChoice identifier="A">Rulfo</simpleAssociableChoice>
+          <simpleAssociableChoice identifier="B">Fuentes</simpleAssociableChoice>
+        </simpleMatchSet>
+        <simpleMatchSet>
+          <simpleAssociableChoice identifier="X">Pedro Páramo</simpleAssociableChoice>
+          <simpleAssociableChoice identifier="Y">Aura</simpleAssociableChoice>
+        </simpleMatchSet>
+      </matchInteraction>`
+    ));
+    const order = convert(item(
+      'q5',
+      response('RESPONSE', ['B', 'A'], 'ordered'),
+      `<orderInteraction responseIdentifier="RESPONSE">
+        <simpleChoice identifier="A">Revolución</simpleChoice>
+        <simpleChoice identifier="B">Independencia</simpleChoice>
+      </orderInteraction>`
+    ));
+
+    expect(match.exercises[0]).toMatchObject({ exerciseType: 'emparejamiento', content: { correctPairs: { A: 'X', B: 'Y' } } });
+    expect(order.exercises[0]).toMatchObject({
+      exerciseType: 'linea_tiempo',
+      content: { events: [{ id: 'B', year: 1 }, { id: 'A', year: 2 }] }
+    });
+    expect(validator.validate(order.exercises[0].exerciseType, order.exercises[0].content).isValid).toBe(true);
+  });
+
+  it('skips items it cannot convert with a warning', () => {
+    const multiple = choiceItem.replace('cardinality="single"', 'cardinality="multiple"');
+    const unsupported = item('q6', '', '<extendedTextInteraction responseIdentifier="R"/>');
+
+    expect(convert(multiple).issues).toEqual([
+      { severity: 'warning', field: 'items/item.xml', message: 'Item skipped: multiple-response choices are not supported' }
+    ]);
+    expect(convert(unsupported).issues[0].message).toBe('Item skipped: extendedTextInteraction is not supported');
+  });
+
+  it('reports documents that are not QTI items as errors', () => {
+    expect(convert('<assessmentItem>').issues[0]).toMatchObject({ severity: 'error', message: expect.stringContaining('Invalid XML') });
+    expect(convert('<html/>').issues[0]).toMatchObject({ severity: 'error', message: 'Not a QTI assessmentItem' });
+  });
+});
+
+describe('readQtiPackage', () => {
+  const manifest = `<manifest>
+    <resources>
+      <resource identifier="r2" type="imsqti_item_xmlv2p1" href="items/segunda%20pregunta.xml"/>
+      <resource identifier="r1" type="imsqti_item_xmlv2p1" href="items/q1.xml"/>
+      <resource identifier="css" type="webcontent" href="style.css"/>
+    </resources>
+  </manifest>`;
+
+  it('reads the items the manifest lists, in its order', () => {
+    const archive = buildZip({
+      'imsmanifest.xml': manifest,
+      'items/q1.xml': choiceItem,
+      'items/segunda pregunta.xml': choiceItem,
+      'style.css': ''
+    }, { deflate: true });
+
+    expect(readQtiPackage(archive).map(source => source.path)).toEqual(['items/segunda%20pregunta.xml', 'items/q1.xml']);
+  });
+
+  it('falls back to every item document when the manifest lists none', () => {
+    const archive = buildZip({
+      'imsmanifest.xml': '<manifest><resources/></manifest>',
+      'q1.xml': choiceItem,
+      'other.xml': '<html/>'
+    });
+
+    expect(readQtiPackage(archive).map(source => source.path)).toEqual(['q1.xml']);
+  });
+
+  it('requires a manifest and every item it lists', () => {
+    expect(() => readQtiPackage(buildZip({ 'q1.xml': choiceItem }))).toThrow('QTI package has no imsmanifest.xml');
+    expect(() => readQtiPackage(buildZip({ 'imsmanifest.xml': manifest }))).toThrow('QTI package is missing items/segunda%20pregunta.xml');
+  });
+});
@@ -0,0 +1,83 @@
+import { isolateItem, isReviewable, itemContent, reviewContent } from '../../../../src/modules/educational/utils/review-items';
+import { scorerRegistry } from '../../../../src/modules/educational/scorers';
+import { ExerciseResponse, ExerciseType } from '../../../../src/modules/educational/educational.types';
+
+function exercise(exerciseType: ExerciseType, content: Record<string, any>): ExerciseResponse {
+  return { id: 'exercise-1', exerciseType, content } as unknown as ExerciseResponse;
+}
+
+const crossword = exercise(ExerciseType.CRUCIGRAMA, {
+  answerMatching: { typoTolerance: false },
+  clues: {
+    across: [{ number: 1, clue: 'Astro rey', answer: 'Sol', synonyms: ['Helios'] }],
+    down: [{ number: 1, clue: 'Satélite', answer: 'Luna' }, { number: 2, clue: 'Planeta azul', answer: 'Tierra' }]
+  }
+});
+
+const quiz = exercise(ExerciseType.QUIZ_TIKTOK, {
+  questions: [
+    { id: 'q1', question: '¿Capital de {{estado}}?', options: ['Mérida', 'Campeche'], correctAnswer: 0, explanation: 'x' },
+    { question: '¿Sin id?', options: ['a', 'b'], correctAnswer: 1 }
+  ],
+  explanations: { q1: 'x' },
+  randomization: { shuffleOptions: true }
+});
+
+describe('isReviewable', () => {
+  it('covers crosswords and the types with items, not teacher-graded ones', () => {
+    expect(isReviewable(ExerciseType.CRUCIGRAMA)).toBe(true);
+    expect(isReviewable(ExerciseType.VERDADERO_FALSO)).toBe(true);
+    expect(isReviewable(ExerciseType.EMPAREJAMIENTO)).toBe(false);
+    expect(isReviewable(ExerciseType.DEBATE_DIGITAL)).toBe(false);
+  });
+});
+
+describe('isolateItem', () => {
+  it('reduces a crossword to one clue the scorer grades by its item id', () => {
+    const isolated = isolateItem(crossword, 'down_2')!;
+
+    expect(isolated.content.clues).toEqual({ down: [crossword.content.clues.down[1]] });
+    expect(scorerRegistry.score({ down_2: 'tierra' }, isolated)).toMatchObject({ score: 100, maxScore: 1 });
+  });
+
+  it('reduces a choice exercise to one question, without the variant settings', () => {
+    const isolated = isolateItem(quiz, 'q1', { estado: 'Yucatán' })!;
+
+    expect(isolated.content).toEqual({
+      questions: [{ ...quiz.content.questions[0], question: '¿Capital de Yucatán?' }]
+    });
+    expect(scorerRegistry.score({ q1: 0 }, isolated).score).toBe(100);
+  });
+
+  it('gives items without an id their position as id', () => {
+    expect(isolateItem(quiz, '1')!.content.questions[0]).toMatchObject({ id: '1', question: '¿Sin id?' });
+  });
+
+  it('returns null for items no longer in the content', () => {
+    expect(isolateItem(quiz, 'q9')).toBeNull();
+    expect(isolateItem(crossword, 'across_7')).toBeNull();
+    expect(isolateItem(crossword, 'diagonal_1')).toBeNull();
+  });
+});
+
+describe('reviewContent', () => {
+  it('hides the answers of a clue and shows its length', () => {
+    expect(reviewContent(isolateItem(crossword, 'across_1')!)).toEqual({
+      clues: { across: [{ number: 1, clue: 'Astro rey', length: 3 }] }
+    });
+  });
+
+  it('hides the answer key of a question', () => {
+    expect(reviewContent(isolateItem(quiz, 'q1')!).questions).toEqual([
+      { id: 'q1', question: '¿Capital de {{estado}}?', options: ['Mérida', 'Campeche'] }
+    ]);
+  });
+});
+
+describe('itemContent', () => {
+  it('returns the item as authored', () => {
+    expect(itemContent(crossword, 'down_1')).toEqual(crossword.content.clues.down[0]);
+    expect(itemContent(quiz, 'q1')).toEqual(quiz.content.questions[0]);
+    expect(itemContent(exercise(ExerciseType.DEBATE_DIGITAL, {}), 'q1')).toBeNull();
+  });
+});
@@ -0,0 +1,111 @@
+import { resolveRubric, scoreRubric } from '../../../../src/modules/educational/utils/rubric';
+import { ExerciseContentValidator } from '../../../../src/modules/educational/validators';
+import { ExerciseRubric } from '../../../../src/modules/educational/educational.types';
+
+const rubric: ExerciseRubric = {
+  criteria: [
+    {
+      id: 'argumento',
+      name: 'Argumento',
+      levels: [
+        { id: 'alto', label: 'Alto', descriptor: 'Tesis clara y sostenida', points: 6 },
+        { id: 'medio', label: 'Medio', descriptor: 'Tesis clara', points: 3 },
+        { id: 'bajo', label: 'Bajo', descriptor: 'Sin tesis', points: 0 }
+      ]
+    },
+    {
+      id: 'fuentes',
+      name: 'Fuentes',
+      levels: [
+        { id: 'alto', label: 'Alto', descriptor: 'Cita y contrasta', points: 4 },
+        { id: 'bajo', label: 'Bajo', descriptor: 'Sin fuentes', points: 1 }
+      ]
+    }
+  ]
+};
+
+describe('scoreRubric', () => {
+  it('scores the share of the maximum points', () => {
+    const grade = scoreRubric(rubric, [
+      { criterionId: 'argumento', levelId: 'medio', comment: '  Falta evidencia ' },
+      { criterionId: 'fuentes', levelId: 'alto' }
+    ]);
+
+    expect(grade).toMatchObject({ earnedPoints: 7, maxPoints: 10, score: 70 });
+    expect(grade.criteria[0]).toEqual({
+      criterionId: 'argumento',
+      criterionName: 'Argumento',
+      levelId: 'medio',
+      levelLabel: 'Medio',
+      points: 3,
+      maxPoints: 6,
+      comment: 'Falta evidencia'
+    });
+    expect(grade.criteria[1].comment).toBeNull();
+  });
+
+  it('requires exactly one known level per criterion', () => {
+    expect.assertions(2);
+
+    try {
+      scoreRubric(rubric, [
+        { criterionId: 'argumento', levelId: 'alto' },
+        { criterionId: 'argumento', levelId: 'bajo' },
+        { criterionId: 'estilo', levelId: 'alto' }
+      ]);
+    } catch (error: any) {
+      expect(error).toMatchObject({ statusCode: 400, code: 'VALIDATION_ERROR' });
+      expect(error.details).toEqual([
+        'Criterion "argumento" is scored more than once',
+        'Criterion "estilo" is not in the rubric',
+        'Criterion "fuentes" is not scored'
+      ]);
+    }
+  });
+
+  it('rejects a level of another criterion', () => {
+    expect(() =>
+      scoreRubric(rubric, [
+        { criterionId: 'argumento', levelId: 'alto' },
+        { criterionId: 'fuentes', levelId: 'medio' }
+      ])
+    ).toThrow(expect.objectContaining({ details: ['Level "medio" is not a level of criterion "fuentes"'] }));
+  });
+});
+
+describe('resolveRubric', () => {
+  const content = { evaluationCriteria: { clarity: 3, evidence: 1, style: 0 } };
+
+  it('uses the exercise rubric when it is valid', () => {
+    expect(resolveRubric(rubric, content)).toEqual({ rubric, source: 'exercise' });
+  });
+
+  it('derives a 100-point rubric from the weighted evaluation criteria', () => {
+    const invalid = { criteria: [{ ...rubric.criteria[0], levels: rubric.criteria[0].levels.map(level => ({ ...level, points: 0 })) }] };
+    const resolved = resolveRubric(invalid, content)!;
+
+    expect(resolved.source).toBe('evaluation_criteria');
+    expect(resolved.rubric.criteria.map(criterion => [criterion.id, criterion.name])).toEqual([
+      ['clarity', 'Claridad'],
+      ['evidence', 'Evidencia']
+    ]);
+    expect(resolved.rubric.criteria[0].levels.map(level => level.points)).toEqual([75, 56.25, 37.5, 0]);
+    expect(
+      scoreRubric(resolved.rubric, [
+        { criterionId: 'clarity', levelId: 'excelente' },
+        { criterionId: 'evidence', levelId: 'en_desarrollo' }
+      ])
+    ).toMatchObject({ earnedPoints: 87.5, maxPoints: 100, score: 88 });
+  });
+
+  it('derives rubrics that pass rubric validation', () => {
+    const derived = resolveRubric(null, content)!.rubric;
+
+    expect(new ExerciseContentValidator().validateRubric(derived).isValid).toBe(true);
+  });
+
+  it('returns null without a rubric or weighted criteria', () => {
+    expect(resolveRubric(undefined, { evaluationCriteria: { clarity: 0 } })).toBeNull();
+    expect(resolveRubric(null, null)).toBeNull();
+  });
+});
@@ -0,0 +1,72 @@
+import {
+  endOfToday,
+  initialSchedule,
+  INITIAL_EASE_FACTOR,
+  reviewQuality,
+  scheduleReview
+} from '../../../../src/modules/educational/utils/spaced-repetition';
+
+const now = new Date('2026-03-01T15:00:00Z');
+
+describe('scheduleReview', () => {
+  it('stretches the interval 1, 6, then by the ease factor on each recall', () => {
+    let schedule = initialSchedule(now);
+    const intervals: number[] = [];
+
+    for (let review = 0; review < 4; review++) {
+      schedule = scheduleReview(schedule, 5, now);
+      intervals.push(schedule.intervalDays);
+    }
+
+    expect(intervals).toEqual([1, 6, 16, 45]);
+    expect(schedule).toMatchObject({ repetitions: 4, easeFactor: 2.9 });
+  });
+
+  it('keeps the ease factor on a quality 4 recall and lowers it on a quality 3 one', () => {
+    const current = { easeFactor: INITIAL_EASE_FACTOR, intervalDays: 6, repetitions: 2 };
+
+    expect(scheduleReview(current, 4, now).easeFactor).toBe(2.5);
+    expect(scheduleReview(current, 3, now)).toMatchObject({ easeFactor: 2.36, intervalDays: 15, repetitions: 3 });
+  });
+
+  it('starts a missed item over, due the next day', () => {
+    const current = { easeFactor: 2.5, intervalDays: 30, repetitions: 5 };
+
+    expect(scheduleReview(current, 2, now)).toEqual({
+      easeFactor: 2.18,
+      intervalDays: 1,
+      repetitions: 0,
+      dueAt: new Date('2026-03-02T15:00:00Z')
+    });
+  });
+
+  it('never lets the ease factor drop below 1.3', () => {
+    expect(scheduleReview({ easeFactor: 1.4, intervalDays: 1, repetitions: 0 }, 0, now).easeFactor).toBe(1.3);
+  });
+
+  it('clamps the quality to 0-5', () => {
+    const current = { easeFactor: 2.5, intervalDays: 6, repetitions: 2 };
+
+    expect(scheduleReview(current, 9, now)).toEqual(scheduleReview(current, 5, now));
+    expect(scheduleReview(current, -3, now)).toEqual(scheduleReview(current, 0, now));
+  });
+});
+
+describe('reviewQuality', () => {
+  it('rates correct answers by the student, at least as recalled', () => {
+    expect(reviewQuality(1)).toBe(4);
+    expect(reviewQuality(1, 5)).toBe(5);
+    expect(reviewQuality(1, 1)).toBe(3);
+  });
+
+  it('rates partial credit as a near miss and no credit as a failure', () => {
+    expect(reviewQuality(0.5, 5)).toBe(2);
+    expect(reviewQuality(0.2)).toBe(1);
+  });
+});
+
+describe('endOfToday', () => {
+  it('is the next UTC midnight', () => {
+    expect(endOfToday(now)).toEqual(new Date('2026-03-02T00:00:00Z'));
+  });
+});
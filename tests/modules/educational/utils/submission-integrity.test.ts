@@ -0,0 +1,77 @@
+import {
+  assessAttempt,
+  DEFAULT_INTEGRITY_POLICY,
+  IntegrityEvidence,
+  resolveIntegrityPolicy
+} from '../../../../src/modules/educational/utils/submission-integrity';
+import { ExerciseResponse } from '../../../../src/modules/educational/educational.types';
+
+// Estimated at 10 minutes, so anything under 2 minutes is too fast
+const exercise = { id: 'exercise-1', estimatedTimeMinutes: 10, content: {} } as unknown as ExerciseResponse;
+
+function evidence(fields: Partial<IntegrityEvidence>): IntegrityEvidence {
+  return { score: 70, timeSpent: 600, duplicates: [], recentAverageScore: null, recentAttempts: 0, ...fields };
+}
+
+function codes(fields: Partial<IntegrityEvidence>) {
+  return assessAttempt(exercise, evidence(fields), DEFAULT_INTEGRITY_POLICY).signals.map(signal => signal.code);
+}
+
+describe('resolveIntegrityPolicy', () => {
+  it('merges the exercise override onto the default', () => {
+    const withOverride = { ...exercise, content: { integrityPolicy: { holdRewards: true, flagThreshold: undefined } } };
+
+    expect(resolveIntegrityPolicy(withOverride as ExerciseResponse)).toEqual({
+      ...DEFAULT_INTEGRITY_POLICY,
+      holdRewards: true
+    });
+  });
+});
+
+describe('assessAttempt', () => {
+  it('finds nothing in an ordinary attempt', () => {
+    expect(assessAttempt(exercise, evidence({}), DEFAULT_INTEGRITY_POLICY)).toEqual({
+      anomalyScore: 0,
+      signals: [],
+      flagged: false,
+      holdRewards: false
+    });
+  });
+
+  it('weighs a fast perfect attempt heavier than a fast poor one', () => {
+    const fastPerfect = assessAttempt(exercise, evidence({ score: 95, timeSpent: 60 }), DEFAULT_INTEGRITY_POLICY);
+    const fastPoor = assessAttempt(exercise, evidence({ score: 40, timeSpent: 60 }), DEFAULT_INTEGRITY_POLICY);
+
+    expect(fastPerfect).toMatchObject({ anomalyScore: 60, flagged: true });
+    expect(fastPoor).toMatchObject({ anomalyScore: 40, flagged: false });
+  });
+
+  it('weighs identical wrong answers heavier than identical perfect ones', () => {
+    const duplicates = [{ attemptId: 'attempt-2', userId: 'profile-2', score: 70 }];
+
+    expect(assessAttempt(exercise, evidence({ duplicates }), DEFAULT_INTEGRITY_POLICY).anomalyScore).toBe(50);
+    expect(assessAttempt(exercise, evidence({ score: 100, duplicates }), DEFAULT_INTEGRITY_POLICY).anomalyScore).toBe(25);
+  });
+
+  it('needs a few recent attempts before a score jump counts', () => {
+    expect(codes({ score: 95, recentAverageScore: 40, recentAttempts: 3 })).toEqual(['score_jump']);
+    expect(codes({ score: 95, recentAverageScore: 40, recentAttempts: 2 })).toEqual([]);
+  });
+
+  it('caps the anomaly score and holds rewards only when the policy says so', () => {
+    const suspicious = evidence({
+      score: 95,
+      timeSpent: 30,
+      duplicates: [{ attemptId: 'attempt-2', userId: 'profile-2', score: 95 }],
+      recentAverageScore: 30,
+      recentAttempts: 5
+    });
+
+    expect(assessAttempt(exercise, suspicious, DEFAULT_INTEGRITY_POLICY)).toMatchObject({
+      anomalyScore: 100,
+      flagged: true,
+      holdRewards: false
+    });
+    expect(assessAttempt(exercise, suspicious, { ...DEFAULT_INTEGRITY_POLICY, holdRewards: true }).holdRewards).toBe(true);
+  });
+});
@@ -0,0 +1,38 @@
+import { childElements, findAll, parseXml, textContent } from '../../../../src/modules/educational/utils/xml';
+
+describe('parseXml', () => {
+  it('reads elements, attributes and text, dropping namespace prefixes', () => {
+    const root = parseXml(`<?xml version="1.0"?>
+      <!DOCTYPE item>
+      <!-- exported -->
+      <qti:item xmlns:qti="urn:qti" qti:identifier='q1' title="a > b">
+        <qti:prompt>Hola <b>mundo</b></qti:prompt>
+        <value/>
+      </qti:item>`);
+
+    expect(root.name).toBe('item');
+    expect(root.attributes).toMatchObject({ identifier: 'q1', title: 'a > b' });
+    expect(childElements(root).map(element => element.name)).toEqual(['prompt', 'value']);
+    expect(textContent(root)).toBe('Hola mundo');
+  });
+
+  it('decodes entities and keeps CDATA as is', () => {
+    const root = parseXml('<p a="&quot;x&quot;">&lt;b&gt; &amp; &#241;&#xF1; <![CDATA[<i>&amp;</i>]]></p>');
+
+    expect(root.attributes.a).toBe('"x"');
+    expect(root.children.join('')).toBe('<b> & ññ <i>&amp;</i>');
+  });
+
+  it('finds descendants in document order', () => {
+    const root = parseXml('<a><v>1</v><b><v>2</v></b><v>3</v></a>');
+
+    expect(findAll(root, 'v').map(textContent)).toEqual(['1', '2', '3']);
+  });
+
+  it('throws on malformed markup', () => {
+    expect(() => parseXml('<a><b></a>')).toThrow('Unexpected closing tag </a>');
+    expect(() => parseXml('<a>')).toThrow('Unclosed tag <a>');
+    expect(() => parseXml('<a title="x>')).toThrow('Unterminated tag');
+    expect(() => parseXml('just text')).toThrow('Document has no root element');
+  });
+});
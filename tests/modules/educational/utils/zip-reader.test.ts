@@ -0,0 +1,37 @@
+import { readZip } from '../../../../src/modules/educational/utils/zip-reader';
+import { buildZip } from '../../../helpers/build-zip';
+
+describe('readZip', () => {
+  it('reads stored and deflated entries', () => {
+    const files = { 'a.txt': 'hola', 'dir/b.xml': '<item>ñandú</item>'.repeat(20) };
+
+    for (const deflate of [false, true]) {
+      const read = readZip(buildZip(files, { deflate }));
+
+      expect([...read.keys()]).toEqual(['a.txt', 'dir/b.xml']);
+      expect(read.get('dir/b.xml')!.toString('utf8')).toBe(files['dir/b.xml']);
+    }
+  });
+
+  it('skips directories', () => {
+    expect([...readZip(buildZip({ 'dir/': '', 'dir/a.txt': 'x' })).keys()]).toEqual(['dir/a.txt']);
+  });
+
+  it('refuses archives that unpack past the limit', () => {
+    const archive = buildZip({ 'big.txt': 'x'.repeat(2048) }, { deflate: true });
+
+    expect(() => readZip(archive, 1024)).toThrow('Zip archive is too large once unpacked');
+  });
+
+  it('refuses encrypted entries', () => {
+    const archive = buildZip({ 'secret.txt': 'x' });
+    // General purpose flags of the central directory entry
+    archive.writeUInt16LE(0x1, archive.indexOf(Buffer.from([0x50, 0x4b, 0x01, 0x02])) + 8);
+
+    expect(() => readZip(archive)).toThrow('Zip entry secret.txt is encrypted');
+  });
+
+  it('refuses data that is not a zip archive', () => {
+    expect(() => readZip(Buffer.alloc(64))).toThrow('Not a zip archive');
+  });
+});
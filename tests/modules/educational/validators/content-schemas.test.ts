@@ -0,0 +1,86 @@
+import { ExerciseContentValidator } from '../../../../src/modules/educational/validators';
+import { ExerciseType } from '../../../../src/modules/educational/educational.types';
+
+const validator = new ExerciseContentValidator();
+
+function fields(exerciseType: ExerciseType | string, content: any) {
+  return validator.validate(exerciseType as ExerciseType, content).errors.map(issue => `${issue.severity} ${issue.field}`);
+}
+
+const timeline = {
+  events: [
+    { id: 'e1', title: 'Independencia', date: '1810', year: 1810, description: '', correctPosition: 0 },
+    { id: 'e2', title: 'Revolución', date: '1910', year: 1910, description: '', correctPosition: 1 }
+  ],
+  timelineRange: { startYear: 1800, endYear: 2000 }
+};
+
+describe('ExerciseContentValidator', () => {
+  it('accepts valid content', () => {
+    expect(validator.validate(ExerciseType.LINEA_TIEMPO, timeline)).toEqual({ isValid: true, errors: [] });
+  });
+
+  it('rejects unknown types and content that is not an object', () => {
+    expect(fields('karaoke', timeline)).toEqual(['error exerciseType']);
+    expect(fields(ExerciseType.LINEA_TIEMPO, [timeline])).toEqual(['error content']);
+  });
+
+  it('reports every shape error by field without converting values', () => {
+    const events = [{ ...timeline.events[0], year: '1810' }, { ...timeline.events[1], title: '  ' }];
+
+    expect(fields(ExerciseType.LINEA_TIEMPO, { ...timeline, events })).toEqual([
+      'error events.0.year',
+      'error events.1.title'
+    ]);
+  });
+
+  it('checks rules across fields once the shape is valid', () => {
+    const events = [timeline.events[0], { ...timeline.events[1], id: 'e1', year: 2020 }];
+
+    expect(fields(ExerciseType.LINEA_TIEMPO, { ...timeline, events })).toEqual([
+      'error events.1.id',
+      'error events.1.year'
+    ]);
+  });
+
+  it('keeps warnings from making content invalid', () => {
+    const events = timeline.events.map(event => ({ ...event, year: 1810 }));
+    const result = validator.validate(ExerciseType.LINEA_TIEMPO, { ...timeline, events });
+
+    expect(result.isValid).toBe(true);
+    expect(result.errors).toEqual([expect.objectContaining({ severity: 'warning', field: 'events' })]);
+  });
+
+  it('requires every word of a word search to be on the grid', () => {
+    const content = { grid: ['SOLX', 'XMAR'], words: ['sol', { word: 'Ramo' }, 'SOL'] };
+
+    expect(fields(ExerciseType.SOPA_LETRAS, content)).toEqual(['error words.1.word', 'error words.2']);
+  });
+
+  it('requires concept map relationships to join known concepts', () => {
+    const content = {
+      concepts: [
+        { id: 'c1', text: 'Agua', level: 0 },
+        { id: 'c2', text: 'Lluvia', level: 1 }
+      ],
+      relationships: [{ id: 'r1', fromConceptId: 'c1', toConceptId: 'c3', label: 'forma', type: 'causes' }],
+      mainConcept: 'Agua'
+    };
+
+    expect(fields(ExerciseType.MAPA_CONCEPTUAL, content)).toEqual(['error relationships.0.toConceptId']);
+  });
+
+  it('requires the correct answer to be among the options', () => {
+    const content = { questions: [{ id: 'q1', question: '¿Quién?', options: ['Ana', 'Luis'], correctAnswer: 'Eva' }] };
+
+    expect(fields(ExerciseType.ANALISIS_MEMES, content)).toEqual(['error questions.0.correctAnswer']);
+  });
+
+  it('validates only the shared fields statically', () => {
+    expect(ExerciseContentValidator.validate({ attemptPolicy: { scorePolicy: 'worst' } })).toEqual({
+      valid: false,
+      errors: [expect.stringContaining('attemptPolicy.scorePolicy')]
+    });
+    expect(ExerciseContentValidator.validate({ anything: 'else' })).toEqual({ valid: true });
+  });
+});
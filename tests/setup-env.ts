@@ -0,0 +1,7 @@
+/**
+ * Environment for unit tests; nothing connects to a database
+ */
+process.env.NODE_ENV = 'test';
+process.env.DB_PASSWORD = process.env.DB_PASSWORD || 'test';
+process.env.JWT_SECRET = process.env.JWT_SECRET || 'test_secret_for_unit_tests_only_0000000000';
+process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'error';